@@ -0,0 +1,91 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createAdminRouter } from './admin-api';
+import { CollaborationSocketServer } from './collaboration-socket-server';
+import { DocumentManager } from './document-manager';
+import { CollaborationMetrics, MetricsSnapshot } from './metrics';
+
+const TOKEN = 'admin-secret';
+
+describe('admin API', () => {
+  let server: Server;
+  let baseUrl: string;
+  const metrics = new CollaborationMetrics();
+
+  beforeAll(async () => {
+    metrics.recordEvent('cursor-update');
+    metrics.recordRateLimited('cursor-update', 'room');
+
+    // Stand-ins for the collaboration server and document manager
+    const collaborationServer = {
+      getMetrics: () => metrics,
+      getRooms: async () => [
+        { groupId: 'room-1', socketCount: 2, users: [{ id: 'user-1' }, { id: 'user-2' }], presenterId: null }
+      ],
+      getRoom: async (groupId: string) =>
+        groupId === 'room-1' ? { groupId, socketCount: 2, users: [], presenterId: null } : null,
+      getConnectedUsers: async () => [{ userId: 'user-1', socketCount: 1, rooms: { 'room-1': 'owner' } }],
+      isUserOnline: async (userId: string) => userId === 'user-1'
+    } as unknown as CollaborationSocketServer;
+    const documentManager = { getLoadedDocumentCount: () => 3 } as unknown as DocumentManager;
+
+    const app = express();
+    app.use(createAdminRouter({ collaborationServer, documentManager, getSocketCount: () => 5, adminToken: TOKEN }));
+
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const get = (path: string, token: string | null = TOKEN) =>
+    fetch(`${baseUrl}${path}`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+  const getJson = async <T>(path: string): Promise<T> => (await (await get(path)).json()) as T;
+
+  test('rejects requests without the admin token', async () => {
+    expect((await get('/admin/rooms', null)).status).toBe(401);
+    expect((await get('/admin/rooms', 'wrong')).status).toBe(401);
+    expect((await get('/metrics', null)).status).toBe(401);
+  });
+
+  test('lists rooms and looks up a single room', async () => {
+    const rooms = await getJson<{ rooms: unknown[] }>('/admin/rooms');
+    expect(rooms.rooms).toHaveLength(1);
+
+    expect((await get('/admin/rooms/room-1')).status).toBe(200);
+    expect((await get('/admin/rooms/room-2')).status).toBe(404);
+  });
+
+  test('reports connected users', async () => {
+    const user = await getJson<unknown>('/admin/users/user-1');
+    expect(user).toEqual({ userId: 'user-1', online: true, socketCount: 1, rooms: { 'room-1': 'owner' } });
+
+    const offline = await getJson<{ online: boolean }>('/admin/users/user-9');
+    expect(offline.online).toBe(false);
+  });
+
+  test('reports event throughput and rejections', async () => {
+    const stats = await getJson<MetricsSnapshot & { connectedSockets: number; loadedDocuments: number }>('/admin/stats');
+
+    expect(stats.events[0]).toMatchObject({ event: 'cursor-update', total: 1 });
+    expect(stats.rateLimited).toEqual([{ event: 'cursor-update', scope: 'room', total: 1 }]);
+    expect(stats.connectedSockets).toBe(5);
+    expect(stats.loadedDocuments).toBe(3);
+  });
+
+  test('serves Prometheus metrics', async () => {
+    const response = await get('/metrics');
+    const text = await response.text();
+
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(text).toContain('collab_events_total{event="cursor-update"} 1');
+    expect(text).toContain('collab_connected_sockets 5');
+    expect(text).toContain('collab_room_users 2');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Admin API for the collaboration socket server
+ * Authenticated HTTP endpoints for rooms, connected users and event metrics, plus Prometheus `/metrics`
+ *
+ * Every route requires `Authorization: Bearer <ADMIN_API_TOKEN>`. Rooms and
+ * users are gathered from every node; event counters are for this node.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response, Router } from 'express';
+import { CollaborationSocketServer } from './collaboration-socket-server';
+import { DocumentManager } from './document-manager';
+import { PrometheusMetric, formatPrometheus } from './metrics';
+
+interface AdminApiDependencies {
+  collaborationServer: CollaborationSocketServer;
+  documentManager: DocumentManager;
+  /** Sockets connected to this node */
+  getSocketCount: () => number;
+  adminToken: string;
+}
+
+// Hash both sides so the comparison takes the same time whatever the token length
+function tokensMatch(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+export function requireAdminToken(adminToken: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.headers.authorization ?? '';
+    const [scheme, token] = header.split(' ');
+
+    if (scheme !== 'Bearer' || !token || !tokensMatch(token, adminToken)) {
+      res.status(401).json({ error: 'Admin token required' });
+      return;
+    }
+    next();
+  };
+}
+
+// Route errors become a 500 rather than an unhandled rejection
+function handle(route: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response): void => {
+    route(req, res).catch(error => {
+      console.error(`Admin API error on ${req.path}:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    });
+  };
+}
+
+export function createAdminRouter({
+  collaborationServer,
+  documentManager,
+  getSocketCount,
+  adminToken
+}: AdminApiDependencies): Router {
+  const router = Router();
+  const metrics = collaborationServer.getMetrics();
+
+  router.use(['/admin', '/metrics'], requireAdminToken(adminToken));
+
+  router.get('/admin/rooms', handle(async (req, res) => {
+    const rooms = await collaborationServer.getRooms();
+    res.json({ rooms });
+  }));
+
+  router.get('/admin/rooms/:groupId', handle(async (req, res) => {
+    const room = await collaborationServer.getRoom(req.params.groupId);
+    if (!room) {
+      res.status(404).json({ error: 'Room has no connected users' });
+      return;
+    }
+    res.json(room);
+  }));
+
+  router.get('/admin/users', handle(async (req, res) => {
+    const users = await collaborationServer.getConnectedUsers();
+    res.json({ users });
+  }));
+
+  router.get('/admin/users/:userId', handle(async (req, res) => {
+    const { userId } = req.params;
+    const users = await collaborationServer.getConnectedUsers();
+    const user = users.find(connected => connected.userId === userId);
+    res.json({
+      userId,
+      online: await collaborationServer.isUserOnline(userId),
+      socketCount: user?.socketCount ?? 0,
+      rooms: user?.rooms ?? {}
+    });
+  }));
+
+  // Per-event throughput and rejections on this node
+  router.get('/admin/stats', handle(async (req, res) => {
+    res.json({
+      ...metrics.getSnapshot(),
+      connectedSockets: getSocketCount(),
+      loadedDocuments: documentManager.getLoadedDocumentCount()
+    });
+  }));
+
+  router.get('/metrics', handle(async (req, res) => {
+    const rooms = await collaborationServer.getRooms();
+    const gauges: PrometheusMetric[] = [
+      {
+        name: 'collab_connected_sockets',
+        help: 'Sockets connected to this node',
+        type: 'gauge',
+        samples: [{ value: getSocketCount() }]
+      },
+      {
+        name: 'collab_active_rooms',
+        help: 'Rooms with at least one connected socket, across all nodes',
+        type: 'gauge',
+        samples: [{ value: rooms.length }]
+      },
+      {
+        name: 'collab_room_users',
+        help: 'Users present in collaboration rooms, across all nodes',
+        type: 'gauge',
+        samples: [{ value: rooms.reduce((sum, room) => sum + room.users.length, 0) }]
+      },
+      {
+        name: 'collab_loaded_documents',
+        help: 'Shared documents held in memory on this node',
+        type: 'gauge',
+        samples: [{ value: documentManager.getLoadedDocumentCount() }]
+      }
+    ];
+
+    res.type('text/plain; version=0.0.4');
+    res.send(formatPrometheus([...metrics.toPrometheusMetrics(), ...gauges]));
+  }));
+
+  return router;
+}
@@ -1,54 +1,93 @@
+import { randomBytes } from 'crypto';
 import { Server, Socket } from 'socket.io';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { RateLimiter } from './rate-limiter';
-
-interface RateLimiters {
-  connection: RateLimiter;
-  roomJoin: RateLimiter;
-  cursorUpdate: RateLimiter;
-  selectionUpdate: RateLimiter;
-  typing: RateLimiter;
-  fileSwitch: RateLimiter;
-  activity: RateLimiter;
+import { RateLimitName, RateLimiters } from './rate-limiter';
+import { DocumentConflict, DocumentConflictError, DocumentManager, DocumentNotFoundError } from './document-manager';
+import {
+  CollaborationUser,
+  CursorPosition,
+  FilePosition,
+  PresenceStore,
+  TextSelection,
+  TypingEntry
+} from './presence-store';
+import { CollaborationAction, CollaborationRole, canPerform, toCollaborationRole } from './room-permissions';
+import { SessionRecorder } from './session-recorder';
+import { CollaborationMetrics } from './metrics';
+import { ClientEventName, ClientEventPayload, ClientToServerEvents, ValidationError, parseClientEvent } from './socket-event-schemas';
+import { ResumeRoom, createSessionToken, verifySessionToken } from './session-token';
+import {
+  DEFAULT_PRESENCE_THRESHOLDS,
+  ManualStatus,
+  PresenceSettings,
+  PresenceStatus,
+  PresenceThresholds,
+  getAutomaticStatus,
+  getNextTransitionMs,
+  isManualStatus,
+  resolvePresenceStatus,
+  resolveThresholds
+} from './presence-status';
+
+// Everything a newcomer needs to render the room without waiting for peers to move
+interface RoomState {
+  groupId: string;
+  users: CollaborationUser[];
+  cursors: FilePosition<CursorPosition>[];
+  selections: FilePosition<TextSelection>[];
+  typing: TypingEntry[];
+  presenterId: string | null;
+  presenceSettings: PresenceSettings;
 }
 
-interface CollaborationUser {
-  id: string;
-  name: string;
-  color: string;
-  status: 'online' | 'away' | 'offline';
-  currentFile?: string;
+interface PresenceChanged {
+  groupId: string;
+  userId: string;
+  status: PresenceStatus;
+  manualStatus: ManualStatus | null;
   lastActivity: Date;
 }
 
-interface CursorPosition {
+// Where a user is looking, relayed to whoever follows them
+interface Viewport {
+  fileId: string;
+  scrollTop: number;
+  scrollLeft: number;
   line: number;
   column: number;
-  userId: string;
-  userName: string;
-  color: string;
-  timestamp: number;
 }
 
-interface TextSelection {
-  startLine: number;
-  startColumn: number;
-  endLine: number;
-  endColumn: number;
-  userId: string;
-  userName: string;
-  color: string;
+// Sent to every socket on a draining node, telling it when to reconnect elsewhere
+interface ServerRestarting {
+  reconnectInMs: number;
+  /** Lets another node put the socket back in its rooms */
+  sessionToken: string;
+  message: string;
+}
+
+interface PermissionDenied {
+  event: keyof ClientToServerEvents;
+  groupId: string;
+  fileId?: string;
+  reason: 'not-joined' | 'insufficient-role' | 'following-disabled';
+  message: string;
+}
+
+// An event whose handler failed on the server's side, e.g. because the presence store was unreachable
+interface ServerError {
+  event: keyof ClientToServerEvents;
+  message: string;
 }
 
-interface ClientToServerEvents {
-  'join-collaboration': (data: { groupId: string }) => void;
-  'leave-collaboration': (data: { groupId: string }) => void;
-  'cursor-update': (data: { groupId: string; fileId: string; cursor: Omit<CursorPosition, 'userId'> }) => void;
-  'selection-update': (data: { groupId: string; fileId: string; selection: Omit<TextSelection, 'userId'> }) => void;
-  'typing-start': (data: { groupId: string; fileId: string }) => void;
-  'typing-stop': (data: { groupId: string; fileId: string }) => void;
-  'file-switch': (data: { groupId: string; fileId: string }) => void;
-  'user-activity': (data: { groupId: string }) => void;
+interface RateLimited {
+  event: keyof ClientToServerEvents;
+  /** Whether the user's own limit or the room's shared limit was hit */
+  scope: 'user' | 'room';
+  groupId?: string;
+  fileId?: string;
+  /** How long to wait before sending this event again */
+  retryAfterMs: number;
+  message: string;
 }
 
 interface ServerToClientEvents {
@@ -59,121 +98,575 @@ interface ServerToClientEvents {
   'user-typing': (data: { fileId: string; userId: string; isTyping: boolean }) => void;
   'file-switched': (data: { fileId: string; userId: string }) => void;
   'connection-status': (status: 'connected' | 'disconnected') => void;
-  'user-activity-updated': (data: { userId: string; lastActivity: Date }) => void;
+  'presence-changed': (data: PresenceChanged) => void;
+  'presence-settings-changed': (data: { groupId: string } & PresenceSettings) => void;
   'auth-error': (message: string) => void;
-  'rate-limited': (message: string) => void;
+  'rate-limited': (data: RateLimited) => void;
+  'collaboration-joined': (data: { groupId: string; role: CollaborationRole }) => void;
+  'permission-denied': (data: PermissionDenied) => void;
+  'validation-error': (data: ValidationError) => void;
+  'server-error': (data: ServerError) => void;
+  'server-restarting': (data: ServerRestarting) => void;
+  'session-resumed': (data: { groupIds: string[] }) => void;
+  'session-resume-failed': (data: { message: string }) => void;
+  'room-state': (state: RoomState) => void;
+  'follow-started': (data: { groupId: string; userId: string; fileId?: string; cursor?: CursorPosition }) => void;
+  'follow-stopped': (data: { groupId: string; userId: string; reason: 'unfollowed' | 'not-allowed' | 'left' }) => void;
+  'viewport-updated': (data: { userId: string } & Viewport) => void;
+  'presenter-changed': (data: { groupId: string; presenterId: string | null; fileId?: string }) => void;
+  'doc-sync': (data: { fileId: string; update: string; stateVector: string }) => void;
+  'doc-update': (data: { fileId: string; update: string }) => void;
+  'awareness-update': (data: { fileId: string; update: string }) => void;
+  'doc-persisted': (data: { fileId: string; updatedAt: string }) => void;
+  'doc-error': (data: { fileId: string; message: string }) => void;
+  'doc-conflict': (data: { fileId: string } & DocumentConflict) => void;
+}
+
+// Events exchanged between socket server nodes through the adapter
+interface InterServerEvents {
+  'doc-update': (data: { groupId: string; fileId: string; update: string }) => void;
+  'doc-state-request': (
+    data: { groupId: string; fileId: string; stateVector: string },
+    callback: (update: string | null) => void
+  ) => void;
+}
+
+interface CollaborationServerOptions {
+  /** Set when running several nodes behind a shared adapter */
+  clustered: boolean;
+  /** Server-wide idle and offline thresholds; rooms may override them */
+  presenceThresholds: PresenceThresholds;
+  /** Where event counts and rejections are recorded; one is created if not given */
+  metrics?: CollaborationMetrics;
+  /** Signs session tokens; must be the same on every node for clients to resume elsewhere */
+  sessionSecret?: string;
+}
+
+interface DrainOptions {
+  /** Clients are told to reconnect at a random point within this window, spreading the load */
+  reconnectWindowMs: number;
+  /** Sockets still connected after this are disconnected */
+  timeoutMs: number;
+}
+
+const DEFAULT_DRAIN_OPTIONS: DrainOptions = {
+  reconnectWindowMs: 5000,
+  timeoutMs: 15000
+};
+
+// Well inside the presence store's expiry, so a connected but idle socket is never forgotten
+const SOCKET_REFRESH_MS = 10 * 60 * 1000;
+
+// Long enough to reconnect through a rolling restart, short enough that a leaked token is soon useless
+const SESSION_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+// Admin view of a room, gathered from every node
+export interface RoomSummary {
+  groupId: string;
+  socketCount: number;
+  users: CollaborationUser[];
+  presenterId: string | null;
 }
 
+// Admin view of a connected user, gathered from every node
+export interface ConnectedUser {
+  userId: string;
+  socketCount: number;
+  rooms: Record<string, CollaborationRole>;
+}
+
+const DEFAULT_OPTIONS: CollaborationServerOptions = {
+  clustered: false,
+  presenceThresholds: DEFAULT_PRESENCE_THRESHOLDS
+};
+
+const NO_PRESENCE_SETTINGS: PresenceSettings = { idleTimeoutSeconds: null, offlineTimeoutSeconds: null };
+
 interface AuthenticatedSocket extends Socket<ClientToServerEvents, ServerToClientEvents> {
   data: {
     user: { id: string; email?: string };
     userId: string;
+    /** Rooms this socket has joined, with the role it joined as */
+    rooms: Record<string, CollaborationRole>;
   };
 }
 
 type CollaborationSocket = AuthenticatedSocket;
 
 export class CollaborationSocketServer {
-  private io: Server<ClientToServerEvents, ServerToClientEvents>;
+  private io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents>;
   private supabase: SupabaseClient;
   private rateLimiters: RateLimiters;
-  private activeUsers: Map<string, CollaborationUser> = new Map();
-  private userSessions: Map<string, { socketId: string; groupId: string }> = new Map();
-  private typingUsers: Map<string, Set<string>> = new Map(); // fileId -> Set of userIds
-  private activityTimers: Map<string, NodeJS.Timeout> = new Map();
+  private documentManager: DocumentManager;
+  private presenceStore: PresenceStore;
+  private sessionRecorder: SessionRecorder;
+  private options: CollaborationServerOptions;
+  private metrics: CollaborationMetrics;
+  // Timers stay node-local: they belong to the node that owns the user's socket
+  private activityTimers: Map<string, NodeJS.Timeout> = new Map(); // groupId:userId -> timer
+  private visibleSockets: Map<string, Set<string>> = new Map(); // groupId:userId -> visible socket ids
+  private roomPresenceSettings: Map<string, PresenceSettings> = new Map(); // groupId -> settings
+  private sessionSecret: string;
+  private draining = false;
+  // Users whose last socket here left during a drain; they leave for good unless they resume elsewhere
+  private pendingDepartures: Set<string> = new Set(); // groupId:userId
+  private disconnecting: Set<Promise<void>> = new Set();
 
   constructor(
-    io: Server<ClientToServerEvents, ServerToClientEvents>, 
+    io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents>, 
     supabase: SupabaseClient,
-    rateLimiters: RateLimiters
+    rateLimiters: RateLimiters,
+    documentManager: DocumentManager,
+    presenceStore: PresenceStore,
+    sessionRecorder: SessionRecorder,
+    options: Partial<CollaborationServerOptions> = {}
   ) {
     this.io = io;
     this.supabase = supabase;
     this.rateLimiters = rateLimiters;
+    this.documentManager = documentManager;
+    this.presenceStore = presenceStore;
+    this.sessionRecorder = sessionRecorder;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.metrics = this.options.metrics ?? new CollaborationMetrics();
+    this.sessionSecret = this.options.sessionSecret ?? randomBytes(32).toString('hex');
   }
 
   public initialize(): void {
+    if (this.options.clustered) {
+      this.initializeClusterSync();
+    }
+
+    // Let every subscriber of a file know once its snapshot has been written
+    this.documentManager.onPersisted((groupId, fileId, updatedAt) => {
+      this.io.to(this.getFileRoom(groupId, fileId)).emit('doc-persisted', { fileId, updatedAt });
+    });
+
+    // A save made outside the session is merged by one of the file's subscribers, not overwritten
+    this.documentManager.onConflict((groupId, fileId, conflict) => {
+      this.io.to(this.getFileRoom(groupId, fileId)).emit('doc-conflict', { fileId, ...conflict });
+    });
+
     this.io.on('connection', (socket: CollaborationSocket) => {
       const userId = socket.data.userId;
+      socket.data.rooms = {};
       console.log(`Authenticated socket connected: ${socket.id} (User: ${userId})`);
 
+      // Count events we handle; unknown event names would grow the metrics without bound
+      socket.onAny((event: string) => {
+        if (socket.listeners(event as keyof ClientToServerEvents).length > 0) this.metrics.recordEvent(event);
+      });
+
       // Handle user joining collaboration room
-      socket.on('join-collaboration', async (data) => {
-        if (!this.checkRateLimit(socket, this.rateLimiters.roomJoin, 'room join')) return;
+      socket.on('join-collaboration', this.guard(socket, 'join-collaboration', async (payload) => {
+        const data = this.validate(socket, 'join-collaboration', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'roomJoin', 'join-collaboration', data)) return;
+        // A draining node takes no new members; the client joins again on another node
+        if (this.draining) {
+          await this.notifyRestarting(socket, 0);
+          return;
+        }
         await this.handleJoinCollaboration(socket, data);
-      });
+      }));
 
       // Handle user leaving collaboration room
-      socket.on('leave-collaboration', (data) => {
-        this.handleLeaveCollaboration(socket, data);
-      });
+      socket.on('leave-collaboration', this.guard(socket, 'leave-collaboration', async (payload) => {
+        const data = this.validate(socket, 'leave-collaboration', payload);
+        if (!data) return;
+        if (!this.getRole(socket, data.groupId)) return;
+        await this.handleLeaveCollaboration(socket, data);
+      }));
 
       // Handle cursor position updates
-      socket.on('cursor-update', (data) => {
-        if (!this.checkRateLimit(socket, this.rateLimiters.cursorUpdate, 'cursor update')) return;
-        this.handleCursorUpdate(socket, data);
-      });
+      socket.on('cursor-update', this.guard(socket, 'cursor-update', async (payload) => {
+        const data = this.validate(socket, 'cursor-update', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'cursorUpdate', 'cursor-update', data)) return;
+        if (!this.authorize(socket, 'cursor-update', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'cursorUpdate', 'cursor-update', data)) return;
+        await this.handleCursorUpdate(socket, data);
+      }));
 
       // Handle text selection updates
-      socket.on('selection-update', (data) => {
-        if (!this.checkRateLimit(socket, this.rateLimiters.selectionUpdate, 'selection update')) return;
-        this.handleSelectionUpdate(socket, data);
-      });
+      socket.on('selection-update', this.guard(socket, 'selection-update', async (payload) => {
+        const data = this.validate(socket, 'selection-update', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'selectionUpdate', 'selection-update', data)) return;
+        if (!this.authorize(socket, 'selection-update', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'selectionUpdate', 'selection-update', data)) return;
+        await this.handleSelectionUpdate(socket, data);
+      }));
 
       // Handle typing indicators
-      socket.on('typing-start', (data) => {
-        if (!this.checkRateLimit(socket, this.rateLimiters.typing, 'typing')) return;
-        this.handleTypingStart(socket, data);
+      socket.on('typing-start', this.guard(socket, 'typing-start', async (payload) => {
+        const data = this.validate(socket, 'typing-start', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'typing', 'typing-start', data)) return;
+        if (!this.authorize(socket, 'typing-start', 'edit', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'typing', 'typing-start', data)) return;
+        await this.handleTypingStart(socket, data);
+      }));
+
+      socket.on('typing-stop', this.guard(socket, 'typing-stop', async (payload) => {
+        const data = this.validate(socket, 'typing-stop', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'typing', 'typing-stop', data)) return;
+        if (!this.authorize(socket, 'typing-stop', 'edit', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'typing', 'typing-stop', data)) return;
+        await this.handleTypingStop(socket, data);
+      }));
+
+      // Handle file switching
+      socket.on('file-switch', this.guard(socket, 'file-switch', async (payload) => {
+        const data = this.validate(socket, 'file-switch', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'fileSwitch', 'file-switch', data)) return;
+        if (!this.authorize(socket, 'file-switch', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'fileSwitch', 'file-switch', data)) return;
+        await this.handleFileSwitch(socket, data);
+      }));
+
+      // Handle user activity updates
+      socket.on('user-activity', (payload) => {
+        const data = this.validate(socket, 'user-activity', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'activity', 'user-activity', data)) return;
+        if (!this.authorize(socket, 'user-activity', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'activity', 'user-activity', data)) return;
+        this.handleUserActivity(socket, data);
       });
 
-      socket.on('typing-stop', (data) => {
-        if (!this.checkRateLimit(socket, this.rateLimiters.typing, 'typing')) return;
-        this.handleTypingStop(socket, data);
+      // Handle document sync for late joiners
+      socket.on('doc-subscribe', this.guard(socket, 'doc-subscribe', async (payload) => {
+        const data = this.validate(socket, 'doc-subscribe', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'docSync', 'doc-subscribe', data)) return;
+        if (!this.authorize(socket, 'doc-subscribe', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'docSync', 'doc-subscribe', data)) return;
+        await this.handleDocSubscribe(socket, data);
+      }));
+
+      socket.on('doc-unsubscribe', (payload) => {
+        const data = this.validate(socket, 'doc-unsubscribe', payload);
+        if (!data) return;
+        if (!this.authorize(socket, 'doc-unsubscribe', 'view', data)) return;
+        this.handleDocUnsubscribe(socket, data);
       });
 
-      // Handle file switching
-      socket.on('file-switch', (data) => {
-        if (!this.checkRateLimit(socket, this.rateLimiters.fileSwitch, 'file switch')) return;
-        this.handleFileSwitch(socket, data);
+      // Handle document edits
+      socket.on('doc-update', (payload) => {
+        const data = this.validate(socket, 'doc-update', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'docUpdate', 'doc-update', data)) return;
+        if (!this.authorize(socket, 'doc-update', 'edit', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'docUpdate', 'doc-update', data)) return;
+        this.handleDocUpdate(socket, data);
       });
 
-      // Handle user activity updates
-      socket.on('user-activity', (data) => {
-        if (!this.checkRateLimit(socket, this.rateLimiters.activity, 'activity')) return;
-        this.handleUserActivity(socket, data);
+      // Handle explicit saves
+      socket.on('doc-save', this.guard(socket, 'doc-save', async (payload) => {
+        const data = this.validate(socket, 'doc-save', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'docSync', 'doc-save', data)) return;
+        if (!this.authorize(socket, 'doc-save', 'edit', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'docSync', 'doc-save', data)) return;
+        await this.handleDocSave(socket, data);
+      }));
+
+      // Handle editor awareness (remote cursors rendered by the Yjs binding)
+      socket.on('awareness-update', (payload) => {
+        const data = this.validate(socket, 'awareness-update', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'awareness', 'awareness-update', data)) return;
+        if (!this.authorize(socket, 'awareness-update', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'awareness', 'awareness-update', data)) return;
+        this.handleAwarenessUpdate(socket, data);
       });
 
+      // Handle follow mode
+      socket.on('follow-user', this.guard(socket, 'follow-user', async (payload) => {
+        const data = this.validate(socket, 'follow-user', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'follow', 'follow-user', data)) return;
+        if (!this.authorize(socket, 'follow-user', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'follow', 'follow-user', data)) return;
+        await this.handleFollowUser(socket, data);
+      }));
+
+      socket.on('unfollow-user', (payload) => {
+        const data = this.validate(socket, 'unfollow-user', payload);
+        if (!data) return;
+        if (!this.authorize(socket, 'unfollow-user', 'view', data)) return;
+        this.handleUnfollowUser(socket, data);
+      });
+
+      socket.on('follow-preference', this.guard(socket, 'follow-preference', async (payload) => {
+        const data = this.validate(socket, 'follow-preference', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'follow', 'follow-preference', data)) return;
+        if (!this.authorize(socket, 'follow-preference', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'follow', 'follow-preference', data)) return;
+        await this.handleFollowPreference(socket, data);
+      }));
+
+      socket.on('viewport-update', this.guard(socket, 'viewport-update', async (payload) => {
+        const data = this.validate(socket, 'viewport-update', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'viewport', 'viewport-update', data)) return;
+        if (!this.authorize(socket, 'viewport-update', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'viewport', 'viewport-update', data)) return;
+        await this.handleViewportUpdate(socket, data);
+      }));
+
+      // Handle presenter mode
+      socket.on('presenter-start', this.guard(socket, 'presenter-start', async (payload) => {
+        const data = this.validate(socket, 'presenter-start', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'follow', 'presenter-start', data)) return;
+        if (!this.authorize(socket, 'presenter-start', 'manage', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'follow', 'presenter-start', data)) return;
+        await this.handlePresenterStart(socket, data);
+      }));
+
+      socket.on('presenter-stop', this.guard(socket, 'presenter-stop', async (payload) => {
+        const data = this.validate(socket, 'presenter-stop', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'follow', 'presenter-stop', data)) return;
+        if (!this.authorize(socket, 'presenter-stop', 'manage', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'follow', 'presenter-stop', data)) return;
+        await this.handlePresenterStop(data.groupId);
+      }));
+
+      // Handle presence status
+      socket.on('visibility-change', this.guard(socket, 'visibility-change', async (payload) => {
+        const data = this.validate(socket, 'visibility-change', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'presence', 'visibility-change', data)) return;
+        if (!this.authorize(socket, 'visibility-change', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'presence', 'visibility-change', data)) return;
+        await this.handleVisibilityChange(socket, data);
+      }));
+
+      socket.on('set-status', this.guard(socket, 'set-status', async (payload) => {
+        const data = this.validate(socket, 'set-status', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'presence', 'set-status', data)) return;
+        if (!this.authorize(socket, 'set-status', 'view', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'presence', 'set-status', data)) return;
+        await this.handleSetStatus(socket, data);
+      }));
+
+      socket.on('presence-settings', this.guard(socket, 'presence-settings', async (payload) => {
+        const data = this.validate(socket, 'presence-settings', payload);
+        if (!data) return;
+        if (!this.checkRateLimit(socket, 'presence', 'presence-settings', data)) return;
+        if (!this.authorize(socket, 'presence-settings', 'manage', data)) return;
+        if (!this.checkRoomRateLimit(socket, 'presence', 'presence-settings', data)) return;
+        await this.handlePresenceSettings(data);
+      }));
+
+      const refreshTimer = setInterval(() => {
+        this.presenceStore.refreshSocket(socket.id).catch(error => {
+          console.error(`Failed to refresh presence for socket ${socket.id}:`, error);
+        });
+      }, SOCKET_REFRESH_MS);
+
       // Handle disconnection
-      socket.on('disconnect', () => {
-        this.handleDisconnection(socket);
+      socket.on('disconnect', async () => {
+        clearInterval(refreshTimer);
+        // Nobody is left to tell, so a failed cleanup is only logged
+        const cleanup = this.handleDisconnection(socket).catch(error => {
+          console.error(`Disconnect cleanup failed for socket ${socket.id} (User: ${userId}):`, error);
+        });
+        this.disconnecting.add(cleanup);
+        await cleanup;
+        this.disconnecting.delete(cleanup);
       });
 
       // Send connection confirmation
       socket.emit('connection-status', 'connected');
+
+      // Put a client moved off a draining node back in its rooms
+      const sessionToken: unknown = socket.handshake.auth?.sessionToken;
+      if (sessionToken) {
+        this.resumeSession(socket, sessionToken).catch(error => {
+          console.error(`Failed to resume session for user ${userId}:`, error);
+          socket.emit('session-resume-failed', { message: 'Could not restore your rooms' });
+        });
+      }
+    });
+  }
+
+  /**
+   * Keep documents hosted on several nodes in step: edits are forwarded to the
+   * other nodes, and a node loading a document asks peers for unpersisted state.
+   */
+  private initializeClusterSync(): void {
+    this.io.on('doc-update', ({ groupId, fileId, update }) => {
+      this.documentManager.applyPeerUpdate(groupId, fileId, this.decode(update));
+    });
+
+    this.io.on('doc-state-request', ({ groupId, fileId, stateVector }, callback) => {
+      const diff = this.documentManager.getStateDiff(groupId, fileId, this.decode(stateVector));
+      callback(diff ? this.encode(diff) : null);
+    });
+
+    // The adapter's request timeout bounds how long a load waits for peers
+    this.documentManager.setPeerStateLoader(async (groupId, fileId, stateVector) => {
+      const responses: Array<string | null> = await this.io.serverSideEmitWithAck('doc-state-request', {
+        groupId,
+        fileId,
+        stateVector: this.encode(stateVector)
+      });
+      return responses
+        .filter((update): update is string => !!update)
+        .map(update => this.decode(update));
     });
   }
 
   /**
-   * Check rate limit for a user action
-   * @returns true if allowed, false if rate limited
+   * Check a user's rate limit for an event
+   * @returns true if allowed, false if a rate-limited event was sent
    */
   private checkRateLimit(
-    socket: CollaborationSocket, 
-    limiter: RateLimiter, 
-    action: string
+    socket: CollaborationSocket,
+    limit: RateLimitName,
+    event: keyof ClientToServerEvents,
+    data?: { groupId?: string; fileId?: string }
   ): boolean {
     const userId = socket.data.userId;
-    if (!limiter.isAllowed(userId)) {
-      console.log(`Rate limited ${action} for user: ${userId}`);
-      socket.emit('rate-limited', `Too many ${action} requests. Please slow down.`);
+    const { allowed, retryAfterMs } = this.rateLimiters.user[limit].check(userId);
+    if (allowed) return true;
+
+    console.log(`Rate limited ${event} for user: ${userId}`);
+    this.metrics.recordRateLimited(event, 'user');
+    socket.emit('rate-limited', {
+      event,
+      scope: 'user',
+      groupId: data?.groupId,
+      fileId: data?.fileId,
+      retryAfterMs,
+      message: 'Too many requests. Please slow down.'
+    });
+    return false;
+  }
+
+  /**
+   * Check a room's aggregate rate limit for an event, once the socket is known to be in the room.
+   * Room limits are counted per node.
+   * @returns true if allowed, false if a rate-limited event was sent
+   */
+  private checkRoomRateLimit(
+    socket: CollaborationSocket,
+    limit: RateLimitName,
+    event: keyof ClientToServerEvents,
+    data: { groupId: string; fileId?: string }
+  ): boolean {
+    const limiter = this.rateLimiters.room[limit];
+    if (!limiter) return true;
+
+    const { allowed, retryAfterMs } = limiter.check(data.groupId);
+    if (allowed) return true;
+
+    console.log(`Rate limited ${event} for room: ${data.groupId}`);
+    this.metrics.recordRateLimited(event, 'room');
+    socket.emit('rate-limited', {
+      event,
+      scope: 'room',
+      groupId: data.groupId,
+      fileId: data.fileId,
+      retryAfterMs,
+      message: 'This room is very busy. Please slow down.'
+    });
+    return false;
+  }
+
+  /**
+   * Check that the socket joined the event's room with a role allowed to take the action
+   * @returns true if allowed, false if a permission-denied event was sent
+   */
+  private authorize(
+    socket: CollaborationSocket,
+    event: keyof ClientToServerEvents,
+    action: CollaborationAction,
+    data: { groupId: string; fileId?: string }
+  ): boolean {
+    const { groupId, fileId } = data;
+    const role = this.getRole(socket, groupId);
+
+    if (!role) {
+      this.denyPermission(socket, {
+        event,
+        groupId,
+        fileId,
+        reason: 'not-joined',
+        message: 'Join the collaboration room first'
+      });
+      return false;
+    }
+
+    if (!canPerform(role, action)) {
+      console.log(`Denied ${event} for user ${socket.data.userId} with role ${role} in room ${groupId}`);
+      this.denyPermission(socket, {
+        event,
+        groupId,
+        fileId,
+        reason: 'insufficient-role',
+        message: `Your role (${role}) does not allow this action`
+      });
       return false;
     }
+
     return true;
   }
 
+  /**
+   * Parse an inbound payload against its shared schema
+   * @returns the payload without unknown fields, or null if a validation-error event was sent
+   */
+  private validate<E extends ClientEventName>(
+    socket: CollaborationSocket,
+    event: E,
+    payload: unknown
+  ): ClientEventPayload<E> | null {
+    const result = parseClientEvent(event, payload);
+    if (result.success) return result.data;
+
+    console.log(`Invalid ${event} payload from user: ${socket.data.userId}`);
+    this.metrics.recordValidationError(event);
+    socket.emit('validation-error', result.error);
+    return null;
+  }
+
+  /**
+   * Wrap an async event handler so a failing presence store or database call is
+   * logged and reported to the socket instead of becoming an unhandled rejection
+   */
+  private guard<T>(
+    socket: CollaborationSocket,
+    event: keyof ClientToServerEvents,
+    handler: (payload: T) => Promise<void>
+  ): (payload: T) => Promise<void> {
+    return payload => handler(payload).catch(error => {
+      console.error(`Failed to handle ${event} for user ${socket.data.userId}:`, error);
+      socket.emit('server-error', { event, message: 'Something went wrong on the server. Please try again.' });
+    });
+  }
+
+  private denyPermission(socket: CollaborationSocket, denied: PermissionDenied): void {
+    this.metrics.recordPermissionDenied(denied.event, denied.reason);
+    socket.emit('permission-denied', denied);
+  }
+
+  private getRole(socket: CollaborationSocket, groupId: string): CollaborationRole | undefined {
+    return socket.data.rooms[groupId];
+  }
+
   private async handleJoinCollaboration(
     socket: CollaborationSocket, 
-    data: { groupId: string }
+    data: { groupId: string },
+    resume?: ResumeRoom
   ): Promise<void> {
     const { groupId } = data;
     const userId = socket.data.userId;
@@ -193,92 +686,154 @@ export class CollaborationSocketServer {
       return;
     }
 
-    // Fetch user profile for display name
-    const { data: profile } = await this.supabase
-      .from('profiles')
-      .select('display_name, username, avatar_url')
-      .eq('user_id', userId)
-      .single();
+    // Only participants count towards the room's join limit
+    if (!this.checkRoomRateLimit(socket, 'roomJoin', 'join-collaboration', data)) return;
+
+    // Fetch user profile for display name, and the room's presence thresholds
+    const [{ data: profile }] = await Promise.all([
+      this.supabase
+        .from('profiles')
+        .select('display_name, username, avatar_url')
+        .eq('user_id', userId)
+        .single(),
+      this.loadPresenceSettings(groupId)
+    ]);
 
     const userName = profile?.display_name || profile?.username || socket.data.user.email || 'Anonymous';
 
-    // Create the user object from verified server-side data
+    // Create the user object from verified server-side data, keeping the file
+    // and status an already-open tab of this user has, or a resumed session had
+    const existingUser = await this.presenceStore.getRoomUser(groupId, userId);
+    const manualStatus = existingUser ? existingUser.manualStatus : resume?.manualStatus;
     const user: CollaborationUser = {
       id: userId,
       name: userName,
       color: this.generateUserColor(userId),
-      status: 'online',
+      status: resolvePresenceStatus('online', manualStatus),
+      manualStatus,
+      currentFile: existingUser ? existingUser.currentFile : resume?.fileId,
+      allowFollowing: existingUser ? existingUser.allowFollowing : resume?.allowFollowing,
       lastActivity: new Date()
     };
 
-    // Join the room
+    // Join the room, remembering the role for later events
+    const role = toCollaborationRole(participant.role);
+    socket.data.rooms[groupId] = role;
     socket.join(roomName);
 
-    // Store user session
-    this.userSessions.set(userId, { socketId: socket.id, groupId });
-    this.activeUsers.set(userId, user);
+    // Store the socket's session; the user may already be here from another tab
+    const socketCount = await this.presenceStore.addSocketToRoom(socket.id, userId, groupId);
+    await this.presenceStore.setRoomUser(groupId, user);
+    this.sessionRecorder.join(groupId, userId, socket.id);
+    this.setSocketVisible(groupId, userId, socket.id, true);
+    this.schedulePresenceCheck(groupId, userId, user.lastActivity);
 
-    // Notify other users in the room
-    socket.to(roomName).emit('user-joined', user);
+    // Notify other users in the room only when the user first arrives
+    if (socketCount === 1) {
+      socket.to(roomName).emit('user-joined', user);
+    }
 
-    // Send current active users to the joining user
-    const roomUsers = Array.from(this.activeUsers.values())
-      .filter(u => this.userSessions.get(u.id)?.groupId === groupId);
-    
-    // Send each active user individually to maintain consistency
-    roomUsers.forEach(activeUser => {
-      if (activeUser.id !== userId) {
-        socket.emit('user-joined', activeUser);
-      }
-    });
+    // Send the joining socket a snapshot of who is here and where they are
+    socket.emit('room-state', await this.getRoomState(groupId));
+
+    // Confirm the join so the client can start syncing documents
+    socket.emit('collaboration-joined', { groupId, role });
 
-    console.log(`User ${userName} (${userId}) joined collaboration room ${groupId} with role: ${participant.role}`);
+    console.log(`User ${userName} (${userId}) joined collaboration room ${groupId} with role: ${role}`);
   }
 
-  private handleLeaveCollaboration(
+  /**
+   * @param handover - the socket is leaving a draining node and may resume elsewhere,
+   * so the user's presence is kept until the drain finishes
+   */
+  private async handleLeaveCollaboration(
     socket: CollaborationSocket, 
-    data: { groupId: string }
-  ): void {
+    data: { groupId: string },
+    handover = false
+  ): Promise<void> {
     const { groupId } = data;
     const userId = socket.data.userId;
     const roomName = `collaboration-${groupId}`;
 
-    // Remove user from active users and sessions
-    this.activeUsers.delete(userId);
-    this.userSessions.delete(userId);
+    // Stop receiving document updates for this room's files
+    this.leaveDocuments(socket, groupId);
+    this.leaveFollowerRooms(socket, groupId);
+    socket.leave(roomName);
+    delete socket.data.rooms[groupId];
+
+    // Other tabs of the same user keep them in the room
+    const remainingSockets = await this.presenceStore.removeSocketFromRoom(socket.id, userId, groupId);
+    this.sessionRecorder.leave(groupId, userId, socket.id);
+    const wasVisible = this.setSocketVisible(groupId, userId, socket.id, false);
+    if (remainingSockets > 0) {
+      // Closing the last visible tab leaves only hidden ones behind
+      if (wasVisible) await this.refreshPresence(groupId, userId, false);
+      console.log(`Socket ${socket.id} of user ${userId} left room ${groupId} (${remainingSockets} still open)`);
+      return;
+    }
 
-    // Clear any activity timers
-    const timer = this.activityTimers.get(userId);
-    if (timer) {
-      clearTimeout(timer);
-      this.activityTimers.delete(userId);
+    if (handover) {
+      this.clearActivityTimer(groupId, userId);
+      this.pendingDepartures.add(this.getActivityKey(groupId, userId));
+      return;
+    }
+
+    await this.removeUserFromRoom(groupId, userId);
+  }
+
+  /**
+   * Remove a user whose last socket left the room, telling everyone still there
+   */
+  private async removeUserFromRoom(groupId: string, userId: string): Promise<void> {
+    const roomName = `collaboration-${groupId}`;
+
+    await this.presenceStore.removeRoomUser(groupId, userId);
+    await this.presenceStore.clearUserPositions(groupId, userId);
+    this.releaseFollowers(groupId, userId, 'left');
+    if (await this.presenceStore.getPresenter(groupId) === userId) {
+      await this.handlePresenterStop(groupId);
     }
 
+    this.clearActivityTimer(groupId, userId);
+
     // Remove from typing indicators
-    this.typingUsers.forEach((users, fileId) => {
-      if (users.has(userId)) {
-        users.delete(userId);
-        socket.to(roomName).emit('user-typing', { fileId, userId, isTyping: false });
-      }
+    const typingFiles = await this.presenceStore.clearTypingUser(groupId, userId);
+    typingFiles.forEach(fileId => {
+      this.io.to(roomName).emit('user-typing', { fileId, userId, isTyping: false });
     });
 
-    // Leave the room and notify others
-    socket.leave(roomName);
-    socket.to(roomName).emit('user-left', userId);
+    // Notify others
+    this.io.to(roomName).emit('user-left', userId);
+
+    if ((await this.presenceStore.getRoomUsers(groupId)).length === 0) {
+      this.roomPresenceSettings.delete(groupId);
+    }
 
     console.log(`User ${userId} left collaboration room ${groupId}`);
   }
 
-  private handleCursorUpdate(
+  private async getRoomState(groupId: string): Promise<RoomState> {
+    const [users, cursors, selections, typing, presenterId] = await Promise.all([
+      this.presenceStore.getRoomUsers(groupId),
+      this.presenceStore.getRoomCursors(groupId),
+      this.presenceStore.getRoomSelections(groupId),
+      this.presenceStore.getRoomTyping(groupId),
+      this.presenceStore.getPresenter(groupId)
+    ]);
+    const presenceSettings = this.roomPresenceSettings.get(groupId) ?? NO_PRESENCE_SETTINGS;
+    return { groupId, users, cursors, selections, typing, presenterId, presenceSettings };
+  }
+
+  private async handleCursorUpdate(
     socket: CollaborationSocket, 
     data: { groupId: string; fileId: string; cursor: Omit<CursorPosition, 'userId'> }
-  ): void {
+  ): Promise<void> {
     const { groupId, fileId, cursor } = data;
     const userId = socket.data.userId;
     const roomName = `collaboration-${groupId}`;
 
     // Update user activity
-    this.updateUserActivity(userId);
+    this.updateUserActivity(groupId, userId);
 
     // Build cursor with verified userId
     const verifiedCursor: CursorPosition = {
@@ -288,18 +843,21 @@ export class CollaborationSocketServer {
 
     // Broadcast cursor update to other users in the room
     socket.to(roomName).emit('cursor-updated', { fileId, cursor: verifiedCursor });
+
+    // Remember it for users who join later
+    await this.presenceStore.setCursor(groupId, fileId, verifiedCursor);
   }
 
-  private handleSelectionUpdate(
+  private async handleSelectionUpdate(
     socket: CollaborationSocket, 
     data: { groupId: string; fileId: string; selection: Omit<TextSelection, 'userId'> }
-  ): void {
+  ): Promise<void> {
     const { groupId, fileId, selection } = data;
     const userId = socket.data.userId;
     const roomName = `collaboration-${groupId}`;
 
     // Update user activity
-    this.updateUserActivity(userId);
+    this.updateUserActivity(groupId, userId);
 
     // Build selection with verified userId
     const verifiedSelection: TextSelection = {
@@ -309,67 +867,62 @@ export class CollaborationSocketServer {
 
     // Broadcast selection update to other users in the room
     socket.to(roomName).emit('selection-updated', { fileId, selection: verifiedSelection });
+
+    // Remember it for users who join later
+    await this.presenceStore.setSelection(groupId, fileId, verifiedSelection);
   }
 
-  private handleTypingStart(
+  private async handleTypingStart(
     socket: CollaborationSocket, 
     data: { groupId: string; fileId: string }
-  ): void {
+  ): Promise<void> {
     const { groupId, fileId } = data;
     const userId = socket.data.userId;
     const roomName = `collaboration-${groupId}`;
 
     // Add user to typing set for this file
-    if (!this.typingUsers.has(fileId)) {
-      this.typingUsers.set(fileId, new Set());
-    }
-    this.typingUsers.get(fileId)!.add(userId);
+    await this.presenceStore.addTypingUser(groupId, fileId, userId);
 
     // Update user activity
-    this.updateUserActivity(userId);
+    this.updateUserActivity(groupId, userId);
 
     // Broadcast typing indicator
     socket.to(roomName).emit('user-typing', { fileId, userId, isTyping: true });
   }
 
-  private handleTypingStop(
+  private async handleTypingStop(
     socket: CollaborationSocket, 
     data: { groupId: string; fileId: string }
-  ): void {
+  ): Promise<void> {
     const { groupId, fileId } = data;
     const userId = socket.data.userId;
     const roomName = `collaboration-${groupId}`;
 
     // Remove user from typing set
-    const typingSet = this.typingUsers.get(fileId);
-    if (typingSet) {
-      typingSet.delete(userId);
-      if (typingSet.size === 0) {
-        this.typingUsers.delete(fileId);
-      }
-    }
+    await this.presenceStore.removeTypingUser(groupId, fileId, userId);
 
     // Broadcast typing stop
     socket.to(roomName).emit('user-typing', { fileId, userId, isTyping: false });
   }
 
-  private handleFileSwitch(
+  private async handleFileSwitch(
     socket: CollaborationSocket, 
     data: { groupId: string; fileId: string }
-  ): void {
+  ): Promise<void> {
     const { groupId, fileId } = data;
     const userId = socket.data.userId;
     const roomName = `collaboration-${groupId}`;
 
     // Update user's current file
-    const user = this.activeUsers.get(userId);
+    const user = await this.presenceStore.getRoomUser(groupId, userId);
     if (user) {
       user.currentFile = fileId;
-      this.activeUsers.set(userId, user);
+      await this.presenceStore.setRoomUser(groupId, user);
     }
 
     // Update user activity
-    this.updateUserActivity(userId);
+    this.sessionRecorder.recordFileFocus(groupId, userId, fileId);
+    this.updateUserActivity(groupId, userId);
 
     // Broadcast file switch to other users
     socket.to(roomName).emit('file-switched', { fileId, userId });
@@ -380,55 +933,507 @@ export class CollaborationSocketServer {
     data: { groupId: string }
   ): void {
     const userId = socket.data.userId;
-    this.updateUserActivity(userId);
+    this.updateUserActivity(data.groupId, userId);
+  }
+
+  private async handleVisibilityChange(
+    socket: CollaborationSocket,
+    data: { groupId: string; visible: boolean }
+  ): Promise<void> {
+    const { groupId, visible } = data;
+    const userId = socket.data.userId;
+
+    this.setSocketVisible(groupId, userId, socket.id, visible);
+
+    // Coming back to a tab counts as activity; hiding it only matters once every tab is hidden
+    if (visible) {
+      this.updateUserActivity(groupId, userId);
+    } else {
+      await this.refreshPresence(groupId, userId, false);
+    }
+  }
+
+  private async handleSetStatus(
+    socket: CollaborationSocket,
+    data: { groupId: string; status: ManualStatus | null }
+  ): Promise<void> {
+    const { groupId, status } = data;
+    const userId = socket.data.userId;
+
+    if (status !== null && !isManualStatus(status)) return;
+
+    const user = await this.presenceStore.getRoomUser(groupId, userId);
+    if (!user) return;
+
+    user.manualStatus = status ?? undefined;
+    await this.presenceStore.setRoomUser(groupId, user);
+    await this.refreshPresence(groupId, userId, false, true);
+  }
+
+  private async handlePresenceSettings(data: { groupId: string } & PresenceSettings): Promise<void> {
+    const { groupId } = data;
+    const settings: PresenceSettings = {
+      idleTimeoutSeconds: this.toTimeoutSeconds(data.idleTimeoutSeconds),
+      offlineTimeoutSeconds: this.toTimeoutSeconds(data.offlineTimeoutSeconds)
+    };
+
+    const { error } = await this.supabase
+      .from('collaboration_rooms')
+      .update({
+        idle_timeout_seconds: settings.idleTimeoutSeconds,
+        offline_timeout_seconds: settings.offlineTimeoutSeconds
+      })
+      .eq('id', groupId);
+
+    if (error) {
+      console.error(`Failed to save presence settings for room ${groupId}:`, error);
+      return;
+    }
+
+    this.roomPresenceSettings.set(groupId, settings);
+    this.io.to(`collaboration-${groupId}`).emit('presence-settings-changed', { groupId, ...settings });
+
+    // Re-evaluate the users this node tracks against the new thresholds
+    const users = await this.presenceStore.getRoomUsers(groupId);
+    await Promise.all(users
+      .filter(user => this.visibleSockets.has(this.getActivityKey(groupId, user.id)))
+      .map(user => this.refreshPresence(groupId, user.id, false)));
+
+    console.log(`Presence settings for room ${groupId} updated:`, settings);
   }
 
-  private handleDisconnection(socket: CollaborationSocket): void {
+  private async handleDisconnection(socket: CollaborationSocket): Promise<void> {
     const userId = socket.data.userId;
-    const session = this.userSessions.get(userId);
+    const session = await this.presenceStore.getSocketSession(socket.id);
+    // The socket's own record of its rooms still holds if the stored session was lost
+    const groupIds = new Set([...(session?.groupIds ?? []), ...Object.keys(socket.data.rooms)]);
 
+    // Only this socket's rooms are left; the user's other tabs stay connected
+    for (const groupId of groupIds) {
+      await this.handleLeaveCollaboration(socket, { groupId }, this.draining);
+    }
     if (session) {
-      this.handleLeaveCollaboration(socket, { groupId: session.groupId });
+      await this.presenceStore.removeSocketSession(socket.id);
     }
 
+    // Drop document subscriptions the session cleanup did not cover
+    this.leaveDocuments(socket);
+
     console.log(`Socket disconnected: ${socket.id} (User: ${userId})`);
   }
 
-  private updateUserActivity(userId: string): void {
-    const user = this.activeUsers.get(userId);
-    if (user) {
-      user.lastActivity = new Date();
-      user.status = 'online';
-      this.activeUsers.set(userId, user);
+  private async handleFollowUser(
+    socket: CollaborationSocket,
+    data: { groupId: string; targetUserId: string }
+  ): Promise<void> {
+    const { groupId, targetUserId } = data;
+    const target = await this.presenceStore.getRoomUser(groupId, targetUserId);
+
+    if (!target || targetUserId === socket.data.userId) {
+      socket.emit('follow-stopped', { groupId, userId: targetUserId, reason: 'left' });
+      return;
+    }
+
+    if (target.allowFollowing === false) {
+      socket.emit('follow-stopped', { groupId, userId: targetUserId, reason: 'not-allowed' });
+      return;
+    }
+
+    socket.join(this.getFollowersRoom(groupId, targetUserId));
+
+    // Start the follower where the followee is now
+    const cursor = target.currentFile
+      ? (await this.presenceStore.getRoomCursors(groupId))
+        .find(entry => entry.fileId === target.currentFile && entry.position.userId === targetUserId)
+      : undefined;
+
+    socket.emit('follow-started', {
+      groupId,
+      userId: targetUserId,
+      fileId: target.currentFile,
+      cursor: cursor?.position
+    });
+  }
+
+  private handleUnfollowUser(
+    socket: CollaborationSocket,
+    data: { groupId: string; targetUserId: string }
+  ): void {
+    const { groupId, targetUserId } = data;
+    socket.leave(this.getFollowersRoom(groupId, targetUserId));
+    socket.emit('follow-stopped', { groupId, userId: targetUserId, reason: 'unfollowed' });
+  }
+
+  private async handleFollowPreference(
+    socket: CollaborationSocket,
+    data: { groupId: string; allowFollowing: boolean }
+  ): Promise<void> {
+    const { groupId, allowFollowing } = data;
+    const userId = socket.data.userId;
+
+    const user = await this.presenceStore.getRoomUser(groupId, userId);
+    if (!user) return;
+
+    user.allowFollowing = allowFollowing;
+    await this.presenceStore.setRoomUser(groupId, user);
 
-      // Clear existing timer
-      const existingTimer = this.activityTimers.get(userId);
-      if (existingTimer) {
-        clearTimeout(existingTimer);
+    if (!allowFollowing) {
+      this.releaseFollowers(groupId, userId, 'not-allowed');
+      if (await this.presenceStore.getPresenter(groupId) === userId) {
+        await this.handlePresenterStop(groupId);
       }
+    }
+  }
 
-      // Set new timer for idle detection (5 minutes)
-      const timer = setTimeout(() => {
-        const currentUser = this.activeUsers.get(userId);
-        if (currentUser) {
-          currentUser.status = 'away';
-          this.activeUsers.set(userId, currentUser);
-
-          // Notify users in the same group
-          const session = this.userSessions.get(userId);
-          if (session) {
-            const roomName = `collaboration-${session.groupId}`;
-            this.io.to(roomName).emit('user-activity-updated', {
-              userId,
-              lastActivity: currentUser.lastActivity
-            });
-          }
-        }
-        this.activityTimers.delete(userId);
-      }, 5 * 60 * 1000); // 5 minutes
+  private async handleViewportUpdate(
+    socket: CollaborationSocket,
+    data: { groupId: string } & Viewport
+  ): Promise<void> {
+    const { groupId, fileId, scrollTop, scrollLeft, line, column } = data;
+    const userId = socket.data.userId;
+    const viewport = { userId, fileId, scrollTop, scrollLeft, line, column };
+
+    // A presenter is followed by the whole room, anyone else only by their followers
+    if (await this.presenceStore.getPresenter(groupId) === userId) {
+      socket.to(`collaboration-${groupId}`).emit('viewport-updated', viewport);
+    } else {
+      socket.to(this.getFollowersRoom(groupId, userId)).emit('viewport-updated', viewport);
+    }
+  }
 
-      this.activityTimers.set(userId, timer);
+  private async handlePresenterStart(
+    socket: CollaborationSocket,
+    data: { groupId: string }
+  ): Promise<void> {
+    const { groupId } = data;
+    const userId = socket.data.userId;
+    const user = await this.presenceStore.getRoomUser(groupId, userId);
+
+    // Presenting makes everyone follow, so it needs the presenter's consent too
+    if (user?.allowFollowing === false) {
+      this.denyPermission(socket, {
+        event: 'presenter-start',
+        groupId,
+        reason: 'following-disabled',
+        message: 'Allow following to present to the room'
+      });
+      return;
     }
+
+    await this.presenceStore.setPresenter(groupId, userId);
+    this.io.to(`collaboration-${groupId}`).emit('presenter-changed', {
+      groupId,
+      presenterId: userId,
+      fileId: user?.currentFile
+    });
+
+    console.log(`User ${userId} started presenting in room ${groupId}`);
+  }
+
+  private async handlePresenterStop(groupId: string): Promise<void> {
+    if (!(await this.presenceStore.getPresenter(groupId))) return;
+
+    await this.presenceStore.setPresenter(groupId, null);
+    this.io.to(`collaboration-${groupId}`).emit('presenter-changed', { groupId, presenterId: null });
+  }
+
+  /**
+   * Stop everyone following a user, on every node
+   */
+  private releaseFollowers(
+    groupId: string,
+    userId: string,
+    reason: 'not-allowed' | 'left'
+  ): void {
+    const followersRoom = this.getFollowersRoom(groupId, userId);
+    this.io.to(followersRoom).emit('follow-stopped', { groupId, userId, reason });
+    this.io.in(followersRoom).socketsLeave(followersRoom);
+  }
+
+  private leaveFollowerRooms(socket: CollaborationSocket, groupId: string): void {
+    const prefix = this.getFollowersRoom(groupId, '');
+    Array.from(socket.rooms)
+      .filter(room => room.startsWith(prefix))
+      .forEach(room => socket.leave(room));
+  }
+
+  private getFollowersRoom(groupId: string, userId: string): string {
+    return `collaboration-${groupId}:followers-${userId}`;
+  }
+
+  private async handleDocSubscribe(
+    socket: CollaborationSocket,
+    data: { groupId: string; fileId: string; stateVector: string }
+  ): Promise<void> {
+    const { groupId, fileId, stateVector } = data;
+
+    try {
+      const managed = await this.documentManager.subscribe(groupId, fileId, socket.id);
+      socket.join(this.getFileRoom(groupId, fileId));
+
+      // Sync step 1: send what the client is missing plus our state vector,
+      // so the client can answer with any edits it made while offline
+      socket.emit('doc-sync', {
+        fileId,
+        update: this.encode(this.documentManager.encodeDiff(managed, this.decode(stateVector))),
+        stateVector: this.encode(this.documentManager.encodeStateVector(managed))
+      });
+
+      const awareness = this.documentManager.encodeAwareness(managed);
+      if (awareness) {
+        socket.emit('awareness-update', { fileId, update: this.encode(awareness) });
+      }
+    } catch (error) {
+      const message = error instanceof DocumentNotFoundError ? error.message : 'Failed to load document';
+      console.error(`Document subscribe failed for ${groupId}/${fileId}:`, error);
+      socket.emit('doc-error', { fileId, message });
+    }
+  }
+
+  private handleDocUnsubscribe(
+    socket: CollaborationSocket,
+    data: { groupId: string; fileId: string }
+  ): void {
+    const { groupId, fileId } = data;
+    const fileRoom = this.getFileRoom(groupId, fileId);
+    const removal = this.documentManager.unsubscribe(groupId, fileId, socket.id);
+
+    socket.leave(fileRoom);
+    if (removal) {
+      socket.to(fileRoom).emit('awareness-update', { fileId, update: this.encode(removal) });
+    }
+  }
+
+  private handleDocUpdate(
+    socket: CollaborationSocket,
+    data: { groupId: string; fileId: string; update: string }
+  ): void {
+    const { groupId, fileId, update } = data;
+    const userId = socket.data.userId;
+
+    if (!this.documentManager.isSubscribed(groupId, fileId, socket.id)) {
+      socket.emit('doc-error', { fileId, message: 'Document is not open' });
+      return;
+    }
+
+    try {
+      this.documentManager.applyUpdate(groupId, fileId, this.decode(update), userId);
+    } catch (error) {
+      console.error(`Rejected document update from ${userId} for ${groupId}/${fileId}:`, error);
+      socket.emit('doc-error', { fileId, message: 'Invalid document update' });
+      return;
+    }
+
+    this.sessionRecorder.recordEdit(groupId, userId, fileId);
+    this.updateUserActivity(groupId, userId);
+
+    // Relay the update unchanged; Yjs updates are commutative and idempotent
+    socket.to(this.getFileRoom(groupId, fileId)).emit('doc-update', { fileId, update });
+    if (this.options.clustered) {
+      this.io.serverSideEmit('doc-update', { groupId, fileId, update });
+    }
+  }
+
+  private async handleDocSave(
+    socket: CollaborationSocket,
+    data: { groupId: string; fileId: string; restoredFrom?: string; mergedVersion?: number }
+  ): Promise<void> {
+    const { groupId, fileId, restoredFrom, mergedVersion } = data;
+
+    if (!this.documentManager.isSubscribed(groupId, fileId, socket.id)) {
+      socket.emit('doc-error', { fileId, message: 'Document is not open' });
+      return;
+    }
+
+    try {
+      await this.documentManager.flush(groupId, fileId, { authorId: socket.data.userId, restoredFrom, mergedVersion });
+    } catch (error) {
+      // The file's subscribers, the saver included, were sent doc-conflict
+      if (error instanceof DocumentConflictError) return;
+      console.error(`Document save failed for ${groupId}/${fileId}:`, error);
+      socket.emit('doc-error', { fileId, message: 'Failed to save document' });
+    }
+  }
+
+  private handleAwarenessUpdate(
+    socket: CollaborationSocket,
+    data: { groupId: string; fileId: string; update: string }
+  ): void {
+    const { groupId, fileId, update } = data;
+
+    if (!this.documentManager.isSubscribed(groupId, fileId, socket.id)) return;
+
+    try {
+      this.documentManager.applyAwareness(groupId, fileId, this.decode(update), socket.id);
+    } catch (error) {
+      console.error(`Rejected awareness update for ${groupId}/${fileId}:`, error);
+      return;
+    }
+
+    socket.to(this.getFileRoom(groupId, fileId)).emit('awareness-update', { fileId, update });
+  }
+
+  private leaveDocuments(socket: CollaborationSocket, groupId?: string): void {
+    this.documentManager.unsubscribeAll(socket.id, groupId).forEach(({ groupId, fileId, awarenessUpdate }) => {
+      const fileRoom = this.getFileRoom(groupId, fileId);
+      socket.leave(fileRoom);
+      if (awarenessUpdate) {
+        socket.to(fileRoom).emit('awareness-update', { fileId, update: this.encode(awarenessUpdate) });
+      }
+    });
+  }
+
+  private getFileRoom(groupId: string, fileId: string): string {
+    return `collaboration-${groupId}:file-${fileId}`;
+  }
+
+  private encode(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString('base64');
+  }
+
+  private decode(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value, 'base64'));
+  }
+
+  private updateUserActivity(groupId: string, userId: string): void {
+    this.sessionRecorder.recordActivity(groupId, userId);
+    this.refreshUserActivity(groupId, userId).catch(error => {
+      console.error(`Failed to update activity for user ${userId}:`, error);
+    });
+  }
+
+  private async refreshUserActivity(groupId: string, userId: string): Promise<void> {
+    await this.refreshPresence(groupId, userId, true);
+  }
+
+  /**
+   * Recompute a user's status, telling the room when it changes
+   * @param touch - record activity now
+   * @param announce - tell the room even if only the manual status changed
+   */
+  private async refreshPresence(
+    groupId: string,
+    userId: string,
+    touch: boolean,
+    announce = false
+  ): Promise<void> {
+    const user = await this.presenceStore.getRoomUser(groupId, userId);
+    if (!user) return;
+
+    if (touch) {
+      user.lastActivity = new Date();
+    }
+
+    const inactiveMs = Date.now() - new Date(user.lastActivity).getTime();
+    const automatic = getAutomaticStatus(inactiveMs, this.getThresholds(groupId), this.isHidden(groupId, userId));
+    const status = resolvePresenceStatus(automatic, user.manualStatus);
+    const changed = status !== user.status;
+
+    if (changed || touch) {
+      user.status = status;
+      await this.presenceStore.setRoomUser(groupId, user);
+    }
+
+    this.schedulePresenceCheck(groupId, userId, user.lastActivity);
+
+    if (changed || announce) {
+      this.io.to(`collaboration-${groupId}`).emit('presence-changed', {
+        groupId,
+        userId,
+        status,
+        manualStatus: user.manualStatus ?? null,
+        lastActivity: user.lastActivity
+      });
+    }
+  }
+
+  /**
+   * Wake up when the user's automatic status is next due to change
+   */
+  private schedulePresenceCheck(groupId: string, userId: string, lastActivity: Date): void {
+    const timerKey = this.getActivityKey(groupId, userId);
+    const existingTimer = this.activityTimers.get(timerKey);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+      this.activityTimers.delete(timerKey);
+    }
+
+    const inactiveMs = Date.now() - new Date(lastActivity).getTime();
+    const delay = getNextTransitionMs(inactiveMs, this.getThresholds(groupId), this.isHidden(groupId, userId));
+    if (delay === null) return;
+
+    const timer = setTimeout(() => {
+      this.activityTimers.delete(timerKey);
+      this.refreshPresence(groupId, userId, false).catch(error => {
+        console.error(`Failed to update presence for user ${userId}:`, error);
+      });
+    }, delay);
+    this.activityTimers.set(timerKey, timer);
+  }
+
+  /**
+   * Track which of a user's sockets on this node show the room
+   * @returns whether the socket was visible before
+   */
+  private setSocketVisible(groupId: string, userId: string, socketId: string, visible: boolean): boolean {
+    const key = this.getActivityKey(groupId, userId);
+    const sockets = this.visibleSockets.get(key) ?? new Set<string>();
+    const wasVisible = sockets.has(socketId);
+
+    if (visible) {
+      sockets.add(socketId);
+    } else {
+      sockets.delete(socketId);
+    }
+    this.visibleSockets.set(key, sockets);
+    return wasVisible;
+  }
+
+  // Visibility is node-local: a tab open on another node does not count
+  private isHidden(groupId: string, userId: string): boolean {
+    const sockets = this.visibleSockets.get(this.getActivityKey(groupId, userId));
+    return !!sockets && sockets.size === 0;
+  }
+
+  private async loadPresenceSettings(groupId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('collaboration_rooms')
+      .select('idle_timeout_seconds, offline_timeout_seconds')
+      .eq('id', groupId)
+      .single();
+
+    if (error || !data) {
+      console.error(`Failed to load presence settings for room ${groupId}:`, error);
+      return;
+    }
+
+    this.roomPresenceSettings.set(groupId, {
+      idleTimeoutSeconds: data.idle_timeout_seconds ?? null,
+      offlineTimeoutSeconds: data.offline_timeout_seconds ?? null
+    });
+  }
+
+  private getThresholds(groupId: string): PresenceThresholds {
+    return resolveThresholds(this.options.presenceThresholds, this.roomPresenceSettings.get(groupId));
+  }
+
+  // Null (or anything that is not a positive number) falls back to the server default
+  private toTimeoutSeconds(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+  }
+
+  private clearActivityTimer(groupId: string, userId: string): void {
+    const timerKey = this.getActivityKey(groupId, userId);
+    const timer = this.activityTimers.get(timerKey);
+    if (timer) {
+      clearTimeout(timer);
+      this.activityTimers.delete(timerKey);
+    }
+    this.visibleSockets.delete(timerKey);
+  }
+
+  private getActivityKey(groupId: string, userId: string): string {
+    return `${groupId}:${userId}`;
   }
 
   private generateUserColor(userId: string): string {
@@ -448,16 +1453,153 @@ export class CollaborationSocketServer {
   }
 
   // Public methods for external access if needed
-  public getActiveUsers(groupId: string): CollaborationUser[] {
-    return Array.from(this.activeUsers.values())
-      .filter(user => this.userSessions.get(user.id)?.groupId === groupId);
+  public getActiveUsers(groupId: string): Promise<CollaborationUser[]> {
+    return this.presenceStore.getRoomUsers(groupId);
+  }
+
+  public async getUserCount(groupId: string): Promise<number> {
+    return (await this.getActiveUsers(groupId)).length;
+  }
+
+  public async isUserOnline(userId: string): Promise<boolean> {
+    return (await this.presenceStore.getUserRooms(userId)).length > 0;
+  }
+
+  public isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Stop taking joins, tell every local client to reconnect elsewhere with a
+   * session token, and wait for them to go. Users who do not come back on
+   * another node leave their rooms once the drain finishes.
+   */
+  public async drain(options: Partial<DrainOptions> = {}): Promise<void> {
+    const { reconnectWindowMs, timeoutMs } = { ...DEFAULT_DRAIN_OPTIONS, ...options };
+    this.draining = true;
+
+    const sockets = Array.from(this.io.of('/').sockets.values()) as CollaborationSocket[];
+    console.log(`Draining ${sockets.length} sockets`);
+    await Promise.all(sockets.map(socket =>
+      this.notifyRestarting(socket, Math.floor(Math.random() * reconnectWindowMs))
+    ));
+
+    // Clients disconnect themselves once they are told to; stragglers are cut off
+    const deadline = Date.now() + timeoutMs;
+    while (this.io.of('/').sockets.size > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    this.io.local.disconnectSockets(true);
+    await Promise.all(Array.from(this.disconnecting));
+
+    // Whoever resumed on another node is still in the room there
+    for (const key of this.pendingDepartures) {
+      const [groupId, userId] = key.split(':');
+      if (!(await this.presenceStore.getUserRooms(userId)).includes(groupId)) {
+        await this.removeUserFromRoom(groupId, userId);
+      }
+    }
+    this.pendingDepartures.clear();
+    console.log('Drain complete');
+  }
+
+  private async notifyRestarting(socket: CollaborationSocket, reconnectInMs: number): Promise<void> {
+    socket.emit('server-restarting', {
+      reconnectInMs,
+      sessionToken: await this.createResumeToken(socket),
+      message: 'The collaboration server is restarting. Reconnecting...'
+    });
+  }
+
+  // The socket's rooms with the file and statuses it had in each
+  private async createResumeToken(socket: CollaborationSocket): Promise<string> {
+    const userId = socket.data.userId;
+    const rooms: ResumeRoom[] = await Promise.all(Object.keys(socket.data.rooms).map(async groupId => {
+      const user = await this.presenceStore.getRoomUser(groupId, userId);
+      return {
+        groupId,
+        fileId: user?.currentFile,
+        manualStatus: user?.manualStatus,
+        allowFollowing: user?.allowFollowing
+      };
+    }));
+    return createSessionToken({ userId, rooms, expiresAt: Date.now() + SESSION_TOKEN_TTL_MS }, this.sessionSecret);
+  }
+
+  /**
+   * Rejoin the rooms a session token names; membership and roles are checked again
+   */
+  private async resumeSession(socket: CollaborationSocket, sessionToken: unknown): Promise<void> {
+    const payload = verifySessionToken(sessionToken, this.sessionSecret);
+    const userId = socket.data.userId;
+
+    if (!payload || payload.userId !== userId) {
+      console.log(`Ignoring invalid or expired session token for user: ${userId}`);
+      socket.emit('session-resumed', { groupIds: [] });
+      return;
+    }
+
+    for (const room of payload.rooms) {
+      await this.handleJoinCollaboration(socket, { groupId: room.groupId }, room);
+    }
+
+    const groupIds = payload.rooms.map(room => room.groupId).filter(groupId => this.getRole(socket, groupId));
+    socket.emit('session-resumed', { groupIds });
+    console.log(`Resumed session for user ${userId} in ${groupIds.length} rooms`);
   }
 
-  public getUserCount(groupId: string): number {
-    return this.getActiveUsers(groupId).length;
+  public getMetrics(): CollaborationMetrics {
+    return this.metrics;
   }
 
-  public isUserOnline(userId: string): boolean {
-    return this.activeUsers.has(userId);
+  /**
+   * Every connected socket's rooms and role, from all nodes when clustered
+   */
+  private async getSocketRooms(): Promise<Array<{ userId: string; rooms: Record<string, CollaborationRole> }>> {
+    const sockets = await this.io.fetchSockets();
+    return sockets.map(socket => ({
+      userId: String(socket.data.userId),
+      rooms: (socket.data.rooms ?? {}) as Record<string, CollaborationRole>
+    }));
+  }
+
+  public async getRooms(): Promise<RoomSummary[]> {
+    const socketCounts = new Map<string, number>();
+    for (const { rooms } of await this.getSocketRooms()) {
+      for (const groupId of Object.keys(rooms)) {
+        socketCounts.set(groupId, (socketCounts.get(groupId) ?? 0) + 1);
+      }
+    }
+
+    return Promise.all(
+      Array.from(socketCounts.entries()).map(async ([groupId, socketCount]) => ({
+        groupId,
+        socketCount,
+        users: await this.getActiveUsers(groupId),
+        presenterId: await this.presenceStore.getPresenter(groupId)
+      }))
+    );
+  }
+
+  public async getRoom(groupId: string): Promise<RoomSummary | null> {
+    const sockets = await this.io.in(`collaboration-${groupId}`).fetchSockets();
+    if (sockets.length === 0) return null;
+    return {
+      groupId,
+      socketCount: sockets.length,
+      users: await this.getActiveUsers(groupId),
+      presenterId: await this.presenceStore.getPresenter(groupId)
+    };
+  }
+
+  public async getConnectedUsers(): Promise<ConnectedUser[]> {
+    const users = new Map<string, ConnectedUser>();
+    for (const { userId, rooms } of await this.getSocketRooms()) {
+      const user = users.get(userId) ?? { userId, socketCount: 0, rooms: {} };
+      user.socketCount++;
+      user.rooms = { ...user.rooms, ...rooms };
+      users.set(userId, user);
+    }
+    return Array.from(users.values());
   }
 }
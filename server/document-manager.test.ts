@@ -0,0 +1,206 @@
+import * as Y from 'yjs';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentConflictError, DocumentManager, DocumentNotFoundError } from './document-manager';
+import { RevisionRecorder } from './revision-recorder';
+
+// Minimal Supabase stand-in for the collaboration_files table
+type FileRow = { content: string; yjs_state: string | null; version?: number };
+
+const createSupabaseMock = (rows: Record<string, FileRow>) => {
+  const updates: Array<Record<string, unknown>> = [];
+  Object.values(rows).forEach(row => { row.version ??= 1; });
+
+  const from = () => {
+    const filters: Record<string, string | number> = {};
+    let pendingUpdate: Record<string, unknown> | null = null;
+
+    const builder = {
+      select: () => builder,
+      update: (values: Record<string, unknown>) => {
+        pendingUpdate = values;
+        return builder;
+      },
+      eq: (column: string, value: string | number) => {
+        filters[column] = value;
+        return builder;
+      },
+      single: () => {
+        const row = rows[filters.id];
+        return Promise.resolve(row ? { data: row, error: null } : { data: null, error: { message: 'not found' } });
+      },
+      // Conditional writes only land while the row is at the version they expect
+      maybeSingle: () => {
+        const row = rows[filters.id];
+        if (!pendingUpdate || !row || row.version !== filters.version) {
+          return Promise.resolve({ data: null, error: null });
+        }
+        Object.assign(row, pendingUpdate);
+        updates.push({ ...pendingUpdate, id: filters.id });
+        return Promise.resolve({ data: { version: row.version }, error: null });
+      }
+    };
+
+    return builder;
+  };
+
+  return { client: { from } as unknown as SupabaseClient, updates, rows };
+};
+
+// Type at the start of the document as a client that is in sync with the server
+const typeInto = (manager: DocumentManager, managed: { doc: Y.Doc }, text: string) => {
+  const clientDoc = new Y.Doc();
+  Y.applyUpdate(clientDoc, Y.encodeStateAsUpdate(managed.doc));
+  clientDoc.getText('monaco').insert(0, text);
+  manager.applyUpdate('room-1', 'file-1', Y.encodeStateAsUpdate(clientDoc), 'user-1');
+};
+
+describe('DocumentManager', () => {
+  test('seeds a document from stored content exactly once for concurrent subscribers', async () => {
+    const { client } = createSupabaseMock({ 'file-1': { content: 'hello', yjs_state: null } });
+    const manager = new DocumentManager(client);
+
+    const [first, second] = await Promise.all([
+      manager.subscribe('room-1', 'file-1', 'socket-1'),
+      manager.subscribe('room-1', 'file-1', 'socket-2')
+    ]);
+
+    expect(first).toBe(second);
+    expect(first.doc.getText('monaco').toString()).toBe('hello');
+    expect(manager.getLoadedDocumentCount()).toBe(1);
+  });
+
+  test('answers a sync request with only the missing state', async () => {
+    const { client } = createSupabaseMock({ 'file-1': { content: 'hello', yjs_state: null } });
+    const manager = new DocumentManager(client);
+    const managed = await manager.subscribe('room-1', 'file-1', 'socket-1');
+
+    const clientDoc = new Y.Doc();
+    Y.applyUpdate(clientDoc, manager.encodeDiff(managed, Y.encodeStateVector(clientDoc)));
+    expect(clientDoc.getText('monaco').toString()).toBe('hello');
+
+    // A client that is already up to date receives an empty update
+    const diff = manager.encodeDiff(managed, Y.encodeStateVector(clientDoc));
+    const probe = new Y.Doc();
+    Y.applyUpdate(probe, diff);
+    expect(probe.getText('monaco').toString()).toBe('');
+  });
+
+  test('restores stored CRDT state so reconnecting clients do not duplicate text', async () => {
+    const original = new Y.Doc();
+    original.getText('monaco').insert(0, 'shared');
+    const state = Buffer.from(Y.encodeStateAsUpdate(original)).toString('base64');
+
+    const { client } = createSupabaseMock({ 'file-1': { content: 'shared', yjs_state: state } });
+    const manager = new DocumentManager(client);
+    const managed = await manager.subscribe('room-1', 'file-1', 'socket-1');
+
+    // The reconnecting client still holds the original history
+    Y.applyUpdate(original, manager.encodeDiff(managed, Y.encodeStateVector(original)));
+    expect(original.getText('monaco').toString()).toBe('shared');
+  });
+
+  test('applies updates and persists a debounced snapshot', async () => {
+    vi.useFakeTimers();
+    try {
+      const { client, updates } = createSupabaseMock({ 'file-1': { content: '', yjs_state: null } });
+      const manager = new DocumentManager(client, { persistDebounceMs: 100 });
+      const persisted = vi.fn();
+      manager.onPersisted(persisted);
+      await manager.subscribe('room-1', 'file-1', 'socket-1');
+
+      const clientDoc = new Y.Doc();
+      clientDoc.getText('monaco').insert(0, 'typed');
+      manager.applyUpdate('room-1', 'file-1', Y.encodeStateAsUpdate(clientDoc), 'user-1');
+
+      expect(updates).toHaveLength(0);
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0]).toMatchObject({ content: 'typed', version: 2 });
+      expect(persisted).toHaveBeenCalledWith('room-1', 'file-1', expect.any(String));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('records revisions on load, on save with the saving user, and on close', async () => {
+    vi.useFakeTimers();
+    try {
+      const { client } = createSupabaseMock({ 'file-1': { content: 'draft', yjs_state: null } });
+      const manager = new DocumentManager(client, { unloadDelayMs: 100 });
+      const recorder = { documentLoaded: vi.fn(), record: vi.fn(), forget: vi.fn() };
+      manager.setRevisionRecorder(recorder as unknown as RevisionRecorder);
+      await manager.subscribe('room-1', 'file-1', 'socket-1');
+      expect(recorder.documentLoaded).toHaveBeenCalledWith('room-1', 'file-1', 'draft');
+
+      await manager.flush('room-1', 'file-1', { authorId: 'user-1', restoredFrom: 'revision-1' });
+      expect(recorder.record).toHaveBeenLastCalledWith('room-1', 'file-1', 'draft', {
+        reason: 'restore',
+        authorId: 'user-1',
+        restoredFrom: 'revision-1'
+      });
+
+      manager.unsubscribe('room-1', 'file-1', 'socket-1');
+      await vi.advanceTimersByTimeAsync(100);
+      expect(recorder.record).toHaveBeenLastCalledWith('room-1', 'file-1', 'draft', expect.objectContaining({
+        reason: 'snapshot',
+        force: true
+      }));
+      expect(recorder.forget).toHaveBeenCalledWith('file-1');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('rejects files that do not belong to the room', async () => {
+    const { client } = createSupabaseMock({});
+    const manager = new DocumentManager(client);
+
+    await expect(manager.subscribe('room-1', 'missing', 'socket-1')).rejects.toBeInstanceOf(DocumentNotFoundError);
+  });
+
+  describe('saves made outside the session', () => {
+    test('are held for merging instead of overwritten', async () => {
+      const { client, updates, rows } = createSupabaseMock({ 'file-1': { content: 'base', yjs_state: null } });
+      const manager = new DocumentManager(client);
+      const conflicts = vi.fn();
+      manager.onConflict(conflicts);
+      const managed = await manager.subscribe('room-1', 'file-1', 'socket-1');
+
+      // A version-checked save from a client lands first
+      Object.assign(rows['file-1'], { content: 'saved elsewhere', version: 2 });
+      typeInto(manager, managed, 'typed ');
+
+      await expect(manager.flush('room-1', 'file-1')).rejects.toBeInstanceOf(DocumentConflictError);
+      expect(updates).toHaveLength(0);
+      expect(conflicts).toHaveBeenCalledWith('room-1', 'file-1', { baseVersion: 1, baseContent: 'base' });
+
+      // Once a client has merged version 2 into the document, the session writes over it
+      await manager.flush('room-1', 'file-1', { authorId: 'user-1', mergedVersion: 2 });
+      expect(updates).toEqual([expect.objectContaining({ content: 'typed base', version: 3 })]);
+    });
+
+    test('are told apart from another node writing the same session', async () => {
+      const { client, updates, rows } = createSupabaseMock({ 'file-1': { content: 'base', yjs_state: null } });
+      const manager = new DocumentManager(client);
+      const conflicts = vi.fn();
+      manager.onConflict(conflicts);
+      const managed = await manager.subscribe('room-1', 'file-1', 'socket-1');
+
+      // The other node holds the same history plus an edit of its own
+      const peer = new Y.Doc();
+      Y.applyUpdate(peer, Y.encodeStateAsUpdate(managed.doc));
+      peer.getText('monaco').insert(4, '!');
+      Object.assign(rows['file-1'], {
+        content: 'base!',
+        yjs_state: Buffer.from(Y.encodeStateAsUpdate(peer)).toString('base64'),
+        version: 2
+      });
+      typeInto(manager, managed, 'typed ');
+
+      await manager.flush('room-1', 'file-1');
+      expect(conflicts).not.toHaveBeenCalled();
+      expect(updates).toEqual([expect.objectContaining({ content: 'typed base!', version: 3 })]);
+    });
+  });
+});
@@ -0,0 +1,560 @@
+/**
+ * Document Manager for server-authoritative Yjs collaboration
+ * Hosts one Y.Doc per room/file, answers sync requests and persists snapshots
+ */
+
+import * as Y from 'yjs';
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates
+} from 'y-protocols/awareness';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RevisionRecorder } from './revision-recorder';
+
+interface DocumentManagerConfig {
+  persistDebounceMs: number;
+  unloadDelayMs: number;
+}
+
+interface ManagedDocument {
+  key: string;
+  groupId: string;
+  fileId: string;
+  doc: Y.Doc;
+  awareness: Awareness;
+  subscribers: Set<string>; // socket ids
+  awarenessClients: Map<string, Set<number>>; // socketId -> awareness client ids
+  persistTimer?: NodeJS.Timeout;
+  unloadTimer?: NodeJS.Timeout;
+  lastEditorId?: string;
+  /** `collaboration_files.version` as this document last read or wrote it */
+  version: number;
+  /** The stored content at `version` */
+  persistedContent: string;
+  /** A save made outside the session, held until a client merges it into the document */
+  outsideSave?: { version: number; content: string };
+}
+
+interface SaveOptions {
+  authorId: string;
+  /** The revision whose content this save restores */
+  restoredFrom?: string;
+  /** The outside save's version, once the saving client has merged it into the document */
+  mergedVersion?: number;
+}
+
+/**
+ * The file was saved outside the collaborative session after `baseVersion`.
+ * Nothing is written until a client merges that save into the document.
+ */
+export interface DocumentConflict {
+  baseVersion: number;
+  baseContent: string;
+}
+
+type PersistListener = (groupId: string, fileId: string, updatedAt: string) => void;
+type ConflictListener = (groupId: string, fileId: string, conflict: DocumentConflict) => void;
+type PeerStateLoader = (groupId: string, fileId: string, stateVector: Uint8Array) => Promise<Uint8Array[]>;
+
+const DEFAULT_CONFIG: DocumentManagerConfig = {
+  persistDebounceMs: 2000,
+  unloadDelayMs: 30000
+};
+
+export class DocumentNotFoundError extends Error {
+  constructor(fileId: string) {
+    super(`File ${fileId} does not exist in this room`);
+    this.name = 'DocumentNotFoundError';
+  }
+}
+
+export class DocumentConflictError extends Error {
+  constructor(fileId: string) {
+    super(`File ${fileId} was saved outside the collaborative session`);
+    this.name = 'DocumentConflictError';
+  }
+}
+
+export class DocumentManager {
+  private supabase: SupabaseClient;
+  private config: DocumentManagerConfig;
+  private documents: Map<string, ManagedDocument> = new Map();
+  private loading: Map<string, Promise<ManagedDocument>> = new Map();
+  private persistListeners: Set<PersistListener> = new Set();
+  private conflictListeners: Set<ConflictListener> = new Set();
+  private peerStateLoader: PeerStateLoader | null = null;
+  private revisionRecorder: RevisionRecorder | null = null;
+
+  constructor(supabase: SupabaseClient, config: Partial<DocumentManagerConfig> = {}) {
+    this.supabase = supabase;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Register a socket as a subscriber of a document, loading it if needed
+   * @returns the loaded document
+   */
+  async subscribe(groupId: string, fileId: string, socketId: string): Promise<ManagedDocument> {
+    const managed = await this.getDocument(groupId, fileId);
+    managed.subscribers.add(socketId);
+
+    if (managed.unloadTimer) {
+      clearTimeout(managed.unloadTimer);
+      managed.unloadTimer = undefined;
+    }
+
+    return managed;
+  }
+
+  /**
+   * Remove a socket from a document; the document is unloaded once nobody is left
+   * @returns an encoded awareness update removing the socket's clients, if any
+   */
+  unsubscribe(groupId: string, fileId: string, socketId: string): Uint8Array | null {
+    const managed = this.documents.get(this.getKey(groupId, fileId));
+    if (!managed) return null;
+
+    managed.subscribers.delete(socketId);
+    const removal = this.removeAwarenessClients(managed, socketId);
+
+    if (managed.subscribers.size === 0 && !managed.unloadTimer) {
+      managed.unloadTimer = setTimeout(() => {
+        this.unload(managed.key).catch(error => {
+          console.error(`Failed to unload document ${managed.key}:`, error);
+        });
+      }, this.config.unloadDelayMs);
+    }
+
+    return removal;
+  }
+
+  /**
+   * Remove a socket from every document it subscribed to, optionally within one room
+   * @returns the affected documents with the awareness removal to broadcast
+   */
+  unsubscribeAll(
+    socketId: string,
+    groupId?: string
+  ): Array<{ groupId: string; fileId: string; awarenessUpdate: Uint8Array | null }> {
+    const affected: Array<{ groupId: string; fileId: string; awarenessUpdate: Uint8Array | null }> = [];
+
+    for (const managed of Array.from(this.documents.values())) {
+      if (groupId && managed.groupId !== groupId) continue;
+      if (managed.subscribers.has(socketId)) {
+        affected.push({
+          groupId: managed.groupId,
+          fileId: managed.fileId,
+          awarenessUpdate: this.unsubscribe(managed.groupId, managed.fileId, socketId)
+        });
+      }
+    }
+
+    return affected;
+  }
+
+  isSubscribed(groupId: string, fileId: string, socketId: string): boolean {
+    return this.documents.get(this.getKey(groupId, fileId))?.subscribers.has(socketId) ?? false;
+  }
+
+  /**
+   * Sync step 1: encode everything the client is missing given its state vector
+   */
+  encodeDiff(managed: ManagedDocument, clientStateVector?: Uint8Array): Uint8Array {
+    return Y.encodeStateAsUpdate(managed.doc, clientStateVector);
+  }
+
+  encodeStateVector(managed: ManagedDocument): Uint8Array {
+    return Y.encodeStateVector(managed.doc);
+  }
+
+  encodeAwareness(managed: ManagedDocument): Uint8Array | null {
+    const clients = Array.from(managed.awareness.getStates().keys());
+    return clients.length > 0 ? encodeAwarenessUpdate(managed.awareness, clients) : null;
+  }
+
+  /**
+   * Apply a client update to the authoritative document and schedule persistence
+   */
+  applyUpdate(groupId: string, fileId: string, update: Uint8Array, userId: string): void {
+    const managed = this.documents.get(this.getKey(groupId, fileId));
+    if (!managed) {
+      throw new DocumentNotFoundError(fileId);
+    }
+
+    Y.applyUpdate(managed.doc, update, userId);
+    managed.lastEditorId = userId;
+    this.schedulePersist(managed);
+  }
+
+  /**
+   * Apply a client awareness update, remembering which clients belong to the socket
+   */
+  applyAwareness(groupId: string, fileId: string, update: Uint8Array, socketId: string): void {
+    const managed = this.documents.get(this.getKey(groupId, fileId));
+    if (!managed) {
+      throw new DocumentNotFoundError(fileId);
+    }
+
+    applyAwarenessUpdate(managed.awareness, update, socketId);
+  }
+
+  /**
+   * Apply an update forwarded by another server node. The node that received it
+   * from a client persists it, so this only keeps the local copy current.
+   */
+  applyPeerUpdate(groupId: string, fileId: string, update: Uint8Array): void {
+    const managed = this.documents.get(this.getKey(groupId, fileId));
+    if (managed) {
+      Y.applyUpdate(managed.doc, update, 'peer');
+    }
+  }
+
+  /**
+   * Encode what a peer node is missing, if this node has the document loaded
+   */
+  getStateDiff(groupId: string, fileId: string, stateVector: Uint8Array): Uint8Array | null {
+    const managed = this.documents.get(this.getKey(groupId, fileId));
+    return managed ? Y.encodeStateAsUpdate(managed.doc, stateVector) : null;
+  }
+
+  /**
+   * Ask other server nodes for unpersisted state when a document is loaded
+   */
+  setPeerStateLoader(loader: PeerStateLoader): void {
+    this.peerStateLoader = loader;
+  }
+
+  /**
+   * Keep revision history as documents are loaded, persisted, saved and closed
+   */
+  setRevisionRecorder(recorder: RevisionRecorder): void {
+    this.revisionRecorder = recorder;
+  }
+
+  onPersisted(listener: PersistListener): () => void {
+    this.persistListeners.add(listener);
+    return () => this.persistListeners.delete(listener);
+  }
+
+  onConflict(listener: ConflictListener): () => void {
+    this.conflictListeners.add(listener);
+    return () => this.conflictListeners.delete(listener);
+  }
+
+  /**
+   * Persist a document immediately (explicit save from a client)
+   */
+  async flush(groupId: string, fileId: string, save?: SaveOptions): Promise<void> {
+    const managed = this.documents.get(this.getKey(groupId, fileId));
+    if (!managed) {
+      throw new DocumentNotFoundError(fileId);
+    }
+
+    if (managed.persistTimer) {
+      clearTimeout(managed.persistTimer);
+      managed.persistTimer = undefined;
+    }
+    if (managed.outsideSave && save?.mergedVersion === managed.outsideSave.version) {
+      managed.version = managed.outsideSave.version;
+      managed.persistedContent = managed.outsideSave.content;
+      managed.outsideSave = undefined;
+    } else if (managed.outsideSave) {
+      // Remind whoever is saving that the outside save still needs merging
+      this.notifyConflict(managed);
+    }
+    if (!(await this.persist(managed))) {
+      throw managed.outsideSave
+        ? new DocumentConflictError(fileId)
+        : new Error(`Failed to persist document ${managed.key}`);
+    }
+    if (save) {
+      await this.revisionRecorder?.record(groupId, fileId, managed.doc.getText('monaco').toString(), {
+        reason: save.restoredFrom ? 'restore' : 'save',
+        authorId: save.authorId,
+        restoredFrom: save.restoredFrom
+      });
+    }
+  }
+
+  /**
+   * Persist every dirty document immediately (used on shutdown)
+   */
+  async flushAll(): Promise<void> {
+    const pending = Array.from(this.documents.values())
+      .filter(managed => managed.persistTimer)
+      .map(managed => {
+        clearTimeout(managed.persistTimer);
+        managed.persistTimer = undefined;
+        return this.persist(managed);
+      });
+
+    await Promise.all(pending);
+  }
+
+  getLoadedDocumentCount(): number {
+    return this.documents.size;
+  }
+
+  private getKey(groupId: string, fileId: string): string {
+    return `${groupId}:${fileId}`;
+  }
+
+  private async getDocument(groupId: string, fileId: string): Promise<ManagedDocument> {
+    const key = this.getKey(groupId, fileId);
+    const existing = this.documents.get(key);
+    if (existing) return existing;
+
+    // Concurrent joiners share a single load so the document is seeded exactly once
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = this.load(groupId, fileId).finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  private async load(groupId: string, fileId: string): Promise<ManagedDocument> {
+    const { data: file, error } = await this.supabase
+      .from('collaboration_files')
+      .select('content, yjs_state, version')
+      .eq('id', fileId)
+      .eq('room_id', groupId)
+      .single();
+
+    if (error || !file) {
+      throw new DocumentNotFoundError(fileId);
+    }
+
+    const doc = new Y.Doc();
+    const content: string = file.content || '';
+
+    // Restore the stored CRDT history when it still matches the file content so
+    // reconnecting clients merge with it instead of duplicating text. If the file
+    // was changed outside of a collaborative session, the plain content wins.
+    if (file.yjs_state) {
+      Y.applyUpdate(doc, Buffer.from(file.yjs_state, 'base64'));
+    }
+    const stored = { version: file.version, content };
+    if (doc.getText('monaco').toString() !== content) {
+      doc.destroy();
+      return this.loaded(groupId, fileId, await this.mergePeerState(groupId, fileId, this.seed(content)), stored);
+    }
+
+    return this.loaded(groupId, fileId, await this.mergePeerState(groupId, fileId, doc), stored);
+  }
+
+  private async loaded(
+    groupId: string,
+    fileId: string,
+    doc: Y.Doc,
+    stored: { version: number; content: string }
+  ): Promise<ManagedDocument> {
+    const managed = this.register(groupId, fileId, doc, stored);
+    await this.revisionRecorder?.documentLoaded(groupId, fileId, doc.getText('monaco').toString());
+    return managed;
+  }
+
+  private async mergePeerState(groupId: string, fileId: string, doc: Y.Doc): Promise<Y.Doc> {
+    if (!this.peerStateLoader) return doc;
+
+    try {
+      const updates = await this.peerStateLoader(groupId, fileId, Y.encodeStateVector(doc));
+      updates.forEach(update => Y.applyUpdate(doc, update, 'peer'));
+    } catch (error) {
+      console.error(`Failed to fetch peer state for ${groupId}:${fileId}:`, error);
+    }
+
+    return doc;
+  }
+
+  private seed(content: string): Y.Doc {
+    const doc = new Y.Doc();
+    if (content.length > 0) {
+      doc.getText('monaco').insert(0, content);
+    }
+    return doc;
+  }
+
+  private register(
+    groupId: string,
+    fileId: string,
+    doc: Y.Doc,
+    stored: { version: number; content: string }
+  ): ManagedDocument {
+    const managed: ManagedDocument = {
+      key: this.getKey(groupId, fileId),
+      groupId,
+      fileId,
+      doc,
+      awareness: new Awareness(doc),
+      subscribers: new Set(),
+      awarenessClients: new Map(),
+      version: stored.version,
+      persistedContent: stored.content
+    };
+
+    // The server holds no local awareness state of its own
+    managed.awareness.setLocalState(null);
+    managed.awareness.on('update', (
+      { added, updated }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      if (typeof origin !== 'string' || !managed.subscribers.has(origin)) return;
+      const clients = managed.awarenessClients.get(origin) ?? new Set<number>();
+      [...added, ...updated].forEach(clientId => clients.add(clientId));
+      managed.awarenessClients.set(origin, clients);
+    });
+
+    this.documents.set(managed.key, managed);
+    return managed;
+  }
+
+  private removeAwarenessClients(managed: ManagedDocument, socketId: string): Uint8Array | null {
+    const clients = managed.awarenessClients.get(socketId);
+    managed.awarenessClients.delete(socketId);
+    if (!clients || clients.size === 0) return null;
+
+    const ids = Array.from(clients);
+    removeAwarenessStates(managed.awareness, ids, 'server');
+    return encodeAwarenessUpdate(managed.awareness, ids);
+  }
+
+  private schedulePersist(managed: ManagedDocument): void {
+    if (managed.persistTimer) {
+      clearTimeout(managed.persistTimer);
+    }
+
+    managed.persistTimer = setTimeout(() => {
+      managed.persistTimer = undefined;
+      // Nobody awaits a debounced snapshot, so a throwing client or recorder is only logged
+      this.persist(managed).catch(error => {
+        console.error(`Failed to persist document ${managed.key}:`, error);
+      });
+    }, this.config.persistDebounceMs);
+  }
+
+  /**
+   * Write the document if the file is still at the version it last read or wrote,
+   * bumping the version the same way version-checked saves from clients do
+   */
+  private async persist(managed: ManagedDocument): Promise<boolean> {
+    // Writing now would overwrite the outside save
+    if (managed.outsideSave) return false;
+
+    const content = managed.doc.getText('monaco').toString();
+    const updatedAt = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('collaboration_files')
+      .update({
+        content,
+        yjs_state: Buffer.from(Y.encodeStateAsUpdate(managed.doc)).toString('base64'),
+        version: managed.version + 1,
+        updated_at: updatedAt
+      })
+      .eq('id', managed.fileId)
+      .eq('room_id', managed.groupId)
+      .eq('version', managed.version)
+      .select('version')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to persist document ${managed.key}:`, error.message);
+      return false;
+    }
+    if (!data) {
+      return this.reconcile(managed);
+    }
+
+    managed.version = data.version;
+    managed.persistedContent = content;
+    this.persistListeners.forEach(listener => listener(managed.groupId, managed.fileId, updatedAt));
+    await this.revisionRecorder?.record(managed.groupId, managed.fileId, managed.doc.getText('monaco').toString(), {
+      reason: 'snapshot',
+      authorId: managed.lastEditorId ?? null
+    });
+    return true;
+  }
+
+  /**
+   * The file moved past the version this document last wrote. A snapshot of the
+   * same session, written by another node, is merged in and written over; a save
+   * made outside the session is held for a client to merge instead.
+   */
+  private async reconcile(managed: ManagedDocument): Promise<boolean> {
+    const { data: file, error } = await this.supabase
+      .from('collaboration_files')
+      .select('content, yjs_state, version')
+      .eq('id', managed.fileId)
+      .eq('room_id', managed.groupId)
+      .single();
+
+    if (error || !file) {
+      console.error(`Failed to read document ${managed.key} after a version mismatch:`, error?.message);
+      return false;
+    }
+    if (file.version === managed.version) {
+      console.error(`Failed to persist document ${managed.key}: version ${file.version} did not match`);
+      return false;
+    }
+
+    const content: string = file.content || '';
+    const stored = new Y.Doc();
+    if (file.yjs_state) {
+      Y.applyUpdate(stored, Buffer.from(file.yjs_state, 'base64'));
+    }
+    const fromSession = file.yjs_state && stored.getText('monaco').toString() === content;
+    if (fromSession) {
+      Y.applyUpdate(managed.doc, Y.encodeStateAsUpdate(stored), 'peer');
+    }
+    stored.destroy();
+
+    if (fromSession) {
+      managed.version = file.version;
+      managed.persistedContent = content;
+      return this.persist(managed);
+    }
+
+    managed.outsideSave = { version: file.version, content };
+    this.notifyConflict(managed);
+    return false;
+  }
+
+  private notifyConflict(managed: ManagedDocument): void {
+    const conflict = { baseVersion: managed.version, baseContent: managed.persistedContent };
+    this.conflictListeners.forEach(listener => listener(managed.groupId, managed.fileId, conflict));
+  }
+
+  private async unload(key: string): Promise<void> {
+    const managed = this.documents.get(key);
+    if (!managed || managed.subscribers.size > 0) return;
+
+    if (managed.persistTimer) {
+      clearTimeout(managed.persistTimer);
+      managed.persistTimer = undefined;
+      await this.persist(managed);
+    }
+    if (managed.outsideSave) {
+      console.warn(`Closing ${managed.key} unwritten: a save made outside the session was never merged`);
+    }
+
+    // A subscriber may have arrived while the final snapshot was being written
+    if (managed.subscribers.size > 0) return;
+
+    if (this.revisionRecorder) {
+      await this.revisionRecorder.record(managed.groupId, managed.fileId, managed.doc.getText('monaco').toString(), {
+        reason: 'snapshot',
+        authorId: managed.lastEditorId ?? null,
+        force: true
+      });
+      this.revisionRecorder.forget(managed.fileId);
+      if (managed.subscribers.size > 0) return;
+    }
+
+    this.documents.delete(key);
+    managed.awareness.destroy();
+    managed.doc.destroy();
+  }
+}
@@ -1,9 +1,17 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { Redis } from 'ioredis';
 import { createClient } from '@supabase/supabase-js';
 import { CollaborationSocketServer } from './collaboration-socket-server';
+import { DocumentManager } from './document-manager';
+import { SessionRecorder } from './session-recorder';
+import { RevisionRecorder } from './revision-recorder';
+import { InMemoryPresenceStore, PresenceStore, RedisPresenceStore } from './presence-store';
+import { presenceThresholdsFromEnv } from './presence-status';
 import { rateLimiters, getClientIp } from './rate-limiter';
+import { createAdminRouter } from './admin-api';
 
 const app = express();
 const server = createServer(app);
@@ -24,6 +32,10 @@ if (!supabaseUrl || !supabaseServiceKey) {
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const DRAIN_TIMEOUT_MS = Number(process.env.DRAIN_TIMEOUT_MS) || 15000;
+const REVISION_INTERVAL_MS = Number(process.env.REVISION_INTERVAL_MS) || 10 * 60 * 1000;
+const DRAIN_RETRY_AFTER_MS = 1000;
+
 // Configure CORS for Socket.IO
 const io = new Server(server, {
   cors: {
@@ -39,13 +51,49 @@ const io = new Server(server, {
   pingInterval: 25000
 });
 
+// Shared state for running several nodes behind a load balancer. Without
+// REDIS_URL the server keeps presence in memory and runs as a single node.
+const redisUrl = process.env.REDIS_URL;
+let presenceStore: PresenceStore;
+
+// Session tokens let clients resume on another node, so every clustered node needs the same secret.
+// A single node signs with a random key of its own when none is set.
+const sessionSecret = process.env.SESSION_SECRET;
+if (redisUrl && !sessionSecret) {
+  console.error('SESSION_SECRET is required when REDIS_URL is set');
+  process.exit(1);
+}
+
+if (redisUrl) {
+  const pubClient = new Redis(redisUrl);
+  const subClient = pubClient.duplicate();
+  io.adapter(createAdapter(pubClient, subClient, { requestsTimeout: 2000 }));
+  presenceStore = new RedisPresenceStore(pubClient);
+} else {
+  presenceStore = new InMemoryPresenceStore();
+}
+
+// A draining node refuses new connections so clients reconnect to another node
+io.use((socket, next) => {
+  if (collaborationServer.isDraining()) {
+    const error: Error & { data?: { retryAfterMs: number } } = new Error('Server restarting. Please reconnect.');
+    error.data = { retryAfterMs: DRAIN_RETRY_AFTER_MS };
+    return next(error);
+  }
+  next();
+});
+
 // Rate limiting middleware - check connection rate before auth
 io.use((socket, next) => {
   const clientIp = getClientIp(socket);
   
-  if (!rateLimiters.connection.isAllowed(clientIp)) {
+  const { allowed, retryAfterMs } = rateLimiters.user.connection.check(clientIp);
+  if (!allowed) {
     console.log(`Rate limited connection attempt from IP: ${clientIp}`);
-    return next(new Error('Too many connection attempts. Please try again later.'));
+    // Socket.IO passes `data` on to the client's connect_error
+    const error: Error & { data?: { retryAfterMs: number } } = new Error('Too many connection attempts. Please try again later.');
+    error.data = { retryAfterMs };
+    return next(error);
   }
   
   next();
@@ -81,25 +129,73 @@ io.use(async (socket, next) => {
   }
 });
 
-// Initialize collaboration socket server with Supabase client and rate limiters
-const collaborationServer = new CollaborationSocketServer(io, supabase, rateLimiters);
+// Authoritative Yjs documents, persisted to collaboration_files
+const documentManager = new DocumentManager(supabase);
+
+// Point-in-time file history, kept in collaboration_file_revisions
+documentManager.setRevisionRecorder(new RevisionRecorder(supabase, { intervalMs: REVISION_INTERVAL_MS }));
+
+// Session history for room insights, persisted to collaboration_session_history
+const sessionRecorder = new SessionRecorder(supabase);
+sessionRecorder.closeStaleSessions().then(count => {
+  if (count > 0) console.log(`Closed ${count} interrupted collaboration sessions`);
+}).catch(error => {
+  console.error('Failed to close interrupted collaboration sessions:', error);
+});
+
+// Initialize collaboration socket server with Supabase client, rate limiters, documents and presence
+const collaborationServer = new CollaborationSocketServer(
+  io,
+  supabase,
+  rateLimiters,
+  documentManager,
+  presenceStore,
+  sessionRecorder,
+  { clustered: !!redisUrl, presenceThresholds: presenceThresholdsFromEnv(process.env), sessionSecret }
+);
 collaborationServer.initialize();
 
+// Admin endpoints and Prometheus metrics, only when a token is configured
+const adminToken = process.env.ADMIN_API_TOKEN;
+if (adminToken) {
+  app.use(createAdminRouter({
+    collaborationServer,
+    documentManager,
+    getSocketCount: () => io.engine.clientsCount,
+    adminToken
+  }));
+}
+
 const PORT = process.env.PORT || process.env.SOCKET_PORT || 3001;
 
 server.listen(PORT, () => {
   console.log(`Socket.IO server running on port ${PORT}`);
   console.log('Authentication: ENABLED');
   console.log('Rate Limiting: ENABLED');
+  console.log(`Admin API: ${adminToken ? 'ENABLED' : 'DISABLED (set ADMIN_API_TOKEN)'}`);
+  console.log(`Presence Store: ${redisUrl ? 'Redis (clustered)' : 'in-memory'}`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    console.log('Server closed');
-    process.exit(0);
+// Graceful shutdown: hand clients over to other nodes before closing
+process.on('SIGTERM', async () => {
+  if (collaborationServer.isDraining()) return;
+  console.log('SIGTERM received, draining connections');
+  try {
+    await collaborationServer.drain({ timeoutMs: DRAIN_TIMEOUT_MS });
+  } catch (error) {
+    console.error('Drain failed, closing anyway:', error);
+  }
+  server.close(async () => {
+    try {
+      await documentManager.flushAll();
+      await sessionRecorder.endAll();
+      console.log('Server closed');
+      process.exit(0);
+    } catch (error) {
+      console.error('Failed to save state on shutdown:', error);
+      process.exit(1);
+    }
   });
 });
 
@@ -0,0 +1,63 @@
+import { CollaborationMetrics, formatPrometheus } from './metrics';
+
+describe('CollaborationMetrics', () => {
+  test('counts events and averages throughput over the last minute', () => {
+    const metrics = new CollaborationMetrics(0);
+
+    for (let i = 0; i < 30; i++) metrics.recordEvent('cursor-update', 59000);
+    metrics.recordEvent('doc-update', 1000);
+    metrics.recordEvent('doc-update', 65000);
+
+    const { events } = metrics.getSnapshot(65500);
+    expect(events).toEqual([
+      { event: 'cursor-update', total: 30, perSecond: 0.5 },
+      // The update at one second has left the window
+      { event: 'doc-update', total: 2, perSecond: 0.02 }
+    ]);
+  });
+
+  test('averages over the uptime of a young node', () => {
+    const metrics = new CollaborationMetrics(0);
+    for (let i = 0; i < 10; i++) metrics.recordEvent('typing-start', 1500);
+
+    expect(metrics.getSnapshot(2000).events[0].perSecond).toBe(5);
+  });
+
+  test('counts rate-limit rejections by scope and permission denials by reason', () => {
+    const metrics = new CollaborationMetrics(0);
+    metrics.recordRateLimited('doc-update', 'user');
+    metrics.recordRateLimited('doc-update', 'room');
+    metrics.recordRateLimited('doc-update', 'room');
+    metrics.recordPermissionDenied('doc-save', 'insufficient-role');
+
+    const snapshot = metrics.getSnapshot(10000);
+    expect(snapshot.rateLimited).toEqual([
+      { event: 'doc-update', scope: 'room', total: 2 },
+      { event: 'doc-update', scope: 'user', total: 1 }
+    ]);
+    expect(snapshot.permissionDenied).toEqual([{ event: 'doc-save', reason: 'insufficient-role', total: 1 }]);
+    expect(snapshot.uptimeSeconds).toBe(10);
+  });
+});
+
+describe('formatPrometheus', () => {
+  test('renders help, type and labelled samples', () => {
+    const metrics = new CollaborationMetrics(0);
+    metrics.recordEvent('doc-update', 0);
+    metrics.recordRateLimited('doc-update', 'user');
+
+    const text = formatPrometheus(metrics.toPrometheusMetrics(3000));
+
+    expect(text).toContain('# TYPE collab_events_total counter\ncollab_events_total{event="doc-update"} 1\n');
+    expect(text).toContain('collab_rate_limited_total{event="doc-update",scope="user"} 1\n');
+    expect(text).toContain('# TYPE collab_uptime_seconds gauge\ncollab_uptime_seconds 3\n');
+  });
+
+  test('escapes label values', () => {
+    const text = formatPrometheus([
+      { name: 'test_total', help: 'Test', type: 'counter', samples: [{ labels: { name: 'a"b\\c\nd' }, value: 1 }] }
+    ]);
+
+    expect(text).toContain('test_total{name="a\\"b\\\\c\\nd"} 1');
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Metrics for the collaboration socket server
+ * Counts inbound events, rate-limit rejections, permission denials and invalid payloads, and renders them for Prometheus
+ *
+ * Counters are node-local: Prometheus scrapes each node and sums them.
+ * Throughput is the event count over the last minute, kept in one-second buckets.
+ */
+
+export type RejectionScope = 'user' | 'room';
+
+interface EventCounter {
+  total: number;
+  /** Events per second for the last THROUGHPUT_WINDOW_SECONDS, indexed by second modulo the window */
+  buckets: number[];
+  /** The second each bucket was last written in */
+  bucketSeconds: number[];
+}
+
+export interface EventMetrics {
+  event: string;
+  total: number;
+  /** Average events per second over the last minute */
+  perSecond: number;
+}
+
+interface RejectionMetrics {
+  event: string;
+  label: string;
+  total: number;
+}
+
+export interface MetricsSnapshot {
+  startedAt: string;
+  uptimeSeconds: number;
+  events: EventMetrics[];
+  rateLimited: Array<{ event: string; scope: RejectionScope; total: number }>;
+  permissionDenied: Array<{ event: string; reason: string; total: number }>;
+  validationErrors: Array<{ event: string; total: number }>;
+}
+
+export interface PrometheusMetric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: Array<{ labels?: Record<string, string>; value: number }>;
+}
+
+const THROUGHPUT_WINDOW_SECONDS = 60;
+
+export class CollaborationMetrics {
+  private startedAt: number;
+  private events: Map<string, EventCounter> = new Map();
+  private rateLimited: Map<string, number> = new Map(); // scope:event -> count
+  private permissionDenied: Map<string, number> = new Map(); // reason:event -> count
+  private validationErrors: Map<string, number> = new Map(); // event -> count
+
+  constructor(now: number = Date.now()) {
+    this.startedAt = now;
+  }
+
+  recordEvent(event: string, now: number = Date.now()): void {
+    let counter = this.events.get(event);
+    if (!counter) {
+      counter = {
+        total: 0,
+        buckets: new Array(THROUGHPUT_WINDOW_SECONDS).fill(0),
+        bucketSeconds: new Array(THROUGHPUT_WINDOW_SECONDS).fill(-1)
+      };
+      this.events.set(event, counter);
+    }
+
+    const second = Math.floor(now / 1000);
+    const index = second % THROUGHPUT_WINDOW_SECONDS;
+    if (counter.bucketSeconds[index] !== second) {
+      counter.buckets[index] = 0;
+      counter.bucketSeconds[index] = second;
+    }
+    counter.buckets[index]++;
+    counter.total++;
+  }
+
+  recordRateLimited(event: string, scope: RejectionScope): void {
+    increment(this.rateLimited, `${scope}:${event}`);
+  }
+
+  recordPermissionDenied(event: string, reason: string): void {
+    increment(this.permissionDenied, `${reason}:${event}`);
+  }
+
+  recordValidationError(event: string): void {
+    increment(this.validationErrors, event);
+  }
+
+  getSnapshot(now: number = Date.now()): MetricsSnapshot {
+    return {
+      startedAt: new Date(this.startedAt).toISOString(),
+      uptimeSeconds: Math.floor((now - this.startedAt) / 1000),
+      events: this.getEventMetrics(now),
+      rateLimited: splitKeys(this.rateLimited).map(({ label, event, total }) => ({
+        event,
+        scope: label as RejectionScope,
+        total
+      })),
+      permissionDenied: splitKeys(this.permissionDenied).map(({ label, event, total }) => ({
+        event,
+        reason: label,
+        total
+      })),
+      validationErrors: Array.from(this.validationErrors.entries())
+        .map(([event, total]) => ({ event, total }))
+        .sort((a, b) => a.event.localeCompare(b.event))
+    };
+  }
+
+  /**
+   * Counters in Prometheus metric form, for rendering alongside gauges the caller supplies
+   */
+  toPrometheusMetrics(now: number = Date.now()): PrometheusMetric[] {
+    const snapshot = this.getSnapshot(now);
+    return [
+      {
+        name: 'collab_events_total',
+        help: 'Socket events received from clients',
+        type: 'counter',
+        samples: snapshot.events.map(({ event, total }) => ({ labels: { event }, value: total }))
+      },
+      {
+        name: 'collab_rate_limited_total',
+        help: 'Socket events dropped by a user or room rate limit',
+        type: 'counter',
+        samples: snapshot.rateLimited.map(({ event, scope, total }) => ({ labels: { event, scope }, value: total }))
+      },
+      {
+        name: 'collab_permission_denied_total',
+        help: 'Socket events rejected for room membership or role',
+        type: 'counter',
+        samples: snapshot.permissionDenied.map(({ event, reason, total }) => ({ labels: { event, reason }, value: total }))
+      },
+      {
+        name: 'collab_validation_errors_total',
+        help: 'Socket events rejected for a malformed or oversized payload',
+        type: 'counter',
+        samples: snapshot.validationErrors.map(({ event, total }) => ({ labels: { event }, value: total }))
+      },
+      {
+        name: 'collab_uptime_seconds',
+        help: 'Seconds since the node started',
+        type: 'gauge',
+        samples: [{ value: snapshot.uptimeSeconds }]
+      }
+    ];
+  }
+
+  private getEventMetrics(now: number): EventMetrics[] {
+    const currentSecond = Math.floor(now / 1000);
+    // A young node averages over the time it has been up
+    const windowSeconds = Math.min(
+      THROUGHPUT_WINDOW_SECONDS,
+      Math.max(1, Math.ceil((now - this.startedAt) / 1000))
+    );
+
+    return Array.from(this.events.entries())
+      .map(([event, counter]) => {
+        const recent = counter.buckets.reduce(
+          (sum, count, index) =>
+            currentSecond - counter.bucketSeconds[index] < windowSeconds ? sum + count : sum,
+          0
+        );
+        return { event, total: counter.total, perSecond: Math.round((recent / windowSeconds) * 100) / 100 };
+      })
+      .sort((a, b) => a.event.localeCompare(b.event));
+  }
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format
+ */
+export function formatPrometheus(metrics: PrometheusMetric[]): string {
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    for (const sample of metric.samples) {
+      lines.push(`${metric.name}${formatLabels(sample.labels)} ${sample.value}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels || Object.keys(labels).length === 0) return '';
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+// Keys are "label:event"; labels are fixed words without a colon
+function splitKeys(counts: Map<string, number>): RejectionMetrics[] {
+  return Array.from(counts.entries())
+    .map(([key, total]) => {
+      const separator = key.indexOf(':');
+      return { label: key.slice(0, separator), event: key.slice(separator + 1), total };
+    })
+    .sort((a, b) => a.event.localeCompare(b.event) || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,55 @@
+import {
+  DEFAULT_PRESENCE_THRESHOLDS,
+  getAutomaticStatus,
+  getNextTransitionMs,
+  presenceThresholdsFromEnv,
+  resolvePresenceStatus,
+  resolveThresholds
+} from './presence-status';
+
+const thresholds = { idleMs: 60000, offlineMs: 600000 };
+
+describe('presence status', () => {
+  test('moves from online to away to offline as a user stays inactive', () => {
+    expect(getAutomaticStatus(0, thresholds, false)).toBe('online');
+    expect(getAutomaticStatus(60000, thresholds, false)).toBe('away');
+    expect(getAutomaticStatus(600000, thresholds, false)).toBe('offline');
+  });
+
+  test('treats a user whose tabs are all hidden as away', () => {
+    expect(getAutomaticStatus(0, thresholds, true)).toBe('away');
+    expect(getAutomaticStatus(600000, thresholds, true)).toBe('offline');
+  });
+
+  test('lets a manual status override online and away but not offline', () => {
+    expect(resolvePresenceStatus('online', 'dnd')).toBe('dnd');
+    expect(resolvePresenceStatus('away', 'dnd')).toBe('dnd');
+    expect(resolvePresenceStatus('online', 'away')).toBe('away');
+    expect(resolvePresenceStatus('offline', 'dnd')).toBe('offline');
+    expect(resolvePresenceStatus('away', null)).toBe('away');
+  });
+
+  test('schedules the next status change', () => {
+    expect(getNextTransitionMs(10000, thresholds, false)).toBe(50000);
+    expect(getNextTransitionMs(10000, thresholds, true)).toBe(590000);
+    expect(getNextTransitionMs(600000, thresholds, false)).toBeNull();
+  });
+
+  test('applies room settings over the server defaults', () => {
+    expect(resolveThresholds(thresholds, null)).toEqual(thresholds);
+    expect(resolveThresholds(thresholds, { idleTimeoutSeconds: 120, offlineTimeoutSeconds: null }))
+      .toEqual({ idleMs: 120000, offlineMs: 600000 });
+  });
+
+  test('keeps offline after away and away from being instant', () => {
+    expect(resolveThresholds(thresholds, { idleTimeoutSeconds: 900, offlineTimeoutSeconds: 300 }))
+      .toEqual({ idleMs: 900000, offlineMs: 900000 });
+    expect(resolveThresholds(thresholds, { idleTimeoutSeconds: 1 }).idleMs).toBe(30000);
+  });
+
+  test('reads server defaults from the environment', () => {
+    expect(presenceThresholdsFromEnv({})).toEqual(DEFAULT_PRESENCE_THRESHOLDS);
+    expect(presenceThresholdsFromEnv({ PRESENCE_IDLE_TIMEOUT_MS: '120000', PRESENCE_OFFLINE_TIMEOUT_MS: '900000' }))
+      .toEqual({ idleMs: 120000, offlineMs: 900000 });
+  });
+});
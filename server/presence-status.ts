@@ -0,0 +1,99 @@
+/**
+ * Presence Status for collaboration rooms
+ * Derives a user's status from their last activity, tab visibility and any status they set themselves
+ *
+ * A user goes `away` after the room's idle threshold (or at once when all their
+ * tabs are hidden) and `offline` after its offline threshold. A manual status
+ * replaces `online` and `away`, but an inactive user still goes `offline`.
+ */
+
+export type AutomaticStatus = 'online' | 'away' | 'offline';
+
+/** Statuses users set themselves; `dnd` is "Do not disturb" */
+export type ManualStatus = 'away' | 'dnd';
+
+export type PresenceStatus = AutomaticStatus | ManualStatus;
+
+export interface PresenceThresholds {
+  /** Inactivity before a user is shown as away */
+  idleMs: number;
+  /** Inactivity before a user is shown as offline */
+  offlineMs: number;
+}
+
+/** Per-room overrides, as stored on collaboration_rooms */
+export interface PresenceSettings {
+  idleTimeoutSeconds: number | null;
+  offlineTimeoutSeconds: number | null;
+}
+
+// Matches the defaults of the collaboration room page
+export const DEFAULT_PRESENCE_THRESHOLDS: PresenceThresholds = {
+  idleMs: 3 * 60 * 1000, // 3 minutes
+  offlineMs: 10 * 60 * 1000 // 10 minutes
+};
+
+const MIN_IDLE_MS = 30 * 1000;
+const MAX_OFFLINE_MS = 24 * 60 * 60 * 1000;
+
+export const MANUAL_STATUSES: ManualStatus[] = ['away', 'dnd'];
+
+/**
+ * Server-wide thresholds from PRESENCE_IDLE_TIMEOUT_MS and PRESENCE_OFFLINE_TIMEOUT_MS
+ */
+export function presenceThresholdsFromEnv(env: NodeJS.ProcessEnv): PresenceThresholds {
+  const idleMs = Number(env.PRESENCE_IDLE_TIMEOUT_MS) || DEFAULT_PRESENCE_THRESHOLDS.idleMs;
+  const offlineMs = Number(env.PRESENCE_OFFLINE_TIMEOUT_MS) || DEFAULT_PRESENCE_THRESHOLDS.offlineMs;
+  return clampThresholds({ idleMs, offlineMs });
+}
+
+/**
+ * Apply a room's settings over the server defaults
+ */
+export function resolveThresholds(
+  defaults: PresenceThresholds,
+  settings: Partial<PresenceSettings> | null | undefined
+): PresenceThresholds {
+  return clampThresholds({
+    idleMs: settings?.idleTimeoutSeconds ? settings.idleTimeoutSeconds * 1000 : defaults.idleMs,
+    offlineMs: settings?.offlineTimeoutSeconds ? settings.offlineTimeoutSeconds * 1000 : defaults.offlineMs
+  });
+}
+
+// Keep thresholds sensible: away is never instant, and offline always comes after away
+function clampThresholds({ idleMs, offlineMs }: PresenceThresholds): PresenceThresholds {
+  const idle = Math.min(Math.max(idleMs, MIN_IDLE_MS), MAX_OFFLINE_MS);
+  return { idleMs: idle, offlineMs: Math.min(Math.max(offlineMs, idle), MAX_OFFLINE_MS) };
+}
+
+export function getAutomaticStatus(
+  inactiveMs: number,
+  thresholds: PresenceThresholds,
+  hidden: boolean
+): AutomaticStatus {
+  if (inactiveMs >= thresholds.offlineMs) return 'offline';
+  if (hidden || inactiveMs >= thresholds.idleMs) return 'away';
+  return 'online';
+}
+
+export function resolvePresenceStatus(automatic: AutomaticStatus, manual?: ManualStatus | null): PresenceStatus {
+  if (!manual || automatic === 'offline') return automatic;
+  return manual;
+}
+
+/**
+ * How long until the automatic status next changes, or null once offline
+ */
+export function getNextTransitionMs(
+  inactiveMs: number,
+  thresholds: PresenceThresholds,
+  hidden: boolean
+): number | null {
+  if (!hidden && inactiveMs < thresholds.idleMs) return thresholds.idleMs - inactiveMs;
+  if (inactiveMs < thresholds.offlineMs) return thresholds.offlineMs - inactiveMs;
+  return null;
+}
+
+export function isManualStatus(value: unknown): value is ManualStatus {
+  return MANUAL_STATUSES.includes(value as ManualStatus);
+}
@@ -0,0 +1,243 @@
+import {
+  CollaborationUser,
+  CursorPosition,
+  InMemoryPresenceStore,
+  PresenceStore,
+  RedisClientLike,
+  RedisPresenceStore
+} from './presence-store';
+
+// Local stand-in implementing the Redis commands the shared store uses, with expiry on the clock
+class FakeRedis implements RedisClientLike {
+  private strings: Map<string, string> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+  private expiresAt: Map<string, number> = new Map();
+
+  async get(key: string) {
+    this.evict(key);
+    return this.strings.get(key) ?? null;
+  }
+
+  async mget(...keys: string[]) {
+    keys.forEach(key => this.evict(key));
+    return keys.map(key => this.strings.get(key) ?? null);
+  }
+
+  async set(key: string, value: string, _mode: 'EX', seconds: number) {
+    this.strings.set(key, value);
+    this.expiresAt.set(key, Date.now() + seconds * 1000);
+    return 'OK';
+  }
+
+  async del(...keys: string[]) {
+    let removed = 0;
+    keys.forEach(key => {
+      this.evict(key);
+      this.expiresAt.delete(key);
+      if (this.strings.delete(key) || this.sets.delete(key)) removed++;
+    });
+    return removed;
+  }
+
+  async sadd(key: string, ...members: string[]) {
+    this.evict(key);
+    const set = this.sets.get(key) ?? new Set<string>();
+    const before = set.size;
+    members.forEach(member => set.add(member));
+    this.sets.set(key, set);
+    return set.size - before;
+  }
+
+  async srem(key: string, ...members: string[]) {
+    this.evict(key);
+    const set = this.sets.get(key);
+    if (!set) return 0;
+    const removed = members.filter(member => set.delete(member)).length;
+    if (set.size === 0) this.sets.delete(key);
+    return removed;
+  }
+
+  async smembers(key: string) {
+    this.evict(key);
+    return Array.from(this.sets.get(key) ?? []);
+  }
+
+  async scard(key: string) {
+    this.evict(key);
+    return this.sets.get(key)?.size ?? 0;
+  }
+
+  async expire(key: string, seconds: number) {
+    this.evict(key);
+    if (!this.strings.has(key) && !this.sets.has(key)) return 0;
+    this.expiresAt.set(key, Date.now() + seconds * 1000);
+    return 1;
+  }
+
+  private evict(key: string) {
+    const expiresAt = this.expiresAt.get(key);
+    if (expiresAt === undefined || expiresAt > Date.now()) return;
+    this.expiresAt.delete(key);
+    this.strings.delete(key);
+    this.sets.delete(key);
+  }
+}
+
+const createUser = (id: string): CollaborationUser => ({
+  id,
+  name: `User ${id}`,
+  color: '#FF6B6B',
+  status: 'online',
+  lastActivity: new Date('2026-01-01T00:00:00Z')
+});
+
+const createCursor = (userId: string, line: number): CursorPosition => ({
+  line,
+  column: 1,
+  userId,
+  userName: `User ${userId}`,
+  color: '#FF6B6B',
+  timestamp: 0
+});
+
+const stores: Array<[string, () => PresenceStore]> = [
+  ['InMemoryPresenceStore', () => new InMemoryPresenceStore()],
+  ['RedisPresenceStore', () => new RedisPresenceStore(new FakeRedis())]
+];
+
+describe.each(stores)('%s', (_name: string, createStore: () => PresenceStore) => {
+  let store: PresenceStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  test('tracks users per room', async () => {
+    await store.addSocketToRoom('socket-1', 'user-1', 'room-1');
+    await store.setRoomUser('room-1', createUser('user-1'));
+    await store.addSocketToRoom('socket-2', 'user-2', 'room-2');
+    await store.setRoomUser('room-2', createUser('user-2'));
+
+    const roomUsers = await store.getRoomUsers('room-1');
+    expect(roomUsers.map(user => user.id)).toEqual(['user-1']);
+    expect(roomUsers[0].lastActivity).toBeInstanceOf(Date);
+    expect(await store.getUserRooms('user-2')).toEqual(['room-2']);
+  });
+
+  test('keeps a user in several rooms from one socket', async () => {
+    await store.addSocketToRoom('socket-1', 'user-1', 'room-1');
+    await store.addSocketToRoom('socket-1', 'user-1', 'room-2');
+    await store.setRoomUser('room-1', createUser('user-1'));
+    await store.setRoomUser('room-2', createUser('user-1'));
+
+    expect((await store.getSocketSession('socket-1'))?.groupIds).toEqual(['room-1', 'room-2']);
+    expect((await store.getUserRooms('user-1')).sort()).toEqual(['room-1', 'room-2']);
+
+    await store.removeSocketFromRoom('socket-1', 'user-1', 'room-1');
+    await store.removeRoomUser('room-1', 'user-1');
+
+    expect(await store.getRoomUsers('room-1')).toHaveLength(0);
+    expect(await store.getRoomUsers('room-2')).toHaveLength(1);
+    expect((await store.getSocketSession('socket-1'))?.groupIds).toEqual(['room-2']);
+  });
+
+  test('counts every tab a user has open in a room', async () => {
+    expect(await store.addSocketToRoom('socket-1', 'user-1', 'room-1')).toBe(1);
+    expect(await store.addSocketToRoom('socket-2', 'user-1', 'room-1')).toBe(2);
+    // Re-joining from the same tab does not count twice
+    expect(await store.addSocketToRoom('socket-2', 'user-1', 'room-1')).toBe(2);
+
+    expect(await store.removeSocketFromRoom('socket-1', 'user-1', 'room-1')).toBe(1);
+    expect(await store.removeSocketFromRoom('socket-2', 'user-1', 'room-1')).toBe(0);
+  });
+
+  test('removes socket sessions', async () => {
+    await store.addSocketToRoom('socket-1', 'user-1', 'room-1');
+    await store.removeSocketSession('socket-1');
+
+    expect(await store.getSocketSession('socket-1')).toBeNull();
+  });
+
+  test('clears a user from every typing set in a room', async () => {
+    await store.addTypingUser('room-1', 'file-1', 'user-1');
+    await store.addTypingUser('room-1', 'file-2', 'user-1');
+    await store.addTypingUser('room-2', 'file-3', 'user-1');
+    await store.removeTypingUser('room-1', 'file-2', 'user-1');
+
+    expect(await store.clearTypingUser('room-1', 'user-1')).toEqual(['file-1']);
+    expect(await store.clearTypingUser('room-1', 'user-1')).toEqual([]);
+    expect(await store.clearTypingUser('room-2', 'user-1')).toEqual(['file-3']);
+  });
+
+  test('lists who is typing where in a room', async () => {
+    await store.setRoomUser('room-1', createUser('user-1'));
+    await store.addTypingUser('room-1', 'file-1', 'user-1');
+    await store.addTypingUser('room-2', 'file-2', 'user-1');
+
+    expect(await store.getRoomTyping('room-1')).toEqual([{ fileId: 'file-1', userId: 'user-1' }]);
+  });
+
+  test('keeps the last cursor per user per file until the user leaves', async () => {
+    await store.setRoomUser('room-1', createUser('user-1'));
+    await store.setCursor('room-1', 'file-1', createCursor('user-1', 1));
+    await store.setCursor('room-1', 'file-1', createCursor('user-1', 5));
+    await store.setCursor('room-1', 'file-2', createCursor('user-1', 9));
+
+    const cursors = await store.getRoomCursors('room-1');
+    expect(cursors.map(entry => [entry.fileId, entry.position.line]).sort()).toEqual([['file-1', 5], ['file-2', 9]]);
+    expect(await store.getRoomSelections('room-1')).toEqual([]);
+
+    await store.clearUserPositions('room-1', 'user-1');
+    expect(await store.getRoomCursors('room-1')).toEqual([]);
+  });
+
+  test('tracks the room presenter', async () => {
+    expect(await store.getPresenter('room-1')).toBeNull();
+
+    await store.setPresenter('room-1', 'user-1');
+    expect(await store.getPresenter('room-1')).toBe('user-1');
+    expect(await store.getPresenter('room-2')).toBeNull();
+
+    await store.setPresenter('room-1', null);
+    expect(await store.getPresenter('room-1')).toBeNull();
+  });
+});
+
+describe('RedisPresenceStore expiry', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  let store: RedisPresenceStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new RedisPresenceStore(new FakeRedis());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('forgets sockets nobody refreshes', async () => {
+    await store.addSocketToRoom('socket-1', 'user-1', 'room-1');
+    vi.advanceTimersByTime(HOUR_MS + 1000);
+
+    expect(await store.getSocketSession('socket-1')).toBeNull();
+  });
+
+  test('keeps refreshed sockets past the expiry', async () => {
+    await store.addSocketToRoom('socket-1', 'user-1', 'room-1');
+    await store.addSocketToRoom('socket-2', 'user-1', 'room-1');
+    await store.setRoomUser('room-1', createUser('user-1'));
+
+    for (let elapsed = 0; elapsed < 2 * HOUR_MS; elapsed += HOUR_MS / 2) {
+      vi.advanceTimersByTime(HOUR_MS / 2);
+      await store.refreshSocket('socket-1');
+      await store.refreshSocket('socket-2');
+    }
+
+    expect((await store.getSocketSession('socket-1'))?.groupIds).toEqual(['room-1']);
+    expect((await store.getRoomUsers('room-1')).map(user => user.id)).toEqual(['user-1']);
+    expect(await store.getUserRooms('user-1')).toEqual(['room-1']);
+    // The other tab is still counted when one leaves
+    expect(await store.removeSocketFromRoom('socket-1', 'user-1', 'room-1')).toBe(1);
+  });
+});
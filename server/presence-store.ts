@@ -0,0 +1,554 @@
+/**
+ * Presence Store for collaboration state shared between socket server nodes
+ * In-memory for a single process, Redis-backed when running behind a load balancer
+ *
+ * Sessions are keyed by socket, so one user can be present in several rooms and
+ * tabs at once. A user stays in a room until their last socket there leaves.
+ *
+ * The last cursor and selection of each user per file are kept so late joiners
+ * can be sent a snapshot of the room.
+ */
+
+import { ManualStatus, PresenceStatus } from './presence-status';
+
+export interface CollaborationUser {
+  id: string;
+  name: string;
+  color: string;
+  status: PresenceStatus;
+  /** A status the user set themselves, kept until they clear it */
+  manualStatus?: ManualStatus;
+  currentFile?: string;
+  lastActivity: Date;
+  /** Whether others may follow this user; unset means allowed */
+  allowFollowing?: boolean;
+}
+
+export interface CursorPosition {
+  line: number;
+  column: number;
+  userId: string;
+  userName: string;
+  color: string;
+  timestamp: number;
+}
+
+export interface TextSelection {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  userId: string;
+  userName: string;
+  color: string;
+}
+
+export interface FilePosition<T> {
+  fileId: string;
+  position: T;
+}
+
+export interface TypingEntry {
+  fileId: string;
+  userId: string;
+}
+
+export interface SocketSession {
+  socketId: string;
+  userId: string;
+  groupIds: string[];
+}
+
+export interface PresenceStore {
+  getSocketSession(socketId: string): Promise<SocketSession | null>;
+  removeSocketSession(socketId: string): Promise<void>;
+  /** Keep a connected socket's session and room entries from expiring */
+  refreshSocket(socketId: string): Promise<void>;
+
+  /**
+   * Record that a socket joined a room
+   * @returns how many of the user's sockets are now in the room
+   */
+  addSocketToRoom(socketId: string, userId: string, groupId: string): Promise<number>;
+  /**
+   * Record that a socket left a room
+   * @returns how many of the user's sockets remain in the room
+   */
+  removeSocketFromRoom(socketId: string, userId: string, groupId: string): Promise<number>;
+
+  getRoomUser(groupId: string, userId: string): Promise<CollaborationUser | null>;
+  setRoomUser(groupId: string, user: CollaborationUser): Promise<void>;
+  removeRoomUser(groupId: string, userId: string): Promise<void>;
+  getRoomUsers(groupId: string): Promise<CollaborationUser[]>;
+  /** Rooms the user currently has at least one socket in */
+  getUserRooms(userId: string): Promise<string[]>;
+
+  addTypingUser(groupId: string, fileId: string, userId: string): Promise<void>;
+  removeTypingUser(groupId: string, fileId: string, userId: string): Promise<void>;
+  /** Remove the user from every typing set in the room, returning the affected file ids */
+  clearTypingUser(groupId: string, userId: string): Promise<string[]>;
+  getRoomTyping(groupId: string): Promise<TypingEntry[]>;
+
+  setCursor(groupId: string, fileId: string, cursor: CursorPosition): Promise<void>;
+  setSelection(groupId: string, fileId: string, selection: TextSelection): Promise<void>;
+  getRoomCursors(groupId: string): Promise<FilePosition<CursorPosition>[]>;
+  getRoomSelections(groupId: string): Promise<FilePosition<TextSelection>[]>;
+  /** Forget the user's cursors and selections in the room */
+  clearUserPositions(groupId: string, userId: string): Promise<void>;
+
+  /** The user everyone in the room is made to follow, if any */
+  getPresenter(groupId: string): Promise<string | null>;
+  setPresenter(groupId: string, userId: string | null): Promise<void>;
+}
+
+export class InMemoryPresenceStore implements PresenceStore {
+  private socketSessions: Map<string, SocketSession> = new Map();
+  private roomSockets: Map<string, Set<string>> = new Map(); // groupId:userId -> Set of socketIds
+  private roomUsers: Map<string, Map<string, CollaborationUser>> = new Map(); // groupId -> userId -> user
+  private typingUsers: Map<string, Set<string>> = new Map(); // groupId:fileId -> Set of userIds
+  private cursors: Map<string, Map<string, CursorPosition>> = new Map(); // groupId:userId -> fileId -> cursor
+  private selections: Map<string, Map<string, TextSelection>> = new Map(); // groupId:userId -> fileId -> selection
+  private presenters: Map<string, string> = new Map(); // groupId -> userId
+
+  async getSocketSession(socketId: string): Promise<SocketSession | null> {
+    const session = this.socketSessions.get(socketId);
+    return session ? { ...session, groupIds: [...session.groupIds] } : null;
+  }
+
+  async removeSocketSession(socketId: string): Promise<void> {
+    this.socketSessions.delete(socketId);
+  }
+
+  async refreshSocket(): Promise<void> {
+    // Nothing here expires
+  }
+
+  async addSocketToRoom(socketId: string, userId: string, groupId: string): Promise<number> {
+    const session = this.socketSessions.get(socketId) ?? { socketId, userId, groupIds: [] };
+    if (!session.groupIds.includes(groupId)) {
+      session.groupIds.push(groupId);
+    }
+    this.socketSessions.set(socketId, session);
+
+    const key = `${groupId}:${userId}`;
+    const sockets = this.roomSockets.get(key) ?? new Set<string>();
+    sockets.add(socketId);
+    this.roomSockets.set(key, sockets);
+    return sockets.size;
+  }
+
+  async removeSocketFromRoom(socketId: string, userId: string, groupId: string): Promise<number> {
+    const session = this.socketSessions.get(socketId);
+    if (session) {
+      session.groupIds = session.groupIds.filter(id => id !== groupId);
+    }
+
+    const key = `${groupId}:${userId}`;
+    const sockets = this.roomSockets.get(key);
+    if (!sockets) return 0;
+
+    sockets.delete(socketId);
+    if (sockets.size === 0) {
+      this.roomSockets.delete(key);
+    }
+    return sockets.size;
+  }
+
+  async getRoomUser(groupId: string, userId: string): Promise<CollaborationUser | null> {
+    const user = this.roomUsers.get(groupId)?.get(userId);
+    return user ? { ...user } : null;
+  }
+
+  async setRoomUser(groupId: string, user: CollaborationUser): Promise<void> {
+    if (!this.roomUsers.has(groupId)) {
+      this.roomUsers.set(groupId, new Map());
+    }
+    this.roomUsers.get(groupId)!.set(user.id, { ...user });
+  }
+
+  async removeRoomUser(groupId: string, userId: string): Promise<void> {
+    const users = this.roomUsers.get(groupId);
+    if (users) {
+      users.delete(userId);
+      if (users.size === 0) {
+        this.roomUsers.delete(groupId);
+      }
+    }
+  }
+
+  async getRoomUsers(groupId: string): Promise<CollaborationUser[]> {
+    return Array.from(this.roomUsers.get(groupId)?.values() ?? []).map(user => ({ ...user }));
+  }
+
+  async getUserRooms(userId: string): Promise<string[]> {
+    return Array.from(this.roomUsers.entries())
+      .filter(([, users]) => users.has(userId))
+      .map(([groupId]) => groupId);
+  }
+
+  async addTypingUser(groupId: string, fileId: string, userId: string): Promise<void> {
+    const key = `${groupId}:${fileId}`;
+    if (!this.typingUsers.has(key)) {
+      this.typingUsers.set(key, new Set());
+    }
+    this.typingUsers.get(key)!.add(userId);
+  }
+
+  async removeTypingUser(groupId: string, fileId: string, userId: string): Promise<void> {
+    const key = `${groupId}:${fileId}`;
+    const typingSet = this.typingUsers.get(key);
+    if (typingSet) {
+      typingSet.delete(userId);
+      if (typingSet.size === 0) {
+        this.typingUsers.delete(key);
+      }
+    }
+  }
+
+  async clearTypingUser(groupId: string, userId: string): Promise<string[]> {
+    const prefix = `${groupId}:`;
+    const fileIds: string[] = [];
+    for (const [key, users] of Array.from(this.typingUsers.entries())) {
+      if (key.startsWith(prefix) && users.has(userId)) {
+        const fileId = key.slice(prefix.length);
+        fileIds.push(fileId);
+        await this.removeTypingUser(groupId, fileId, userId);
+      }
+    }
+    return fileIds;
+  }
+
+  async getRoomTyping(groupId: string): Promise<TypingEntry[]> {
+    const prefix = `${groupId}:`;
+    const entries: TypingEntry[] = [];
+    this.typingUsers.forEach((users, key) => {
+      if (!key.startsWith(prefix)) return;
+      const fileId = key.slice(prefix.length);
+      users.forEach(userId => entries.push({ fileId, userId }));
+    });
+    return entries;
+  }
+
+  async setCursor(groupId: string, fileId: string, cursor: CursorPosition): Promise<void> {
+    this.setPosition(this.cursors, groupId, fileId, cursor.userId, cursor);
+  }
+
+  async setSelection(groupId: string, fileId: string, selection: TextSelection): Promise<void> {
+    this.setPosition(this.selections, groupId, fileId, selection.userId, selection);
+  }
+
+  async getRoomCursors(groupId: string): Promise<FilePosition<CursorPosition>[]> {
+    return this.getPositions(this.cursors, groupId);
+  }
+
+  async getRoomSelections(groupId: string): Promise<FilePosition<TextSelection>[]> {
+    return this.getPositions(this.selections, groupId);
+  }
+
+  async clearUserPositions(groupId: string, userId: string): Promise<void> {
+    this.cursors.delete(`${groupId}:${userId}`);
+    this.selections.delete(`${groupId}:${userId}`);
+  }
+
+  async getPresenter(groupId: string): Promise<string | null> {
+    return this.presenters.get(groupId) ?? null;
+  }
+
+  async setPresenter(groupId: string, userId: string | null): Promise<void> {
+    if (userId) {
+      this.presenters.set(groupId, userId);
+    } else {
+      this.presenters.delete(groupId);
+    }
+  }
+
+  private setPosition<T>(
+    positions: Map<string, Map<string, T>>,
+    groupId: string,
+    fileId: string,
+    userId: string,
+    position: T
+  ): void {
+    const key = `${groupId}:${userId}`;
+    if (!positions.has(key)) {
+      positions.set(key, new Map());
+    }
+    positions.get(key)!.set(fileId, { ...position });
+  }
+
+  private getPositions<T>(positions: Map<string, Map<string, T>>, groupId: string): FilePosition<T>[] {
+    const prefix = `${groupId}:`;
+    const result: FilePosition<T>[] = [];
+    positions.forEach((files, key) => {
+      if (!key.startsWith(prefix)) return;
+      files.forEach((position, fileId) => result.push({ fileId, position: { ...position } }));
+    });
+    return result;
+  }
+}
+
+/**
+ * The subset of Redis commands the shared store relies on.
+ * Satisfied by an ioredis client, or by a local stand-in in tests.
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  mget(...keys: string[]): Promise<Array<string | null>>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  srem(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  scard(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+}
+
+type PositionKind = 'cursor' | 'selection';
+
+interface RedisPresenceStoreConfig {
+  keyPrefix: string;
+  /** Entries expire if the node that owns them dies without cleaning up */
+  ttlSeconds: number;
+}
+
+const DEFAULT_REDIS_CONFIG: RedisPresenceStoreConfig = {
+  keyPrefix: 'collab',
+  ttlSeconds: 60 * 60
+};
+
+export class RedisPresenceStore implements PresenceStore {
+  private redis: RedisClientLike;
+  private config: RedisPresenceStoreConfig;
+
+  constructor(redis: RedisClientLike, config: Partial<RedisPresenceStoreConfig> = {}) {
+    this.redis = redis;
+    this.config = { ...DEFAULT_REDIS_CONFIG, ...config };
+  }
+
+  async getSocketSession(socketId: string): Promise<SocketSession | null> {
+    const raw = await this.redis.get(this.socketKey(socketId));
+    return raw ? JSON.parse(raw) as SocketSession : null;
+  }
+
+  async removeSocketSession(socketId: string): Promise<void> {
+    await this.redis.del(this.socketKey(socketId));
+  }
+
+  async refreshSocket(socketId: string): Promise<void> {
+    const session = await this.getSocketSession(socketId);
+    if (!session) return;
+
+    await this.saveSocketSession(session);
+    for (const groupId of session.groupIds) {
+      await this.redis.expire(this.roomSocketsKey(groupId, session.userId), this.config.ttlSeconds);
+      await this.redis.expire(this.roomUserKey(groupId, session.userId), this.config.ttlSeconds);
+      await this.redis.expire(this.roomUsersKey(groupId), this.config.ttlSeconds);
+    }
+    if (session.groupIds.length > 0) {
+      await this.redis.expire(this.userRoomsKey(session.userId), this.config.ttlSeconds);
+    }
+  }
+
+  async addSocketToRoom(socketId: string, userId: string, groupId: string): Promise<number> {
+    const session = await this.getSocketSession(socketId) ?? { socketId, userId, groupIds: [] };
+    if (!session.groupIds.includes(groupId)) {
+      session.groupIds.push(groupId);
+    }
+    await this.saveSocketSession(session);
+
+    const key = this.roomSocketsKey(groupId, userId);
+    await this.redis.sadd(key, socketId);
+    await this.redis.expire(key, this.config.ttlSeconds);
+    return this.redis.scard(key);
+  }
+
+  async removeSocketFromRoom(socketId: string, userId: string, groupId: string): Promise<number> {
+    const session = await this.getSocketSession(socketId);
+    if (session) {
+      session.groupIds = session.groupIds.filter(id => id !== groupId);
+      await this.saveSocketSession(session);
+    }
+
+    const key = this.roomSocketsKey(groupId, userId);
+    await this.redis.srem(key, socketId);
+    return this.redis.scard(key);
+  }
+
+  async getRoomUser(groupId: string, userId: string): Promise<CollaborationUser | null> {
+    return this.parseUser(await this.redis.get(this.roomUserKey(groupId, userId)));
+  }
+
+  async setRoomUser(groupId: string, user: CollaborationUser): Promise<void> {
+    await this.redis.set(this.roomUserKey(groupId, user.id), JSON.stringify(user), 'EX', this.config.ttlSeconds);
+    await this.redis.sadd(this.roomUsersKey(groupId), user.id);
+    await this.redis.sadd(this.userRoomsKey(user.id), groupId);
+    await this.redis.expire(this.roomUsersKey(groupId), this.config.ttlSeconds);
+    await this.redis.expire(this.userRoomsKey(user.id), this.config.ttlSeconds);
+  }
+
+  async removeRoomUser(groupId: string, userId: string): Promise<void> {
+    await this.redis.del(this.roomUserKey(groupId, userId));
+    await this.redis.srem(this.roomUsersKey(groupId), userId);
+    await this.redis.srem(this.userRoomsKey(userId), groupId);
+  }
+
+  async getRoomUsers(groupId: string): Promise<CollaborationUser[]> {
+    const userIds = await this.redis.smembers(this.roomUsersKey(groupId));
+    if (userIds.length === 0) return [];
+
+    const rawUsers = await this.redis.mget(...userIds.map(userId => this.roomUserKey(groupId, userId)));
+    return rawUsers
+      .map(raw => this.parseUser(raw))
+      .filter((user): user is CollaborationUser => user !== null);
+  }
+
+  async getUserRooms(userId: string): Promise<string[]> {
+    return this.redis.smembers(this.userRoomsKey(userId));
+  }
+
+  async addTypingUser(groupId: string, fileId: string, userId: string): Promise<void> {
+    await this.redis.sadd(this.typingKey(groupId, fileId), userId);
+    await this.redis.sadd(this.typingFilesKey(groupId, userId), fileId);
+    await this.redis.expire(this.typingKey(groupId, fileId), this.config.ttlSeconds);
+    await this.redis.expire(this.typingFilesKey(groupId, userId), this.config.ttlSeconds);
+  }
+
+  async removeTypingUser(groupId: string, fileId: string, userId: string): Promise<void> {
+    await this.redis.srem(this.typingKey(groupId, fileId), userId);
+    await this.redis.srem(this.typingFilesKey(groupId, userId), fileId);
+  }
+
+  async clearTypingUser(groupId: string, userId: string): Promise<string[]> {
+    const fileIds = await this.redis.smembers(this.typingFilesKey(groupId, userId));
+    for (const fileId of fileIds) {
+      await this.redis.srem(this.typingKey(groupId, fileId), userId);
+    }
+    await this.redis.del(this.typingFilesKey(groupId, userId));
+    return fileIds;
+  }
+
+  async getRoomTyping(groupId: string): Promise<TypingEntry[]> {
+    const userIds = await this.redis.smembers(this.roomUsersKey(groupId));
+    const entries: TypingEntry[] = [];
+    for (const userId of userIds) {
+      const fileIds = await this.redis.smembers(this.typingFilesKey(groupId, userId));
+      fileIds.forEach(fileId => entries.push({ fileId, userId }));
+    }
+    return entries;
+  }
+
+  async setCursor(groupId: string, fileId: string, cursor: CursorPosition): Promise<void> {
+    await this.setPosition('cursor', groupId, fileId, cursor.userId, cursor);
+  }
+
+  async setSelection(groupId: string, fileId: string, selection: TextSelection): Promise<void> {
+    await this.setPosition('selection', groupId, fileId, selection.userId, selection);
+  }
+
+  async getRoomCursors(groupId: string): Promise<FilePosition<CursorPosition>[]> {
+    return this.getPositions<CursorPosition>('cursor', groupId);
+  }
+
+  async getRoomSelections(groupId: string): Promise<FilePosition<TextSelection>[]> {
+    return this.getPositions<TextSelection>('selection', groupId);
+  }
+
+  async clearUserPositions(groupId: string, userId: string): Promise<void> {
+    const fileIds = await this.redis.smembers(this.positionFilesKey(groupId, userId));
+    const keys = fileIds.flatMap(fileId => [
+      this.positionKey('cursor', groupId, userId, fileId),
+      this.positionKey('selection', groupId, userId, fileId)
+    ]);
+    await this.redis.del(this.positionFilesKey(groupId, userId), ...keys);
+  }
+
+  async getPresenter(groupId: string): Promise<string | null> {
+    return this.redis.get(this.presenterKey(groupId));
+  }
+
+  async setPresenter(groupId: string, userId: string | null): Promise<void> {
+    if (userId) {
+      await this.redis.set(this.presenterKey(groupId), userId, 'EX', this.config.ttlSeconds);
+    } else {
+      await this.redis.del(this.presenterKey(groupId));
+    }
+  }
+
+  private async setPosition(
+    kind: PositionKind,
+    groupId: string,
+    fileId: string,
+    userId: string,
+    position: CursorPosition | TextSelection
+  ): Promise<void> {
+    const filesKey = this.positionFilesKey(groupId, userId);
+    await this.redis.set(this.positionKey(kind, groupId, userId, fileId), JSON.stringify(position), 'EX', this.config.ttlSeconds);
+    await this.redis.sadd(filesKey, fileId);
+    await this.redis.expire(filesKey, this.config.ttlSeconds);
+  }
+
+  private async getPositions<T>(kind: PositionKind, groupId: string): Promise<FilePosition<T>[]> {
+    const userIds = await this.redis.smembers(this.roomUsersKey(groupId));
+    const result: FilePosition<T>[] = [];
+    for (const userId of userIds) {
+      const fileIds = await this.redis.smembers(this.positionFilesKey(groupId, userId));
+      if (fileIds.length === 0) continue;
+
+      const rawPositions = await this.redis.mget(...fileIds.map(fileId => this.positionKey(kind, groupId, userId, fileId)));
+      rawPositions.forEach((raw, index) => {
+        if (raw) result.push({ fileId: fileIds[index], position: JSON.parse(raw) as T });
+      });
+    }
+    return result;
+  }
+
+  private async saveSocketSession(session: SocketSession): Promise<void> {
+    await this.redis.set(this.socketKey(session.socketId), JSON.stringify(session), 'EX', this.config.ttlSeconds);
+  }
+
+  private parseUser(raw: string | null): CollaborationUser | null {
+    if (!raw) return null;
+    const user = JSON.parse(raw) as CollaborationUser;
+    return { ...user, lastActivity: new Date(user.lastActivity) };
+  }
+
+  private socketKey(socketId: string): string {
+    return `${this.config.keyPrefix}:socket:${socketId}`;
+  }
+
+  private roomSocketsKey(groupId: string, userId: string): string {
+    return `${this.config.keyPrefix}:room:${groupId}:sockets:${userId}`;
+  }
+
+  private roomUserKey(groupId: string, userId: string): string {
+    return `${this.config.keyPrefix}:room:${groupId}:user:${userId}`;
+  }
+
+  private roomUsersKey(groupId: string): string {
+    return `${this.config.keyPrefix}:room:${groupId}:users`;
+  }
+
+  private userRoomsKey(userId: string): string {
+    return `${this.config.keyPrefix}:user:${userId}:rooms`;
+  }
+
+  private typingKey(groupId: string, fileId: string): string {
+    return `${this.config.keyPrefix}:room:${groupId}:typing:${fileId}`;
+  }
+
+  private typingFilesKey(groupId: string, userId: string): string {
+    return `${this.config.keyPrefix}:room:${groupId}:typing-files:${userId}`;
+  }
+
+  private positionKey(kind: PositionKind, groupId: string, userId: string, fileId: string): string {
+    return `${this.config.keyPrefix}:room:${groupId}:${kind}:${userId}:${fileId}`;
+  }
+
+  private presenterKey(groupId: string): string {
+    return `${this.config.keyPrefix}:room:${groupId}:presenter`;
+  }
+
+  private positionFilesKey(groupId: string, userId: string): string {
+    return `${this.config.keyPrefix}:room:${groupId}:position-files:${userId}`;
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  DEFAULT_RATE_LIMITS,
+  FixedWindowRateLimiter,
+  RateLimiter,
+  SlidingLogRateLimiter,
+  TokenBucketRateLimiter,
+  createRateLimiters,
+  destroyRateLimiters,
+  parseLimitSpec,
+  rateLimitSettingsFromEnv
+} from './rate-limiter';
+
+describe('rate limiters', () => {
+  const limiters: RateLimiter[] = [];
+  const track = <T extends RateLimiter>(limiter: T): T => {
+    limiters.push(limiter);
+    return limiter;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    limiters.splice(0).forEach(limiter => limiter.destroy());
+    vi.useRealTimers();
+  });
+
+  const allowedCount = (limiter: RateLimiter, attempts: number) =>
+    Array.from({ length: attempts }).filter(() => limiter.isAllowed('user-1')).length;
+
+  test('fixed window allows a burst across the window boundary', () => {
+    const limiter = track(new FixedWindowRateLimiter({ maxRequests: 5, windowMs: 1000, strategy: 'fixed-window' }));
+
+    // The window opens with the first request
+    expect(limiter.isAllowed('user-1')).toBe(true);
+    vi.setSystemTime(999);
+    expect(allowedCount(limiter, 5)).toBe(4);
+    vi.setSystemTime(1000);
+    expect(allowedCount(limiter, 5)).toBe(5);
+
+    expect(limiter.check('user-1')).toEqual({ allowed: false, retryAfterMs: 1000 });
+  });
+
+  test('sliding log never allows more than the limit in any window', () => {
+    const limiter = track(new SlidingLogRateLimiter({ maxRequests: 5, windowMs: 1000, strategy: 'sliding-log' }));
+
+    expect(limiter.isAllowed('user-1')).toBe(true);
+    vi.setSystemTime(999);
+    expect(allowedCount(limiter, 5)).toBe(4);
+    vi.setSystemTime(1000);
+    expect(allowedCount(limiter, 5)).toBe(1);
+    expect(limiter.check('user-1')).toEqual({ allowed: false, retryAfterMs: 999 });
+  });
+
+  test('token bucket refills steadily and reports when the next token arrives', () => {
+    const limiter = track(new TokenBucketRateLimiter({ maxRequests: 10, windowMs: 1000, strategy: 'token-bucket' }));
+
+    expect(allowedCount(limiter, 12)).toBe(10);
+    expect(limiter.check('user-1')).toEqual({ allowed: false, retryAfterMs: 100 });
+
+    vi.setSystemTime(350);
+    expect(allowedCount(limiter, 5)).toBe(3);
+    expect(limiter.getRemaining('user-1')).toBe(0);
+  });
+
+  test('keeps keys independent and can reset them', () => {
+    const limiter = track(new SlidingLogRateLimiter({ maxRequests: 1, windowMs: 1000, strategy: 'sliding-log' }));
+
+    expect(limiter.isAllowed('user-1')).toBe(true);
+    expect(limiter.isAllowed('user-1')).toBe(false);
+    expect(limiter.isAllowed('user-2')).toBe(true);
+
+    limiter.reset('user-1');
+    expect(limiter.isAllowed('user-1')).toBe(true);
+  });
+
+  test('builds per-user and per-room limiters with the default strategy', () => {
+    const built = createRateLimiters(DEFAULT_RATE_LIMITS);
+
+    expect(built.user.cursorUpdate).toBeInstanceOf(SlidingLogRateLimiter);
+    expect(built.user.docUpdate).toBeInstanceOf(TokenBucketRateLimiter);
+    expect(built.room.docUpdate).toBeInstanceOf(TokenBucketRateLimiter);
+    expect(built.room.typing).toBeUndefined();
+
+    destroyRateLimiters(built);
+  });
+});
+
+describe('rate limit settings', () => {
+  test('parses limit specs', () => {
+    expect(parseLimitSpec('100/1000')).toEqual({ maxRequests: 100, windowMs: 1000 });
+    expect(parseLimitSpec('100/1000/token-bucket')).toEqual({ maxRequests: 100, windowMs: 1000, strategy: 'token-bucket' });
+    expect(parseLimitSpec('100')).toBeNull();
+    expect(parseLimitSpec('-1/1000')).toBeNull();
+    expect(parseLimitSpec('100/1000/leaky')).toBeNull();
+  });
+
+  test('applies environment overrides', () => {
+    const settings = rateLimitSettingsFromEnv({
+      RATE_LIMIT_STRATEGY: 'fixed-window',
+      RATE_LIMIT_DOC_UPDATE: '100/1000',
+      ROOM_RATE_LIMIT_TYPING: '40/1000/token-bucket',
+      ROOM_RATE_LIMIT_VIEWPORT: 'off'
+    });
+
+    expect(settings.strategy).toBe('fixed-window');
+    expect(settings.user.docUpdate).toEqual({ maxRequests: 100, windowMs: 1000 });
+    expect(settings.room.typing).toEqual({ maxRequests: 40, windowMs: 1000, strategy: 'token-bucket' });
+    expect(settings.room.viewport).toBeUndefined();
+    expect(DEFAULT_RATE_LIMITS.room.viewport).toBeDefined();
+  });
+
+  test('ignores invalid overrides', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const settings = rateLimitSettingsFromEnv({ RATE_LIMIT_STRATEGY: 'leaky', RATE_LIMIT_TYPING: 'fast' });
+
+    expect(settings.strategy).toBe(DEFAULT_RATE_LIMITS.strategy);
+    expect(settings.user.typing).toEqual(DEFAULT_RATE_LIMITS.user.typing);
+    errorSpy.mockRestore();
+  });
+});
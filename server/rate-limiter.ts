@@ -1,130 +1,413 @@
 /**
  * Rate Limiter for Socket.IO connections and events
- * Implements sliding window rate limiting to prevent abuse
+ * Fixed-window, sliding-log and token-bucket strategies behind one interface
+ *
+ * fixed-window  - counts requests per window; cheap, but allows up to twice the
+ *                 limit across a window boundary
+ * sliding-log   - remembers each request's time, so no window ever exceeds the limit
+ * token-bucket  - refills maxRequests tokens per window, allowing bursts of up to
+ *                 maxRequests after a quiet spell
  */
 
-interface RateLimitEntry {
-  count: number;
-  windowStart: number;
-}
+export type RateLimitStrategy = 'fixed-window' | 'sliding-log' | 'token-bucket';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
+  strategy: RateLimitStrategy;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** How long until a request would be allowed again; 0 when allowed */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Record a request for the given key if it is allowed
+   * @param key - Unique identifier (IP, userId, roomId, etc.)
+   */
+  check(key: string): RateLimitResult;
+
+  /**
+   * @returns true if allowed, false if rate limited
+   */
+  isAllowed(key: string): boolean;
+
+  /**
+   * Get remaining requests for a key
+   */
+  getRemaining(key: string): number;
+
+  /**
+   * Reset the limit for a key
+   */
+  reset(key: string): void;
+
+  /**
+   * Stop the cleanup interval
+   */
+  destroy(): void;
 }
 
-export class RateLimiter {
-  private limits: Map<string, RateLimitEntry> = new Map();
-  private config: RateLimitConfig;
+// Shared bookkeeping: entries live in a map that is swept every minute
+abstract class BaseRateLimiter<Entry> implements RateLimiter {
+  protected entries: Map<string, Entry> = new Map();
+  protected config: RateLimitConfig;
   private cleanupInterval: NodeJS.Timeout;
 
   constructor(config: RateLimitConfig) {
     this.config = config;
-    // Clean up old entries every minute
     this.cleanupInterval = setInterval(() => this.cleanup(), 60000);
   }
 
-  /**
-   * Check if a request is allowed for the given key
-   * @param key - Unique identifier (IP, userId, etc.)
-   * @returns true if allowed, false if rate limited
-   */
+  abstract check(key: string): RateLimitResult;
+  abstract getRemaining(key: string): number;
+  protected abstract isExpired(entry: Entry, now: number): boolean;
+
   isAllowed(key: string): boolean {
-    const now = Date.now();
-    const entry = this.limits.get(key);
+    return this.check(key).allowed;
+  }
+
+  reset(key: string): void {
+    this.entries.delete(key);
+  }
+
+  destroy(): void {
+    clearInterval(this.cleanupInterval);
+  }
 
-    if (!entry) {
-      this.limits.set(key, { count: 1, windowStart: now });
-      return true;
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (this.isExpired(entry, now)) {
+        this.entries.delete(key);
+      }
     }
+  }
+}
 
-    // Check if we're in a new window
-    if (now - entry.windowStart >= this.config.windowMs) {
-      this.limits.set(key, { count: 1, windowStart: now });
-      return true;
+interface FixedWindowEntry {
+  count: number;
+  windowStart: number;
+}
+
+export class FixedWindowRateLimiter extends BaseRateLimiter<FixedWindowEntry> {
+  check(key: string): RateLimitResult {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    // Start a new window
+    if (!entry || now - entry.windowStart >= this.config.windowMs) {
+      this.entries.set(key, { count: 1, windowStart: now });
+      return { allowed: true, retryAfterMs: 0 };
     }
 
-    // Check if we've exceeded the limit
     if (entry.count >= this.config.maxRequests) {
-      return false;
+      return { allowed: false, retryAfterMs: entry.windowStart + this.config.windowMs - now };
     }
 
-    // Increment count
     entry.count++;
-    return true;
+    return { allowed: true, retryAfterMs: 0 };
   }
 
-  /**
-   * Get remaining requests for a key
-   */
   getRemaining(key: string): number {
-    const entry = this.limits.get(key);
-    if (!entry) return this.config.maxRequests;
-    
-    const now = Date.now();
-    if (now - entry.windowStart >= this.config.windowMs) {
+    const entry = this.entries.get(key);
+    if (!entry || Date.now() - entry.windowStart >= this.config.windowMs) {
       return this.config.maxRequests;
     }
-    
     return Math.max(0, this.config.maxRequests - entry.count);
   }
 
-  /**
-   * Reset the limit for a key
-   */
-  reset(key: string): void {
-    this.limits.delete(key);
+  protected isExpired(entry: FixedWindowEntry, now: number): boolean {
+    return now - entry.windowStart >= this.config.windowMs * 2;
   }
+}
 
-  /**
-   * Clean up expired entries
-   */
-  private cleanup(): void {
+export class SlidingLogRateLimiter extends BaseRateLimiter<number[]> {
+  check(key: string): RateLimitResult {
     const now = Date.now();
-    for (const [key, entry] of this.limits.entries()) {
-      if (now - entry.windowStart >= this.config.windowMs * 2) {
-        this.limits.delete(key);
-      }
+    const log = this.prune(key, now);
+
+    if (log.length >= this.config.maxRequests) {
+      // Allowed again once the oldest request leaves the window
+      return { allowed: false, retryAfterMs: log[0] + this.config.windowMs - now };
     }
+
+    log.push(now);
+    this.entries.set(key, log);
+    return { allowed: true, retryAfterMs: 0 };
   }
 
-  /**
-   * Stop the cleanup interval
-   */
-  destroy(): void {
-    clearInterval(this.cleanupInterval);
+  getRemaining(key: string): number {
+    return Math.max(0, this.config.maxRequests - this.prune(key, Date.now()).length);
+  }
+
+  protected isExpired(log: number[], now: number): boolean {
+    return log.length === 0 || now - log[log.length - 1] >= this.config.windowMs;
+  }
+
+  private prune(key: string, now: number): number[] {
+    const log = this.entries.get(key) ?? [];
+    const cutoff = now - this.config.windowMs;
+    let expired = 0;
+    while (expired < log.length && log[expired] <= cutoff) expired++;
+    if (expired > 0) log.splice(0, expired);
+    return log;
   }
 }
 
-// Pre-configured rate limiters for different scenarios
-export const rateLimiters = {
-  // Connection attempts: 10 per minute per IP
-  connection: new RateLimiter({ maxRequests: 10, windowMs: 60000 }),
-  
-  // Room joins: 5 per minute per user
-  roomJoin: new RateLimiter({ maxRequests: 5, windowMs: 60000 }),
-  
-  // Cursor updates: 60 per second per user (allow smooth cursor movement)
-  cursorUpdate: new RateLimiter({ maxRequests: 60, windowMs: 1000 }),
-  
-  // Selection updates: 30 per second per user
-  selectionUpdate: new RateLimiter({ maxRequests: 30, windowMs: 1000 }),
-  
-  // Typing events: 10 per second per user
-  typing: new RateLimiter({ maxRequests: 10, windowMs: 1000 }),
-  
-  // File switches: 10 per minute per user
-  fileSwitch: new RateLimiter({ maxRequests: 10, windowMs: 60000 }),
-  
-  // Activity updates: 5 per second per user
-  activity: new RateLimiter({ maxRequests: 5, windowMs: 1000 })
+interface TokenBucketEntry {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class TokenBucketRateLimiter extends BaseRateLimiter<TokenBucketEntry> {
+  check(key: string): RateLimitResult {
+    const now = Date.now();
+    const bucket = this.refill(key, now);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / this.getRefillRate()) };
+    }
+
+    bucket.tokens -= 1;
+    this.entries.set(key, bucket);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  getRemaining(key: string): number {
+    return Math.floor(this.refill(key, Date.now()).tokens);
+  }
+
+  protected isExpired(bucket: TokenBucketEntry, now: number): boolean {
+    // A bucket that has refilled completely is the same as no bucket
+    return bucket.tokens + (now - bucket.updatedAt) * this.getRefillRate() >= this.config.maxRequests;
+  }
+
+  private refill(key: string, now: number): TokenBucketEntry {
+    const bucket = this.entries.get(key) ?? { tokens: this.config.maxRequests, updatedAt: now };
+    bucket.tokens = Math.min(
+      this.config.maxRequests,
+      bucket.tokens + (now - bucket.updatedAt) * this.getRefillRate()
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  // Tokens per millisecond
+  private getRefillRate(): number {
+    return this.config.maxRequests / this.config.windowMs;
+  }
+}
+
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+  switch (config.strategy) {
+    case 'fixed-window':
+      return new FixedWindowRateLimiter(config);
+    case 'token-bucket':
+      return new TokenBucketRateLimiter(config);
+    case 'sliding-log':
+      return new SlidingLogRateLimiter(config);
+  }
+}
+
+export type RateLimitName =
+  | 'connection'
+  | 'roomJoin'
+  | 'cursorUpdate'
+  | 'selectionUpdate'
+  | 'typing'
+  | 'fileSwitch'
+  | 'activity'
+  | 'docSync'
+  | 'docUpdate'
+  | 'awareness'
+  | 'viewport'
+  | 'follow'
+  | 'presence';
+
+type LimitSpec = Omit<RateLimitConfig, 'strategy'> & { strategy?: RateLimitStrategy };
+
+export interface RateLimitSettings {
+  /** Default strategy for limits that don't name one */
+  strategy: RateLimitStrategy;
+  /** Per user (per IP for connections) */
+  user: Record<RateLimitName, LimitSpec>;
+  /** Per room, shared by everyone in it */
+  room: Partial<Record<RateLimitName, LimitSpec>>;
+}
+
+export interface RateLimiters {
+  user: Record<RateLimitName, RateLimiter>;
+  room: Partial<Record<RateLimitName, RateLimiter>>;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  strategy: 'sliding-log',
+  user: {
+    // Connection attempts: 10 per minute per IP
+    connection: { maxRequests: 10, windowMs: 60000 },
+
+    // Room joins: 5 per minute per user
+    roomJoin: { maxRequests: 5, windowMs: 60000 },
+
+    // Cursor updates: 60 per second per user (allow smooth cursor movement)
+    cursorUpdate: { maxRequests: 60, windowMs: 1000 },
+
+    // Selection updates: 30 per second per user
+    selectionUpdate: { maxRequests: 30, windowMs: 1000 },
+
+    // Typing events: 10 per second per user
+    typing: { maxRequests: 10, windowMs: 1000 },
+
+    // File switches: 10 per minute per user
+    fileSwitch: { maxRequests: 10, windowMs: 60000 },
+
+    // Activity updates: 5 per second per user
+    activity: { maxRequests: 5, windowMs: 1000 },
+
+    // Document subscriptions: 30 per minute per user (one per opened file)
+    docSync: { maxRequests: 30, windowMs: 60000 },
+
+    // Document updates: 50 per second per user, refilled smoothly so a paste
+    // after a pause is not cut off
+    docUpdate: { maxRequests: 50, windowMs: 1000, strategy: 'token-bucket' },
+
+    // Awareness updates: 30 per second per user (cursor and selection moves)
+    awareness: { maxRequests: 30, windowMs: 1000 },
+
+    // Viewport updates: 20 per second per user (scrolling while followed)
+    viewport: { maxRequests: 20, windowMs: 1000 },
+
+    // Follow and presenter changes: 20 per minute per user
+    follow: { maxRequests: 20, windowMs: 60000 },
+
+    // Presence changes (tab visibility, manual status, room thresholds): 30 per minute per user
+    presence: { maxRequests: 30, windowMs: 60000 }
+  },
+  room: {
+    // Document updates: 300 per second per room
+    docUpdate: { maxRequests: 300, windowMs: 1000, strategy: 'token-bucket' },
+
+    // Cursor and awareness traffic: 300 per second per room
+    cursorUpdate: { maxRequests: 300, windowMs: 1000 },
+    awareness: { maxRequests: 300, windowMs: 1000 },
+
+    // Viewport updates: 100 per second per room
+    viewport: { maxRequests: 100, windowMs: 1000 }
+  }
 };
 
+const STRATEGIES: RateLimitStrategy[] = ['fixed-window', 'sliding-log', 'token-bucket'];
+
+const isStrategy = (value: string | undefined): value is RateLimitStrategy =>
+  STRATEGIES.includes(value as RateLimitStrategy);
+
+// docUpdate -> DOC_UPDATE
+const toEnvName = (name: string): string => name.replace(/([A-Z])/g, '_$1').toUpperCase();
+
+/**
+ * Parse "maxRequests/windowMs[/strategy]", e.g. "100/1000/token-bucket"
+ */
+export function parseLimitSpec(value: string): LimitSpec | null {
+  const [max, windowMs, strategy] = value.split('/').map(part => part.trim());
+  const limit = { maxRequests: Number(max), windowMs: Number(windowMs) };
+
+  if (!Number.isInteger(limit.maxRequests) || limit.maxRequests <= 0) return null;
+  if (!Number.isInteger(limit.windowMs) || limit.windowMs <= 0) return null;
+  if (strategy === undefined) return limit;
+  return isStrategy(strategy) ? { ...limit, strategy } : null;
+}
+
+/**
+ * Apply environment overrides to the default limits:
+ * RATE_LIMIT_STRATEGY sets the default strategy, RATE_LIMIT_<NAME> a per-user
+ * limit and ROOM_RATE_LIMIT_<NAME> a per-room limit ("off" removes it)
+ */
+export function rateLimitSettingsFromEnv(
+  env: NodeJS.ProcessEnv,
+  defaults: RateLimitSettings = DEFAULT_RATE_LIMITS
+): RateLimitSettings {
+  const settings: RateLimitSettings = {
+    strategy: defaults.strategy,
+    user: { ...defaults.user },
+    room: { ...defaults.room }
+  };
+
+  if (env.RATE_LIMIT_STRATEGY) {
+    if (isStrategy(env.RATE_LIMIT_STRATEGY)) {
+      settings.strategy = env.RATE_LIMIT_STRATEGY;
+    } else {
+      console.error(`Ignoring unknown RATE_LIMIT_STRATEGY: ${env.RATE_LIMIT_STRATEGY}`);
+    }
+  }
+
+  (Object.keys(defaults.user) as RateLimitName[]).forEach(name => {
+    const userVar = `RATE_LIMIT_${toEnvName(name)}`;
+    const roomVar = `ROOM_RATE_LIMIT_${toEnvName(name)}`;
+
+    const userValue = env[userVar];
+    if (userValue) {
+      const spec = parseLimitSpec(userValue);
+      if (spec) {
+        settings.user[name] = spec;
+      } else {
+        console.error(`Ignoring invalid ${userVar}: ${userValue}`);
+      }
+    }
+
+    const roomValue = env[roomVar];
+    if (roomValue === 'off') {
+      delete settings.room[name];
+    } else if (roomValue) {
+      const spec = parseLimitSpec(roomValue);
+      if (spec) {
+        settings.room[name] = spec;
+      } else {
+        console.error(`Ignoring invalid ${roomVar}: ${roomValue}`);
+      }
+    }
+  });
+
+  return settings;
+}
+
+export function createRateLimiters(settings: RateLimitSettings): RateLimiters {
+  const build = (spec: LimitSpec): RateLimiter =>
+    createRateLimiter({ ...spec, strategy: spec.strategy ?? settings.strategy });
+
+  const user = {} as Record<RateLimitName, RateLimiter>;
+  (Object.keys(settings.user) as RateLimitName[]).forEach(name => {
+    user[name] = build(settings.user[name]);
+  });
+
+  const room: Partial<Record<RateLimitName, RateLimiter>> = {};
+  (Object.keys(settings.room) as RateLimitName[]).forEach(name => {
+    const spec = settings.room[name];
+    if (spec) room[name] = build(spec);
+  });
+
+  return { user, room };
+}
+
+/**
+ * Stop every limiter's cleanup interval
+ */
+export function destroyRateLimiters(limiters: RateLimiters): void {
+  Object.values(limiters.user).forEach(limiter => limiter.destroy());
+  Object.values(limiters.room).forEach(limiter => limiter?.destroy());
+}
+
+// Limiters for the running server, configured from the environment
+export const rateLimiters = createRateLimiters(rateLimitSettingsFromEnv(process.env));
+
 /**
  * Get client IP from socket
  */
 export const getClientIp = (socket: any): string => {
-  return socket.handshake.headers['x-forwarded-for']?.split(',')[0]?.trim() 
-    || socket.handshake.address 
+  return socket.handshake.headers['x-forwarded-for']?.split(',')[0]?.trim()
+    || socket.handshake.address
     || 'unknown';
 };
@@ -0,0 +1,69 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RevisionRecorder } from './revision-recorder';
+
+// Minimal Supabase stand-in for the collaboration_file_revisions table
+const createSupabaseMock = (latest: { content: string; created_at: string } | null = null) => {
+  const inserts: Array<Record<string, unknown>> = [];
+
+  const from = () => {
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      maybeSingle: () => Promise.resolve({ data: latest, error: null }),
+      insert: (row: Record<string, unknown>) => {
+        inserts.push(row);
+        return Promise.resolve({ error: null });
+      }
+    };
+    return builder;
+  };
+
+  return { client: { from } as unknown as SupabaseClient, inserts };
+};
+
+describe('RevisionRecorder', () => {
+  test('keeps loaded content only when the history does not already end with it', async () => {
+    const { client, inserts } = createSupabaseMock({ content: 'saved', created_at: new Date().toISOString() });
+    const recorder = new RevisionRecorder(client);
+
+    await recorder.documentLoaded('room-1', 'file-1', 'saved');
+    expect(inserts).toHaveLength(0);
+
+    await recorder.documentLoaded('room-1', 'file-1', 'edited elsewhere');
+    expect(inserts).toEqual([expect.objectContaining({ content: 'edited elsewhere', reason: 'snapshot', author_id: null })]);
+  });
+
+  test('takes snapshots at most once per interval but always records saves', async () => {
+    vi.useFakeTimers();
+    try {
+      const { client, inserts } = createSupabaseMock();
+      const recorder = new RevisionRecorder(client, { intervalMs: 1000 });
+
+      await recorder.record('room-1', 'file-1', 'one', { reason: 'snapshot', authorId: 'user-1' });
+      await recorder.record('room-1', 'file-1', 'two', { reason: 'snapshot', authorId: 'user-1' });
+      await recorder.record('room-1', 'file-1', 'three', { reason: 'save', authorId: 'user-2' });
+      await recorder.record('room-1', 'file-1', 'three', { reason: 'save', authorId: 'user-2' });
+      vi.advanceTimersByTime(1000);
+      await recorder.record('room-1', 'file-1', 'four', { reason: 'snapshot', authorId: 'user-1' });
+
+      expect(inserts.map(row => [row.content, row.reason, row.author_id])).toEqual([
+        ['one', 'snapshot', 'user-1'],
+        ['three', 'save', 'user-2'],
+        ['four', 'snapshot', 'user-1']
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('links a restore to the revision it restored', async () => {
+    const { client, inserts } = createSupabaseMock();
+    const recorder = new RevisionRecorder(client);
+
+    await recorder.record('room-1', 'file-1', 'old', { reason: 'restore', authorId: 'user-1', restoredFrom: 'revision-1' });
+
+    expect(inserts[0]).toMatchObject({ reason: 'restore', restored_from: 'revision-1', room_id: 'room-1', file_id: 'file-1' });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Revision Recorder for collaboration file history
+ * Keeps point-in-time snapshots of files so earlier versions can be viewed and restored
+ *
+ * Persisting a document overwrites its content, so snapshots are written to a
+ * separate table: when a document is loaded with content its history does not
+ * end with, at most once per interval while it is edited, on every explicit
+ * save or restore, and when it is closed. A snapshot identical to the last one
+ * is skipped.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type RevisionReason = 'snapshot' | 'save' | 'restore';
+
+interface RevisionRecorderConfig {
+  /** Minimum time between snapshots taken while a document is being edited */
+  intervalMs: number;
+}
+
+interface RevisionOptions {
+  reason: RevisionReason;
+  authorId: string | null;
+  /** Record even if the interval since the last revision has not passed */
+  force?: boolean;
+  restoredFrom?: string;
+}
+
+interface LastRevision {
+  content: string;
+  recordedAt: number;
+}
+
+const DEFAULT_CONFIG: RevisionRecorderConfig = {
+  intervalMs: 10 * 60 * 1000
+};
+
+export class RevisionRecorder {
+  private supabase: SupabaseClient;
+  private config: RevisionRecorderConfig;
+  private lastRevisions: Map<string, Promise<LastRevision | null>> = new Map(); // fileId -> latest revision
+
+  constructor(supabase: SupabaseClient, config: Partial<RevisionRecorderConfig> = {}) {
+    this.supabase = supabase;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Note a document being loaded, keeping its content if the history does not already end with it
+   * (the file was created, or changed outside a collaborative session, since the last revision)
+   */
+  async documentLoaded(groupId: string, fileId: string, content: string): Promise<void> {
+    this.lastRevisions.delete(fileId);
+    await this.record(groupId, fileId, content, { reason: 'snapshot', authorId: null, force: true });
+  }
+
+  /**
+   * Record a revision of a file
+   * Snapshots wait for the interval unless forced; every revision is skipped if nothing changed.
+   */
+  async record(groupId: string, fileId: string, content: string, options: RevisionOptions): Promise<void> {
+    const previous = this.lastRevisions.get(fileId);
+    const next = this.recordAfter(previous ?? this.fetchLatest(fileId), groupId, fileId, content, options);
+    this.lastRevisions.set(fileId, next);
+    await next;
+  }
+
+  /**
+   * Forget a file once its document is unloaded
+   */
+  forget(fileId: string): void {
+    this.lastRevisions.delete(fileId);
+  }
+
+  // Revisions of one file are written in order, each comparing against the one before
+  private async recordAfter(
+    previous: Promise<LastRevision | null>,
+    groupId: string,
+    fileId: string,
+    content: string,
+    options: RevisionOptions
+  ): Promise<LastRevision | null> {
+    const last = await previous;
+    if (last?.content === content) return last;
+
+    const now = Date.now();
+    const due = !last || now - last.recordedAt >= this.config.intervalMs;
+    if (options.reason === 'snapshot' && !options.force && !due) return last;
+
+    const { error } = await this.supabase
+      .from('collaboration_file_revisions')
+      .insert({
+        file_id: fileId,
+        room_id: groupId,
+        content,
+        author_id: options.authorId,
+        reason: options.reason,
+        restored_from: options.restoredFrom ?? null
+      });
+
+    if (error) {
+      console.error(`Failed to record revision of ${groupId}/${fileId}:`, error.message);
+      return last;
+    }
+
+    return { content, recordedAt: now };
+  }
+
+  private async fetchLatest(fileId: string): Promise<LastRevision | null> {
+    const { data, error } = await this.supabase
+      .from('collaboration_file_revisions')
+      .select('content, created_at')
+      .eq('file_id', fileId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to load revisions of ${fileId}:`, error.message);
+      return null;
+    }
+
+    return data ? { content: data.content, recordedAt: Date.parse(data.created_at) } : null;
+  }
+}
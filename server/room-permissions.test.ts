@@ -0,0 +1,24 @@
+import { canPerform, toCollaborationRole } from './room-permissions';
+
+describe('room permissions', () => {
+  test('maps stored participant roles onto collaboration roles', () => {
+    expect(toCollaborationRole('owner')).toBe('owner');
+    expect(toCollaborationRole('admin')).toBe('owner');
+    expect(toCollaborationRole('member')).toBe('editor');
+    expect(toCollaborationRole('viewer')).toBe('viewer');
+  });
+
+  test('gives missing and unknown roles the least privilege', () => {
+    expect(toCollaborationRole('guest')).toBe('viewer');
+    expect(toCollaborationRole(null)).toBe('viewer');
+    expect(toCollaborationRole(undefined)).toBe('viewer');
+  });
+
+  test('lets viewers watch but not edit', () => {
+    expect(canPerform('viewer', 'view')).toBe(true);
+    expect(canPerform('viewer', 'edit')).toBe(false);
+    expect(canPerform('editor', 'edit')).toBe(true);
+    expect(canPerform('editor', 'manage')).toBe(false);
+    expect(canPerform('owner', 'manage')).toBe(true);
+  });
+});
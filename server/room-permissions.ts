@@ -0,0 +1,39 @@
+/**
+ * Room Permissions for the collaboration socket server
+ * Maps stored participant roles onto collaboration roles and the actions each may take
+ */
+
+export type CollaborationRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * view   - receive room state, share cursor/selection, open documents
+ * edit   - change documents, save them and broadcast typing
+ * manage - room-wide controls reserved for owners
+ */
+export type CollaborationAction = 'view' | 'edit' | 'manage';
+
+const ROLE_CAPABILITIES: Record<CollaborationRole, CollaborationAction[]> = {
+  owner: ['view', 'edit', 'manage'],
+  editor: ['view', 'edit'],
+  viewer: ['view']
+};
+
+// room_participants.role predates the editor/viewer split; admins and members keep their access
+const STORED_ROLE_MAP: Record<string, CollaborationRole> = {
+  owner: 'owner',
+  admin: 'owner',
+  member: 'editor',
+  editor: 'editor',
+  viewer: 'viewer'
+};
+
+/**
+ * Resolve a room_participants.role value; missing and unknown roles get the least privilege
+ */
+export function toCollaborationRole(storedRole: string | null | undefined): CollaborationRole {
+  return (storedRole && STORED_ROLE_MAP[storedRole]) || 'viewer';
+}
+
+export function canPerform(role: CollaborationRole, action: CollaborationAction): boolean {
+  return ROLE_CAPABILITIES[role].includes(action);
+}
@@ -0,0 +1,107 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SessionRecorder } from './session-recorder';
+
+// Minimal Supabase stand-in for the collaboration_session_history table
+const createSupabaseMock = () => {
+  const inserts: Array<Record<string, unknown>> = [];
+  const updates: Array<Record<string, unknown>> = [];
+
+  const from = () => {
+    let pendingUpdate: Record<string, unknown> | null = null;
+
+    const builder = {
+      insert: (values: Record<string, unknown>) => {
+        inserts.push(values);
+        return builder;
+      },
+      select: () => builder,
+      single: () => Promise.resolve({ data: { id: `session-${inserts.length}` }, error: null }),
+      update: (values: Record<string, unknown>) => {
+        pendingUpdate = values;
+        return builder;
+      },
+      eq: (_column: string, value: string) => {
+        updates.push({ ...pendingUpdate, id: value });
+        return Promise.resolve({ error: null });
+      }
+    };
+
+    return builder;
+  };
+
+  return { client: { from } as unknown as SupabaseClient, inserts, updates };
+};
+
+describe('SessionRecorder', () => {
+  let recorder: SessionRecorder;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    recorder.destroy();
+    vi.useRealTimers();
+  });
+
+  test('starts one session per user per room across tabs', async () => {
+    const { client, inserts, updates } = createSupabaseMock();
+    recorder = new SessionRecorder(client);
+
+    recorder.join('room-1', 'user-1', 'socket-1');
+    recorder.join('room-1', 'user-1', 'socket-2');
+    expect(inserts).toHaveLength(1);
+
+    recorder.leave('room-1', 'user-1', 'socket-1');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(updates).toHaveLength(0);
+
+    recorder.leave('room-1', 'user-1', 'socket-2');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ id: 'session-1', ended_at: '2026-01-01T10:00:00.000Z' });
+    expect(recorder.getOpenSessionCount()).toBe(0);
+  });
+
+  test('counts active time per file and skips idle gaps', async () => {
+    const { client, updates } = createSupabaseMock();
+    recorder = new SessionRecorder(client, { idleThresholdMs: 60000, flushIntervalMs: 3600000 });
+
+    recorder.join('room-1', 'user-1', 'socket-1');
+    recorder.recordFileFocus('room-1', 'user-1', 'file-1');
+
+    vi.advanceTimersByTime(30000);
+    recorder.recordEdit('room-1', 'user-1', 'file-1');
+
+    // Ten idle minutes do not count
+    vi.advanceTimersByTime(600000);
+    recorder.recordFileFocus('room-1', 'user-1', 'file-2');
+
+    vi.advanceTimersByTime(20000);
+    recorder.recordEdit('room-1', 'user-1', 'file-2');
+
+    recorder.leave('room-1', 'user-1', 'socket-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(updates[0]).toMatchObject({
+      active_seconds: 50,
+      file_activity: {
+        'file-1': { active_seconds: 30, edits: 1 },
+        'file-2': { active_seconds: 20, edits: 1 }
+      }
+    });
+  });
+
+  test('flushes open sessions periodically without ending them', async () => {
+    const { client, updates } = createSupabaseMock();
+    recorder = new SessionRecorder(client, { flushIntervalMs: 1000 });
+
+    recorder.join('room-1', 'user-1', 'socket-1');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).not.toHaveProperty('ended_at');
+    expect(recorder.getOpenSessionCount()).toBe(1);
+  });
+});
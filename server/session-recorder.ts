@@ -0,0 +1,248 @@
+/**
+ * Session Recorder for collaboration room analytics
+ * Records when each user is in a room, which files they touched and how long they were active
+ *
+ * A session runs from a user's first socket joining a room on this node until
+ * their last socket there leaves. Active time only counts gaps between
+ * activity shorter than the idle threshold, so an idle tab does not add up.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+interface SessionRecorderConfig {
+  /** Activity gaps longer than this are treated as idle time */
+  idleThresholdMs: number;
+  /** How often open sessions are written, bounding what a crash can lose */
+  flushIntervalMs: number;
+}
+
+interface FileActivity {
+  activeMs: number;
+  edits: number;
+}
+
+interface RecordedSession {
+  groupId: string;
+  userId: string;
+  sockets: Set<string>;
+  startedAt: Date;
+  lastActiveAt: number;
+  activeMs: number;
+  currentFileId?: string;
+  files: Map<string, FileActivity>;
+  rowId: Promise<string | null>;
+}
+
+const DEFAULT_CONFIG: SessionRecorderConfig = {
+  idleThresholdMs: 60 * 1000,
+  flushIntervalMs: 60 * 1000
+};
+
+export class SessionRecorder {
+  private supabase: SupabaseClient;
+  private config: SessionRecorderConfig;
+  private sessions: Map<string, RecordedSession> = new Map(); // groupId:userId -> session
+  private flushInterval: NodeJS.Timeout;
+
+  constructor(supabase: SupabaseClient, config: Partial<SessionRecorderConfig> = {}) {
+    this.supabase = supabase;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.flushInterval = setInterval(() => {
+      this.flushAll().catch(error => console.error('Failed to flush session history:', error));
+    }, this.config.flushIntervalMs);
+  }
+
+  /**
+   * Record a socket joining a room, starting a session for its user if needed
+   */
+  join(groupId: string, userId: string, socketId: string): void {
+    const key = this.getKey(groupId, userId);
+    const existing = this.sessions.get(key);
+    if (existing) {
+      existing.sockets.add(socketId);
+      this.touch(existing);
+      return;
+    }
+
+    const startedAt = new Date();
+    this.sessions.set(key, {
+      groupId,
+      userId,
+      sockets: new Set([socketId]),
+      startedAt,
+      lastActiveAt: startedAt.getTime(),
+      activeMs: 0,
+      files: new Map(),
+      // Awaited only when the session is written, so a throwing client must not reject it
+      rowId: this.insertSession(groupId, userId, startedAt).catch(error => {
+        console.error(`Failed to start session for user ${userId} in room ${groupId}:`, error);
+        return null;
+      })
+    });
+  }
+
+  /**
+   * Record a socket leaving a room; the session ends with the user's last socket
+   */
+  leave(groupId: string, userId: string, socketId: string): void {
+    const key = this.getKey(groupId, userId);
+    const session = this.sessions.get(key);
+    if (!session) return;
+
+    session.sockets.delete(socketId);
+    if (session.sockets.size > 0) return;
+
+    this.sessions.delete(key);
+    this.persist(session, new Date()).catch(error => {
+      console.error(`Failed to end session for user ${userId} in room ${groupId}:`, error);
+    });
+  }
+
+  recordActivity(groupId: string, userId: string): void {
+    const session = this.sessions.get(this.getKey(groupId, userId));
+    if (session) this.touch(session);
+  }
+
+  recordFileFocus(groupId: string, userId: string, fileId: string): void {
+    const session = this.sessions.get(this.getKey(groupId, userId));
+    if (!session) return;
+
+    // Time up to now belongs to the file the user was on before
+    this.touch(session);
+    session.currentFileId = fileId;
+    this.getFileActivity(session, fileId);
+  }
+
+  recordEdit(groupId: string, userId: string, fileId: string): void {
+    const session = this.sessions.get(this.getKey(groupId, userId));
+    if (!session) return;
+
+    this.touch(session);
+    session.currentFileId = fileId;
+    this.getFileActivity(session, fileId).edits++;
+  }
+
+  /**
+   * Write every open session without ending it
+   */
+  async flushAll(): Promise<void> {
+    await Promise.all(Array.from(this.sessions.values()).map(session => this.persist(session, null)));
+  }
+
+  /**
+   * End every open session, for shutdown
+   */
+  async endAll(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    const endedAt = new Date();
+    await Promise.all(sessions.map(session => this.persist(session, endedAt)));
+  }
+
+  /**
+   * Close sessions left open by a node that stopped without ending them.
+   * Sessions still being flushed by a live node are left alone.
+   * @returns how many sessions were closed
+   */
+  async closeStaleSessions(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.config.flushIntervalMs * 2).toISOString();
+    const { data, error } = await this.supabase
+      .from('collaboration_session_history')
+      .select('id, updated_at')
+      .is('ended_at', null)
+      .lt('updated_at', cutoff);
+
+    if (error) {
+      console.error('Failed to load stale sessions:', error);
+      return 0;
+    }
+
+    const staleRows = (data ?? []) as Array<{ id: string; updated_at: string }>;
+    for (const row of staleRows) {
+      // The last flush is the best known end of the session
+      await this.supabase
+        .from('collaboration_session_history')
+        .update({ ended_at: row.updated_at })
+        .eq('id', row.id);
+    }
+    return staleRows.length;
+  }
+
+  getOpenSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Stop the periodic flush
+   */
+  destroy(): void {
+    clearInterval(this.flushInterval);
+  }
+
+  private touch(session: RecordedSession, now: number = Date.now()): void {
+    const gap = now - session.lastActiveAt;
+    if (gap > 0 && gap <= this.config.idleThresholdMs) {
+      session.activeMs += gap;
+      if (session.currentFileId) {
+        this.getFileActivity(session, session.currentFileId).activeMs += gap;
+      }
+    }
+    session.lastActiveAt = now;
+  }
+
+  private getFileActivity(session: RecordedSession, fileId: string): FileActivity {
+    let activity = session.files.get(fileId);
+    if (!activity) {
+      activity = { activeMs: 0, edits: 0 };
+      session.files.set(fileId, activity);
+    }
+    return activity;
+  }
+
+  private async insertSession(groupId: string, userId: string, startedAt: Date): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('collaboration_session_history')
+      .insert({
+        room_id: groupId,
+        user_id: userId,
+        started_at: startedAt.toISOString(),
+        updated_at: startedAt.toISOString()
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      console.error(`Failed to start session for user ${userId} in room ${groupId}:`, error);
+      return null;
+    }
+    return (data as { id: string }).id;
+  }
+
+  private async persist(session: RecordedSession, endedAt: Date | null): Promise<void> {
+    const rowId = await session.rowId;
+    if (!rowId) return;
+
+    const fileActivity: Record<string, { active_seconds: number; edits: number }> = {};
+    session.files.forEach((activity, fileId) => {
+      fileActivity[fileId] = { active_seconds: Math.round(activity.activeMs / 1000), edits: activity.edits };
+    });
+
+    const { error } = await this.supabase
+      .from('collaboration_session_history')
+      .update({
+        active_seconds: Math.round(session.activeMs / 1000),
+        file_activity: fileActivity,
+        updated_at: new Date().toISOString(),
+        ...(endedAt ? { ended_at: endedAt.toISOString() } : {})
+      })
+      .eq('id', rowId);
+
+    if (error) {
+      throw new Error(`Failed to write session ${rowId}: ${error.message}`);
+    }
+  }
+
+  private getKey(groupId: string, userId: string): string {
+    return `${groupId}:${userId}`;
+  }
+}
@@ -0,0 +1,44 @@
+import { SessionTokenPayload, createSessionToken, verifySessionToken } from './session-token';
+
+describe('session tokens', () => {
+  const secret = 'test-secret';
+  const payload: SessionTokenPayload = {
+    userId: 'user-1',
+    rooms: [
+      { groupId: 'group-1', fileId: 'file-1', manualStatus: 'dnd', allowFollowing: false },
+      { groupId: 'group-2' }
+    ],
+    expiresAt: 10_000
+  };
+
+  test('round trips a payload', () => {
+    const token = createSessionToken(payload, secret);
+    expect(verifySessionToken(token, secret, 5_000)).toEqual(payload);
+  });
+
+  test('refuses an expired token', () => {
+    const token = createSessionToken(payload, secret);
+    expect(verifySessionToken(token, secret, 10_000)).toBeNull();
+  });
+
+  test('refuses a token signed with another secret', () => {
+    const token = createSessionToken(payload, 'other-secret');
+    expect(verifySessionToken(token, secret, 5_000)).toBeNull();
+  });
+
+  test('refuses a token whose payload was changed', () => {
+    const [, signature] = createSessionToken(payload, secret).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...payload, userId: 'user-2' })).toString('base64url');
+    expect(verifySessionToken(`${forged}.${signature}`, secret, 5_000)).toBeNull();
+  });
+
+  test('refuses malformed tokens', () => {
+    const unsigned = createSessionToken({ ...payload, rooms: [{ groupId: 42 }] } as unknown as SessionTokenPayload, secret);
+
+    expect(verifySessionToken(undefined, secret)).toBeNull();
+    expect(verifySessionToken('', secret)).toBeNull();
+    expect(verifySessionToken('abc', secret)).toBeNull();
+    expect(verifySessionToken('a.b.c', secret)).toBeNull();
+    expect(verifySessionToken(unsigned, secret, 5_000)).toBeNull();
+  });
+});
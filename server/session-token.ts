@@ -0,0 +1,73 @@
+/**
+ * Session Tokens for resuming a client on another socket server node
+ * A signed snapshot of a socket's rooms and per-room context, handed out while draining
+ *
+ * Tokens are HMAC-signed with a secret every node shares, so any node can
+ * verify one without shared storage. They only say where a client was: room
+ * membership is checked again when the session is resumed.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ManualStatus, isManualStatus } from './presence-status';
+
+export interface ResumeRoom {
+  groupId: string;
+  fileId?: string;
+  manualStatus?: ManualStatus;
+  allowFollowing?: boolean;
+}
+
+export interface SessionTokenPayload {
+  userId: string;
+  rooms: ResumeRoom[];
+  /** Milliseconds since the epoch after which the token is refused */
+  expiresAt: number;
+}
+
+const encode = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+function sign(body: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(body).digest();
+}
+
+export function createSessionToken(payload: SessionTokenPayload, secret: string): string {
+  const body = encode(JSON.stringify(payload));
+  return `${body}.${encode(sign(body, secret))}`;
+}
+
+/**
+ * @returns the payload, or null if the token is malformed, forged or expired
+ */
+export function verifySessionToken(token: unknown, secret: string, now: number = Date.now()): SessionTokenPayload | null {
+  if (typeof token !== 'string') return null;
+  const [body, signature, extra] = token.split('.');
+  if (!body || !signature || extra !== undefined) return null;
+
+  const expected = sign(body, secret);
+  const provided = Buffer.from(signature, 'base64url');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) return null;
+
+  try {
+    const payload: unknown = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (!isSessionTokenPayload(payload) || payload.expiresAt <= now) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+function isSessionTokenPayload(value: unknown): value is SessionTokenPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const payload = value as Partial<SessionTokenPayload>;
+  return (
+    typeof payload.userId === 'string' &&
+    typeof payload.expiresAt === 'number' &&
+    Array.isArray(payload.rooms) &&
+    payload.rooms.every(room =>
+      typeof room?.groupId === 'string' &&
+      (room.fileId === undefined || typeof room.fileId === 'string') &&
+      (room.manualStatus === undefined || isManualStatus(room.manualStatus)) &&
+      (room.allowFollowing === undefined || typeof room.allowFollowing === 'boolean')
+    )
+  );
+}
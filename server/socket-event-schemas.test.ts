@@ -0,0 +1,52 @@
+import { MAX_UPDATE_LENGTH, parseClientEvent } from './socket-event-schemas';
+
+const groupId = '123e4567-e89b-12d3-a456-426614174000';
+const fileId = '123e4567-e89b-12d3-a456-426614174001';
+
+const cursor = { line: 3, column: 7, userName: 'Ada', color: '#FF6B6B', timestamp: 1700000000000 };
+
+describe('socket event schemas', () => {
+  test('accepts well-formed payloads', () => {
+    expect(parseClientEvent('cursor-update', { groupId, fileId, cursor }).success).toBe(true);
+    expect(parseClientEvent('set-status', { groupId, status: null }).success).toBe(true);
+    expect(parseClientEvent('doc-update', { groupId, fileId, update: 'AQID' }).success).toBe(true);
+  });
+
+  test('strips fields the schema does not name, including a forged user id', () => {
+    const result = parseClientEvent('cursor-update', {
+      groupId,
+      fileId,
+      cursor: { ...cursor, userId: 'someone-else', html: '<img src=x onerror=alert(1)>' },
+      isAdmin: true
+    });
+
+    expect(result).toEqual({ success: true, data: { groupId, fileId, cursor } });
+  });
+
+  test('rejects malformed payloads with the failing paths', () => {
+    const result = parseClientEvent('cursor-update', { groupId: 'not-a-uuid', fileId, cursor: { ...cursor, line: -1 } });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.event).toBe('cursor-update');
+    expect(result.error.issues.map(issue => issue.path)).toEqual(['groupId', 'cursor.line']);
+  });
+
+  test('rejects payloads that are not objects', () => {
+    expect(parseClientEvent('typing-start', null).success).toBe(false);
+    expect(parseClientEvent('typing-start', 'group').success).toBe(false);
+  });
+
+  test('rejects oversized payloads', () => {
+    const update = 'A'.repeat(MAX_UPDATE_LENGTH + 4);
+    expect(parseClientEvent('doc-update', { groupId, fileId, update }).success).toBe(false);
+    expect(parseClientEvent('cursor-update', { groupId, fileId, cursor: { ...cursor, userName: 'x'.repeat(101) } }).success)
+      .toBe(false);
+  });
+
+  test('bounds presence settings and statuses', () => {
+    expect(parseClientEvent('presence-settings', { groupId, idleTimeoutSeconds: 0, offlineTimeoutSeconds: null }).success)
+      .toBe(false);
+    expect(parseClientEvent('set-status', { groupId, status: 'invisible' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Socket Event Schemas for the collaboration protocol
+ * Zod schemas for every event a client sends, shared by the socket server and the client
+ *
+ * The server parses each payload before acting on it. Unknown fields are
+ * stripped, so only what a schema names can reach other clients, and every
+ * string and number is bounded so one client cannot flood a room.
+ */
+
+import { z } from 'zod';
+
+// Socket.IO drops messages over 1 MB, so no field needs to be larger
+export const MAX_UPDATE_LENGTH = 1_000_000;
+const MAX_STATE_VECTOR_LENGTH = 100_000;
+const MAX_AWARENESS_LENGTH = 100_000;
+const MAX_NAME_LENGTH = 100;
+const MAX_LINE = 10_000_000;
+const MAX_SCROLL = 100_000_000;
+const MAX_TIMEOUT_SECONDS = 24 * 60 * 60;
+
+const id = z.string().uuid();
+const base64 = (max: number) => z.string().max(max).regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Invalid base64');
+const line = z.number().int().min(1).max(MAX_LINE);
+const column = z.number().int().min(0).max(MAX_LINE);
+const color = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format');
+
+const roomEvent = z.object({ groupId: id });
+const fileEvent = roomEvent.extend({ fileId: id });
+
+// Who a cursor or selection belongs to is taken from the socket, never the payload
+export const cursorPositionPayloadSchema = z.object({
+  line,
+  column,
+  userName: z.string().min(1).max(MAX_NAME_LENGTH),
+  color,
+  timestamp: z.number().int().min(0)
+});
+
+export const textSelectionPayloadSchema = z.object({
+  startLine: line,
+  startColumn: column,
+  endLine: line,
+  endColumn: column,
+  userName: z.string().min(1).max(MAX_NAME_LENGTH),
+  color
+});
+
+export const joinCollaborationEventSchema = roomEvent;
+export const leaveCollaborationEventSchema = roomEvent;
+export const cursorUpdateEventSchema = fileEvent.extend({ cursor: cursorPositionPayloadSchema });
+export const selectionUpdateEventSchema = fileEvent.extend({ selection: textSelectionPayloadSchema });
+export const typingEventSchema = fileEvent;
+export const fileSwitchEventSchema = fileEvent;
+export const userActivityEventSchema = roomEvent;
+export const docSubscribeEventSchema = fileEvent.extend({ stateVector: base64(MAX_STATE_VECTOR_LENGTH) });
+export const docUpdateEventSchema = fileEvent.extend({ update: base64(MAX_UPDATE_LENGTH).min(1) });
+export const awarenessUpdateEventSchema = fileEvent.extend({ update: base64(MAX_AWARENESS_LENGTH).min(1) });
+export const followUserEventSchema = roomEvent.extend({ targetUserId: id });
+export const followPreferenceEventSchema = roomEvent.extend({ allowFollowing: z.boolean() });
+export const viewportUpdateEventSchema = fileEvent.extend({
+  scrollTop: z.number().min(0).max(MAX_SCROLL),
+  scrollLeft: z.number().min(0).max(MAX_SCROLL),
+  line,
+  column
+});
+export const docSaveEventSchema = fileEvent.extend({
+  restoredFrom: id.optional(),
+  mergedVersion: z.number().int().positive().optional()
+});
+export const visibilityChangeEventSchema = roomEvent.extend({ visible: z.boolean() });
+export const setStatusEventSchema = roomEvent.extend({ status: z.enum(['away', 'dnd']).nullable() });
+export const presenceSettingsEventSchema = roomEvent.extend({
+  idleTimeoutSeconds: z.number().int().positive().max(MAX_TIMEOUT_SECONDS).nullable(),
+  offlineTimeoutSeconds: z.number().int().positive().max(MAX_TIMEOUT_SECONDS).nullable()
+});
+
+export const clientEventSchemas = {
+  'join-collaboration': joinCollaborationEventSchema,
+  'leave-collaboration': leaveCollaborationEventSchema,
+  'cursor-update': cursorUpdateEventSchema,
+  'selection-update': selectionUpdateEventSchema,
+  'typing-start': typingEventSchema,
+  'typing-stop': typingEventSchema,
+  'file-switch': fileSwitchEventSchema,
+  'user-activity': userActivityEventSchema,
+  'doc-subscribe': docSubscribeEventSchema,
+  'doc-unsubscribe': fileEvent,
+  'doc-update': docUpdateEventSchema,
+  'awareness-update': awarenessUpdateEventSchema,
+  'doc-save': docSaveEventSchema,
+  'follow-user': followUserEventSchema,
+  'unfollow-user': followUserEventSchema,
+  'follow-preference': followPreferenceEventSchema,
+  'viewport-update': viewportUpdateEventSchema,
+  'presenter-start': roomEvent,
+  'presenter-stop': roomEvent,
+  'visibility-change': visibilityChangeEventSchema,
+  'set-status': setStatusEventSchema,
+  'presence-settings': presenceSettingsEventSchema
+};
+
+export type ClientEventName = keyof typeof clientEventSchemas;
+
+export type ClientEventPayload<E extends ClientEventName> = z.infer<(typeof clientEventSchemas)[E]>;
+
+export type ClientToServerEvents = {
+  [E in ClientEventName]: (data: ClientEventPayload<E>) => void;
+};
+
+// Sent back to the sender when a payload does not match its schema
+export interface ValidationError {
+  event: ClientEventName;
+  issues: Array<{ path: string; message: string }>;
+  message: string;
+}
+
+// Enough to fix a request without echoing a whole malformed payload back
+const MAX_REPORTED_ISSUES = 5;
+
+export type ClientEventParseResult<E extends ClientEventName> =
+  | { success: true; data: ClientEventPayload<E> }
+  | { success: false; error: ValidationError };
+
+/**
+ * Parse an inbound payload, stripping fields its schema does not name
+ */
+export function parseClientEvent<E extends ClientEventName>(event: E, payload: unknown): ClientEventParseResult<E> {
+  const result = clientEventSchemas[event].safeParse(payload);
+  if (result.success) {
+    return { success: true, data: result.data as ClientEventPayload<E> };
+  }
+
+  return {
+    success: false,
+    error: {
+      event,
+      issues: result.error.issues.slice(0, MAX_REPORTED_ISSUES).map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message
+      })),
+      message: `Invalid ${event} payload`
+    }
+  };
+}
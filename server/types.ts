@@ -4,7 +4,8 @@ export interface CollaborationUser {
   name: string;
   email?: string;
   avatar?: string;
-  status: 'online' | 'away' | 'offline';
+  status: 'online' | 'away' | 'offline' | 'dnd';
+  manualStatus?: 'away' | 'dnd';
   currentFile?: string;
   lastActivity: Date;
   cursorColor: string;
@@ -110,6 +111,14 @@ export interface UserActivityData {
   userId: string;
 }
 
+export interface PresenceChangedData {
+  groupId: string;
+  userId: string;
+  status: CollaborationUser['status'];
+  manualStatus: CollaborationUser['manualStatus'] | null;
+  lastActivity: Date;
+}
+
 // Connection status types
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'auth_error';
 
@@ -1,4 +1,9 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { CollaborationSocketServer } from './collaboration-socket-server';
+import { DocumentManager } from './document-manager';
+import { InMemoryPresenceStore } from './presence-store';
+import { destroyRateLimiters, rateLimiters } from './rate-limiter';
+import { SessionRecorder } from './session-recorder';
 import { CollaborationUser } from './types';
 
 // Simple verification script to test the Socket.IO server setup
@@ -10,8 +15,18 @@ try {
     on: () => {},
     to: () => ({ emit: () => {} })
   } as any;
+  // Nothing is loaded or persisted during these checks, so the client is never called
+  const mockSupabase = {} as SupabaseClient;
+  const sessionRecorder = new SessionRecorder(mockSupabase);
   
-  const server = new CollaborationSocketServer(mockIo);
+  const server = new CollaborationSocketServer(
+    mockIo,
+    mockSupabase,
+    rateLimiters,
+    new DocumentManager(mockSupabase),
+    new InMemoryPresenceStore(),
+    sessionRecorder
+  );
   console.log('✓ CollaborationSocketServer class instantiated successfully');
   
   // Test 2: Initialize method exists
@@ -45,6 +60,8 @@ try {
   // Test 5: Server initialization (without actual Socket.IO)
   server.initialize();
   console.log('✓ Server initialization completed without errors');
+  sessionRecorder.destroy();
+  destroyRateLimiters(rateLimiters);
   
   console.log('\n🎉 All Socket.IO server setup verifications passed!');
   console.log('\nNext steps:');
@@ -17,6 +17,7 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { supabase } from '@/integrations/supabase/client';
 import { executeCode } from '@/lib/codeExecution';
+import { formatDiagnostic } from '@/lib/typescriptWorker';
 import { format, addDays, addHours, addWeeks } from 'date-fns';
 import { cn } from '@/lib/utils';
 
@@ -55,132 +56,16 @@ export const CodeCompiler: React.FC<CodeCompilerProps> = ({ code, language }) =>
   const [shareTitle, setShareTitle] = useState<string>('');
   const [expirationDate, setExpirationDate] = useState<Date | null>(null);
   const [showExpirationPicker, setShowExpirationPicker] = useState(false);
-  const sandboxRef = useRef<HTMLIFrameElement | null>(null);
+  const runControllerRef = useRef<AbortController | null>(null);
 
   // Languages that support stdin input
   const supportsInput = ['javascript', 'typescript', 'python', 'shell', 'bash'].includes(language.toLowerCase());
 
-  // Create sandboxed iframe for code execution
+  // Stop a run that is still going when the compiler unmounts
   useEffect(() => {
-    return () => {
-      if (sandboxRef.current) {
-        sandboxRef.current.remove();
-      }
-    };
+    return () => runControllerRef.current?.abort();
   }, []);
 
-  const executeCodeInSandbox = (codeToRun: string): Promise<{ output: string; error: string | null }> => {
-    return new Promise((resolve) => {
-      const iframe = document.createElement('iframe');
-      iframe.setAttribute('sandbox', 'allow-scripts');
-      iframe.style.display = 'none';
-      document.body.appendChild(iframe);
-      sandboxRef.current = iframe;
-
-      const messageHandler = (event: MessageEvent) => {
-        if (event.source === iframe.contentWindow) {
-          window.removeEventListener('message', messageHandler);
-          iframe.remove();
-          resolve(event.data);
-        }
-      };
-      window.addEventListener('message', messageHandler);
-
-      const timeout = setTimeout(() => {
-        window.removeEventListener('message', messageHandler);
-        iframe.remove();
-        resolve({ output: '', error: 'Execution timed out (5 second limit)' });
-      }, 5000);
-
-      const sandboxCode = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <script>
-            (function() {
-              const logs = [];
-              const errors = [];
-              const stdinInput = ${JSON.stringify(stdinInput)};
-              let stdinIndex = 0;
-              const stdinLines = stdinInput.split('\\n');
-              
-              // Override console
-              console = {
-                log: function(...args) {
-                  logs.push(args.map(a => typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)).join(' '));
-                },
-                error: function(...args) {
-                  errors.push(args.map(a => typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)).join(' '));
-                },
-                warn: function(...args) {
-                  logs.push('WARN: ' + args.map(a => typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)).join(' '));
-                },
-                info: function(...args) {
-                  logs.push('INFO: ' + args.map(a => typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)).join(' '));
-                }
-              };
-
-              // Simulated input function
-              window.prompt = function(message) {
-                if (stdinIndex < stdinLines.length) {
-                  return stdinLines[stdinIndex++];
-                }
-                return '';
-              };
-              window.readline = function() {
-                if (stdinIndex < stdinLines.length) {
-                  return stdinLines[stdinIndex++];
-                }
-                return '';
-              };
-              window.input = stdinInput;
-
-              // Block dangerous APIs
-              window.fetch = undefined;
-              window.XMLHttpRequest = undefined;
-              window.localStorage = undefined;
-              window.sessionStorage = undefined;
-              window.indexedDB = undefined;
-              window.open = undefined;
-              window.parent = undefined;
-              window.top = undefined;
-              window.opener = undefined;
-              document.cookie = '';
-
-              try {
-                const result = (function() {
-                  ${codeToRun}
-                })();
-                
-                let output = logs.join('\\n');
-                if (!output && result !== undefined) {
-                  output = typeof result === 'object' ? JSON.stringify(result, null, 2) : String(result);
-                }
-                if (!output) {
-                  output = 'Code executed successfully (no output)';
-                }
-                
-                parent.postMessage({ 
-                  output: output, 
-                  error: errors.length > 0 ? errors.join('\\n') : null 
-                }, '*');
-              } catch (e) {
-                parent.postMessage({ 
-                  output: '', 
-                  error: e.message || 'Unknown error' 
-                }, '*');
-              }
-            })();
-          </script>
-        </head>
-        <body></body>
-        </html>
-      `;
-
-      iframe.srcdoc = sandboxCode;
-    });
-  };
-
   const handleExecuteCode = async () => {
     if (!code.trim()) {
       toast({
@@ -191,32 +76,34 @@ export const CodeCompiler: React.FC<CodeCompilerProps> = ({ code, language }) =>
       return;
     }
 
+    const controller = new AbortController();
+    runControllerRef.current = controller;
     setIsRunning(true);
     setOutput('');
     setErrors('');
     const startTime = Date.now();
+    const append = (text: string) => (prev: string) => prev ? `${prev}\n${text}` : text;
 
     try {
-      // Try edge function first for full language support
-      const result = await executeCode(code, language, stdinInput);
+      // Output shows as it is written; the result below replaces it with the final, truncated text
+      const result = await executeCode(code, language, stdinInput, {
+        checkTypes: true,
+        signal: controller.signal,
+        onOutput: (text, stream) => (stream === 'stderr' ? setErrors : setOutput)(append(text)),
+      });
+      const typeErrors = result.typeErrors?.map(formatDiagnostic).join('\n');
       
       if (result.success) {
         setOutput(result.output);
+        const problems = [typeErrors, result.stderr].filter(Boolean).join('\n');
+        if (problems) setErrors(problems);
         toast({
           title: "Code executed successfully",
           description: `Execution completed in ${result.executionTime}ms`
         });
       } else {
-        // Fallback to sandbox for JS/TS
-        if (['javascript', 'typescript'].includes(language.toLowerCase())) {
-          const sandboxResult = await executeCodeInSandbox(code);
-          setOutput(sandboxResult.output);
-          if (sandboxResult.error) {
-            setErrors(sandboxResult.error);
-          }
-        } else {
-          setErrors(result.error || 'Execution failed');
-        }
+        setOutput(result.output);
+        setErrors([typeErrors, result.stderr, result.error || 'Execution failed'].filter(Boolean).join('\n'));
       }
     } catch (error) {
       setErrors((error as Error).message);
@@ -226,11 +113,14 @@ export const CodeCompiler: React.FC<CodeCompilerProps> = ({ code, language }) =>
         variant: "destructive"
       });
     } finally {
+      runControllerRef.current = null;
       setExecutionTime(Date.now() - startTime);
       setIsRunning(false);
     }
   };
 
+  const stopExecution = () => runControllerRef.current?.abort();
+
   const clearOutput = () => {
     setOutput('');
     setErrors('');
@@ -352,14 +242,15 @@ export const CodeCompiler: React.FC<CodeCompilerProps> = ({ code, language }) =>
               Clear
             </Button>
             <Button
-              onClick={handleExecuteCode}
-              disabled={isRunning || !code.trim()}
+              onClick={isRunning ? stopExecution : handleExecuteCode}
+              disabled={!isRunning && !code.trim()}
+              variant={isRunning ? 'destructive' : 'default'}
               className="glass-card"
             >
               {isRunning ? (
                 <>
                   <Square className="h-4 w-4 mr-2" />
-                  Running...
+                  Stop
                 </>
               ) : (
                 <>
@@ -27,6 +27,8 @@ const getStatusColor = (status: CollaborationUser['status']) => {
       return 'bg-green-500';
     case 'away':
       return 'bg-yellow-500';
+    case 'dnd':
+      return 'bg-red-500';
     case 'offline':
       return 'bg-gray-400';
     default:
@@ -40,6 +42,8 @@ const getStatusText = (status: CollaborationUser['status']) => {
       return 'Online';
     case 'away':
       return 'Away';
+    case 'dnd':
+      return 'Do not disturb';
     case 'offline':
       return 'Offline';
     default:
@@ -82,7 +86,7 @@ export const ActiveUsersList: React.FC<ActiveUsersListProps> = ({
     if (b.id === currentUserId) return 1;
     
     // Then by status (online first)
-    const statusOrder = { online: 0, away: 1, offline: 2 };
+    const statusOrder = { online: 0, dnd: 1, away: 2, offline: 3 };
     const statusDiff = statusOrder[a.status] - statusOrder[b.status];
     if (statusDiff !== 0) return statusDiff;
     
@@ -92,7 +96,8 @@ export const ActiveUsersList: React.FC<ActiveUsersListProps> = ({
 
   const displayUsers = sortedUsers.slice(0, maxDisplayUsers);
   const remainingCount = Math.max(0, users.length - maxDisplayUsers);
-  const onlineCount = users.filter(u => u.status === 'online').length;
+  // Users on "Do not disturb" are still here, just not to be interrupted
+  const onlineCount = users.filter(u => u.status === 'online' || u.status === 'dnd').length;
 
   const renderUserActions = (user: CollaborationUser) => {
     if (user.id === currentUserId) return null;
@@ -119,7 +124,7 @@ export const ActiveUsersList: React.FC<ActiveUsersListProps> = ({
               <UserCheck className="h-4 w-4 mr-2" />
               Unfollow user
             </DropdownMenuItem>
-          ) : (
+          ) : user.allowFollowing !== false && (
             <DropdownMenuItem onClick={() => onFollowUser?.(user.id)}>
               <Eye className="h-4 w-4 mr-2" />
               Follow user
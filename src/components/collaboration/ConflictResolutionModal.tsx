@@ -1,28 +1,135 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { OperationConflict } from '@/lib/operational-transform';
-import { conflictResolutionService } from '@/lib/conflict-resolution-service';
+import { OperationConflict, OperationalTransform } from '@/lib/operational-transform';
+import { hasConflictMarkers } from '@/lib/three-way-merge';
+import { FileVersionConflict } from '@/types/collaboration';
+import { ThreeWayMergeView } from './ThreeWayMergeView';
 import { AlertTriangle, Users, Clock, FileText } from 'lucide-react';
 
 interface ConflictResolutionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  conflicts: OperationConflict[];
-  onResolve: (conflict: OperationConflict, resolution: 'accept-local' | 'accept-remote' | 'merge', mergedContent?: string) => void;
-  currentContent: string;
+  conflicts?: OperationConflict[];
+  /** For 'merge', `mergedContent` is the whole merged document, to be diffed against `currentContent` */
+  onResolve?: (conflict: OperationConflict, resolution: 'accept-local' | 'accept-remote' | 'merge', mergedContent?: string) => void;
+  /** The common ancestor: the file at the version both conflicting changes were made to */
+  currentContent?: string;
+  /** `CollaborationFile.version` of `currentContent` */
+  baseVersion?: number;
+  language?: string;
+  /** A whole-file save that a teammate's save got to first; shown instead of `conflicts` */
+  fileConflict?: FileVersionConflict;
+  /** Receives the content to save over `fileConflict.serverFile` */
+  onResolveFile?: (conflict: FileVersionConflict, content: string) => void;
 }
 
+interface FileConflictResolutionProps {
+  conflict: FileVersionConflict;
+  language?: string;
+  onClose: () => void;
+  onResolve: (conflict: FileVersionConflict, content: string) => void;
+}
+
+/**
+ * A save conflict: merge the local edit with the server copy, both descended from `baseContent`
+ */
+const FileConflictResolution: React.FC<FileConflictResolutionProps> = ({
+  conflict,
+  language,
+  onClose,
+  onResolve
+}) => {
+  const [mergedContent, setMergedContent] = useState('');
+  const { serverFile } = conflict;
+
+  const resolve = (content: string) => {
+    onResolve(conflict, content);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-6xl max-h-[90vh] overflow-hidden">
+        <CardHeader className="border-b">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-orange-500" />
+              <CardTitle>Save Conflict</CardTitle>
+              <Badge variant="outline">{conflict.fileName}</Badge>
+            </div>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+          <CardDescription>
+            This file was saved as version {serverFile.version} while you were editing version {conflict.baseVersion}.
+            Nothing has been overwritten; choose what to save.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-4 h-[70vh] overflow-y-auto">
+          <Tabs defaultValue="merge" className="flex flex-col">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="local">Your Version</TabsTrigger>
+              <TabsTrigger value="remote">Saved Version</TabsTrigger>
+              <TabsTrigger value="merge">Merge</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="local" className="space-y-2">
+              <pre className="text-sm whitespace-pre-wrap font-mono bg-green-50 border border-green-200 rounded p-3 max-h-[50vh] overflow-auto">
+                {conflict.localContent}
+              </pre>
+              <Button onClick={() => resolve(conflict.localContent)} className="w-full" variant="outline">
+                Save Your Version Over Theirs
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="remote" className="space-y-2">
+              <pre className="text-sm whitespace-pre-wrap font-mono bg-blue-50 border border-blue-200 rounded p-3 max-h-[50vh] overflow-auto">
+                {serverFile.content}
+              </pre>
+              <Button onClick={() => resolve(serverFile.content)} className="w-full" variant="outline">
+                Discard Your Changes
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="merge" className="space-y-2">
+              <ThreeWayMergeView
+                base={conflict.baseContent}
+                local={conflict.localContent}
+                remote={serverFile.content}
+                language={language ?? serverFile.language}
+                onChange={setMergedContent}
+              />
+              <Button
+                onClick={() => resolve(mergedContent)}
+                className="w-full"
+                disabled={hasConflictMarkers(mergedContent)}
+              >
+                Save Merged Version
+              </Button>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
 export const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
   isOpen,
   onClose,
-  conflicts,
+  conflicts = [],
   onResolve,
-  currentContent
+  currentContent = '',
+  baseVersion,
+  language,
+  fileConflict,
+  onResolveFile
 }) => {
   const [selectedConflict, setSelectedConflict] = useState<OperationConflict | null>(null);
   const [mergedContent, setMergedContent] = useState('');
@@ -34,14 +141,25 @@ export const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = (
     }
   }, [conflicts, selectedConflict]);
 
-  useEffect(() => {
-    if (selectedConflict) {
-      // Initialize merged content with a combination of both changes
-      const localText = selectedConflict.operation1.text;
-      const remoteText = selectedConflict.operation2.text;
-      setMergedContent(`${localText}\n${remoteText}`);
-    }
-  }, [selectedConflict]);
+  // Each side's version of the whole file, for merging against the common ancestor
+  const versions = useMemo(() => {
+    if (!selectedConflict) return null;
+    return {
+      local: OperationalTransform.apply(currentContent, selectedConflict.operation1),
+      remote: OperationalTransform.apply(currentContent, selectedConflict.operation2)
+    };
+  }, [selectedConflict, currentContent]);
+
+  if (isOpen && fileConflict && onResolveFile) {
+    return (
+      <FileConflictResolution
+        conflict={fileConflict}
+        language={language}
+        onClose={onClose}
+        onResolve={onResolveFile}
+      />
+    );
+  }
 
   if (!isOpen || conflicts.length === 0) {
     return null;
@@ -51,7 +169,7 @@ export const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = (
     if (!selectedConflict) return;
 
     const content = resolution === 'merge' ? mergedContent : undefined;
-    onResolve(selectedConflict, resolution, content);
+    onResolve?.(selectedConflict, resolution, content);
 
     // Move to next conflict or close if done
     const currentIndex = conflicts.indexOf(selectedConflict);
@@ -111,7 +229,7 @@ export const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = (
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-      <Card className="w-full max-w-4xl max-h-[90vh] overflow-hidden">
+      <Card className="w-full max-w-6xl max-h-[90vh] overflow-hidden">
         <CardHeader className="border-b">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
@@ -254,24 +372,30 @@ export const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = (
                         <div className="space-y-2">
                           <div className="flex items-center justify-between">
                             <h4 className="font-medium">Merged Version</h4>
-                            <Badge variant="outline">Custom</Badge>
+                            <Badge variant="outline">
+                              {baseVersion !== undefined ? `Against version ${baseVersion}` : 'Three-way'}
+                            </Badge>
                           </div>
-                          <Textarea
-                            value={mergedContent}
-                            onChange={(e) => setMergedContent(e.target.value)}
-                            placeholder="Edit the merged content..."
-                            className="min-h-[200px] font-mono text-sm"
-                          />
+                          {versions && (
+                            <ThreeWayMergeView
+                              base={currentContent}
+                              local={versions.local}
+                              remote={versions.remote}
+                              language={language}
+                              onChange={setMergedContent}
+                            />
+                          )}
                           <Alert>
                             <AlertTriangle className="h-4 w-4" />
                             <AlertDescription>
-                              Manually edit the content above to create a merged version that combines both changes.
+                              Changes to different lines are merged automatically. Pick a side for each remaining
+                              conflict, or edit the result on the right, before applying it.
                             </AlertDescription>
                           </Alert>
                           <Button 
                             onClick={() => handleResolve('merge')}
                             className="w-full"
-                            disabled={!mergedContent.trim()}
+                            disabled={hasConflictMarkers(mergedContent)}
                           >
                             Apply Merged Changes
                           </Button>
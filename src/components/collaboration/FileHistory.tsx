@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FileRevision = Tables<'collaboration_file_revisions'>;
+
+interface FileHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileId: string;
+  fileName: string;
+  language?: string;
+  /** What the file holds now, shown against the selected revision */
+  currentContent: string;
+  getUserName: (userId: string) => string;
+  /** Omitted for users who may not edit the file */
+  onRestore?: (revision: FileRevision) => void;
+}
+
+// Enough history to cover recent work without paging
+const REVISION_LIMIT = 100;
+
+const REASON_LABELS: Record<string, string> = {
+  snapshot: 'Snapshot',
+  save: 'Saved',
+  restore: 'Restored'
+};
+
+/**
+ * Point-in-time revisions of a file, each shown as a diff against the current content
+ */
+export const FileHistory: React.FC<FileHistoryProps> = ({
+  open,
+  onOpenChange,
+  fileId,
+  fileName,
+  language,
+  currentContent,
+  getUserName,
+  onRestore
+}) => {
+  const [revisions, setRevisions] = useState<FileRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !fileId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('collaboration_file_revisions')
+        .select('*')
+        .eq('file_id', fileId)
+        .order('created_at', { ascending: false })
+        .limit(REVISION_LIMIT);
+
+      if (cancelled) return;
+      if (fetchError) {
+        console.error('Error loading file revisions:', fetchError);
+        setError('Could not load file history');
+      } else {
+        setRevisions(data ?? []);
+        setSelectedId(data?.[0]?.id ?? null);
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [open, fileId]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) ?? null;
+  const restoredFromTime = (id: string | null) =>
+    revisions.find(revision => revision.id === id)?.created_at;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#252526] border-[#555] max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <History className="h-5 w-5" /> History of {fileName}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {revisions.length > 0
+              ? `${revisions.length} revision${revisions.length === 1 ? '' : 's'}; select one to compare it with the current file`
+              : 'Snapshots are kept while the file is edited and whenever it is saved'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-10 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-400 py-6 text-center">{error}</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No revisions recorded yet</p>
+        ) : (
+          <div className="flex gap-3 h-[60vh]">
+            <ScrollArea className="w-64 shrink-0 pr-2">
+              <div className="space-y-1">
+                {revisions.map(revision => {
+                  const restoredAt = restoredFromTime(revision.restored_from);
+                  return (
+                    <button
+                      key={revision.id}
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn(
+                        'w-full text-left rounded border p-2',
+                        revision.id === selectedId
+                          ? 'border-blue-500 bg-[#37373d]'
+                          : 'border-[#3c3c3c] hover:bg-[#2a2d2e]'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-white">{new Date(revision.created_at).toLocaleString()}</span>
+                        <Badge variant="outline" className="text-[10px] h-4 px-1 border-[#555] text-gray-300">
+                          {REASON_LABELS[revision.reason] ?? revision.reason}
+                        </Badge>
+                      </div>
+                      <p className="text-[11px] text-gray-500 mt-1 truncate">
+                        {revision.author_id ? getUserName(revision.author_id) : 'Automatic'}
+                        {restoredAt && ` · from ${new Date(restoredAt).toLocaleString()}`}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            <div className="flex-1 min-w-0 flex flex-col gap-2">
+              <div className="flex items-center justify-between text-xs text-gray-400">
+                <span>Revision (left) compared with the current file (right)</span>
+                {onRestore && selected && (
+                  <Button size="sm" onClick={() => onRestore(selected)} disabled={selected.content === currentContent}>
+                    <RotateCcw className="h-3.5 w-3.5 mr-1" /> Restore this version
+                  </Button>
+                )}
+              </div>
+              <div className="flex-1 border border-[#3c3c3c] rounded overflow-hidden">
+                {selected && (
+                  <DiffEditor
+                    height="100%"
+                    original={selected.content}
+                    modified={currentContent}
+                    language={language}
+                    theme="vs-dark"
+                    options={{
+                      renderSideBySide: true,
+                      readOnly: true,
+                      minimap: { enabled: false },
+                      fontSize: 13,
+                      scrollBeyondLastLine: false
+                    }}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FileHistory;
@@ -1,8 +1,9 @@
 import React from 'react';
-import { CollaborationUser } from '@/types/collaboration';
+import { CollaborationUser, ManualStatus } from '@/types/collaboration';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Circle, Wifi, WifiOff } from 'lucide-react';
 import ActiveUsersList from './ActiveUsersList';
 import TypingIndicator from './TypingIndicator';
@@ -19,19 +20,40 @@ interface PresenceStatusProps {
   isConnected: boolean;
   className?: string;
   showDetails?: boolean;
+  followedUsers?: string[];
+  onFollowUser?: (userId: string) => void;
+  onUnfollowUser?: (userId: string) => void;
+  /** The status the current user set for themselves; null shows their automatic status */
+  manualStatus?: ManualStatus | null;
+  onStatusChange?: (status: ManualStatus | null) => void;
 }
 
+const AUTOMATIC_STATUS = 'auto';
+
+const statusOptions: Array<{ value: ManualStatus | typeof AUTOMATIC_STATUS; label: string; color: string }> = [
+  { value: AUTOMATIC_STATUS, label: 'Automatic', color: 'fill-green-500 text-green-500' },
+  { value: 'away', label: 'Away', color: 'fill-yellow-500 text-yellow-500' },
+  { value: 'dnd', label: 'Do not disturb', color: 'fill-red-500 text-red-500' }
+];
+
 export const PresenceStatus: React.FC<PresenceStatusProps> = ({
   users,
   currentUserId,
   typingUsers,
   isConnected,
   className = '',
-  showDetails = true
+  showDetails = true,
+  followedUsers,
+  onFollowUser,
+  onUnfollowUser,
+  manualStatus = null,
+  onStatusChange
 }) => {
   const onlineUsers = users.filter(u => u.status === 'online');
+  const dndUsers = users.filter(u => u.status === 'dnd');
   const awayUsers = users.filter(u => u.status === 'away');
   const offlineUsers = users.filter(u => u.status === 'offline');
+  const activeUsers = users.filter(u => u.status === 'online' || u.status === 'dnd');
 
   return (
     <Card className={`${className}`}>
@@ -57,6 +79,31 @@ export const PresenceStatus: React.FC<PresenceStatusProps> = ({
           </Badge>
         </div>
 
+        {/* Own status */}
+        {onStatusChange && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Your status</span>
+            <Select
+              value={manualStatus ?? AUTOMATIC_STATUS}
+              onValueChange={(value) => onStatusChange(value === AUTOMATIC_STATUS ? null : value as ManualStatus)}
+            >
+              <SelectTrigger className="h-7 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="text-xs">
+                    <span className="flex items-center gap-2">
+                      <Circle className={`h-2 w-2 ${option.color}`} />
+                      {option.label}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <Separator />
 
         {/* Active Users List */}
@@ -66,6 +113,9 @@ export const PresenceStatus: React.FC<PresenceStatusProps> = ({
             users={users}
             currentUserId={currentUserId}
             showUserCount={false}
+            followedUsers={followedUsers}
+            onFollowUser={onFollowUser}
+            onUnfollowUser={onUnfollowUser}
           />
         </div>
 
@@ -91,6 +141,13 @@ export const PresenceStatus: React.FC<PresenceStatusProps> = ({
                   </div>
                 )}
                 
+                {dndUsers.length > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <Circle className="h-2 w-2 fill-red-500 text-red-500" />
+                    <span>{dndUsers.length} do not disturb</span>
+                  </div>
+                )}
+
                 {awayUsers.length > 0 && (
                   <div className="flex items-center space-x-2">
                     <Circle className="h-2 w-2 fill-yellow-500 text-yellow-500" />
@@ -117,8 +174,8 @@ export const PresenceStatus: React.FC<PresenceStatusProps> = ({
               <h4 className="text-sm font-medium">Current Files</h4>
               <div className="space-y-1 text-xs">
                 {Object.entries(
-                  users
-                    .filter(u => u.currentFile && u.status === 'online')
+                  activeUsers
+                    .filter(u => u.currentFile)
                     .reduce((acc, user) => {
                       const file = user.currentFile!;
                       if (!acc[file]) acc[file] = [];
@@ -136,7 +193,7 @@ export const PresenceStatus: React.FC<PresenceStatusProps> = ({
                   </div>
                 ))}
                 
-                {users.filter(u => u.currentFile && u.status === 'online').length === 0 && (
+                {activeUsers.filter(u => u.currentFile).length === 0 && (
                   <span className="text-muted-foreground">No active files</span>
                 )}
               </div>
@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { BarChart3, Clock, FileCode, Loader2 } from 'lucide-react';
+import { formatDuration, SessionHistoryRow, summarizeSessions } from '@/lib/session-insights';
+
+interface RoomInsightsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roomId: string;
+  getUserName: (userId: string) => string;
+  /** Room files by id; deleted files fall back to a placeholder name */
+  fileNames: Record<string, string>;
+}
+
+// Enough recent history for a room overview without paging
+const HISTORY_LIMIT = 500;
+
+/**
+ * Owner-only view of who worked in the room, for how long and on which files
+ */
+export const RoomInsights: React.FC<RoomInsightsProps> = ({
+  open,
+  onOpenChange,
+  roomId,
+  getUserName,
+  fileNames
+}) => {
+  const [rows, setRows] = useState<SessionHistoryRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !roomId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('collaboration_session_history')
+        .select('*')
+        .eq('room_id', roomId)
+        .order('started_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (cancelled) return;
+      if (fetchError) {
+        console.error('Error loading session history:', fetchError);
+        setError('Could not load session history');
+      } else {
+        setRows(data ?? []);
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [open, roomId]);
+
+  const insights = useMemo(() => summarizeSessions(rows), [rows]);
+  const totalSeconds = insights.reduce((sum, insight) => sum + insight.activeSeconds, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#252526] border-[#555] max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" /> Room Insights
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {insights.length > 0
+              ? `${insights.length} collaborator${insights.length === 1 ? '' : 's'}, ${formatDuration(totalSeconds)} of active time`
+              : 'Session history for this room'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-10 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-400 py-6 text-center">{error}</p>
+        ) : insights.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No sessions recorded yet</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-2">
+            <div className="space-y-3">
+              {insights.map(insight => (
+                <div key={insight.userId} className="rounded border border-[#3c3c3c] p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-sm text-white truncate">{getUserName(insight.userId)}</span>
+                      {insight.isInSession && (
+                        <Badge variant="outline" className="text-[10px] h-4 px-1 border-green-600 text-green-400">Active</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-gray-400 shrink-0">
+                      <span>{insight.sessions} session{insight.sessions === 1 ? '' : 's'}</span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" /> {formatDuration(insight.activeSeconds)}
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-[11px] text-gray-500 mt-1">
+                    Last seen {insight.lastSeen.toLocaleString()}
+                  </p>
+                  {insight.files.length > 0 && (
+                    <div className="mt-2 space-y-1">
+                      {insight.files.map(file => (
+                        <div key={file.fileId} className="flex items-center justify-between text-xs text-gray-300">
+                          <span className="flex items-center gap-1.5 min-w-0">
+                            <FileCode className="h-3 w-3 text-gray-500 shrink-0" />
+                            <span className="truncate">{fileNames[file.fileId] ?? 'Deleted file'}</span>
+                          </span>
+                          <span className="text-gray-500 shrink-0">
+                            {formatDuration(file.activeSeconds)} · {file.edits} edit{file.edits === 1 ? '' : 's'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RoomInsights;
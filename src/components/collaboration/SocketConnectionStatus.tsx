@@ -1,8 +1,10 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useSocket } from '../../hooks/useSocket';
+import { ParkedConflict, collaborationSyncService } from '../../lib/collaboration-sync-service';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
-import { Wifi, WifiOff, RotateCcw } from 'lucide-react';
+import { ConflictResolutionModal } from './ConflictResolutionModal';
+import { Wifi, WifiOff, RotateCcw, CloudUpload, GitMerge } from 'lucide-react';
 
 interface SocketConnectionStatusProps {
   className?: string;
@@ -12,6 +14,15 @@ export const SocketConnectionStatus: React.FC<SocketConnectionStatusProps> = ({
   className = '' 
 }) => {
   const { isConnected, connectionStatus, connect, disconnect } = useSocket();
+  const [pendingEdits, setPendingEdits] = useState(0);
+  // Waiting edits that conflict with a teammate's save and need merging before they can sync
+  const [parkedConflicts, setParkedConflicts] = useState<ParkedConflict[]>([]);
+  const [merging, setMerging] = useState<ParkedConflict | null>(null);
+
+  useEffect(() => collaborationSyncService.onQueueChanged(pending => {
+    setPendingEdits(pending);
+    setParkedConflicts(collaborationSyncService.getParkedConflicts());
+  }), []);
 
   const getStatusColor = () => {
     switch (connectionStatus) {
@@ -65,6 +76,40 @@ export const SocketConnectionStatus: React.FC<SocketConnectionStatusProps> = ({
         {getStatusIcon()}
         <span className="ml-1">{getStatusText()}</span>
       </Badge>
+
+      {pendingEdits > 0 && (
+        <Badge variant="outline" className="text-xs">
+          <CloudUpload className="h-3 w-3 mr-1" />
+          {pendingEdits} {pendingEdits === 1 ? 'edit' : 'edits'} waiting to sync
+        </Badge>
+      )}
+
+      {parkedConflicts.length > 0 && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setMerging(parkedConflicts[0])}
+          className="h-6 px-2 text-xs"
+        >
+          <GitMerge className="h-3 w-3 mr-1" />
+          {parkedConflicts.length} to merge
+        </Button>
+      )}
+
+      {merging && (
+        <ConflictResolutionModal
+          key={merging.id}
+          isOpen
+          onClose={() => setMerging(null)}
+          conflicts={[merging.conflict]}
+          currentContent={merging.baseContent}
+          onResolve={(_conflict, resolution, mergedContent) => {
+            collaborationSyncService.resolveParkedConflict(merging, resolution, mergedContent).catch(error => {
+              console.error('Failed to resolve conflicting edit:', error);
+            });
+          }}
+        />
+      )}
       
       {!isConnected && (
         <Button
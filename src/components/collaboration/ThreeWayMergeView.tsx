@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DiffEditor, DiffOnMount } from '@monaco-editor/react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MergeChoice, MergeHunk, applyChoice, hasConflictMarkers, renderMerge, threeWayMerge } from '@/lib/three-way-merge';
+import { AlertTriangle, CheckCircle2, GitMerge } from 'lucide-react';
+
+interface ThreeWayMergeViewProps {
+  /** The common ancestor both versions were edited from */
+  base: string;
+  local: string;
+  remote: string;
+  language?: string;
+  onChange: (mergedContent: string) => void;
+}
+
+const CHOICE_LABELS: Record<MergeChoice, string> = {
+  local: 'Yours',
+  remote: 'Theirs',
+  both: 'Both',
+  base: 'Original'
+};
+
+const preview = (lines: string[]) => lines.join('\n') || '(empty)';
+
+/**
+ * Side-by-side merge against the common ancestor: the original on the left,
+ * the editable result on the right, and a choice of side for every hunk
+ */
+export const ThreeWayMergeView: React.FC<ThreeWayMergeViewProps> = ({
+  base,
+  local,
+  remote,
+  language,
+  onChange
+}) => {
+  const result = useMemo(() => threeWayMerge(base, local, remote), [base, local, remote]);
+  const [choices, setChoices] = useState<Partial<Record<number, MergeChoice>>>({});
+  const [merged, setMerged] = useState(() => renderMerge(result));
+  // A choice that would replace hand edits, held until the user confirms it
+  const [pendingChoice, setPendingChoice] = useState<{
+    choices: Partial<Record<number, MergeChoice>>;
+    content: string;
+  } | null>(null);
+  const changeListener = useRef<{ dispose: () => void } | null>(null);
+
+  useEffect(() => {
+    setChoices({});
+    setPendingChoice(null);
+    setMerged(renderMerge(result));
+  }, [result]);
+
+  useEffect(() => {
+    onChange(merged);
+  }, [merged, onChange]);
+
+  useEffect(() => () => changeListener.current?.dispose(), []);
+
+  const handleMount: DiffOnMount = (editor) => {
+    const modifiedEditor = editor.getModifiedEditor();
+    changeListener.current?.dispose();
+    changeListener.current = modifiedEditor.onDidChangeModelContent(() => {
+      setMerged(modifiedEditor.getValue());
+      // A held choice was computed from the text before this edit
+      setPendingChoice(null);
+    });
+  };
+
+  const choose = (hunk: MergeHunk, choice: MergeChoice) => {
+    const next = { ...choices, [hunk.id]: choice };
+    const { content, overwritesEdits } = applyChoice(result, choices, next, merged);
+    if (overwritesEdits) {
+      setPendingChoice({ choices: next, content });
+      return;
+    }
+    setPendingChoice(null);
+    setChoices(next);
+    setMerged(content);
+  };
+
+  const confirmPendingChoice = () => {
+    if (!pendingChoice) return;
+    setChoices(pendingChoice.choices);
+    setMerged(pendingChoice.content);
+    setPendingChoice(null);
+  };
+
+  const autoMerged = result.hunks.length - result.conflictCount;
+  const unresolved = hasConflictMarkers(merged);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <GitMerge className="h-4 w-4" />
+        <Badge variant="outline">{autoMerged} merged automatically</Badge>
+        <Badge variant={result.conflictCount > 0 ? 'destructive' : 'outline'}>
+          {result.conflictCount} conflicting
+        </Badge>
+        {!unresolved && result.hunks.length > 0 && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+      </div>
+
+      {pendingChoice && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-2">
+            <span>You edited these lines by hand. Picking a side will replace your edits.</span>
+            <span className="flex gap-1">
+              <Button size="sm" variant="destructive" className="h-6 px-2 text-xs" onClick={confirmPendingChoice}>
+                Replace edits
+              </Button>
+              <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => setPendingChoice(null)}>
+                Keep edits
+              </Button>
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {result.hunks.length > 0 && (
+        <div className="space-y-2">
+          {result.hunks.map((hunk, index) => {
+            const selected = choices[hunk.id] ?? hunk.resolution;
+            return (
+              <div
+                key={hunk.id}
+                className={`border rounded p-2 ${hunk.conflict ? 'border-red-200 bg-red-50' : 'border-gray-200'}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-medium">
+                    Hunk {index + 1}{hunk.conflict ? ' (conflict)' : ''}
+                  </span>
+                  <div className="flex gap-1">
+                    {(Object.keys(CHOICE_LABELS) as MergeChoice[]).map(choice => (
+                      <Button
+                        key={choice}
+                        size="sm"
+                        variant={selected === choice ? 'default' : 'outline'}
+                        className="h-6 px-2 text-xs"
+                        onClick={() => choose(hunk, choice)}
+                      >
+                        {CHOICE_LABELS[choice]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <pre className="text-xs whitespace-pre-wrap font-mono bg-green-50 border border-green-200 rounded p-1">
+                    {preview(hunk.localLines)}
+                  </pre>
+                  <pre className="text-xs whitespace-pre-wrap font-mono bg-blue-50 border border-blue-200 rounded p-1">
+                    {preview(hunk.remoteLines)}
+                  </pre>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border rounded overflow-hidden h-[320px]">
+        <DiffEditor
+          height="100%"
+          original={base}
+          modified={merged}
+          language={language}
+          theme="vs-dark"
+          onMount={handleMount}
+          options={{
+            renderSideBySide: true,
+            originalEditable: false,
+            readOnly: false,
+            minimap: { enabled: false },
+            fontSize: 13,
+            scrollBeyondLastLine: false
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ThreeWayMergeView;
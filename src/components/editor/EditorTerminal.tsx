@@ -1,15 +1,30 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
-import { X, Minus, Maximize2 } from 'lucide-react';
+import { X, Minus, Maximize2, Square } from 'lucide-react';
 
 interface EditorTerminalProps {
   output: string[];
   onCommand: (command: string) => void;
   onClose: () => void;
+  /** Whether a program is running; its output streams into `output` */
+  isExecuting?: boolean;
+  onStop?: () => void;
+  /** Whether the running program is waiting for a line; lines then go to `onInput` instead of `onCommand` */
+  awaitingInput?: boolean;
+  /** Receives a line for the program, or null when the user ends the input */
+  onInput?: (line: string | null) => void;
 }
 
-export const EditorTerminal = ({ output, onCommand, onClose }: EditorTerminalProps) => {
+export const EditorTerminal = ({
+  output,
+  onCommand,
+  onClose,
+  isExecuting = false,
+  onStop,
+  awaitingInput = false,
+  onInput,
+}: EditorTerminalProps) => {
   const [input, setInput] = useState('');
   const [height, setHeight] = useState(200);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -22,9 +37,29 @@ export const EditorTerminal = ({ output, onCommand, onClose }: EditorTerminalPro
     }
   }, [output]);
 
+  useEffect(() => {
+    if (awaitingInput) inputRef.current?.focus();
+  }, [awaitingInput]);
+
+  // Ctrl+C stops the running program and Ctrl+D ends its input, as in a real terminal
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (isExecuting && onStop && e.ctrlKey && e.key === 'c' && !window.getSelection()?.toString()) {
+      e.preventDefault();
+      onStop();
+    }
+    if (awaitingInput && onInput && e.ctrlKey && e.key === 'd') {
+      e.preventDefault();
+      onInput(null);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim()) {
+    // Programs can read empty lines, so anything typed goes to a waiting program
+    if (awaitingInput && onInput) {
+      onInput(input);
+      setInput('');
+    } else if (input.trim()) {
       onCommand(input);
       setInput('');
     }
@@ -41,6 +76,17 @@ export const EditorTerminal = ({ output, onCommand, onClose }: EditorTerminalPro
           <span className="text-xs font-medium text-zinc-400">TERMINAL</span>
         </div>
         <div className="flex items-center gap-1">
+          {isExecuting && onStop && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-5 px-2 gap-1 text-xs text-red-400 hover:text-red-300"
+              onClick={onStop}
+            >
+              <Square className="h-3 w-3" />
+              Stop
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -91,13 +137,15 @@ export const EditorTerminal = ({ output, onCommand, onClose }: EditorTerminalPro
         
         {/* Input line */}
         <form onSubmit={handleSubmit} className="flex items-center gap-2 mt-1">
-          <span className="text-green-400">$</span>
+          <span className={awaitingInput ? 'text-yellow-400' : 'text-green-400'}>{awaitingInput ? '>' : '$'}</span>
           <input
             ref={inputRef}
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            className="flex-1 bg-transparent outline-none text-zinc-200 caret-green-400"
+            onKeyDown={handleKeyDown}
+            placeholder={awaitingInput ? 'Program is waiting for input (Ctrl+D to end)' : undefined}
+            className="flex-1 bg-transparent outline-none text-zinc-200 caret-green-400 placeholder:text-zinc-500"
             autoFocus
           />
         </form>
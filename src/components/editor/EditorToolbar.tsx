@@ -6,6 +6,7 @@ import {
   Save, 
   Terminal, 
   Play, 
+  Square,
   Settings,
   Loader2,
   Users
@@ -17,6 +18,7 @@ interface EditorToolbarProps {
   isExecuting?: boolean;
   onSave: () => void;
   onRun: () => void;
+  onStop?: () => void;
   onToggleTerminal: () => void;
   showTerminal: boolean;
   onOpenCollab?: () => void;
@@ -28,6 +30,7 @@ export const EditorToolbar = ({
   isExecuting = false,
   onSave,
   onRun,
+  onStop,
   onToggleTerminal,
   showTerminal,
   onOpenCollab
@@ -71,20 +74,32 @@ export const EditorToolbar = ({
           <kbd className="hidden md:inline-block text-xs bg-muted px-1 rounded">⌘S</kbd>
         </Button>
 
-        <Button
-          variant="default"
-          size="sm"
-          onClick={onRun}
-          disabled={isExecuting}
-          className="gap-2"
-        >
-          {isExecuting ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <Play className="h-4 w-4" />
-          )}
-          <span className="hidden sm:inline">{isExecuting ? 'Running...' : 'Run'}</span>
-        </Button>
+        {isExecuting && onStop ? (
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={onStop}
+            className="gap-2"
+          >
+            <Square className="h-4 w-4" />
+            <span className="hidden sm:inline">Stop</span>
+          </Button>
+        ) : (
+          <Button
+            variant="default"
+            size="sm"
+            onClick={onRun}
+            disabled={isExecuting}
+            className="gap-2"
+          >
+            {isExecuting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4" />
+            )}
+            <span className="hidden sm:inline">{isExecuting ? 'Running...' : 'Run'}</span>
+          </Button>
+        )}
 
         <Button
           variant={showTerminal ? "secondary" : "ghost"}
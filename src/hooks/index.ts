@@ -1,3 +1,2 @@
 // Collaboration hooks
-export { default as useCursorManager } from './useCursorManager';
 export { default as usePresenceManager } from './usePresenceManager';
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type * as Monaco from 'monaco-editor';
+import { socketService } from '@/services/socket-service';
+import {
+  CollaborationRole,
+  FollowStartedEvent,
+  FollowStoppedEvent,
+  PresenterChangedEvent,
+  RoomStateEvent,
+  ViewportUpdatedEvent
+} from '@/types/collaboration';
+
+interface Params {
+  roomId?: string;
+  /** The file open in our editor */
+  fileId?: string;
+  editor: Monaco.editor.IStandaloneCodeEditor | null;
+  userId?: string;
+  /** Whether others may follow us (SessionSettings `allowFollowing`) */
+  allowFollowing?: boolean;
+  /** Open a file the followed user switched to */
+  onFollowFile: (fileId: string) => void;
+}
+
+// A leader's view; the scroll position is unknown until they next move
+type LeaderView = Omit<ViewportUpdatedEvent, 'scrollTop' | 'scrollLeft'> &
+  Partial<Pick<ViewportUpdatedEvent, 'scrollTop' | 'scrollLeft'>>;
+
+const VIEWPORT_THROTTLE = 100; // 100ms
+
+/**
+ * Follow mode and presenter mode for a collaboration room.
+ *
+ * We always share our viewport (file, scroll position, cursor); the server only
+ * relays it to our followers, or to the whole room while we present. Following
+ * someone makes our editor track theirs. A presenter overrides any personal
+ * follow until they stop.
+ */
+export const useFollowMode = ({
+  roomId,
+  fileId,
+  editor,
+  userId,
+  allowFollowing = true,
+  onFollowFile
+}: Params) => {
+  const [followedUserId, setFollowedUserId] = useState<string | null>(null);
+  const [presenterId, setPresenterId] = useState<string | null>(null);
+
+  const fileIdRef = useRef(fileId);
+  const onFollowFileRef = useRef(onFollowFile);
+  const pendingViewportRef = useRef<LeaderView | null>(null);
+  const lastViewportSentRef = useRef(0);
+  const viewportTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Set while we move the editor ourselves, so the move is not re-broadcast as our own
+  const applyingRef = useRef(false);
+
+  useEffect(() => { onFollowFileRef.current = onFollowFile; }, [onFollowFile]);
+
+  const leaderId = presenterId && presenterId !== userId ? presenterId : followedUserId;
+
+  // Move our editor to the leader's viewport, once their file is open here
+  const applyViewport = useCallback((viewport: LeaderView) => {
+    if (!editor) return;
+    if (viewport.fileId !== fileIdRef.current) {
+      pendingViewportRef.current = viewport;
+      onFollowFileRef.current(viewport.fileId);
+      return;
+    }
+
+    pendingViewportRef.current = null;
+    applyingRef.current = true;
+    try {
+      const position = { lineNumber: viewport.line, column: viewport.column };
+      editor.setPosition(position);
+      if (viewport.scrollTop === undefined) {
+        editor.revealPositionInCenter(position);
+      } else {
+        editor.setScrollPosition({ scrollTop: viewport.scrollTop, scrollLeft: viewport.scrollLeft });
+      }
+    } finally {
+      applyingRef.current = false;
+    }
+  }, [editor]);
+
+  useEffect(() => {
+    fileIdRef.current = fileId;
+    const pending = pendingViewportRef.current;
+    if (pending && pending.fileId === fileId) {
+      applyViewport(pending);
+    }
+  }, [fileId, applyViewport]);
+
+  // Share our viewport (throttled)
+  const sendViewport = useCallback(() => {
+    if (!roomId || !fileId || !editor || applyingRef.current) return;
+
+    const send = () => {
+      const position = editor.getPosition();
+      lastViewportSentRef.current = Date.now();
+      socketService.updateViewport(roomId, {
+        fileId,
+        scrollTop: editor.getScrollTop(),
+        scrollLeft: editor.getScrollLeft(),
+        line: position?.lineNumber ?? 1,
+        column: position?.column ?? 1
+      });
+    };
+
+    const wait = VIEWPORT_THROTTLE - (Date.now() - lastViewportSentRef.current);
+    if (viewportTimerRef.current) clearTimeout(viewportTimerRef.current);
+    if (wait <= 0) {
+      send();
+    } else {
+      viewportTimerRef.current = setTimeout(send, wait);
+    }
+  }, [roomId, fileId, editor]);
+
+  useEffect(() => {
+    if (!editor) return;
+    sendViewport();
+
+    const scrollListener = editor.onDidScrollChange(() => sendViewport());
+    const cursorListener = editor.onDidChangeCursorPosition(() => sendViewport());
+    return () => {
+      scrollListener.dispose();
+      cursorListener.dispose();
+      if (viewportTimerRef.current) clearTimeout(viewportTimerRef.current);
+    };
+  }, [editor, sendViewport]);
+
+  // Tell the server whether we may be followed, on every (re)join
+  useEffect(() => {
+    if (!roomId) return;
+
+    const handleJoined = (data: { groupId: string; role: CollaborationRole }) => {
+      if (data.groupId === roomId) socketService.setFollowPreference(roomId, allowFollowing);
+    };
+
+    if (socketService.isInRoom(roomId)) {
+      socketService.setFollowPreference(roomId, allowFollowing);
+    }
+    socketService.on('collaboration-joined', handleJoined);
+    return () => {
+      socketService.off('collaboration-joined', handleJoined);
+    };
+  }, [roomId, allowFollowing]);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    const handleFollowStarted = (data: FollowStartedEvent) => {
+      if (data.groupId !== roomId) return;
+      setFollowedUserId(data.userId);
+      if (data.fileId) {
+        applyViewport({
+          userId: data.userId,
+          fileId: data.fileId,
+          line: data.cursor?.line ?? 1,
+          column: data.cursor?.column ?? 1
+        });
+      }
+    };
+
+    const handleFollowStopped = (data: FollowStoppedEvent) => {
+      if (data.groupId !== roomId) return;
+      setFollowedUserId(prev => prev === data.userId ? null : prev);
+    };
+
+    const handlePresenterChanged = (data: PresenterChangedEvent) => {
+      if (data.groupId !== roomId) return;
+      setPresenterId(data.presenterId);
+      if (data.presenterId && data.presenterId !== userId && data.fileId) {
+        onFollowFileRef.current(data.fileId);
+      }
+    };
+
+    const handleRoomState = (state: RoomStateEvent) => {
+      if (state.groupId !== roomId) return;
+      setPresenterId(state.presenterId);
+      const presenter = state.users.find(u => u.id === state.presenterId);
+      if (presenter && presenter.id !== userId && presenter.currentFile) {
+        onFollowFileRef.current(presenter.currentFile);
+      }
+    };
+
+    socketService.on('follow-started', handleFollowStarted);
+    socketService.on('follow-stopped', handleFollowStopped);
+    socketService.on('presenter-changed', handlePresenterChanged);
+    socketService.on('room-state', handleRoomState);
+    return () => {
+      socketService.off('follow-started', handleFollowStarted);
+      socketService.off('follow-stopped', handleFollowStopped);
+      socketService.off('presenter-changed', handlePresenterChanged);
+      socketService.off('room-state', handleRoomState);
+    };
+  }, [roomId, userId, applyViewport]);
+
+  useEffect(() => {
+    if (!leaderId) return;
+
+    const handleViewportUpdated = (data: ViewportUpdatedEvent) => {
+      if (data.userId === leaderId) applyViewport(data);
+    };
+
+    socketService.on('viewport-updated', handleViewportUpdated);
+    return () => {
+      socketService.off('viewport-updated', handleViewportUpdated);
+    };
+  }, [leaderId, applyViewport]);
+
+  const follow = useCallback((targetUserId: string) => {
+    if (!roomId) return;
+    if (followedUserId && followedUserId !== targetUserId) {
+      socketService.unfollowUser(roomId, followedUserId);
+    }
+    socketService.followUser(roomId, targetUserId);
+  }, [roomId, followedUserId]);
+
+  const unfollow = useCallback(() => {
+    if (!roomId || !followedUserId) return;
+    socketService.unfollowUser(roomId, followedUserId);
+  }, [roomId, followedUserId]);
+
+  const startPresenting = useCallback(() => {
+    if (roomId) socketService.startPresenting(roomId);
+  }, [roomId]);
+
+  const stopPresenting = useCallback(() => {
+    if (roomId) socketService.stopPresenting(roomId);
+  }, [roomId]);
+
+  return {
+    followedUserId,
+    presenterId,
+    isPresenting: !!presenterId && presenterId === userId,
+    /** The user our editor currently tracks, presenter first */
+    leaderId,
+    follow,
+    unfollow,
+    startPresenting,
+    stopPresenting
+  };
+};
+
+export default useFollowMode;
@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { CollaborationUser } from '@/types/collaboration';
+import { CollaborationUser, ManualStatus, PresenceChangedEvent, RoomStateEvent } from '@/types/collaboration';
 import { socketService } from '@/services/socket-service';
 
 interface UsePresenceManagerProps {
@@ -10,6 +10,8 @@ interface UsePresenceManagerProps {
 interface PresenceState {
   activeUsers: CollaborationUser[];
   isConnected: boolean;
+  /** The status the current user set for themselves */
+  manualStatus: ManualStatus | null;
 }
 
 export const usePresenceManager = ({
@@ -18,7 +20,8 @@ export const usePresenceManager = ({
 }: UsePresenceManagerProps) => {
   const [state, setState] = useState<PresenceState>({
     activeUsers: [],
-    isConnected: false
+    isConnected: false,
+    manualStatus: null
   });
 
   const heartbeatIntervalRef = useRef<NodeJS.Timeout>();
@@ -39,6 +42,16 @@ export const usePresenceManager = ({
     }));
   }, []);
 
+  // Replace the user list with the snapshot sent on join
+  const handleRoomState = useCallback((roomState: RoomStateEvent) => {
+    if (roomState.groupId !== groupId) return;
+
+    setState(prev => ({
+      ...prev,
+      activeUsers: roomState.users.filter(u => u.id !== currentUser.id)
+    }));
+  }, [groupId, currentUser.id]);
+
   // Handle user leaving the collaboration
   const handleUserLeft = useCallback((userId: string) => {
     setState(prev => ({
@@ -55,17 +68,25 @@ export const usePresenceManager = ({
     }));
   }, []);
 
-  // Handle user activity updates
-  const handleUserActivityUpdated = useCallback((data: { userId: string; lastActivity: Date }) => {
+  // Handle status changes (activity, idle timeouts, hidden tabs and manual statuses)
+  const handlePresenceChanged = useCallback((data: PresenceChangedEvent) => {
+    if (data.groupId !== groupId) return;
+
     setState(prev => ({
       ...prev,
+      manualStatus: data.userId === currentUser.id ? data.manualStatus : prev.manualStatus,
       activeUsers: prev.activeUsers.map(user =>
         user.id === data.userId
-          ? { ...user, lastActivity: data.lastActivity, status: 'online' as const }
+          ? {
+            ...user,
+            status: data.status,
+            manualStatus: data.manualStatus ?? undefined,
+            lastActivity: new Date(data.lastActivity)
+          }
           : user
       )
     }));
-  }, []);
+  }, [groupId, currentUser.id]);
 
   // Join collaboration session
   const joinSession = useCallback(async () => {
@@ -102,8 +123,9 @@ export const usePresenceManager = ({
       clearInterval(heartbeatIntervalRef.current);
     }
 
+    // Only report real interaction, so the server can tell when we go idle
     heartbeatIntervalRef.current = setInterval(() => {
-      if (socketService.isConnected()) {
+      if (socketService.isConnected() && Date.now() - lastActivityRef.current < HEARTBEAT_INTERVAL) {
         socketService.updateActivity(groupId, currentUser.id);
       }
     }, HEARTBEAT_INTERVAL);
@@ -150,6 +172,15 @@ export const usePresenceManager = ({
     }));
   }, [groupId, currentUser.id]);
 
+  // Set or clear a manual status (away, do not disturb) for the current user
+  const setManualStatus = useCallback((status: ManualStatus | null) => {
+    setState(prev => ({ ...prev, manualStatus: status }));
+
+    if (socketService.isConnected()) {
+      socketService.setStatus(groupId, status);
+    }
+  }, [groupId]);
+
   // Update user status
   const updateUserStatus = useCallback((userId: string, status: CollaborationUser['status']) => {
     setState(prev => ({
@@ -161,12 +192,11 @@ export const usePresenceManager = ({
       )
     }));
 
-    // If it's the current user, broadcast the status change
-    if (userId === currentUser.id && socketService.isConnected()) {
-      const updatedUser = { ...currentUser, status, lastActivity: new Date() };
-      socketService.joinCollaboration(groupId, updatedUser);
+    // The current user's status is kept by the server; online clears a manual status
+    if (userId === currentUser.id) {
+      setManualStatus(status === 'away' || status === 'dnd' ? status : null);
     }
-  }, [currentUser, groupId]);
+  }, [currentUser.id, setManualStatus]);
 
   // Update current file for user
   const updateCurrentFile = useCallback((fileId: string) => {
@@ -202,21 +232,24 @@ export const usePresenceManager = ({
   // Set up socket event listeners
   useEffect(() => {
     socketService.on('user-joined', handleUserJoined);
+    socketService.on('room-state', handleRoomState);
     socketService.on('user-left', handleUserLeft);
     socketService.on('connection-status-changed', handleConnectionStatusChanged);
-    socketService.on('user-activity-updated', handleUserActivityUpdated);
+    socketService.on('presence-changed', handlePresenceChanged);
 
     return () => {
       socketService.off('user-joined', handleUserJoined);
+      socketService.off('room-state', handleRoomState);
       socketService.off('user-left', handleUserLeft);
       socketService.off('connection-status-changed', handleConnectionStatusChanged);
-      socketService.off('user-activity-updated', handleUserActivityUpdated);
+      socketService.off('presence-changed', handlePresenceChanged);
     };
   }, [
     handleUserJoined,
+    handleRoomState,
     handleUserLeft,
     handleConnectionStatusChanged,
-    handleUserActivityUpdated
+    handlePresenceChanged
   ]);
 
   // Cleanup on unmount
@@ -229,10 +262,12 @@ export const usePresenceManager = ({
   return {
     activeUsers: state.activeUsers,
     isConnected: state.isConnected,
+    manualStatus: state.manualStatus,
     joinSession,
     leaveSession,
     updateActivity,
     updateUserStatus,
+    setManualStatus,
     updateCurrentFile,
     getUsersByStatus,
     getUserCount,
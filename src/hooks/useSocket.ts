@@ -1,6 +1,6 @@
 import { useEffect, useState, useCallback } from 'react';
 import { socketService } from '../services/socket-service';
-import { CollaborationUser, CursorPosition, TextSelection, ConnectionStatus } from '../../server/types';
+import { CollaborationUser, CursorPosition, TextSelection, ConnectionStatus, PresenceChangedData } from '../../server/types';
 
 interface UseSocketReturn {
   // Connection state
@@ -28,7 +28,7 @@ interface UseSocketReturn {
   onSelectionUpdated: (callback: (data: { fileId: string; selection: TextSelection }) => void) => () => void;
   onUserTyping: (callback: (data: { fileId: string; userId: string; isTyping: boolean }) => void) => () => void;
   onFileSwitched: (callback: (data: { fileId: string; userId: string }) => void) => () => void;
-  onUserActivityUpdated: (callback: (data: { userId: string; lastActivity: Date }) => void) => () => void;
+  onPresenceChanged: (callback: (data: PresenceChangedData) => void) => () => void;
 }
 
 export const useSocket = (): UseSocketReturn => {
@@ -124,9 +124,9 @@ export const useSocket = (): UseSocketReturn => {
     return () => socketService.off('file-switched', callback);
   }, []);
 
-  const onUserActivityUpdated = useCallback((callback: (data: { userId: string; lastActivity: Date }) => void) => {
-    socketService.on('user-activity-updated', callback);
-    return () => socketService.off('user-activity-updated', callback);
+  const onPresenceChanged = useCallback((callback: (data: PresenceChangedData) => void) => {
+    socketService.on('presence-changed', callback);
+    return () => socketService.off('presence-changed', callback);
   }, []);
 
   return {
@@ -155,6 +155,6 @@ export const useSocket = (): UseSocketReturn => {
     onSelectionUpdated,
     onUserTyping,
     onFileSwitched,
-    onUserActivityUpdated,
+    onPresenceChanged,
   };
 };
\ No newline at end of file
@@ -1,18 +1,18 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import * as Y from 'yjs';
 import { Awareness, encodeAwarenessUpdate, applyAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
 import { MonacoBinding } from 'y-monaco';
 import type * as Monaco from 'monaco-editor';
-import { supabase } from '@/integrations/supabase/client';
+import { socketService } from '@/services/socket-service';
+import type { RateLimitedEvent } from '@/types/collaboration';
 import { fromBase64, getUserColor, toBase64 } from '@/lib/collab-encoding';
+import { awarenessUser, remoteCursorCss, type AwarenessUser } from '@/lib/remote-cursors';
 
 export type SyncStatus = 'connecting' | 'synced' | 'saving' | 'saved' | 'offline' | 'error';
 
 interface Params {
   roomId?: string;
   fileId?: string;
-  /** Content stored in the database; only used to seed an empty document. */
-  initialContent: string;
   editor: Monaco.editor.IStandaloneCodeEditor | null;
   userId?: string;
   userName: string;
@@ -20,46 +20,47 @@ interface Params {
   canEdit?: boolean;
 }
 
-interface Peer {
-  id: string;
-  name: string;
-  color: string;
-}
-
-const SEED_GRACE_MS = 700;
-const PERSIST_DEBOUNCE_MS = 1200;
+/** An encoded Yjs update with no structs and an empty delete set. */
+const EMPTY_UPDATE_LENGTH = 2;
 
 /**
  * Conflict-safe collaborative editing for a single file.
  *
- * A Yjs document is replicated over a Supabase broadcast channel, so concurrent
- * edits merge instead of overwriting each other (the previous implementation
- * pushed whole-file snapshots, which was last-write-wins). The database keeps a
- * debounced snapshot purely for durability/recovery.
+ * The collaboration server hosts the authoritative Yjs document for each file:
+ * on subscribe it answers with the state we are missing plus its own state
+ * vector, so any edits made while offline are sent back and merged. The server
+ * also persists snapshots, so the browser never writes file content itself.
+ * The room must be joined on the socket (see `CollaborationRoom`) first.
+ *
+ * Remote cursors, selections and name labels come from Yjs awareness: the
+ * binding anchors them to positions in the shared document, so they follow
+ * concurrent edits, and a stylesheet colours each peer with `getUserColor`.
+ *
+ * Undo and redo only revert this user's own edits: the undo manager tracks
+ * changes made through the editor binding, never updates from peers.
  */
 export const useYjsCollaboration = ({
   roomId,
   fileId,
-  initialContent,
   editor,
   userId,
   userName,
   canEdit = true,
 }: Params) => {
   const [status, setStatus] = useState<SyncStatus>('connecting');
-  const [peers, setPeers] = useState<Peer[]>([]);
+  const [peers, setPeers] = useState<AwarenessUser[]>([]);
   const [hasUnsyncedChanges, setHasUnsyncedChanges] = useState(false);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
 
   const docRef = useRef<Y.Doc | null>(null);
-  const persistTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const latestTextRef = useRef<string>(initialContent);
+  const undoManagerRef = useRef<Y.UndoManager | null>(null);
 
   useEffect(() => {
     if (!roomId || !fileId || !editor || !userId) return;
     const model = editor.getModel();
     if (!model) return;
 
-    let disposed = false;
     const doc = new Y.Doc();
     docRef.current = doc;
     const yText = doc.getText('monaco');
@@ -70,22 +71,27 @@ export const useYjsCollaboration = ({
       id: userId,
     });
 
-    const channel = supabase.channel(`yjs:${roomId}:${fileId}`, {
-      config: { broadcast: { self: false } },
-    });
+    const cursorStyles = document.createElement('style');
+    cursorStyles.dataset.remoteCursors = fileId;
+    document.head.appendChild(cursorStyles);
 
-    const send = (event: string, payload: Record<string, unknown>) => {
-      channel.send({ type: 'broadcast', event, payload }).catch(() => {
-        setStatus('offline');
-      });
+    let subscribed = false;
+    let resyncTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const subscribe = () => {
+      if (!socketService.isConnected() || !socketService.isInRoom(roomId)) return;
+      setStatus('connecting');
+      socketService.subscribeDocument(roomId, fileId, toBase64(Y.encodeStateVector(doc)));
     };
 
     // ── Document replication ───────────────────────────────
     const onDocUpdate = (update: Uint8Array, origin: unknown) => {
-      if (origin !== 'remote') {
-        send('doc-update', { update: toBase64(update) });
-        setHasUnsyncedChanges(true);
-        schedulePersist();
+      if (origin === 'remote' || !canEdit) return;
+      setHasUnsyncedChanges(true);
+      // Edits made before the server answered are sent as part of the sync
+      if (subscribed) {
+        socketService.sendDocumentUpdate(roomId, fileId, toBase64(update));
+        setStatus('saving');
       }
     };
     doc.on('update', onDocUpdate);
@@ -95,125 +101,170 @@ export const useYjsCollaboration = ({
       origin: unknown,
     ) => {
       const changed = [...added, ...updated, ...removed];
-      if (origin !== 'remote') {
-        send('awareness', { update: toBase64(encodeAwarenessUpdate(awareness, changed)) });
+      if (origin !== 'remote' && subscribed) {
+        socketService.sendAwarenessUpdate(
+          roomId,
+          fileId,
+          toBase64(encodeAwarenessUpdate(awareness, changed)),
+        );
       }
-      const states = Array.from(awareness.getStates().entries())
+      const states = awareness.getStates();
+      cursorStyles.textContent = remoteCursorCss(states, doc.clientID);
+      setPeers(Array.from(states.entries())
         .filter(([clientId]) => clientId !== doc.clientID)
-        .map(([clientId, state]) => {
-          const user = (state as { user?: Peer }).user;
-          return {
-            id: user?.id ?? String(clientId),
-            name: user?.name ?? 'Collaborator',
-            color: user?.color ?? '#888888',
-          };
-        });
-      setPeers(states);
+        .map(([clientId, state]) => awarenessUser(state, clientId)));
     };
     awareness.on('update', onAwarenessUpdate);
 
-    // ── Persistence (debounced snapshot for recovery) ──────
-    const persistNow = async () => {
-      const content = yText.toString();
-      latestTextRef.current = content;
-      setStatus('saving');
-      const { error } = await supabase
-        .from('collaboration_files')
-        .update({ content, updated_at: new Date().toISOString() })
-        .eq('id', fileId);
-      if (disposed) return;
-      if (error) {
+    // ── Server wiring ──────────────────────────────────────
+    const handleJoined = (data: { groupId: string }) => {
+      if (data.groupId === roomId) subscribe();
+    };
+
+    const handleConnectionStatus = (connection: string) => {
+      if (connection === 'disconnected' || connection === 'reconnecting') {
+        subscribed = false;
+        setStatus('offline');
+      } else if (connection === 'auth_error') {
+        subscribed = false;
         setStatus('error');
-        return;
       }
-      setHasUnsyncedChanges(false);
-      setStatus('saved');
     };
 
-    function schedulePersist() {
-      if (!canEdit) return;
-      if (persistTimer.current) clearTimeout(persistTimer.current);
-      persistTimer.current = setTimeout(() => {
-        void persistNow();
-      }, PERSIST_DEBOUNCE_MS);
-    }
+    const handleDocSync = (data: { fileId: string; update: string; stateVector: string }) => {
+      if (data.fileId !== fileId) return;
+      Y.applyUpdate(doc, fromBase64(data.update), 'remote');
 
-    // ── Channel wiring ─────────────────────────────────────
-    let receivedPeerState = false;
-
-    channel
-      .on('broadcast', { event: 'doc-update' }, ({ payload }) => {
-        const raw = (payload as { update?: string }).update;
-        if (!raw) return;
-        Y.applyUpdate(doc, fromBase64(raw), 'remote');
-      })
-      .on('broadcast', { event: 'awareness' }, ({ payload }) => {
-        const raw = (payload as { update?: string }).update;
-        if (!raw) return;
-        applyAwarenessUpdate(awareness, fromBase64(raw), 'remote');
-      })
-      .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
-        const raw = (payload as { stateVector?: string }).stateVector;
-        if (!raw) return;
-        const diff = Y.encodeStateAsUpdate(doc, fromBase64(raw));
-        send('sync-response', { update: toBase64(diff) });
-      })
-      .on('broadcast', { event: 'sync-response' }, ({ payload }) => {
-        const raw = (payload as { update?: string }).update;
-        if (!raw) return;
-        receivedPeerState = true;
-        Y.applyUpdate(doc, fromBase64(raw), 'remote');
+      // Sync step 2: send whatever the server has not seen yet
+      const missing = Y.encodeStateAsUpdate(doc, fromBase64(data.stateVector));
+      if (canEdit && missing.length > EMPTY_UPDATE_LENGTH) {
+        socketService.sendDocumentUpdate(roomId, fileId, toBase64(missing));
+        setStatus('saving');
+      } else {
         setStatus('synced');
-      })
-      .subscribe((state) => {
-        if (state === 'SUBSCRIBED') {
-          setStatus('synced');
-          send('sync-request', { stateVector: toBase64(Y.encodeStateVector(doc)) });
-          send('awareness', {
-            update: toBase64(encodeAwarenessUpdate(awareness, [doc.clientID])),
-          });
-        } else if (state === 'CHANNEL_ERROR' || state === 'TIMED_OUT') {
-          setStatus('offline');
-        } else if (state === 'CLOSED') {
-          setStatus('offline');
-        }
-      });
-
-    // Seed the document from the stored snapshot only when nobody else has state.
-    const seedTimer = setTimeout(() => {
-      if (disposed) return;
-      if (!receivedPeerState && yText.length === 0 && initialContent.length > 0) {
-        yText.insert(0, initialContent);
       }
-    }, SEED_GRACE_MS);
+
+      subscribed = true;
+      socketService.sendAwarenessUpdate(
+        roomId,
+        fileId,
+        toBase64(encodeAwarenessUpdate(awareness, [doc.clientID])),
+      );
+    };
+
+    const handleDocUpdate = (data: { fileId: string; update: string }) => {
+      if (data.fileId !== fileId) return;
+      Y.applyUpdate(doc, fromBase64(data.update), 'remote');
+    };
+
+    const handleAwareness = (data: { fileId: string; update: string }) => {
+      if (data.fileId !== fileId) return;
+      applyAwarenessUpdate(awareness, fromBase64(data.update), 'remote');
+    };
+
+    const handlePersisted = (data: { fileId: string }) => {
+      if (data.fileId !== fileId) return;
+      setHasUnsyncedChanges(false);
+      setStatus('saved');
+    };
+
+    const handleDocError = (data: { fileId: string }) => {
+      if (data.fileId !== fileId) return;
+      setStatus('error');
+    };
+
+    // A dropped update is recovered by subscribing again once allowed: the sync resends what the server lacks
+    const handleRateLimited = (data: RateLimitedEvent) => {
+      if (data.event !== 'doc-update' || data.groupId !== roomId || data.fileId !== fileId) return;
+      subscribed = false;
+      setStatus('saving');
+      if (resyncTimer) clearTimeout(resyncTimer);
+      resyncTimer = setTimeout(() => {
+        resyncTimer = null;
+        subscribe();
+      }, data.retryAfterMs);
+    };
+
+    socketService.on('collaboration-joined', handleJoined);
+    socketService.on('connection-status-changed', handleConnectionStatus);
+    socketService.on('doc-sync', handleDocSync);
+    socketService.on('doc-update', handleDocUpdate);
+    socketService.on('awareness-update', handleAwareness);
+    socketService.on('doc-persisted', handlePersisted);
+    socketService.on('doc-error', handleDocError);
+    socketService.on('rate-limited', handleRateLimited);
+
+    if (!socketService.isConnected()) {
+      setStatus('offline');
+    }
+    subscribe();
 
     const binding = new MonacoBinding(yText, model, new Set([editor]), awareness);
     editor.updateOptions({ readOnly: !canEdit });
 
+    // ── Undo/redo ──────────────────────────────────────────
+    // The binding is the origin of local edits; remote and sync updates are never undone
+    const undoManager = new Y.UndoManager(yText, { trackedOrigins: new Set([binding]) });
+    undoManagerRef.current = undoManager;
+    const updateUndoState = () => {
+      setCanUndo(undoManager.canUndo());
+      setCanRedo(undoManager.canRedo());
+    };
+    undoManager.on('stack-item-added', updateUndoState);
+    undoManager.on('stack-item-popped', updateUndoState);
+    undoManager.on('stack-cleared', updateUndoState);
+
+    // Monaco's own history would also revert edits peers made, so its shortcuts go to the undo manager
+    const keyListener = editor.onKeyDown((event) => {
+      const { browserEvent } = event;
+      if (!(browserEvent.ctrlKey || browserEvent.metaKey) || browserEvent.altKey) return;
+      const key = browserEvent.key.toLowerCase();
+      const isRedo = key === 'y' || (key === 'z' && browserEvent.shiftKey);
+      if (key !== 'z' && !isRedo) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      if (!canEdit) return;
+      if (isRedo) undoManager.redo();
+      else undoManager.undo();
+    });
+
     return () => {
-      disposed = true;
-      clearTimeout(seedTimer);
-      if (persistTimer.current) clearTimeout(persistTimer.current);
-      // Flush any pending edits before tearing the session down.
-      if (canEdit && yText.toString() !== latestTextRef.current) {
-        void supabase
-          .from('collaboration_files')
-          .update({ content: yText.toString(), updated_at: new Date().toISOString() })
-          .eq('id', fileId);
-      }
+      // Tell peers our cursor is gone before the subscription ends
+      removeAwarenessStates(awareness, [doc.clientID], 'unmount');
+      socketService.off('collaboration-joined', handleJoined);
+      socketService.off('connection-status-changed', handleConnectionStatus);
+      socketService.off('doc-sync', handleDocSync);
+      socketService.off('doc-update', handleDocUpdate);
+      socketService.off('awareness-update', handleAwareness);
+      socketService.off('doc-persisted', handlePersisted);
+      socketService.off('doc-error', handleDocError);
+      socketService.off('rate-limited', handleRateLimited);
+      if (resyncTimer) clearTimeout(resyncTimer);
+      keyListener.dispose();
+      undoManager.destroy();
+      undoManagerRef.current = null;
+      setCanUndo(false);
+      setCanRedo(false);
+      socketService.unsubscribeDocument(roomId, fileId);
       awareness.off('update', onAwarenessUpdate);
       doc.off('update', onDocUpdate);
-      removeAwarenessStates(awareness, [doc.clientID], 'unmount');
       binding.destroy();
       awareness.destroy();
-      supabase.removeChannel(channel);
+      cursorStyles.remove();
       doc.destroy();
       docRef.current = null;
       setPeers([]);
     };
-    // `initialContent` intentionally excluded: it only seeds a brand-new document.
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [roomId, fileId, editor, userId, userName, canEdit]);
 
-  return { status, peers, hasUnsyncedChanges };
+  const undo = useCallback(() => {
+    if (canEdit) undoManagerRef.current?.undo();
+  }, [canEdit]);
+
+  const redo = useCallback(() => {
+    if (canEdit) undoManagerRef.current?.redo();
+  }, [canEdit]);
+
+  return { status, peers, hasUnsyncedChanges, undo, redo, canUndo, canRedo };
 };
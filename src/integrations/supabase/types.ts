@@ -161,6 +161,61 @@ export type Database = {
           },
         ]
       }
+      collaboration_file_revisions: {
+        Row: {
+          author_id: string | null
+          content: string
+          created_at: string
+          file_id: string
+          id: string
+          reason: string
+          restored_from: string | null
+          room_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          content: string
+          created_at?: string
+          file_id: string
+          id?: string
+          reason?: string
+          restored_from?: string | null
+          room_id: string
+        }
+        Update: {
+          author_id?: string | null
+          content?: string
+          created_at?: string
+          file_id?: string
+          id?: string
+          reason?: string
+          restored_from?: string | null
+          room_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collaboration_file_revisions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "collaboration_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collaboration_file_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "collaboration_file_revisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collaboration_file_revisions_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "collaboration_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       collaboration_files: {
         Row: {
           content: string | null
@@ -172,7 +227,8 @@ export type Database = {
           path: string
           room_id: string
           updated_at: string
-          version: number | null
+          version: number
+          yjs_state: string | null
         }
         Insert: {
           content?: string | null
@@ -184,7 +240,8 @@ export type Database = {
           path: string
           room_id: string
           updated_at?: string
-          version?: number | null
+          version?: number
+          yjs_state?: string | null
         }
         Update: {
           content?: string | null
@@ -196,7 +253,8 @@ export type Database = {
           path?: string
           room_id?: string
           updated_at?: string
-          version?: number | null
+          version?: number
+          yjs_state?: string | null
         }
         Relationships: [
           {
@@ -208,15 +266,58 @@ export type Database = {
           },
         ]
       }
+      collaboration_session_history: {
+        Row: {
+          active_seconds: number
+          ended_at: string | null
+          file_activity: Json
+          id: string
+          room_id: string
+          started_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          active_seconds?: number
+          ended_at?: string | null
+          file_activity?: Json
+          id?: string
+          room_id: string
+          started_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          active_seconds?: number
+          ended_at?: string | null
+          file_activity?: Json
+          id?: string
+          room_id?: string
+          started_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collaboration_session_history_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "collaboration_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       collaboration_rooms: {
         Row: {
           created_at: string
           created_by: string
           description: string | null
           id: string
+          idle_timeout_seconds: number | null
           is_private: boolean | null
           max_participants: number | null
           name: string
+          offline_timeout_seconds: number | null
           updated_at: string
         }
         Insert: {
@@ -224,9 +325,11 @@ export type Database = {
           created_by: string
           description?: string | null
           id?: string
+          idle_timeout_seconds?: number | null
           is_private?: boolean | null
           max_participants?: number | null
           name: string
+          offline_timeout_seconds?: number | null
           updated_at?: string
         }
         Update: {
@@ -234,9 +337,11 @@ export type Database = {
           created_by?: string
           description?: string | null
           id?: string
+          idle_timeout_seconds?: number | null
           is_private?: boolean | null
           max_participants?: number | null
           name?: string
+          offline_timeout_seconds?: number | null
           updated_at?: string
         }
         Relationships: []
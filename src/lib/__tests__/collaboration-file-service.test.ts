@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CollaborationFileService } from '../collaboration-file-service';
+import { isVersionConflict } from '../collaboration-errors';
 import { supabase } from '@/integrations/supabase/client';
 
 // Mock Supabase
@@ -253,17 +254,18 @@ describe('CollaborationFileService', () => {
         }),
       });
 
-      // Mock update
+      // Mock update, conditional on the version
+      const versionCheck = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          maybeSingle: vi.fn().mockResolvedValue({
+            data: updatedFile,
+            error: null,
+          }),
+        }),
+      });
       (supabase.from as any).mockReturnValueOnce({
         update: vi.fn().mockReturnValue({
-          eq: vi.fn().mockReturnValue({
-            select: vi.fn().mockReturnValue({
-              single: vi.fn().mockResolvedValue({
-                data: updatedFile,
-                error: null,
-              }),
-            }),
-          }),
+          eq: vi.fn().mockReturnValue({ eq: versionCheck }),
         }),
       });
 
@@ -274,6 +276,7 @@ describe('CollaborationFileService', () => {
 
       expect(result.version).toBe(2);
       expect(result.content).toBe('console.log("updated");');
+      expect(versionCheck).toHaveBeenCalledWith('version', 1);
     });
 
     it('should detect version conflicts', async () => {
@@ -308,5 +311,54 @@ describe('CollaborationFileService', () => {
         })
       ).rejects.toThrow('Version conflict: expected version 1, but current version is 2');
     });
+
+    it('should report a save that lands first with the server copy', async () => {
+      const mockFile = {
+        id: '550e8400-e29b-41d4-a716-446655440001',
+        group_id: '550e8400-e29b-41d4-a716-446655440002',
+        name: 'test.js',
+        path: '/test.js',
+        content: 'console.log("hello");',
+        language: 'javascript',
+        created_by: '550e8400-e29b-41d4-a716-446655440000',
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        version: 1,
+      };
+      const getFile = (row: typeof mockFile) => ({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({ data: row, error: null }),
+          }),
+        }),
+      });
+
+      // Read at version 1, a teammate saves version 2, then the conditional write matches nothing
+      vi.mocked(supabase.from as unknown as ReturnType<typeof vi.fn>)
+        .mockReturnValueOnce(getFile(mockFile))
+        .mockReturnValueOnce({
+          update: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                  maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+                }),
+              }),
+            }),
+          }),
+        })
+        .mockReturnValueOnce(getFile({ ...mockFile, content: 'console.log("theirs");', version: 2 }));
+
+      const error = await service.updateFile(mockFile.id, {
+        content: 'console.log("mine");',
+        version: 1,
+      }).catch((caught: unknown) => caught);
+
+      expect(isVersionConflict(error)).toBe(true);
+      expect(error).toMatchObject({
+        code: 'VERSION_CONFLICT',
+        details: { expectedVersion: 1, serverFile: { version: 2, content: 'console.log("theirs");' } },
+      });
+    });
   });
 });
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CollaborationSyncService } from '../collaboration-sync-service';
+import { collaborationFileService } from '../collaboration-file-service';
+import { MemoryChangeStore } from '../offline-change-store';
+import { VersionConflictError } from '../collaboration-errors';
 import { supabase } from '@/integrations/supabase/client';
+import { CollaborationFile, EditorChange } from '@/types/collaboration';
 
 // Mock Supabase
 vi.mock('@/integrations/supabase/client', () => ({
@@ -45,14 +49,31 @@ Object.defineProperty(window, 'removeEventListener', {
 
 describe('CollaborationSyncService', () => {
   let service: CollaborationSyncService;
+  let store: MemoryChangeStore;
+
+  const windowHandler = (event: string) => {
+    const call = mockAddEventListener.mock.calls.find(([name]) => name === event);
+    return call?.[1] as () => void;
+  };
+
+  const typeAt = (column: number, text: string): EditorChange => ({
+    range: { startLineNumber: 1, startColumn: column, endLineNumber: 1, endColumn: column },
+    text,
+    rangeLength: 0,
+    userId: '550e8400-e29b-41d4-a716-446655440002',
+    timestamp: Date.now(),
+    version: 1,
+  });
 
   beforeEach(() => {
     vi.clearAllMocks();
     localStorageMock.getItem.mockReturnValue(null);
-    service = new CollaborationSyncService();
+    store = new MemoryChangeStore();
+    service = new CollaborationSyncService(store);
   });
 
   afterEach(async () => {
+    vi.restoreAllMocks();
     await service.cleanup();
   });
 
@@ -62,8 +83,19 @@ describe('CollaborationSyncService', () => {
       expect(mockAddEventListener).toHaveBeenCalledWith('offline', expect.any(Function));
     });
 
-    it('should load queued changes from localStorage', () => {
+    it('should move changes queued in localStorage to the offline store', async () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify([
+        { id: 'legacy', fileId: 'file-1', change: typeAt(1, 'a'), timestamp: 1000, retryCount: 0 },
+      ]));
+      const legacyStore = new MemoryChangeStore();
+      const migrated = new CollaborationSyncService(legacyStore);
+
+      await migrated.forcSync();
+
       expect(localStorageMock.getItem).toHaveBeenCalledWith('collaboration_queued_changes');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('collaboration_queued_changes');
+      expect(await legacyStore.load()).toMatchObject([{ id: 'legacy', sequence: 1 }]);
+      await migrated.cleanup();
     });
   });
 
@@ -117,39 +149,194 @@ describe('CollaborationSyncService', () => {
       expect(status.pending).toBe(1);
     });
 
-    it('should save queued changes to localStorage', async () => {
+    it('should save queued changes to the offline store', async () => {
       const fileId = '550e8400-e29b-41d4-a716-446655440001';
-      const change = {
-        range: {
-          startLineNumber: 1,
-          startColumn: 1,
-          endLineNumber: 1,
-          endColumn: 5,
-        },
-        text: 'hello',
-        rangeLength: 4,
-        userId: '550e8400-e29b-41d4-a716-446655440002',
-        timestamp: Date.now(),
-        version: 1,
-      };
 
-      await service.queueChange(fileId, change);
+      await service.queueChange(fileId, typeAt(1, 'hello'));
 
-      expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'collaboration_queued_changes',
-        expect.any(String)
-      );
+      expect(await store.load()).toMatchObject([{ fileId, change: { text: 'hello' } }]);
     });
 
-    it('should clear the queue', () => {
-      service.clearQueue();
+    it('should clear the queue', async () => {
+      await service.queueChange('file-1', typeAt(1, 'hello'));
 
-      const status = service.getQueueStatus();
-      expect(status.pending).toBe(0);
-      expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'collaboration_queued_changes',
-        '[]'
-      );
+      await service.clearQueue();
+
+      expect(service.getQueueStatus().pending).toBe(0);
+      expect(await store.load()).toHaveLength(0);
+    });
+
+    it('should compact consecutive offline edits to a file', async () => {
+      windowHandler('offline')();
+      const pending = vi.fn();
+      service.onQueueChanged(pending);
+
+      await service.queueChange('file-1', typeAt(1, 'a'), '');
+      await service.queueChange('file-1', typeAt(2, 'b'), 'a');
+      await service.queueChange('file-2', typeAt(1, 'c'), '');
+
+      const queued = await store.load();
+      expect(queued.map(change => change.fileId)).toEqual(['file-1', 'file-2']);
+      expect(queued[0].change.text).toBe('ab');
+      expect(pending).toHaveBeenLastCalledWith(2);
+    });
+
+    it('should keep a failing file\'s changes in order and back off without blocking other files', async () => {
+      const file = { id: 'file-2', version: 1, content: '' } as CollaborationFile;
+      vi.spyOn(collaborationFileService, 'getFile').mockImplementation(async (fileId) => {
+        if (fileId === 'file-1') throw new Error('Network error');
+        return file;
+      });
+      const applied = vi.spyOn(collaborationFileService, 'applyFileChanges').mockResolvedValue(2);
+
+      await service.queueChange('file-1', typeAt(1, 'a'));
+      await service.queueChange('file-2', typeAt(1, 'b'));
+      await service.queueChange('file-1', typeAt(2, 'c'));
+
+      expect(applied).toHaveBeenCalledTimes(1);
+      expect(applied).toHaveBeenCalledWith('file-2', 'b', 1);
+      const queued = await store.load();
+      expect(queued.map(change => change.change.text)).toEqual(['a', 'c']);
+      expect(queued[0].retryCount).toBe(1);
+      expect(queued[0].nextAttemptAt).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('Conflicting Queued Changes', () => {
+    const serverCopy = (content: string): CollaborationFile => ({
+      id: 'file-1', name: 'main.js', version: 2, content, updatedAt: new Date(),
+    } as CollaborationFile);
+
+    const replace = (startColumn: number, endColumn: number, text: string): EditorChange => ({
+      ...typeAt(startColumn, text),
+      range: { startLineNumber: 1, startColumn, endLineNumber: 1, endColumn },
+      rangeLength: endColumn - startColumn,
+    });
+
+    beforeEach(() => {
+      vi.spyOn(collaborationFileService, 'getPendingChanges').mockResolvedValue([]);
+    });
+
+    it('should rebase a change past a save that touched other text', async () => {
+      vi.spyOn(collaborationFileService, 'getFile').mockResolvedValue(serverCopy('Hello world'));
+      const applied = vi.spyOn(collaborationFileService, 'applyFileChanges').mockResolvedValue(3);
+
+      await service.queueChange('file-1', typeAt(12, '!'), 'hello world');
+
+      expect(applied).toHaveBeenCalledWith('file-1', 'Hello world!', 2);
+      expect(service.getQueueStatus().pending).toBe(0);
+    });
+
+    it('should park a change that overlaps a save until it is resolved', async () => {
+      vi.spyOn(collaborationFileService, 'getFile').mockResolvedValue(serverCopy('help'));
+      const applied = vi.spyOn(collaborationFileService, 'applyFileChanges').mockResolvedValue(3);
+      const onConflictDetected = vi.fn();
+      await service.subscribeToGroup('550e8400-e29b-41d4-a716-446655440000', { onConflictDetected });
+
+      await service.queueChange('file-1', replace(1, 6, 'bye'), 'hello');
+      await service.queueChange('file-1', typeAt(4, '!'), 'bye');
+
+      expect(applied).not.toHaveBeenCalled();
+      expect(onConflictDetected).toHaveBeenCalledWith('file-1', [expect.objectContaining({ text: 'bye' }), expect.objectContaining({ text: 'p' })]);
+      const [parked] = service.getParkedChanges('file-1');
+      expect(parked.parked).toEqual({ serverContent: 'help', serverVersion: 2 });
+      expect(await store.load()).toHaveLength(2);
+
+      await service.resolveParkedChange(parked.id, 'bye, help');
+
+      expect(applied).toHaveBeenCalledWith('file-1', 'bye, help', 2);
+      expect(service.getParkedChanges()).toHaveLength(0);
+    });
+
+    it('should drop a parked change when the server copy is kept', async () => {
+      vi.spyOn(collaborationFileService, 'getFile').mockResolvedValue(serverCopy('help'));
+      const applied = vi.spyOn(collaborationFileService, 'applyFileChanges').mockResolvedValue(3);
+
+      await service.queueChange('file-1', replace(1, 6, 'bye'), 'hello');
+      await service.resolveParkedChange(service.getParkedChanges()[0].id, null);
+
+      expect(applied).not.toHaveBeenCalled();
+      expect(service.getQueueStatus().pending).toBe(0);
+      expect(await store.load()).toHaveLength(0);
+    });
+
+    it('should back a change off rather than park it when pending changes cannot be loaded', async () => {
+      vi.spyOn(collaborationFileService, 'getFile').mockResolvedValue(serverCopy('Hello world'));
+      vi.spyOn(collaborationFileService, 'getPendingChanges').mockRejectedValue(new Error('Network error'));
+      const applied = vi.spyOn(collaborationFileService, 'applyFileChanges').mockResolvedValue(3);
+
+      await service.queueChange('file-1', typeAt(12, '!'), 'hello world');
+
+      expect(applied).not.toHaveBeenCalled();
+      expect(service.getParkedChanges()).toHaveLength(0);
+      const [queued] = await store.load();
+      expect(queued.retryCount).toBe(1);
+      expect(queued.nextAttemptAt).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('Merging Parked Changes', () => {
+    beforeEach(() => {
+      vi.spyOn(collaborationFileService, 'getPendingChanges').mockResolvedValue([]);
+      vi.spyOn(collaborationFileService, 'getFile').mockResolvedValue({
+        id: 'file-1', name: 'main.js', version: 2, content: 'help there', updatedAt: new Date(),
+      } as CollaborationFile);
+    });
+
+    const parkReplacement = async () => {
+      const change = { ...typeAt(1, 'bye'), range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 6 }, rangeLength: 5 };
+      await service.queueChange('file-1', change, 'hello');
+      return service.getParkedConflicts();
+    };
+
+    it('should describe a parked change as a conflict against the shared ancestor', async () => {
+      const [parked] = await parkReplacement();
+
+      expect(parked.baseContent).toBe('hello');
+      expect(parked.conflict.operation1.text).toBe('bye');
+      expect(parked.conflict.operation2.text).toBe('p there');
+    });
+
+    it('should save a merged document through the conflict resolution service', async () => {
+      const applied = vi.spyOn(collaborationFileService, 'applyFileChanges').mockResolvedValue(3);
+      const [parked] = await parkReplacement();
+
+      await service.resolveParkedConflict(parked, 'merge', 'bye there');
+
+      expect(applied).toHaveBeenCalledWith('file-1', 'bye there', 2);
+      expect(service.getParkedConflicts()).toHaveLength(0);
+    });
+
+    it('should drop the change when the server copy is accepted', async () => {
+      const applied = vi.spyOn(collaborationFileService, 'applyFileChanges').mockResolvedValue(3);
+      const [parked] = await parkReplacement();
+
+      await service.resolveParkedConflict(parked, 'accept-remote');
+
+      expect(applied).not.toHaveBeenCalled();
+      expect(service.getQueueStatus().pending).toBe(0);
+    });
+  });
+
+  describe('Versioned Saves', () => {
+    it('should report a save conflict instead of overwriting', async () => {
+      const base = { id: 'file-1', name: 'main.js', version: 1, content: 'a' } as CollaborationFile;
+      const serverFile = { ...base, version: 2, content: 'b' };
+      vi.spyOn(collaborationFileService, 'updateFile').mockRejectedValue(new VersionConflictError(1, serverFile));
+      const onVersionConflict = vi.fn();
+      await service.subscribeToGroup('550e8400-e29b-41d4-a716-446655440000', { onVersionConflict });
+
+      const saved = await service.saveFile(base, 'c');
+
+      expect(saved).toBeNull();
+      expect(onVersionConflict).toHaveBeenCalledWith({
+        fileId: 'file-1',
+        fileName: 'main.js',
+        baseVersion: 1,
+        baseContent: 'a',
+        localContent: 'c',
+        serverFile,
+      });
     });
   });
 
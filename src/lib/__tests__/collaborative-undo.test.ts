@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CollaborativeUndoManager } from '../collaborative-undo';
+import { OperationalTransform, offsetToPosition } from '../operational-transform';
+import { EditorChange } from '@/types/collaboration';
+
+const insertAt = (content: string, offset: number, text: string, userId: string): EditorChange => {
+  const { lineNumber, column } = offsetToPosition(content, offset);
+  return {
+    range: { startLineNumber: lineNumber, startColumn: column, endLineNumber: lineNumber, endColumn: column },
+    text,
+    rangeLength: 0,
+    userId,
+    timestamp: 1000,
+    version: 1
+  };
+};
+
+describe('CollaborativeUndoManager', () => {
+  let alice: CollaborativeUndoManager;
+  let bob: CollaborativeUndoManager;
+  let content: string;
+
+  // Apply a change and keep both users' history in step with it
+  const edit = (change: EditorChange) => {
+    const [author, other] = change.userId === 'alice' ? [alice, bob] : [bob, alice];
+    author.recordLocal(change, content);
+    other.transformRemote(change, content);
+    content = OperationalTransform.apply(content, change);
+  };
+
+  beforeEach(() => {
+    alice = new CollaborativeUndoManager('alice');
+    bob = new CollaborativeUndoManager('bob');
+    content = 'function main() {\n}\n';
+  });
+
+  it('undoes only the user\'s own edit after someone else edits', () => {
+    edit(insertAt(content, 18, '  run();\n', 'alice'));
+    edit(insertAt(content, 0, '// entry point\n', 'bob'));
+
+    const undo = alice.undo(content, 2);
+    expect(undo?.userId).toBe('alice');
+    content = OperationalTransform.apply(content, undo as EditorChange);
+
+    expect(content).toBe('// entry point\nfunction main() {\n}\n');
+  });
+
+  it('redoes an undone edit where it now belongs', () => {
+    edit(insertAt(content, 18, '  run();\n', 'alice'));
+    content = OperationalTransform.apply(content, alice.undo(content, 2) as EditorChange);
+    edit(insertAt(content, 0, '// entry point\n', 'bob'));
+
+    const redo = alice.redo(content, 3);
+    content = OperationalTransform.apply(content, redo as EditorChange);
+
+    expect(content).toBe('// entry point\nfunction main() {\n  run();\n}\n');
+  });
+
+  it('clears redo history on a new edit and reports what is available', () => {
+    expect(alice.canUndo()).toBe(false);
+    edit(insertAt(content, 0, 'a', 'alice'));
+    content = OperationalTransform.apply(content, alice.undo(content, 2) as EditorChange);
+    expect(alice.canRedo()).toBe(true);
+
+    edit(insertAt(content, 0, 'b', 'alice'));
+    expect(alice.canRedo()).toBe(false);
+    expect(alice.redo(content, 3)).toBeNull();
+  });
+
+  it('skips edits that others have since deleted', () => {
+    edit(insertAt(content, 0, 'x', 'alice'));
+    const deleteX: EditorChange = {
+      ...insertAt(content, 0, '', 'bob'),
+      range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 2 },
+      rangeLength: 1
+    };
+    edit(deleteX);
+
+    // Removing "x" again would be a no-op, so there is nothing left to undo
+    expect(alice.undo(content, 3)).toBeNull();
+  });
+
+  it('drops history recorded against another version of the document', () => {
+    edit(insertAt(content, 0, 'a', 'alice'));
+
+    expect(alice.undo('unrelated', 2)).toBeNull();
+    expect(alice.canUndo()).toBe(false);
+  });
+});
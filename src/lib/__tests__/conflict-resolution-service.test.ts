@@ -164,6 +164,22 @@ describe('ConflictResolutionService', () => {
       expect(resolved.userId).toBe(mockChange1.userId);
     });
 
+    it('should turn a whole merged document into a change against the common ancestor', async () => {
+      const conflict = {
+        operation1: mockChange1,
+        operation2: mockChange2,
+        conflictType: 'overlap' as const,
+        resolution: 'manual' as const
+      };
+      const base = 'line one\nline two\n';
+      const merged = 'line one\nline 2\nline three\n';
+
+      const resolved = await service.resolveConflictManually(conflict, 'merge', merged, base);
+
+      expect(OperationalTransform.apply(base, resolved)).toBe(merged);
+      expect(resolved.userId).toBe(mockChange1.userId);
+    });
+
     it('should throw error for merge without content', async () => {
       const conflict = {
         operation1: mockChange1,
@@ -211,6 +227,22 @@ describe('ConflictResolutionService', () => {
     });
   });
 
+  describe('undo and redo', () => {
+    it('reverts only the requesting user\'s change', async () => {
+      const first = await service.processChange('file1', mockChange1, '');
+      const second = await service.processChange('file1', mockChange2, first.finalContent);
+      expect(second.finalContent).toBe('Hello World');
+
+      const undone = service.undo('file1', 'user1', second.finalContent, 2);
+      expect(undone?.finalContent).toBe(' World');
+      expect(service.canRedo('file1', 'user1')).toBe(true);
+      expect(service.undo('file1', 'user3', ' World', 2)).toBeNull();
+
+      const redone = service.redo('file1', 'user1', ' World', 3);
+      expect(redone?.finalContent).toBe('Hello World');
+    });
+  });
+
   describe('processAutoResolvableConflicts', () => {
     it('should process auto-resolvable conflicts', async () => {
       const result = await service.processAutoResolvableConflicts();
@@ -1,10 +1,18 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { OperationalTransform, Operation, OperationConflict } from '../operational-transform';
+import {
+  OperationalTransform,
+  Operation,
+  OperationConflict,
+  offsetToPosition,
+  positionToOffset
+} from '../operational-transform';
 import { EditorChange } from '@/types/collaboration';
 
 describe('OperationalTransform', () => {
   let mockChange1: EditorChange;
   let mockChange2: EditorChange;
+  // The document both mock changes are made against
+  const document = 'abcdefghijklmnopqrstuvwxyz';
 
   beforeEach(() => {
     mockChange1 = {
@@ -38,7 +46,7 @@ describe('OperationalTransform', () => {
 
   describe('transform', () => {
     it('should transform non-overlapping operations correctly', () => {
-      const result = OperationalTransform.transform(mockChange1, mockChange2);
+      const result = OperationalTransform.transform(mockChange1, mockChange2, document);
       
       expect(result.conflicts).toHaveLength(0);
       expect(result.operation1Prime).toEqual(mockChange1);
@@ -71,7 +79,7 @@ describe('OperationalTransform', () => {
         rangeLength: 4 // Replacing 4 characters
       };
 
-      const result = OperationalTransform.transform(overlappingChange1, overlappingChange2);
+      const result = OperationalTransform.transform(overlappingChange1, overlappingChange2, document);
       
       expect(result.conflicts).toHaveLength(1);
       expect(result.conflicts[0].conflictType).toBe('overlap');
@@ -88,7 +96,7 @@ describe('OperationalTransform', () => {
         }
       };
 
-      const result = OperationalTransform.transform(mockChange1, adjacentChange);
+      const result = OperationalTransform.transform(mockChange1, adjacentChange, document);
       
       if (result.conflicts.length > 0) {
         expect(result.conflicts[0].conflictType).toBe('adjacent');
@@ -121,7 +129,7 @@ describe('OperationalTransform', () => {
         rangeLength: 9
       };
 
-      const result = OperationalTransform.transform(nestedChange, containerChange);
+      const result = OperationalTransform.transform(nestedChange, containerChange, document);
       
       expect(result.conflicts).toHaveLength(1);
       expect(result.conflicts[0].conflictType).toBe('nested');
@@ -144,23 +152,23 @@ describe('OperationalTransform', () => {
         version: 1
       };
 
-      const composed = OperationalTransform.compose([mockChange1, mockChange2, change3]);
+      const composed = OperationalTransform.compose([mockChange1, mockChange2, change3], document);
       
-      expect(composed.text).toContain('Hello');
+      expect(OperationalTransform.apply(document, composed)).toBe(`Hello World!${document}`);
       expect(composed.timestamp).toBe(1002); // Latest timestamp
       expect(composed.version).toBe(1); // Max version
     });
 
     it('should handle empty array', () => {
-      expect(() => OperationalTransform.compose([])).toThrow('Cannot compose empty array of changes');
+      expect(() => OperationalTransform.compose([], document)).toThrow('Cannot compose empty array of changes');
     });
 
     it('should return single operation unchanged', () => {
-      const result = OperationalTransform.compose([mockChange1]);
+      const result = OperationalTransform.compose([mockChange1], document);
       expect(result).toEqual(mockChange1);
     });
 
-    it('should sort operations by position before composing', () => {
+    it('should apply operations in the order given', () => {
       const laterChange: EditorChange = {
         range: {
           startLineNumber: 1,
@@ -175,10 +183,32 @@ describe('OperationalTransform', () => {
         version: 1
       };
 
-      const composed = OperationalTransform.compose([mockChange2, laterChange, mockChange1]);
+      const composed = OperationalTransform.compose([mockChange1, laterChange], document);
       
-      // Should be composed in position order, not input order
-      expect(composed).toBeDefined();
+      // Each change is made to the result of the one before, not to the original document
+      expect(OperationalTransform.apply(document, composed)).toBe(`Start Hello${document}`);
+    });
+
+    it('should compose consecutive edits to a document exactly', () => {
+      const content = 'let x = 1;';
+      const typed: EditorChange = {
+        ...mockChange1,
+        range: { startLineNumber: 1, startColumn: 11, endLineNumber: 1, endColumn: 11 },
+        text: '\nlet y = 2;',
+        rangeLength: 0
+      };
+      const renamed: EditorChange = {
+        ...mockChange1,
+        range: { startLineNumber: 2, startColumn: 5, endLineNumber: 2, endColumn: 6 },
+        text: 'z',
+        rangeLength: 1,
+        timestamp: 2000
+      };
+
+      const composed = OperationalTransform.compose([typed, renamed], content);
+
+      expect(OperationalTransform.apply(content, composed)).toBe('let x = 1;\nlet z = 2;');
+      expect(composed.timestamp).toBe(2000);
     });
   });
 
@@ -203,7 +233,10 @@ describe('OperationalTransform', () => {
       
       expect(inverted.text).toBe('');
       expect(inverted.rangeLength).toBe(4); // Length of 'new '
-      expect(inverted.range).toEqual(insertChange.range);
+      // The inverse removes the inserted text from the document the insertion produced
+      expect(inverted.range).toEqual({ startLineNumber: 1, startColumn: 9, endLineNumber: 1, endColumn: 13 });
+      const changed = OperationalTransform.apply(originalContent, insertChange);
+      expect(OperationalTransform.apply(changed, inverted)).toBe(originalContent);
     });
 
     it('should create inverse operation for deletion', () => {
@@ -248,6 +281,8 @@ describe('OperationalTransform', () => {
       
       expect(inverted.text).toBe('\nLin');
       expect(inverted.rangeLength).toBe(11); // Length of 'New\nContent'
+      const changed = OperationalTransform.apply(originalContent, multiLineChange);
+      expect(OperationalTransform.apply(changed, inverted)).toBe(originalContent);
     });
   });
 
@@ -353,6 +388,65 @@ describe('OperationalTransform', () => {
     });
   });
 
+  describe('merge', () => {
+    it('combines overlapping changes into one change over both ranges', () => {
+      const content = 'Hello World';
+      const local: EditorChange = {
+        ...mockChange1,
+        range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 6 },
+        text: 'Goodbye',
+        rangeLength: 5
+      };
+      const remote: EditorChange = {
+        ...mockChange2,
+        range: { startLineNumber: 1, startColumn: 5, endLineNumber: 1, endColumn: 12 },
+        text: 'o Universe',
+        rangeLength: 7
+      };
+
+      const merged = OperationalTransform.merge(local, remote, content);
+
+      expect(merged.range).toEqual({ startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 12 });
+      expect(OperationalTransform.apply(content, merged)).toBe(
+        OperationalTransform.apply(
+          OperationalTransform.apply(content, local),
+          OperationalTransform.transform(local, remote, content).operation2Prime
+        )
+      );
+    });
+
+    it('covers ranges on different lines by position, not by column', () => {
+      const first = { ...mockChange1, range: { startLineNumber: 1, startColumn: 8, endLineNumber: 2, endColumn: 2 } };
+      const second = { ...mockChange2, range: { startLineNumber: 2, startColumn: 1, endLineNumber: 3, endColumn: 1 } };
+
+      expect(OperationalTransform.coveringRange(first, second)).toEqual({
+        startLineNumber: 1,
+        startColumn: 8,
+        endLineNumber: 3,
+        endColumn: 1
+      });
+    });
+
+    it('only reports overlap for changes that replace the same text', () => {
+      const content = 'line one\nline two';
+      const first = { ...mockChange1, range: { startLineNumber: 1, startColumn: 6, endLineNumber: 2, endColumn: 1 } };
+      const touching = { ...mockChange2, range: { startLineNumber: 2, startColumn: 1, endLineNumber: 2, endColumn: 5 } };
+      const inside = { ...mockChange2, range: { startLineNumber: 1, startColumn: 9, endLineNumber: 2, endColumn: 3 } };
+
+      expect(OperationalTransform.overlaps(first, touching, content)).toBe(false);
+      expect(OperationalTransform.overlaps(first, inside, content)).toBe(true);
+    });
+
+    it('diffs two documents into one replace of the text that differs', () => {
+      const content = 'const a = 1;\nconst b = 2;\n';
+      const target = 'const a = 1;\nlet b = 3;\n';
+      const diff = OperationalTransform.diff(content, target);
+
+      expect(diff.range).toEqual({ startLineNumber: 2, startColumn: 1, endLineNumber: 2, endColumn: 12 });
+      expect(OperationalTransform.apply(content, { ...mockChange1, ...diff })).toBe(target);
+    });
+  });
+
   describe('canAutoResolve', () => {
     it('should return true for adjacent conflicts', () => {
       const conflict: OperationConflict = {
@@ -397,7 +491,7 @@ describe('OperationalTransform', () => {
         resolution: 'automatic'
       };
 
-      const result = OperationalTransform.autoResolve(conflict);
+      const result = OperationalTransform.autoResolve(conflict, document);
       
       expect(result.conflicts).toHaveLength(0);
       expect(result.operation1Prime).toBeDefined();
@@ -412,7 +506,7 @@ describe('OperationalTransform', () => {
         resolution: 'manual'
       };
 
-      expect(() => OperationalTransform.autoResolve(conflict)).toThrow('Conflict cannot be automatically resolved');
+      expect(() => OperationalTransform.autoResolve(conflict, document)).toThrow('Conflict cannot be automatically resolved');
     });
   });
 
@@ -440,7 +534,7 @@ describe('OperationalTransform', () => {
       };
 
       // Transform the operations
-      const result = OperationalTransform.transform(user1Change, user2Change);
+      const result = OperationalTransform.transform(user1Change, user2Change, content);
       
       // Apply both operations
       let finalContent = OperationalTransform.apply(content, result.operation1Prime);
@@ -472,11 +566,146 @@ describe('OperationalTransform', () => {
         version: 1
       };
 
-      const result = OperationalTransform.transform(user1Change, user2Change);
+      const result = OperationalTransform.transform(user1Change, user2Change, content);
       
       expect(result.conflicts).toHaveLength(1);
       expect(result.conflicts[0].conflictType).toBe('overlap');
       expect(result.conflicts[0].resolution).toBe('manual');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('positions', () => {
+  const content = 'first\n\nthird line\nlast';
+
+  it('converts line/column positions to character offsets', () => {
+    expect(positionToOffset(content, 1, 1)).toBe(0);
+    expect(positionToOffset(content, 2, 1)).toBe(6);
+    expect(positionToOffset(content, 3, 7)).toBe(13);
+    expect(positionToOffset(content, 4, 5)).toBe(content.length);
+  });
+
+  it('clamps positions past the end of a line or the document', () => {
+    expect(positionToOffset(content, 1, 80)).toBe(5);
+    expect(positionToOffset(content, 9, 1)).toBe(content.length);
+  });
+
+  it('round trips every offset', () => {
+    for (let offset = 0; offset <= content.length; offset++) {
+      const { lineNumber, column } = offsetToPosition(content, offset);
+      expect(positionToOffset(content, lineNumber, column)).toBe(offset);
+    }
+  });
+});
+
+describe('operation sequences', () => {
+  it('transforms multi-component operations', () => {
+    // "hello world": a capitalises both words, b adds a comma and replaces "world"
+    const a: Operation[] = [
+      { type: 'delete', length: 1 },
+      { type: 'insert', text: 'H' },
+      { type: 'retain', length: 5 },
+      { type: 'delete', length: 1 },
+      { type: 'insert', text: 'W' },
+      { type: 'retain', length: 4 }
+    ];
+    const b: Operation[] = [
+      { type: 'retain', length: 5 },
+      { type: 'insert', text: ',' },
+      { type: 'retain', length: 1 },
+      { type: 'delete', length: 5 },
+      { type: 'insert', text: 'there' }
+    ];
+
+    const [aPrime, bPrime] = OperationalTransform.transformOperations(a, b);
+    const viaB = OperationalTransform.applyOperations(OperationalTransform.applyOperations('hello world', b), aPrime);
+    const viaA = OperationalTransform.applyOperations(OperationalTransform.applyOperations('hello world', a), bPrime);
+
+    expect(viaB).toBe('Hello, Wthere');
+    expect(viaA).toBe(viaB);
+  });
+
+  it('rejects operations for a document of another length', () => {
+    expect(() => OperationalTransform.applyOperations('abc', [{ type: 'retain', length: 2 }])).toThrow();
+    expect(() =>
+      OperationalTransform.transformOperations([{ type: 'retain', length: 2 }], [{ type: 'retain', length: 3 }])
+    ).toThrow();
+  });
+});
+
+describe('convergence (TP1)', () => {
+  // Seeded so a failure reproduces
+  const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const random = createRandom(20261019);
+  const randomInt = (max: number) => Math.floor(random() * max);
+  const randomText = (maxLength: number) =>
+    Array.from({ length: randomInt(maxLength + 1) }, () => 'ab\nxy '[randomInt(6)]).join('');
+
+  const randomOperations = (content: string): Operation[] => {
+    const operations: Operation[] = [];
+    let offset = 0;
+    while (offset < content.length) {
+      const length = 1 + randomInt(Math.min(5, content.length - offset));
+      const roll = random();
+      if (roll < 0.2) operations.push({ type: 'insert', text: randomText(4) || 'z' });
+      operations.push({ type: roll < 0.6 ? 'retain' : 'delete', length });
+      offset += length;
+    }
+    if (random() < 0.3) operations.push({ type: 'insert', text: randomText(4) || 'z' });
+    return operations;
+  };
+
+  const randomChange = (content: string, userId: string): EditorChange => {
+    const start = randomInt(content.length + 1);
+    const end = start + randomInt(content.length - start + 1);
+    const startPosition = offsetToPosition(content, start);
+    const endPosition = offsetToPosition(content, end);
+    return {
+      range: {
+        startLineNumber: startPosition.lineNumber,
+        startColumn: startPosition.column,
+        endLineNumber: endPosition.lineNumber,
+        endColumn: endPosition.column
+      },
+      text: randomText(6),
+      rangeLength: end - start,
+      userId,
+      timestamp: 1000,
+      version: 1
+    };
+  };
+
+  it('converges for random operation sequences', () => {
+    for (let i = 0; i < 500; i++) {
+      const content = randomText(30);
+      const a = randomOperations(content);
+      const b = randomOperations(content);
+
+      const [aPrime, bPrime] = OperationalTransform.transformOperations(a, b);
+      const viaB = OperationalTransform.applyOperations(OperationalTransform.applyOperations(content, b), aPrime);
+      const viaA = OperationalTransform.applyOperations(OperationalTransform.applyOperations(content, a), bPrime);
+
+      expect(viaA).toBe(viaB);
+    }
+  });
+
+  it('converges for random editor changes across lines', () => {
+    for (let i = 0; i < 500; i++) {
+      const content = randomText(30);
+      const change1 = randomChange(content, 'user1');
+      const change2 = randomChange(content, 'user2');
+
+      const result = OperationalTransform.transform(change1, change2, content);
+      const via2 = OperationalTransform.apply(OperationalTransform.apply(content, change2), result.operation1Prime);
+      const via1 = OperationalTransform.apply(OperationalTransform.apply(content, change1), result.operation2Prime);
+
+      expect(via1).toBe(via2);
+    }
+  });
+});
+
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { transpileModule } from '../typescriptTranspiler';
+import { buildModuleGraph, mapStack, ModuleGraph, normalizePath, resolveImport } from '../projectRunner';
+
+const AsyncFunction = Object.getPrototypeOf(async () => undefined).constructor as FunctionConstructor;
+
+// The same CommonJS loader the sandbox runs, evaluated here instead of in an iframe
+const runGraph = async (graph: ModuleGraph, entry: string) => {
+  const logs: unknown[] = [];
+  const cache: Record<string, { exports: unknown }> = {};
+  const running: Promise<unknown>[] = [];
+  const load = (path: string): unknown => {
+    if (cache[path]) return cache[path].exports;
+    const source = graph.modules[path];
+    const module = { exports: {} as unknown };
+    cache[path] = module;
+    if ('json' in source) {
+      module.exports = JSON.parse(source.json);
+      return module.exports;
+    }
+    const require = (specifier: string) => load(source.dependencies[specifier]);
+    const fakeConsole = { log: (value: unknown) => logs.push(value) };
+    running.push(new AsyncFunction('require', 'module', 'exports', 'console', `${source.code}\n//# sourceURL=${path}`)(
+      require, module, module.exports, fakeConsole
+    ));
+    return module.exports;
+  };
+  load(entry);
+  await Promise.all(running);
+  return logs;
+};
+
+describe('Project Runner', () => {
+  it('should resolve relative imports with extensions and index files', () => {
+    const paths = new Set(['/src/index.ts', '/src/utils.ts', '/src/lib/index.js', '/data.json']);
+
+    expect(normalizePath('/src/./lib/../utils.ts')).toBe('/src/utils.ts');
+    expect(resolveImport('/src/index.ts', './utils', paths)).toBe('/src/utils.ts');
+    expect(resolveImport('/src/index.ts', './utils.js', paths)).toBe('/src/utils.ts');
+    expect(resolveImport('/src/index.ts', './lib', paths)).toBe('/src/lib/index.js');
+    expect(resolveImport('/src/index.ts', '../data.json', paths)).toBe('/data.json');
+    expect(resolveImport('/src/index.ts', './missing', paths)).toBeNull();
+    expect(resolveImport('/src/index.ts', 'lodash', paths)).toBeNull();
+  });
+
+  it('should run an entry point that imports modules and JSON', async () => {
+    const graph = await buildModuleGraph([
+      { path: '/index.js', content: "import { greet } from './utils.js';\nimport config from './config.json';\nconsole.log(greet(config.name));" },
+      { path: '/utils.ts', content: "export const greet = (name: string): string => `Hello, ${name}`;" },
+      { path: '/config.json', content: '{ "name": "Ada" }' },
+      { path: '/unused.ts', content: 'this is not valid code' },
+    ], '/index.js', transpileModule);
+
+    expect(Object.keys(graph.modules).sort()).toEqual(['/config.json', '/index.js', '/utils.ts']);
+    await expect(runGraph(graph, '/index.js')).resolves.toEqual(['Hello, Ada']);
+  });
+
+  it('should report missing modules and syntax errors with their file', async () => {
+    await expect(buildModuleGraph([
+      { path: '/index.js', content: "const a = 1;\nimport { b } from './b';" },
+    ], '/index.js', transpileModule)).rejects.toThrow("Cannot find module './b' imported from /index.js:2");
+
+    await expect(buildModuleGraph([
+      { path: '/index.js', content: "import 'react';" },
+    ], '/index.js', transpileModule)).rejects.toThrow("Cannot find module 'react'");
+
+    await expect(buildModuleGraph([
+      { path: '/index.js', content: "import './broken';" },
+      { path: '/broken.ts', content: 'const x = ;' },
+    ], '/index.js', transpileModule)).rejects.toThrow(/^\/broken\.ts: Line 1:/);
+
+    await expect(buildModuleGraph([
+      { path: '/index.js', content: "import './data.json';" },
+      { path: '/data.json', content: '{ broken' },
+    ], '/index.js', transpileModule)).rejects.toThrow(/^\/data\.json: /);
+  });
+
+  it('should map stack traces back to the original file and line', async () => {
+    const graph = await buildModuleGraph([
+      { path: '/index.ts', content: "import { check } from './check';\n\ncheck(-1);" },
+      {
+        path: '/check.ts',
+        content: [
+          'interface Options {',
+          '  strict: boolean;',
+          '}',
+          'export function check(value: number, options: Options = { strict: true }) {',
+          "  if (value < 0) throw new RangeError('negative');",
+          '}',
+        ].join('\n'),
+      },
+    ], '/index.ts', transpileModule);
+
+    const thrown = await runGraph(graph, '/index.ts').catch((err: unknown) => err);
+    expect(thrown).toBeInstanceOf(RangeError);
+    const { stack = '' } = thrown as Error;
+
+    const mapped = mapStack('RangeError: negative', stack, graph.sourceMaps).split('\n');
+    expect(mapped[0]).toBe('RangeError: negative');
+    expect(mapped[1]).toBe('    at check (/check.ts:5:24)');
+    // The compiled call is `(0, check_1.check)(-1)`, so only the line is exact for it
+    expect(mapped[2]).toMatch(/^ {4}at \/index\.ts:3:\d+$/);
+    expect(mapped).toHaveLength(3);
+  });
+});
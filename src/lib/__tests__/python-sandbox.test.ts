@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { PythonRunRequest, PythonWorkerMessage } from '../pythonSandbox.worker';
+import { EXECUTION_STOPPED, MAX_OUTPUT_LENGTH, OutputStream, SANDBOX_TIMEOUT_MS } from '../browserSandbox';
+
+// Stands in for the Pyodide worker; tests answer its requests by hand
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  requests: PythonRunRequest[] = [];
+  terminated = false;
+  private listeners = new Map<string, Set<(event: unknown) => void>>();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: unknown) => void) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)?.add(listener);
+  }
+
+  removeEventListener(type: string, listener: (event: unknown) => void) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  postMessage(request: PythonRunRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(message: PythonWorkerMessage) {
+    this.listeners.get('message')?.forEach(listener => listener({ data: message }));
+  }
+}
+
+const loadSandbox = () => import('../pythonSandbox');
+
+describe('Python Sandbox', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass input to the worker and keep stdout and stderr apart', async () => {
+    const { runPythonInSandbox } = await loadSandbox();
+    const run = runPythonInSandbox('print(input())', 'Ada\n');
+    await vi.waitFor(() => expect(FakeWorker.instances[0]?.requests).toHaveLength(1));
+
+    const worker = FakeWorker.instances[0];
+    const { id, code, input } = worker.requests[0];
+    expect({ code, input }).toEqual({ code: 'print(input())', input: 'Ada\n' });
+    worker.reply({ type: 'started', id });
+    worker.reply({ type: 'result', id, success: true, stdout: 'Ada', stderr: 'warning' });
+
+    await expect(run).resolves.toMatchObject({ success: true, output: 'Ada', stderr: 'warning' });
+  });
+
+  it('should report a failed run with its output and traceback', async () => {
+    const { runPythonInSandbox } = await loadSandbox();
+    const run = runPythonInSandbox('raise ValueError()');
+    await vi.waitFor(() => expect(FakeWorker.instances[0]?.requests).toHaveLength(1));
+
+    const worker = FakeWorker.instances[0];
+    const { id } = worker.requests[0];
+    worker.reply({ type: 'result', id, success: false, stdout: 'partial', stderr: '', error: 'ValueError' });
+
+    await expect(run).resolves.toMatchObject({ success: false, output: 'partial', stderr: undefined, error: 'ValueError' });
+  });
+
+  it('should truncate long output like the JavaScript sandbox', async () => {
+    const { runPythonInSandbox } = await loadSandbox();
+    const run = runPythonInSandbox('while True: print("x")');
+    await vi.waitFor(() => expect(FakeWorker.instances[0]?.requests).toHaveLength(1));
+
+    const worker = FakeWorker.instances[0];
+    const { id } = worker.requests[0];
+    worker.reply({ type: 'result', id, success: true, stdout: 'x'.repeat(MAX_OUTPUT_LENGTH + 10), stderr: '' });
+
+    const result = await run;
+    expect(result.output).toHaveLength(MAX_OUTPUT_LENGTH + '\n… output truncated'.length);
+    expect(result.output.endsWith('… output truncated')).toBe(true);
+  });
+
+  it('should stop a run that exceeds the timeout and start a fresh interpreter for the next', async () => {
+    vi.useFakeTimers();
+    const { runPythonInSandbox } = await loadSandbox();
+    const run = runPythonInSandbox('while True: pass');
+    await vi.waitFor(() => expect(FakeWorker.instances[0]?.requests).toHaveLength(1));
+
+    const worker = FakeWorker.instances[0];
+    worker.reply({ type: 'started', id: worker.requests[0].id });
+    await vi.advanceTimersByTimeAsync(SANDBOX_TIMEOUT_MS);
+
+    await expect(run).resolves.toMatchObject({ success: false, error: 'Execution timeout (5 seconds)' });
+    expect(worker.terminated).toBe(true);
+
+    runPythonInSandbox('print(1)');
+    await vi.waitFor(() => expect(FakeWorker.instances[1]?.requests).toHaveLength(1));
+  });
+
+  it('should stream output while the program runs', async () => {
+    const { runPythonInSandbox } = await loadSandbox();
+    const chunks: Array<[string, OutputStream]> = [];
+    const run = runPythonInSandbox('print(1)', '', { onOutput: (text, stream) => chunks.push([text, stream]) });
+    await vi.waitFor(() => expect(FakeWorker.instances[0]?.requests).toHaveLength(1));
+
+    const worker = FakeWorker.instances[0];
+    const { id } = worker.requests[0];
+    worker.reply({ type: 'started', id });
+    worker.reply({ type: 'output', id, stream: 'stdout', text: '1' });
+    worker.reply({ type: 'output', id, stream: 'stderr', text: 'careful' });
+    expect(chunks).toEqual([['1', 'stdout'], ['careful', 'stderr']]);
+
+    worker.reply({ type: 'result', id, success: true, stdout: '1', stderr: 'careful' });
+    await expect(run).resolves.toMatchObject({ success: true, output: '1', stderr: 'careful' });
+  });
+
+  it('should stop a run when its signal aborts and keep what it printed', async () => {
+    const { runPythonInSandbox } = await loadSandbox();
+    const controller = new AbortController();
+    const run = runPythonInSandbox('while True: print("x")', '', { signal: controller.signal });
+    await vi.waitFor(() => expect(FakeWorker.instances[0]?.requests).toHaveLength(1));
+
+    const worker = FakeWorker.instances[0];
+    const { id } = worker.requests[0];
+    worker.reply({ type: 'started', id });
+    worker.reply({ type: 'output', id, stream: 'stdout', text: 'x' });
+    controller.abort();
+
+    await expect(run).resolves.toMatchObject({ success: false, output: 'x', error: EXECUTION_STOPPED });
+    expect(worker.terminated).toBe(true);
+
+    const stopped = await runPythonInSandbox('print(1)', '', { signal: controller.signal });
+    expect(stopped.error).toBe(EXECUTION_STOPPED);
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+
+  it('should ask for input while the program waits, without counting the wait towards the timeout', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('crossOriginIsolated', true);
+    const { runPythonInSandbox } = await loadSandbox();
+    const { readInput } = await import('../sharedInput');
+    let answer: (line: string | null) => void = () => undefined;
+    const onInput = vi.fn(() => new Promise<string | null>(resolve => { answer = resolve; }));
+    const run = runPythonInSandbox('print(input("Name? "))', '', { onInput });
+    await vi.waitFor(() => expect(FakeWorker.instances[0]?.requests).toHaveLength(1));
+
+    const worker = FakeWorker.instances[0];
+    const { id, interactive, stdinBuffer } = worker.requests[0];
+    expect(interactive).toBe(true);
+    if (!stdinBuffer) throw new Error('Expected a stdin buffer');
+    worker.reply({ type: 'started', id });
+    worker.reply({ type: 'input-request', id });
+    await vi.advanceTimersByTimeAsync(SANDBOX_TIMEOUT_MS * 2);
+    expect(onInput).toHaveBeenCalledTimes(1);
+
+    answer('Ada');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(readInput(stdinBuffer)).toBe('Ada');
+    worker.reply({ type: 'result', id, success: true, stdout: 'Name? Ada', stderr: '' });
+    await expect(run).resolves.toMatchObject({ success: true, output: 'Name? Ada' });
+  });
+
+  it('should run one program at a time', async () => {
+    const { runPythonInSandbox } = await loadSandbox();
+    const first = runPythonInSandbox('print(1)');
+    const second = runPythonInSandbox('print(2)');
+    await vi.waitFor(() => expect(FakeWorker.instances[0]?.requests).toHaveLength(1));
+
+    const worker = FakeWorker.instances[0];
+    worker.reply({ type: 'result', id: worker.requests[0].id, success: true, stdout: '1', stderr: '' });
+    await first;
+    await vi.waitFor(() => expect(worker.requests).toHaveLength(2));
+
+    worker.reply({ type: 'result', id: worker.requests[1].id, success: true, stdout: '2', stderr: '' });
+    await expect(second).resolves.toMatchObject({ output: '2' });
+  });
+});
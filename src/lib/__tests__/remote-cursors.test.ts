@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { awarenessUser, remoteCursorCss } from '../remote-cursors';
+import { getUserColor } from '../collab-encoding';
+
+describe('Remote Cursors', () => {
+  describe('awarenessUser', () => {
+    it('should colour users from the palette by id, ignoring the colour they send', () => {
+      const user = awarenessUser({ user: { id: 'user-1', name: 'Ada', color: 'red; } body { display: none' } }, 7);
+      expect(user).toEqual({ id: 'user-1', name: 'Ada', color: getUserColor('user-1') });
+    });
+
+    it('should fall back to the client id and a placeholder name', () => {
+      expect(awarenessUser({}, 7)).toEqual({ id: '7', name: 'Collaborator', color: getUserColor('7') });
+    });
+  });
+
+  describe('remoteCursorCss', () => {
+    it('should style every remote client but not the local one', () => {
+      const css = remoteCursorCss(new Map<number, unknown>([
+        [1, { user: { id: 'me', name: 'Me' } }],
+        [2, { user: { id: 'user-2', name: 'Grace' } }]
+      ]), 1);
+
+      expect(css).not.toContain('yRemoteSelection-1 ');
+      expect(css).toContain(`.yRemoteSelection-2 { background-color: ${getUserColor('user-2')}; }`);
+      expect(css).toContain(`.yRemoteSelectionHead-2::after { content: "Grace"; background-color: ${getUserColor('user-2')}; }`);
+    });
+
+    it('should keep names inside their CSS string', () => {
+      const css = remoteCursorCss(new Map<number, unknown>([
+        [2, { user: { id: 'user-2', name: 'Eve"; } body { display: none; } .x { content: "\\' } }]
+      ]), 1);
+
+      expect(css).toContain('content: "Eve\\"; } body { display: none; } .x { content: \\"\\\\";');
+    });
+  });
+});
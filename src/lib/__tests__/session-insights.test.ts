@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, summarizeSessions, SessionHistoryRow } from '../session-insights';
+
+const row = (overrides: Partial<SessionHistoryRow>): SessionHistoryRow => ({
+  id: 'session',
+  room_id: 'room-1',
+  user_id: 'user-1',
+  started_at: '2026-01-01T10:00:00Z',
+  ended_at: '2026-01-01T11:00:00Z',
+  updated_at: '2026-01-01T11:00:00Z',
+  active_seconds: 0,
+  file_activity: {},
+  ...overrides,
+});
+
+describe('Session Insights', () => {
+  describe('summarizeSessions', () => {
+    it('should total sessions and file activity per user', () => {
+      const insights = summarizeSessions([
+        row({ id: 'a', active_seconds: 600, file_activity: { 'file-1': { active_seconds: 600, edits: 12 } } }),
+        row({
+          id: 'b',
+          started_at: '2026-01-02T09:00:00Z',
+          ended_at: '2026-01-02T10:00:00Z',
+          active_seconds: 900,
+          file_activity: {
+            'file-1': { active_seconds: 300, edits: 4 },
+            'file-2': { active_seconds: 600, edits: 20 },
+          },
+        }),
+      ]);
+
+      expect(insights).toHaveLength(1);
+      expect(insights[0]).toMatchObject({ userId: 'user-1', sessions: 2, activeSeconds: 1500, isInSession: false });
+      expect(insights[0].firstSeen.toISOString()).toBe('2026-01-01T10:00:00.000Z');
+      expect(insights[0].lastSeen.toISOString()).toBe('2026-01-02T10:00:00.000Z');
+      expect(insights[0].files).toEqual([
+        { fileId: 'file-1', activeSeconds: 900, edits: 16 },
+        { fileId: 'file-2', activeSeconds: 600, edits: 20 },
+      ]);
+    });
+
+    it('should order users by active time and flag open sessions', () => {
+      const insights = summarizeSessions([
+        row({ user_id: 'user-1', active_seconds: 60 }),
+        row({ user_id: 'user-2', active_seconds: 120, ended_at: null, updated_at: '2026-01-01T12:00:00Z' }),
+      ]);
+
+      expect(insights.map(i => i.userId)).toEqual(['user-2', 'user-1']);
+      expect(insights[0].isInSession).toBe(true);
+      expect(insights[0].lastSeen.toISOString()).toBe('2026-01-01T12:00:00.000Z');
+    });
+
+    it('should ignore malformed file activity', () => {
+      const insights = summarizeSessions([row({ file_activity: ['not', 'a', 'map'] })]);
+      expect(insights[0].files).toEqual([]);
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format seconds, minutes and hours', () => {
+      expect(formatDuration(45)).toBe('45s');
+      expect(formatDuration(600)).toBe('10m');
+      expect(formatDuration(5400)).toBe('1h 30m');
+    });
+  });
+});
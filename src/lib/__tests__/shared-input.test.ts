@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { createInputBuffer, MAX_INPUT_LINE_BYTES, readInput, writeInput } from '../sharedInput';
+
+describe('Shared Input', () => {
+  it('should pass lines and the end of input through shared memory', () => {
+    const buffer = createInputBuffer();
+
+    writeInput(buffer, 'héllo wörld');
+    expect(readInput(buffer)).toBe('héllo wörld');
+
+    writeInput(buffer, '');
+    expect(readInput(buffer)).toBe('');
+
+    writeInput(buffer, null);
+    expect(readInput(buffer)).toBeNull();
+  });
+
+  it('should cut lines longer than the buffer short', () => {
+    const buffer = createInputBuffer();
+
+    writeInput(buffer, 'x'.repeat(MAX_INPUT_LINE_BYTES + 10));
+    expect(readInput(buffer)).toHaveLength(MAX_INPUT_LINE_BYTES);
+  });
+});
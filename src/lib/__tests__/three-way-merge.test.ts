@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { CONFLICT_MARKERS, applyChoice, hasConflictMarkers, renderMerge, threeWayMerge } from '../three-way-merge';
+
+const lines = (...text: string[]) => text.join('\n');
+
+describe('threeWayMerge', () => {
+  const base = lines('import a', '', 'function main() {', '  return 1;', '}', '');
+
+  it('merges changes to different lines automatically', () => {
+    const local = lines('import a', 'import b', '', 'function main() {', '  return 1;', '}', '');
+    const remote = lines('import a', '', 'function main() {', '  return 2;', '}', '');
+
+    const result = threeWayMerge(base, local, remote);
+
+    expect(result.conflictCount).toBe(0);
+    expect(result.hunks.map(hunk => hunk.resolution)).toEqual(['local', 'remote']);
+    expect(renderMerge(result)).toBe(lines('import a', 'import b', '', 'function main() {', '  return 2;', '}', ''));
+  });
+
+  it('takes identical changes once', () => {
+    const changed = lines('import a', '', 'function main() {', '  return 3;', '}', '');
+
+    const result = threeWayMerge(base, changed, changed);
+
+    expect(result.conflictCount).toBe(0);
+    expect(renderMerge(result)).toBe(changed);
+  });
+
+  it('marks lines both sides changed differently as a conflict', () => {
+    const local = lines('import a', '', 'function main() {', '  return 2;', '}', '');
+    const remote = lines('import a', '', 'function main() {', '  return 3;', '}', '');
+
+    const result = threeWayMerge(base, local, remote);
+    const merged = renderMerge(result);
+
+    expect(result.conflictCount).toBe(1);
+    expect(merged).toContain(lines(CONFLICT_MARKERS.local, '  return 2;', CONFLICT_MARKERS.separator, '  return 3;', CONFLICT_MARKERS.remote));
+    expect(hasConflictMarkers(merged)).toBe(true);
+  });
+
+  it('treats insertions at the same place as a conflict', () => {
+    const result = threeWayMerge(lines('a', 'b'), lines('a', 'x', 'b'), lines('a', 'y', 'b'));
+
+    expect(result.conflictCount).toBe(1);
+    expect(result.hunks[0]).toMatchObject({ baseLines: [], localLines: ['x'], remoteLines: ['y'] });
+  });
+
+  it('applies a choice to each hunk', () => {
+    const local = lines('one', 'two local', 'three', 'four local');
+    const remote = lines('one', 'two remote', 'three', 'four');
+    const result = threeWayMerge(lines('one', 'two', 'three', 'four'), local, remote);
+    const [conflict, localOnly] = result.hunks;
+
+    expect(renderMerge(result, { [conflict.id]: 'remote' })).toBe(lines('one', 'two remote', 'three', 'four local'));
+    expect(renderMerge(result, { [conflict.id]: 'both', [localOnly.id]: 'base' })).toBe(
+      lines('one', 'two local', 'two remote', 'three', 'four')
+    );
+    expect(hasConflictMarkers(renderMerge(result, { [conflict.id]: 'local' }))).toBe(false);
+  });
+
+  it('returns the base when neither side changed', () => {
+    const result = threeWayMerge(base, base, base);
+
+    expect(result.hunks).toHaveLength(0);
+    expect(renderMerge(result)).toBe(base);
+  });
+
+  it('only counts a full block of markers as unresolved', () => {
+    expect(hasConflictMarkers(lines('Title', CONFLICT_MARKERS.separator, '', 'Text'))).toBe(false);
+    expect(hasConflictMarkers(lines(CONFLICT_MARKERS.local, 'mine', CONFLICT_MARKERS.separator, 'theirs'))).toBe(false);
+    expect(hasConflictMarkers(lines(CONFLICT_MARKERS.separator, CONFLICT_MARKERS.local, 'mine', CONFLICT_MARKERS.remote))).toBe(false);
+  });
+});
+
+describe('applyChoice', () => {
+  const local = lines('one', 'two local', 'three', 'four local');
+  const remote = lines('one', 'two remote', 'three', 'four remote');
+  const result = threeWayMerge(lines('one', 'two', 'three', 'four'), local, remote);
+  const [first, second] = result.hunks;
+
+  it('keeps hand edits outside the switched hunk', () => {
+    const previous = { [first.id]: 'local' as const, [second.id]: 'local' as const };
+    const edited = lines('zero', 'one', 'two local', 'three', 'four local');
+
+    expect(applyChoice(result, previous, { ...previous, [second.id]: 'remote' }, edited)).toEqual({
+      content: lines('zero', 'one', 'two local', 'three', 'four remote'),
+      overwritesEdits: false
+    });
+  });
+
+  it('reports when the choice replaces a hand edit', () => {
+    const previous = { [first.id]: 'local' as const, [second.id]: 'local' as const };
+    const edited = lines('one', 'two local', 'three', 'four by hand');
+
+    expect(applyChoice(result, previous, { ...previous, [second.id]: 'remote' }, edited)).toEqual({
+      content: lines('one', 'two local', 'three', 'four remote'),
+      overwritesEdits: true
+    });
+  });
+});
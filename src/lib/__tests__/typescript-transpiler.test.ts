@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createRequire } from 'module';
+import { ROOT_LIBS, referencedLibs, transpile } from '../typescriptTranspiler';
+
+// The lib files the worker would load, read straight from the installed compiler
+const loadLibFiles = (): Map<string, string> => {
+  const libDir = dirname(createRequire(import.meta.url).resolve('typescript/lib/lib.es5.d.ts'));
+  const files = new Map<string, string>();
+  const visit = (name: string) => {
+    const fileName = `lib.${name}.d.ts`;
+    if (files.has(fileName)) return;
+    const text = readFileSync(join(libDir, fileName), 'utf8');
+    files.set(fileName, text);
+    referencedLibs(text).forEach(visit);
+  };
+  ROOT_LIBS.forEach(visit);
+  return files;
+};
+
+const run = (js: string, input = '') => {
+  const logs: unknown[][] = [];
+  const fakeConsole = { log: (...args: unknown[]) => logs.push(args) };
+  new Function('console', 'input', js)(fakeConsole, input);
+  return logs;
+};
+
+describe('TypeScript Transpiler', () => {
+  it('should transpile what the old annotation stripping broke', () => {
+    const { js, syntaxErrors } = transpile(`
+      enum Color { Red, Green }
+      interface Point {
+        x: number;
+        y?: number;
+      }
+      const identity = <T,>(value: T): T => value;
+      const sizes = [1, 2] as const;
+      function describe(point: Point, label?: string): string {
+        return \`\${label ?? 'point'} \${point.x}\`;
+      }
+      class Box<T> {
+        constructor(private readonly value: T) {}
+        get(): T { return this.value; }
+      }
+      console.log(Color[Color.Green], identity<number>(sizes[1]), describe({ x: 3 }), new Box('ok').get());
+    `);
+
+    expect(syntaxErrors).toEqual([]);
+    expect(run(js)).toEqual([['Green', 2, 'point 3', 'ok']]);
+  });
+
+  it('should compile standard decorators', () => {
+    const { js, syntaxErrors } = transpile(`
+      function logged(method: (...args: unknown[]) => unknown, context: ClassMethodDecoratorContext) {
+        return function (this: unknown, ...args: unknown[]) {
+          console.log('calling', String(context.name));
+          return method.apply(this, args);
+        };
+      }
+      class Greeter {
+        @logged greet() { console.log('hello'); }
+      }
+      new Greeter().greet();
+    `);
+
+    expect(syntaxErrors).toEqual([]);
+    expect(run(js)).toEqual([['calling', 'greet'], ['hello']]);
+  });
+
+  it('should compile TSX to React.createElement calls', () => {
+    const { js } = transpile('const el = <div className="a">{input}</div>;', { tsx: true });
+    expect(js).toContain('React.createElement("div", { className: "a" }, input)');
+  });
+
+  it('should report syntax errors with their position and produce no code', () => {
+    const { js, syntaxErrors } = transpile('const a = ;\n');
+    expect(js).toBe('');
+    expect(syntaxErrors[0]).toMatchObject({ line: 1, column: 11, category: 'error', message: 'Expression expected.' });
+  });
+
+  it('should report type errors only when lib files are given', () => {
+    const code = 'const count: number = "three";\nconst name = input.trim();\nconsole.log(count, name);';
+    expect(transpile(code).typeErrors).toEqual([]);
+
+    const { js, typeErrors } = transpile(code, { libFiles: loadLibFiles() });
+    expect(js).toContain('const count = "three";');
+    expect(typeErrors).toEqual([
+      expect.objectContaining({ line: 1, column: 7, code: 2322, message: "Type 'string' is not assignable to type 'number'." })
+    ]);
+  });
+});
@@ -4,22 +4,80 @@
  * The iframe uses `sandbox="allow-scripts"` without `allow-same-origin`, so the
  * code executes in an opaque origin: no DOM access to the host page, no cookies,
  * no storage, and no access to the user's Supabase session. The frame is torn
- * down on completion or timeout, which also stops infinite loops.
+ * down on completion, timeout or when the run is stopped, which also stops
+ * infinite loops. Console output is streamed to the host as it is logged.
+ *
+ * Code reads input with `await readline(message?)` (or `await prompt(...)`),
+ * which takes the next line of `input` and, once that runs out, asks the host.
+ * Snippets and modules run as async functions, so `await` works at top level.
  */
 
 export interface SandboxResult {
   success: boolean;
   output: string;
+  /** What the program wrote to standard error, for runtimes that separate it */
+  stderr?: string;
   error?: string;
   executionTime: number;
 }
 
-const TIMEOUT_MS = 5000;
-const MAX_OUTPUT_LENGTH = 50_000;
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface RunOptions {
+  /** Called with each chunk of output while the code runs */
+  onOutput?: (text: string, stream: OutputStream) => void;
+  /** Aborting stops the run */
+  signal?: AbortSignal;
+  /**
+   * Asks the user for a line once the given input is used up; resolves null to end
+   * the input. The run's timeout is paused while it waits. Without it, input simply ends.
+   */
+  onInput?: () => Promise<string | null>;
+}
+
+// Limits shared by every browser sandbox
+export const SANDBOX_TIMEOUT_MS = 5000;
+export const MAX_OUTPUT_LENGTH = 50_000;
+
+export const EXECUTION_STOPPED = 'Execution stopped';
+
+export const truncateOutput = (output: string): string =>
+  output.length > MAX_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_OUTPUT_LENGTH)}\n… output truncated`
+    : output;
+
+/** A run timeout that can be paused while the program waits for the user */
+export const createRunTimer = (onTimeout: () => void, ms: number) => {
+  let remaining = ms;
+  let startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined = setTimeout(onTimeout, remaining);
+  return {
+    pause: () => {
+      if (timer === undefined) return;
+      clearTimeout(timer);
+      timer = undefined;
+      remaining -= Date.now() - startedAt;
+    },
+    resume: () => {
+      if (timer !== undefined) return;
+      startedAt = Date.now();
+      timer = setTimeout(onTimeout, Math.max(remaining, 0));
+    },
+    clear: () => {
+      clearTimeout(timer);
+      timer = undefined;
+    },
+  };
+};
+
+/** Splits a run's pre-filled input into the lines programs read one at a time */
+export const inputLines = (input: string): string[] =>
+  input ? input.replace(/\n$/, '').split('\n') : [];
 
 const RUNNER = `
 <!doctype html><html><body><script>
-  var outputs = [];
+  var runId = null;
+  var lineCount = 0;
   var format = function (v) {
     if (v === null) return 'null';
     if (v === undefined) return 'undefined';
@@ -27,8 +85,11 @@ const RUNNER = `
     if (typeof v === 'object') { try { return JSON.stringify(v, null, 2); } catch (e) { return String(v); } }
     return String(v);
   };
+  // Each line is sent as it is logged, so the host can show output while the code runs
   var push = function (prefix, args) {
-    if (outputs.length < 1000) outputs.push(prefix + Array.prototype.map.call(args, format).join(' '));
+    if (runId === null || lineCount >= 1000) return;
+    lineCount++;
+    parent.postMessage({ type: 'output', id: runId, line: prefix + Array.prototype.map.call(args, format).join(' ') }, '*');
   };
   console.log = function () { push('', arguments); };
   console.error = function () { push('ERROR: ', arguments); };
@@ -36,85 +97,199 @@ const RUNNER = `
   console.info = function () { push('INFO: ', arguments); };
   console.table = function (d) { push('', [d]); };
 
+  var AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+  // Input lines not read yet, then the host is asked for more
+  var pendingLines = [];
+  var inputRequests = {};
+  var inputRequestCount = 0;
+  var readline = function (message) {
+    if (message !== undefined) push('', [message]);
+    if (pendingLines.length > 0) return Promise.resolve(pendingLines.shift());
+    return new Promise(function (resolve) {
+      var request = ++inputRequestCount;
+      inputRequests[request] = resolve;
+      parent.postMessage({ type: 'input-request', id: runId, request: request }, '*');
+    });
+  };
+  window.readline = readline;
+  window.prompt = readline;
+
+  // CommonJS-style loader for projects; each module is evaluated once, on first require.
+  // Resolves once every module loaded so far has finished, including after top-level awaits.
+  var runModules = function (modules, entry, input) {
+    var cache = {};
+    var running = [];
+    var load = function (path) {
+      if (cache[path]) return cache[path].exports;
+      var source = modules[path];
+      var module = { exports: {} };
+      cache[path] = module;
+      if (source.json !== undefined) {
+        module.exports = JSON.parse(source.json);
+        return module.exports;
+      }
+      var require = function (specifier) {
+        var target = source.dependencies[specifier];
+        if (!target) throw new Error("Cannot find module '" + specifier + "' from " + path);
+        return load(target);
+      };
+      var fn = new AsyncFunction('require', 'module', 'exports', 'input', source.code + '\\n//# sourceURL=' + path);
+      running.push(fn(require, module, module.exports, input));
+      return module.exports;
+    };
+    load(entry);
+    return Promise.all(running);
+  };
+
   window.addEventListener('message', function (event) {
     var data = event.data || {};
-    if (data.type !== 'run') return;
+    if (data.type === 'input' && inputRequests[data.request]) {
+      inputRequests[data.request](data.value);
+      delete inputRequests[data.request];
+      return;
+    }
+    if (data.type !== 'run' && data.type !== 'run-modules') return;
+    runId = data.id;
+    pendingLines = data.input ? data.input.replace(/\\n$/, '').split('\\n') : [];
     var reply = function (payload) {
-      parent.postMessage({ type: 'result', id: data.id, outputs: outputs, ...payload }, '*');
+      parent.postMessage({ type: 'result', id: data.id, ...payload }, '*');
+    };
+    var fail = function (err) {
+      if (data.type === 'run-modules' && err instanceof Error) {
+        reply({ success: false, error: err.name + ': ' + err.message, stack: String(err.stack || '') });
+        return;
+      }
+      reply({ success: false, error: String((err && err.message) || err) });
     };
     try {
-      var fn = new Function('input', '"use strict";' + data.code);
-      Promise.resolve(fn(data.input || ''))
+      var run = data.type === 'run-modules'
+        ? runModules(data.modules, data.entry, data.input || '')
+        : new AsyncFunction('input', '"use strict";' + data.code)(data.input || '');
+      run
         .then(function () { reply({ success: true }); })
-        .catch(function (err) { reply({ success: false, error: String((err && err.message) || err) }); });
+        .catch(fail);
     } catch (err) {
-      reply({ success: false, error: String((err && err.message) || err) });
+      fail(err);
     }
   });
   parent.postMessage({ type: 'ready' }, '*');
 <\/script></body></html>
 `;
 
-/** Strips the most common TypeScript annotations so TS snippets can run as JS. */
-export const stripTypeScript = (code: string): string =>
-  code
-    .replace(/interface\s+\w+\s*\{[^}]*\}/gs, '')
-    .replace(/type\s+\w+\s*=\s*[^;]+;/g, '')
-    .replace(/\bas\s+\w+/g, '')
-    .replace(/:\s*(string|number|boolean|any|void|object|unknown|never)(\[\])?\s*([=,)\{;])/g, '$3');
+/** A project file prepared for `runModulesInBrowserSandbox` */
+export type SandboxModule =
+  | { code: string; dependencies: Record<string, string> }
+  | { json: string };
+
+export interface ModuleSandboxResult extends SandboxResult {
+  /** Stack trace of the uncaught error, with frames named by module path */
+  stack?: string;
+}
+
+type RunRequest =
+  | { type: 'run'; code: string; input: string }
+  | { type: 'run-modules'; modules: Record<string, SandboxModule>; entry: string; input: string };
 
-export const runInBrowserSandbox = (code: string, input?: string): Promise<SandboxResult> => {
+const runInFrame = (request: RunRequest, { onOutput, signal, onInput }: RunOptions): Promise<ModuleSandboxResult> => {
   const startTime = Date.now();
 
-  return new Promise<SandboxResult>((resolve) => {
+  return new Promise<ModuleSandboxResult>((resolve) => {
+    if (signal?.aborted) {
+      resolve({ success: false, output: '', error: EXECUTION_STOPPED, executionTime: 0 });
+      return;
+    }
+
     const id = `run-${Date.now()}-${Math.random().toString(36).slice(2)}`;
     const iframe = document.createElement('iframe');
     iframe.setAttribute('sandbox', 'allow-scripts');
     iframe.style.display = 'none';
     iframe.srcdoc = RUNNER;
 
+    // Output received so far, which a timed-out or stopped run still returns
+    const lines: string[] = [];
+
     let settled = false;
-    const finish = (result: SandboxResult) => {
+    const finish = (result: Omit<ModuleSandboxResult, 'output' | 'executionTime'>) => {
       if (settled) return;
       settled = true;
-      clearTimeout(timer);
+      timer.clear();
       window.removeEventListener('message', onMessage);
+      signal?.removeEventListener('abort', onAbort);
       iframe.remove();
+      const output = lines.join('\n');
       resolve({
         ...result,
-        output: result.output.length > MAX_OUTPUT_LENGTH
-          ? `${result.output.slice(0, MAX_OUTPUT_LENGTH)}\n… output truncated`
-          : result.output,
+        output: truncateOutput(result.success ? (output || '(No output)') : output),
+        executionTime: Date.now() - startTime,
       });
     };
 
-    const timer = setTimeout(() => {
-      finish({
-        success: false,
-        output: '',
-        error: `Execution timeout (${TIMEOUT_MS / 1000} seconds)`,
-        executionTime: Date.now() - startTime,
+    const timer = createRunTimer(() => {
+      finish({ success: false, error: `Execution timeout (${SANDBOX_TIMEOUT_MS / 1000} seconds)` });
+    }, SANDBOX_TIMEOUT_MS);
+
+    const onAbort = () => finish({ success: false, error: EXECUTION_STOPPED });
+
+    // The user is asked one line at a time, with the clock stopped while they answer
+    let waitingForInput = Promise.resolve();
+    const answerInputRequest = (inputRequest: number) => {
+      waitingForInput = waitingForInput.then(async () => {
+        if (settled) return;
+        timer.pause();
+        const value = onInput ? await onInput().catch(() => null) : null;
+        if (settled) return;
+        timer.resume();
+        iframe.contentWindow?.postMessage({ type: 'input', request: inputRequest, value }, '*');
       });
-    }, TIMEOUT_MS);
+    };
 
     const onMessage = (event: MessageEvent) => {
       if (event.source !== iframe.contentWindow) return;
-      const data = event.data as { type?: string; id?: string; outputs?: string[]; success?: boolean; error?: string };
+      const data = event.data as {
+        type?: string;
+        id?: string;
+        line?: string;
+        request?: number;
+        success?: boolean;
+        error?: string;
+        stack?: string;
+      };
       if (data?.type === 'ready') {
-        iframe.contentWindow?.postMessage({ type: 'run', id, code, input: input || '' }, '*');
+        iframe.contentWindow?.postMessage({ ...request, id }, '*');
         return;
       }
-      if (data?.type !== 'result' || data.id !== id) return;
-      const output = (data.outputs || []).join('\n');
-      finish({
-        success: !!data.success,
-        output: data.success ? (output || '(No output)') : output,
-        error: data.error,
-        executionTime: Date.now() - startTime,
-      });
+      if (data?.id !== id) return;
+      if (data.type === 'output' && typeof data.line === 'string') {
+        lines.push(data.line);
+        onOutput?.(data.line, 'stdout');
+        return;
+      }
+      if (data.type === 'input-request' && typeof data.request === 'number') {
+        answerInputRequest(data.request);
+        return;
+      }
+      if (data.type !== 'result') return;
+      finish({ success: !!data.success, error: data.error, stack: data.stack || undefined });
     };
 
     window.addEventListener('message', onMessage);
+    signal?.addEventListener('abort', onAbort);
     document.body.appendChild(iframe);
   });
 };
+
+export const runInBrowserSandbox = (code: string, input?: string, options: RunOptions = {}): Promise<SandboxResult> =>
+  runInFrame({ type: 'run', code, input: input || '' }, options);
+
+/**
+ * Runs a project of CommonJS-style modules, keyed by path, starting at `entry`.
+ * Each module's `dependencies` maps the specifiers it requires to module paths.
+ */
+export const runModulesInBrowserSandbox = (
+  modules: Record<string, SandboxModule>,
+  entry: string,
+  input?: string,
+  options: RunOptions = {}
+): Promise<ModuleSandboxResult> =>
+  runInFrame({ type: 'run-modules', modules, entry, input: input || '' }, options);
@@ -1,27 +1,131 @@
 import { supabase } from '@/integrations/supabase/client';
-import { runInBrowserSandbox, stripTypeScript } from '@/lib/browserSandbox';
+import { EXECUTION_STOPPED, runInBrowserSandbox, RunOptions } from '@/lib/browserSandbox';
+import { runPythonInSandbox } from '@/lib/pythonSandbox';
+import { formatDiagnostic, transpileTypeScript, TypeDiagnostic } from '@/lib/typescriptWorker';
 
 interface ExecuteResult {
   success: boolean;
   output: string;
+  stderr?: string;
   error?: string;
+  /** Type errors found in TypeScript code; they are reported, not fatal */
+  typeErrors?: TypeDiagnostic[];
   executionTime: number;
 }
 
+interface ExecuteOptions extends RunOptions {
+  /** Type-check TypeScript before running it */
+  checkTypes?: boolean;
+}
+
+// What the edge function sends when asked to stream: output lines, then the result
+type ExecutionEvent =
+  | { type: 'output'; line: string }
+  | ({ type: 'result' } & ExecuteResult);
+
 const BROWSER_SANDBOXED = new Set(['javascript', 'jsx', 'typescript', 'tsx']);
+const TRANSPILED = new Set(['jsx', 'typescript', 'tsx']);
+
+// TypeScript and JSX are compiled by the TypeScript compiler; only syntax errors stop them running
+const runTranspiled = async (
+  code: string,
+  lang: string,
+  input: string | undefined,
+  { checkTypes = false, ...options }: ExecuteOptions
+): Promise<ExecuteResult> => {
+  const startTime = Date.now();
+  try {
+    const { js, syntaxErrors, typeErrors } = await transpileTypeScript(code, {
+      tsx: lang !== 'typescript',
+      checkTypes: checkTypes && lang !== 'jsx',
+    });
+    if (syntaxErrors.length > 0) {
+      return {
+        success: false,
+        output: '',
+        error: syntaxErrors.map(formatDiagnostic).join('\n'),
+        executionTime: Date.now() - startTime,
+      };
+    }
+
+    const result = await runInBrowserSandbox(js, input, options);
+    return typeErrors.length > 0 ? { ...result, typeErrors } : result;
+  } catch (err) {
+    return {
+      success: false,
+      output: '',
+      error: err instanceof Error ? err.message : 'Failed to compile TypeScript',
+      executionTime: Date.now() - startTime,
+    };
+  }
+};
+
+// Reads the edge function's server-sent events until the result arrives or the run is stopped
+const readExecutionStream = async (
+  response: Response,
+  { onOutput, signal }: RunOptions
+): Promise<ExecuteResult> => {
+  const startTime = Date.now();
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Empty response from the execution service');
+
+  const onAbort = () => void reader.cancel();
+  signal?.addEventListener('abort', onAbort);
+  const decoder = new TextDecoder();
+  const lines: string[] = [];
+  let buffer = '';
+
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        const data = event.split('\n').find(line => line.startsWith('data: '));
+        if (!data) continue;
+        const message = JSON.parse(data.slice('data: '.length)) as ExecutionEvent;
+        if (message.type === 'result') {
+          const { type: _type, ...result } = message;
+          return result;
+        }
+        lines.push(message.line);
+        onOutput?.(message.line, 'stdout');
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  return {
+    success: false,
+    output: lines.join('\n'),
+    error: signal?.aborted ? EXECUTION_STOPPED : 'The execution service closed the connection',
+    executionTime: Date.now() - startTime,
+  };
+};
 
 export const executeCode = async (
   code: string,
   language: string,
-  input?: string
+  input?: string,
+  options: ExecuteOptions = {}
 ): Promise<ExecuteResult> => {
   const lang = language.toLowerCase();
 
   // JS/TS run locally in a sandboxed iframe (opaque origin, no session access),
   // which keeps untrusted code away from any server privileges.
   if (BROWSER_SANDBOXED.has(lang)) {
-    const source = lang.startsWith('t') ? stripTypeScript(code) : code;
-    return runInBrowserSandbox(source, input);
+    return TRANSPILED.has(lang)
+      ? runTranspiled(code, lang, input, options)
+      : runInBrowserSandbox(code, input, options);
+  }
+
+  // Python runs in Pyodide in a Web Worker, with `input` as standard input
+  if (lang === 'python') {
+    return runPythonInSandbox(code, input, options);
   }
 
   try {
@@ -36,20 +140,23 @@ export const executeCode = async (
       };
     }
 
+    // Stream when the caller shows output live or can stop the run
+    const stream = !!(options.onOutput || options.signal);
     const { data, error } = await supabase.functions.invoke('execute-code', {
-      body: { code, language, input }
+      body: { code, language, input, stream },
+      signal: options.signal,
     });
 
     if (error) {
       return {
         success: false,
         output: '',
-        error: error.message || 'Failed to execute code',
+        error: options.signal?.aborted ? EXECUTION_STOPPED : error.message || 'Failed to execute code',
         executionTime: 0
       };
     }
 
-    return data as ExecuteResult;
+    return data instanceof Response ? readExecutionStream(data, options) : data as ExecuteResult;
   } catch (err) {
     return {
       success: false,
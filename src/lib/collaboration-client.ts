@@ -14,6 +14,7 @@ import {
   validateUpdateFileRequest,
   safeValidateCollaborationFile,
 } from './collaboration-schemas';
+import { isVersionConflict } from './collaboration-errors';
 
 /**
  * Collaboration client utilities for Supabase operations
@@ -425,6 +426,10 @@ export class CollaborationClient {
  * Error handling utilities
  */
 export const handleCollaborationError = (error: unknown): CollaborationError => {
+  if (isVersionConflict(error)) {
+    return { message: error.message, code: error.code, details: error.details };
+  }
+
   if (error instanceof Error) {
     return {
       message: error.message,
@@ -0,0 +1,19 @@
+import { CollaborationError, CollaborationFile } from '@/types/collaboration';
+
+/**
+ * A write that expected one version of a file after the server moved past it
+ * Carries the server's copy so the caller can merge instead of overwriting it.
+ */
+export class VersionConflictError extends Error implements CollaborationError {
+  readonly code = 'VERSION_CONFLICT';
+  readonly details: { expectedVersion: number; serverFile: CollaborationFile };
+
+  constructor(expectedVersion: number, serverFile: CollaborationFile) {
+    super(`Version conflict: expected version ${expectedVersion}, but current version is ${serverFile.version}`);
+    this.name = 'VersionConflictError';
+    this.details = { expectedVersion, serverFile };
+  }
+}
+
+export const isVersionConflict = (error: unknown): error is VersionConflictError =>
+  error instanceof VersionConflictError;
@@ -5,7 +5,7 @@
 
 import { collaborationFileService } from './collaboration-file-service';
 import { collaborationSyncService } from './collaboration-sync-service';
-import { CollaborationFile, EditorChange } from '@/types/collaboration';
+import { CollaborationFile, EditorChange, FileVersionConflict } from '@/types/collaboration';
 
 /**
  * Example class showing how to use the collaboration services together
@@ -44,6 +44,10 @@ export class CollaborationExample {
         console.log('Conflicts detected for file:', fileId, conflicts);
         this.onConflictsDetected(fileId, conflicts);
       },
+      onVersionConflict: (conflict) => {
+        console.log('Save conflicts with version', conflict.serverFile.version, 'of', conflict.fileName);
+        this.onVersionConflict(conflict);
+      },
       onSyncError: (error) => {
         console.error('Sync error:', error);
         this.onSyncError(error);
@@ -109,7 +113,7 @@ export class CollaborationExample {
     }
 
     // Queue the change for synchronization
-    await collaborationSyncService.queueChange(this.currentFile.id, change);
+    await collaborationSyncService.queueChange(this.currentFile.id, change, this.currentFile.content);
     
     console.log('Queued change for file:', this.currentFile.name);
   }
@@ -117,15 +121,16 @@ export class CollaborationExample {
   /**
    * Update file content directly (for larger changes)
    */
-  async updateFileContent(content: string): Promise<CollaborationFile> {
+  async updateFileContent(content: string): Promise<CollaborationFile | null> {
     if (!this.currentFile) {
       throw new Error('No file selected');
     }
 
-    const updatedFile = await collaborationFileService.updateFile(this.currentFile.id, {
-      content,
-      version: this.currentFile.version,
-    });
+    // A teammate's save since this file was loaded comes back through onVersionConflict
+    const updatedFile = await collaborationSyncService.saveFile(this.currentFile, content);
+    if (!updatedFile) {
+      return null;
+    }
 
     this.currentFile = updatedFile;
     console.log('Updated file content, new version:', updatedFile.version);
@@ -224,6 +229,10 @@ export class CollaborationExample {
     // Override in subclass to handle conflicts
   }
 
+  protected onVersionConflict(conflict: FileVersionConflict): void {
+    // Override in subclass to show the conflict modal for a three-way merge
+  }
+
   protected onSyncError(error: any): void {
     // Override in subclass to handle sync errors
   }
@@ -9,6 +9,7 @@ import {
   validateCreateFileRequest, 
   validateUpdateFileRequest,
 } from '@/lib/collaboration-schemas';
+import { VersionConflictError } from '@/lib/collaboration-errors';
 
 // Define the row type manually since the table was just created
 interface CollaborationFileRow {
@@ -231,6 +232,8 @@ export class CollaborationFileService {
 
   /**
    * Updates a collaboration file with conflict detection
+   * The write only lands if the file is still at `request.version`; otherwise it
+   * fails with a VersionConflictError carrying the server's copy.
    */
   async updateFile(fileId: string, request: UpdateFileRequest): Promise<CollaborationFile> {
     try {
@@ -245,9 +248,7 @@ export class CollaborationFileService {
 
       // Check for version conflicts
       if (currentFile.version !== validatedRequest.version) {
-        throw new Error(
-          `Version conflict: expected version ${validatedRequest.version}, but current version is ${currentFile.version}`
-        );
+        throw new VersionConflictError(validatedRequest.version, currentFile);
       }
 
       // Prepare update data
@@ -264,18 +265,23 @@ export class CollaborationFileService {
         updateData.language = validatedRequest.language;
       }
 
-      // Update file in database
+      // Update file in database, unless someone else saved since it was read
       const { data, error } = await supabase
         .from('collaboration_files' as any)
         .update(updateData)
         .eq('id', fileId)
+        .eq('version', currentFile.version)
         .select()
-        .single();
+        .maybeSingle();
 
       if (error) {
         throw new Error(`Failed to update file: ${error.message}`);
       }
 
+      if (!data) {
+        throw await this.versionConflict(fileId, validatedRequest.version);
+      }
+
       return mapRowToCollaborationFile(data as unknown as CollaborationFileRow);
     } catch (error) {
       if (error instanceof Error) {
@@ -306,6 +312,14 @@ export class CollaborationFileService {
     }
   }
 
+  /**
+   * The error for a conditional write that matched no row: the file moved on, or is gone
+   */
+  private async versionConflict(fileId: string, expectedVersion: number): Promise<Error> {
+    const serverFile = await this.getFile(fileId);
+    return serverFile ? new VersionConflictError(expectedVersion, serverFile) : new Error('File not found');
+  }
+
   /**
    * Gets the latest version number of a file
    */
@@ -323,8 +337,9 @@ export class CollaborationFileService {
 
   /**
    * Applies file changes
+   * With `expectedVersion`, fails with a VersionConflictError if the file has moved past it.
    */
-  async applyFileChanges(fileId: string, content: string): Promise<number> {
+  async applyFileChanges(fileId: string, content: string, expectedVersion?: number): Promise<number> {
     try {
       // Get current user
       const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -338,22 +353,32 @@ export class CollaborationFileService {
         throw new Error('File not found');
       }
 
+      if (expectedVersion !== undefined && currentFile.version !== expectedVersion) {
+        throw new VersionConflictError(expectedVersion, currentFile);
+      }
+
       const newVersion = currentFile.version + 1;
 
-      // Update the file
-      const { error } = await supabase
+      // Update the file, unless someone else saved since it was read
+      const { data, error } = await supabase
         .from('collaboration_files' as any)
         .update({
           content,
           version: newVersion,
           updated_at: new Date().toISOString(),
         })
-        .eq('id', fileId);
+        .eq('id', fileId)
+        .eq('version', currentFile.version)
+        .select('id');
 
       if (error) {
         throw new Error(`Failed to apply file changes: ${error.message}`);
       }
 
+      if (!data || data.length === 0) {
+        throw await this.versionConflict(fileId, expectedVersion ?? currentFile.version);
+      }
+
       return newVersion;
     } catch (error) {
       if (error instanceof Error) {
@@ -91,40 +91,24 @@ export const joinSessionRequestSchema = z.object({
   user: collaborationUserSchema.omit({ lastActivity: true }),
 });
 
-// Socket.IO event validation schemas
-export const joinCollaborationEventSchema = z.object({
-  groupId: z.string().uuid(),
-  user: collaborationUserSchema,
-});
-
-export const leaveCollaborationEventSchema = z.object({
-  groupId: z.string().uuid(),
-  userId: z.string().uuid(),
-});
-
-export const cursorUpdateEventSchema = z.object({
-  groupId: z.string().uuid(),
-  fileId: z.string().uuid(),
-  cursor: cursorPositionSchema,
-});
-
-export const selectionUpdateEventSchema = z.object({
-  groupId: z.string().uuid(),
-  fileId: z.string().uuid(),
-  selection: textSelectionSchema,
-});
-
-export const typingEventSchema = z.object({
-  groupId: z.string().uuid(),
-  fileId: z.string().uuid(),
-  userId: z.string().uuid(),
-});
-
-export const fileSwitchEventSchema = z.object({
-  groupId: z.string().uuid(),
-  fileId: z.string().uuid(),
-  userId: z.string().uuid(),
-});
+// Socket.IO event validation schemas, shared with the socket server
+export {
+  clientEventSchemas,
+  cursorUpdateEventSchema,
+  fileSwitchEventSchema,
+  joinCollaborationEventSchema,
+  leaveCollaborationEventSchema,
+  parseClientEvent,
+  presenceSettingsEventSchema,
+  selectionUpdateEventSchema,
+  typingEventSchema,
+} from '../../server/socket-event-schemas';
+export type {
+  ClientEventName,
+  ClientEventPayload,
+  ClientToServerEvents,
+  ValidationError as ValidationErrorEvent,
+} from '../../server/socket-event-schemas';
 
 // Utility functions for validation
 export const validateCollaborationFile = (data: unknown) => {
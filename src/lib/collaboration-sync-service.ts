@@ -3,9 +3,14 @@ import {
   CollaborationFile, 
   EditorChange, 
   FileChange,
+  FileVersionConflict,
   CollaborationError 
 } from '@/types/collaboration';
 import { collaborationFileService } from './collaboration-file-service';
+import { isVersionConflict } from './collaboration-errors';
+import { OperationalTransform, OperationConflict, offsetToPosition } from './operational-transform';
+import { conflictResolutionService } from './conflict-resolution-service';
+import { LEGACY_STORAGE_KEY, OfflineChangeStore, QueuedChange, createOfflineChangeStore } from './offline-change-store';
 import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 
 /**
@@ -16,149 +21,19 @@ export interface SyncEventCallbacks {
   onFileCreated?: (file: CollaborationFile) => void;
   onFileDeleted?: (fileId: string) => void;
   onConflictDetected?: (fileId: string, conflicts: EditorChange[]) => void;
+  onVersionConflict?: (conflict: FileVersionConflict) => void;
   onSyncError?: (error: CollaborationError) => void;
   onConnectionStatusChanged?: (connected: boolean) => void;
 }
 
 /**
- * Interface for queued changes during offline mode
+ * A parked change and the server copy it conflicts with, both made to `baseContent`
  */
-interface QueuedChange {
+export interface ParkedConflict {
   id: string;
   fileId: string;
-  change: EditorChange;
-  timestamp: number;
-  retryCount: number;
-}
-
-/**
- * Operational transformation utilities
- */
-class OperationalTransform {
-  /**
-   * Transforms two concurrent operations
-   */
-  static transform(op1: EditorChange, op2: EditorChange): EditorChange[] {
-    // Simple operational transformation for text operations
-    // This is a basic implementation - in production, you'd want a more robust OT library
-    
-    const result: EditorChange[] = [];
-    
-    // If operations don't overlap, both can be applied as-is
-    if (!this.operationsOverlap(op1, op2)) {
-      result.push(op1, op2);
-      return result;
-    }
-    
-    // Handle overlapping operations
-    if (op1.timestamp < op2.timestamp) {
-      // op1 happened first, transform op2 based on op1
-      const transformedOp2 = this.transformOperation(op2, op1);
-      result.push(op1, transformedOp2);
-    } else {
-      // op2 happened first, transform op1 based on op2
-      const transformedOp1 = this.transformOperation(op1, op2);
-      result.push(op2, transformedOp1);
-    }
-    
-    return result;
-  }
-
-  /**
-   * Checks if two operations overlap
-   */
-  private static operationsOverlap(op1: EditorChange, op2: EditorChange): boolean {
-    const op1Start = this.getAbsolutePosition(op1.range.startLineNumber, op1.range.startColumn);
-    const op1End = this.getAbsolutePosition(op1.range.endLineNumber, op1.range.endColumn);
-    const op2Start = this.getAbsolutePosition(op2.range.startLineNumber, op2.range.startColumn);
-    const op2End = this.getAbsolutePosition(op2.range.endLineNumber, op2.range.endColumn);
-    
-    return !(op1End <= op2Start || op2End <= op1Start);
-  }
-
-  /**
-   * Transforms an operation based on another operation that happened before it
-   */
-  private static transformOperation(op: EditorChange, baseOp: EditorChange): EditorChange {
-    // Simple transformation: adjust positions based on the base operation
-    const baseOpStart = this.getAbsolutePosition(baseOp.range.startLineNumber, baseOp.range.startColumn);
-    const baseOpEnd = this.getAbsolutePosition(baseOp.range.endLineNumber, baseOp.range.endColumn);
-    const opStart = this.getAbsolutePosition(op.range.startLineNumber, op.range.startColumn);
-    
-    let offset = 0;
-    if (baseOp.text.length > baseOp.rangeLength) {
-      // Insertion
-      offset = baseOp.text.length - baseOp.rangeLength;
-    } else if (baseOp.text.length < baseOp.rangeLength) {
-      // Deletion
-      offset = baseOp.text.length - baseOp.rangeLength;
-    }
-    
-    // Adjust operation position if it comes after the base operation
-    if (opStart >= baseOpEnd) {
-      const newPosition = this.getLineColumnFromAbsolute(opStart + offset);
-      return {
-        ...op,
-        range: {
-          ...op.range,
-          startLineNumber: newPosition.line,
-          startColumn: newPosition.column,
-        }
-      };
-    }
-    
-    return op;
-  }
-
-  /**
-   * Converts line/column to absolute position (simplified)
-   */
-  private static getAbsolutePosition(line: number, column: number): number {
-    // Simplified calculation - in reality, you'd need the actual document content
-    return (line - 1) * 100 + column; // Assuming average line length of 100
-  }
-
-  /**
-   * Converts absolute position back to line/column (simplified)
-   */
-  private static getLineColumnFromAbsolute(position: number): { line: number; column: number } {
-    const line = Math.floor(position / 100) + 1;
-    const column = position % 100;
-    return { line, column };
-  }
-
-  /**
-   * Applies an operation to text content
-   */
-  static applyOperation(content: string, operation: EditorChange): string {
-    const lines = content.split('\n');
-    const startLine = operation.range.startLineNumber - 1;
-    const endLine = operation.range.endLineNumber - 1;
-    const startCol = operation.range.startColumn - 1;
-    const endCol = operation.range.endColumn - 1;
-
-    if (startLine === endLine) {
-      // Single line operation
-      const line = lines[startLine];
-      const before = line.substring(0, startCol);
-      const after = line.substring(endCol);
-      lines[startLine] = before + operation.text + after;
-    } else {
-      // Multi-line operation
-      const firstLine = lines[startLine].substring(0, startCol);
-      const lastLine = lines[endLine].substring(endCol);
-      const newLines = operation.text.split('\n');
-      
-      // Replace the affected lines
-      const replacement = [firstLine + newLines[0]];
-      replacement.push(...newLines.slice(1, -1));
-      replacement.push(newLines[newLines.length - 1] + lastLine);
-      
-      lines.splice(startLine, endLine - startLine + 1, ...replacement);
-    }
-
-    return lines.join('\n');
-  }
+  conflict: OperationConflict;
+  baseContent: string;
 }
 
 /**
@@ -167,15 +42,21 @@ class OperationalTransform {
 export class CollaborationSyncService {
   private channels: Map<string, RealtimeChannel> = new Map();
   private callbacks: SyncEventCallbacks = {};
-  private changeQueue: QueuedChange[] = [];
+  private changeQueue: QueuedChange[] = []; // In queue order; mirrors the offline store
+  private inFlight: Set<string> = new Set();
+  private queueListeners: Set<(pending: number) => void> = new Set();
+  private loaded: Promise<void>;
+  private nextSequence = 1;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
   private isOnline: boolean = true;
   private syncInProgress: boolean = false;
-  private readonly MAX_RETRY_COUNT = 3;
+  private readonly MAX_RETRY_COUNT = 3; // Failures before the change is reported; it is still retried
   private readonly RETRY_DELAY = 1000; // 1 second
+  private readonly MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
 
-  constructor() {
+  constructor(private readonly store: OfflineChangeStore = createOfflineChangeStore()) {
     this.setupConnectionMonitoring();
-    this.loadQueuedChanges();
+    this.loaded = this.loadQueuedChanges();
   }
 
   /**
@@ -186,7 +67,7 @@ export class CollaborationSyncService {
     window.addEventListener('online', () => {
       this.isOnline = true;
       this.callbacks.onConnectionStatusChanged?.(true);
-      this.processPendingChanges();
+      this.retryNow();
     });
 
     window.addEventListener('offline', () => {
@@ -313,7 +194,9 @@ export class CollaborationSyncService {
         const change = payload.new;
         
         // Check if this change conflicts with any pending changes
-        const conflicts = await this.detectConflicts(change.file_id, change);
+        const file = await collaborationFileService.getFile(change.file_id);
+        if (!file) return;
+        const conflicts = await this.detectConflicts(change.file_id, change, file.content);
         if (conflicts.length > 0) {
           this.callbacks.onConflictDetected?.(change.file_id, conflicts);
         }
@@ -325,109 +208,313 @@ export class CollaborationSyncService {
 
   /**
    * Queues a change for synchronization
+   * Given `content`, the document the change was made to, consecutive changes
+   * to a file are compacted into one while they wait.
    */
-  async queueChange(fileId: string, change: EditorChange): Promise<void> {
-    const queuedChange: QueuedChange = {
-      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      fileId,
-      change,
-      timestamp: Date.now(),
-      retryCount: 0,
-    };
-
-    this.changeQueue.push(queuedChange);
-    this.saveQueuedChanges();
+  async queueChange(fileId: string, change: EditorChange, content?: string): Promise<void> {
+    await this.loaded;
+
+    const last = this.lastQueuedFor(fileId);
+    if (content !== undefined && last && this.canCompact(last, content)) {
+      last.change = OperationalTransform.compose([last.change, change], last.baseContent);
+      last.timestamp = Date.now();
+      await this.saveQueuedChanges([last]);
+    } else {
+      const queuedChange: QueuedChange = {
+        id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        fileId,
+        sequence: this.nextSequence++,
+        change,
+        baseContent: content,
+        timestamp: Date.now(),
+        retryCount: 0,
+        nextAttemptAt: 0,
+      };
+      this.changeQueue.push(queuedChange);
+      await this.saveQueuedChanges([queuedChange]);
+    }
+    this.notifyQueueChanged();
 
     if (this.isOnline) {
       await this.processPendingChanges();
     }
   }
 
+  private lastQueuedFor(fileId: string): QueuedChange | undefined {
+    for (let i = this.changeQueue.length - 1; i >= 0; i--) {
+      if (this.changeQueue[i].fileId === fileId) return this.changeQueue[i];
+    }
+    return undefined;
+  }
+
+  // Only a change nobody has tried to send yet can absorb the edit that follows it
+  private canCompact(last: QueuedChange, content: string): boolean {
+    return (
+      last.baseContent !== undefined &&
+      last.retryCount === 0 &&
+      !last.parked &&
+      !this.inFlight.has(last.id) &&
+      OperationalTransform.apply(last.baseContent, last.change) === content
+    );
+  }
+
   /**
    * Processes pending changes in the queue
+   * Each file's changes go out in order; a failure or a parked conflict holds back the rest of that file's changes.
    */
   private async processPendingChanges(): Promise<void> {
-    if (this.syncInProgress || !this.isOnline || this.changeQueue.length === 0) {
+    if (this.syncInProgress || !this.isOnline) {
       return;
     }
 
     this.syncInProgress = true;
 
     try {
-      const changesToProcess = [...this.changeQueue];
-      this.changeQueue = [];
-
-      for (const queuedChange of changesToProcess) {
-        try {
-          await this.applyQueuedChange(queuedChange);
-        } catch (error) {
-          console.error('Error applying queued change:', error);
-          
-          // Retry logic
-          if (queuedChange.retryCount < this.MAX_RETRY_COUNT) {
-            queuedChange.retryCount++;
-            this.changeQueue.push(queuedChange);
-            
-            // Exponential backoff
-            setTimeout(() => {
-              this.processPendingChanges();
-            }, this.RETRY_DELAY * Math.pow(2, queuedChange.retryCount));
-          } else {
-            // Max retries reached, report error
-            this.callbacks.onSyncError?.({
-              message: `Failed to sync change after ${this.MAX_RETRY_COUNT} retries`,
-              code: 'SYNC_RETRY_EXCEEDED',
-              details: queuedChange,
-            });
+      await this.loaded;
+      const now = Date.now();
+
+      for (const fileId of new Set(this.changeQueue.map(queued => queued.fileId))) {
+        for (const queuedChange of this.changeQueue.filter(queued => queued.fileId === fileId)) {
+          if (queuedChange.parked || queuedChange.nextAttemptAt > now) break;
+
+          this.inFlight.add(queuedChange.id);
+          try {
+            if (!(await this.applyQueuedChange(queuedChange))) break;
+            this.changeQueue = this.changeQueue.filter(queued => queued !== queuedChange);
+            await this.removeQueuedChanges([queuedChange.id]);
+          } catch (error) {
+            console.error('Error applying queued change:', error);
+            await this.recordFailure(queuedChange);
+            break;
+          } finally {
+            this.inFlight.delete(queuedChange.id);
           }
         }
       }
-
-      this.saveQueuedChanges();
     } finally {
       this.syncInProgress = false;
+      this.notifyQueueChanged();
+      this.scheduleRetry();
     }
   }
 
+  /**
+   * Backs a failed change off exponentially; it stays queued however often it fails
+   */
+  private async recordFailure(queuedChange: QueuedChange): Promise<void> {
+    queuedChange.retryCount++;
+    queuedChange.nextAttemptAt = Date.now() +
+      Math.min(this.RETRY_DELAY * Math.pow(2, queuedChange.retryCount), this.MAX_RETRY_DELAY);
+
+    if (queuedChange.retryCount === this.MAX_RETRY_COUNT + 1) {
+      this.callbacks.onSyncError?.({
+        message: `Failed to sync change after ${this.MAX_RETRY_COUNT} retries; it will keep retrying`,
+        code: 'SYNC_RETRY_EXCEEDED',
+        details: queuedChange,
+      });
+    }
+
+    await this.saveQueuedChanges([queuedChange]);
+  }
+
+  /**
+   * Wakes the queue when the next file's change is due
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.isOnline || this.changeQueue.length === 0) return;
+
+    const heads = new Map<string, QueuedChange>();
+    this.changeQueue.forEach(queued => {
+      if (!heads.has(queued.fileId)) heads.set(queued.fileId, queued);
+    });
+    const waiting = [...heads.values()].filter(queued => !queued.parked);
+    if (waiting.length === 0) return;
+    const due = Math.min(...waiting.map(queued => queued.nextAttemptAt));
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processPendingChanges();
+    }, Math.max(0, due - Date.now()));
+  }
+
   /**
    * Applies a queued change to the server
+   * @returns false if the change conflicts with the server's copy and was parked instead
    */
-  private async applyQueuedChange(queuedChange: QueuedChange): Promise<void> {
+  private async applyQueuedChange(queuedChange: QueuedChange): Promise<boolean> {
     // Get current file to check for conflicts
     const currentFile = await collaborationFileService.getFile(queuedChange.fileId);
     if (!currentFile) {
       throw new Error('File not found');
     }
 
-    // Check for version conflicts
-    if (currentFile.version !== queuedChange.change.version) {
-      // Conflict detected, need to resolve
-      const conflicts = await this.resolveConflicts(queuedChange.fileId, [queuedChange.change]);
+    let change = queuedChange.change;
+    if (currentFile.version !== change.version) {
+      const conflicts = await this.resolveConflicts(queuedChange.fileId, [change], currentFile.content);
       if (conflicts.length > 0) {
-        this.callbacks.onConflictDetected?.(queuedChange.fileId, conflicts);
-        return;
+        await this.park(queuedChange, currentFile, conflicts);
+        return false;
+      }
+
+      // Move the change past whatever was saved since the document it was made to
+      const base = queuedChange.baseContent;
+      if (base !== undefined && base !== currentFile.content) {
+        const saved: EditorChange = {
+          ...OperationalTransform.diff(base, currentFile.content),
+          userId: '', // The file does not record who saved it
+          timestamp: currentFile.updatedAt.getTime(),
+          version: currentFile.version,
+        };
+        if (OperationalTransform.overlaps(change, saved, base)) {
+          await this.park(queuedChange, currentFile, [change, saved]);
+          return false;
+        }
+        change = OperationalTransform.transform(change, saved, base).operation1Prime;
       }
     }
 
     // Apply the change
-    const newContent = OperationalTransform.applyOperation(currentFile.content, queuedChange.change);
-    await collaborationFileService.applyFileChanges(queuedChange.fileId, newContent);
+    const newContent = OperationalTransform.apply(currentFile.content, change);
+    await collaborationFileService.applyFileChanges(queuedChange.fileId, newContent, currentFile.version);
+    return true;
+  }
+
+  /**
+   * Holds a conflicting change, durably, until someone decides what to save in its place
+   */
+  private async park(queuedChange: QueuedChange, currentFile: CollaborationFile, conflicts: EditorChange[]): Promise<void> {
+    queuedChange.parked = { serverContent: currentFile.content, serverVersion: currentFile.version };
+    await this.saveQueuedChanges([queuedChange]);
+    this.callbacks.onConflictDetected?.(queuedChange.fileId, conflicts);
+  }
+
+  /**
+   * Changes held back because they conflict with the server's copy of their file
+   */
+  getParkedChanges(fileId?: string): QueuedChange[] {
+    return this.changeQueue.filter(queued => queued.parked && (!fileId || queued.fileId === fileId));
+  }
+
+  /**
+   * Parked changes as conflicts for the conflict modal
+   * Changes queued without the document they were made to cannot be merged and are left out.
+   */
+  getParkedConflicts(): ParkedConflict[] {
+    return this.getParkedChanges().flatMap(queued => {
+      if (!queued.parked || queued.baseContent === undefined) return [];
+      const saved: EditorChange = {
+        ...OperationalTransform.diff(queued.baseContent, queued.parked.serverContent),
+        userId: '',
+        timestamp: queued.timestamp,
+        version: queued.parked.serverVersion,
+      };
+      const [conflict] = OperationalTransform.transform(queued.change, saved, queued.baseContent).conflicts;
+      return [{
+        id: queued.id,
+        fileId: queued.fileId,
+        conflict: conflict ?? { operation1: queued.change, operation2: saved, conflictType: 'overlap', resolution: 'manual' },
+        baseContent: queued.baseContent,
+      }];
+    });
+  }
+
+  /**
+   * Settles a parked change with a resolution from the conflict modal
+   * A merge is the whole merged document, made against the parked conflict's `baseContent`.
+   */
+  async resolveParkedConflict(
+    parked: ParkedConflict,
+    resolution: 'accept-local' | 'accept-remote' | 'merge',
+    mergedContent?: string
+  ): Promise<void> {
+    const resolved = await conflictResolutionService.resolveConflictManually(
+      parked.conflict,
+      resolution,
+      mergedContent,
+      parked.baseContent
+    );
+    const content = OperationalTransform.apply(parked.baseContent, resolved);
+    const serverContent = OperationalTransform.apply(parked.baseContent, parked.conflict.operation2);
+    await this.resolveParkedChange(parked.id, content === serverContent ? null : content);
+  }
+
+  /**
+   * Settles a parked change
+   * `content` is the whole document to save in its place, merged with the server copy
+   * it conflicted with; null drops the change in favour of that copy.
+   */
+  async resolveParkedChange(id: string, content: string | null): Promise<void> {
+    await this.loaded;
+    const queuedChange = this.changeQueue.find(queued => queued.id === id);
+    if (!queuedChange?.parked) return;
+
+    const { serverContent, serverVersion } = queuedChange.parked;
+    if (content === null) {
+      this.changeQueue = this.changeQueue.filter(queued => queued !== queuedChange);
+      await this.removeQueuedChanges([queuedChange.id]);
+    } else {
+      queuedChange.change = {
+        ...OperationalTransform.diff(serverContent, content),
+        userId: queuedChange.change.userId,
+        timestamp: Date.now(),
+        version: serverVersion,
+      };
+      queuedChange.baseContent = serverContent;
+      queuedChange.parked = undefined;
+      queuedChange.retryCount = 0;
+      queuedChange.nextAttemptAt = 0;
+      await this.saveQueuedChanges([queuedChange]);
+    }
+    this.notifyQueueChanged();
+
+    if (this.isOnline) {
+      await this.processPendingChanges();
+    }
+  }
+
+  /**
+   * Saves a whole file that was edited starting from `base`
+   * If a teammate saved in the meantime, their work is reported through
+   * onVersionConflict for merging rather than overwritten.
+   * @returns the saved file, or null on a version conflict
+   */
+  async saveFile(base: CollaborationFile, content: string): Promise<CollaborationFile | null> {
+    try {
+      return await collaborationFileService.updateFile(base.id, { content, version: base.version });
+    } catch (error) {
+      if (!isVersionConflict(error)) {
+        throw error;
+      }
+      this.callbacks.onVersionConflict?.({
+        fileId: base.id,
+        fileName: base.name,
+        baseVersion: base.version,
+        baseContent: base.content,
+        localContent: content,
+        serverFile: error.details.serverFile,
+      });
+      return null;
+    }
   }
 
   /**
    * Detects conflicts between a new change and existing changes
    */
-  private async detectConflicts(fileId: string, newChange: any): Promise<EditorChange[]> {
+  private async detectConflicts(fileId: string, newChange: any, content: string): Promise<EditorChange[]> {
     try {
       const pendingChanges = await collaborationFileService.getPendingChanges(fileId);
       const conflicts: EditorChange[] = [];
 
       // Convert pending changes to EditorChange format for comparison
       for (const pendingChange of pendingChanges) {
-        const editorChange = this.convertFileChangeToEditorChange(pendingChange);
+        const editorChange = this.convertFileChangeToEditorChange(pendingChange, content);
         
         // Check if changes overlap
-        if (this.changesOverlap(editorChange, newChange)) {
+        if (OperationalTransform.overlaps(editorChange, this.convertRowToEditorChange(newChange, content), content)) {
           conflicts.push(editorChange);
         }
       }
@@ -441,60 +528,44 @@ export class CollaborationSyncService {
 
   /**
    * Resolves conflicts using operational transformation
+   * Throws if the pending changes cannot be loaded, so the change is retried rather than parked
    */
-  private async resolveConflicts(fileId: string, changes: EditorChange[]): Promise<EditorChange[]> {
-    try {
-      const pendingChanges = await collaborationFileService.getPendingChanges(fileId);
-      const conflicts: EditorChange[] = [];
+  private async resolveConflicts(fileId: string, changes: EditorChange[], content: string): Promise<EditorChange[]> {
+    const pendingChanges = await collaborationFileService.getPendingChanges(fileId);
+    const conflicts: EditorChange[] = [];
 
-      for (const change of changes) {
-        for (const pendingChange of pendingChanges) {
-          const pendingEditorChange = this.convertFileChangeToEditorChange(pendingChange);
-          
-          if (this.changesOverlap(change, pendingEditorChange)) {
-            // Apply operational transformation
-            const transformedChanges = OperationalTransform.transform(change, pendingEditorChange);
-            conflicts.push(...transformedChanges);
+    for (const change of changes) {
+      for (const pendingChange of pendingChanges) {
+        const pendingEditorChange = this.convertFileChangeToEditorChange(pendingChange, content);
+        
+        if (OperationalTransform.overlaps(change, pendingEditorChange, content)) {
+          // The earlier change stands; the later one is transformed past it
+          const { operation1Prime, operation2Prime } = OperationalTransform.transform(change, pendingEditorChange, content);
+          if (change.timestamp < pendingEditorChange.timestamp) {
+            conflicts.push(change, operation2Prime);
+          } else {
+            conflicts.push(pendingEditorChange, operation1Prime);
           }
         }
       }
-
-      return conflicts;
-    } catch (error) {
-      console.error('Error resolving conflicts:', error);
-      return changes; // Return original changes if resolution fails
     }
-  }
-
-  /**
-   * Checks if two changes overlap
-   */
-  private changesOverlap(change1: EditorChange, change2: any): boolean {
-    // Simplified overlap detection
-    const c1Start = (change1.range.startLineNumber - 1) * 1000 + change1.range.startColumn;
-    const c1End = (change1.range.endLineNumber - 1) * 1000 + change1.range.endColumn;
-    const c2Start = change2.position_start || 0;
-    const c2End = change2.position_end || c2Start;
 
-    return !(c1End <= c2Start || c2End <= c1Start);
+    return conflicts;
   }
 
   /**
    * Converts FileChange to EditorChange format
    */
-  private convertFileChangeToEditorChange(fileChange: FileChange): EditorChange {
-    // Simplified conversion - in reality, you'd need more sophisticated position mapping
-    const startLine = Math.floor(fileChange.positionStart / 1000) + 1;
-    const startColumn = fileChange.positionStart % 1000;
-    const endLine = fileChange.positionEnd ? Math.floor(fileChange.positionEnd / 1000) + 1 : startLine;
-    const endColumn = fileChange.positionEnd ? fileChange.positionEnd % 1000 : startColumn;
+  private convertFileChangeToEditorChange(fileChange: FileChange, content: string): EditorChange {
+    const start = offsetToPosition(content, fileChange.positionStart);
+    const end = offsetToPosition(content, fileChange.positionEnd ?? fileChange.positionStart);
 
     return {
       range: {
-        startLineNumber: startLine,
-        startColumn,
-        endLineNumber: endLine,
-        endColumn,
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column,
       },
       text: fileChange.content || '',
       rangeLength: (fileChange.positionEnd || fileChange.positionStart) - fileChange.positionStart,
@@ -504,6 +575,24 @@ export class CollaborationSyncService {
     };
   }
 
+  /**
+   * Converts a file_changes row from a realtime payload to EditorChange format
+   */
+  private convertRowToEditorChange(row: any, content: string): EditorChange {
+    return this.convertFileChangeToEditorChange({
+      id: row.id,
+      fileId: row.file_id,
+      userId: row.user_id,
+      operationType: row.operation_type,
+      positionStart: row.position_start || 0,
+      positionEnd: row.position_end ?? undefined,
+      content: row.content ?? undefined,
+      version: row.version,
+      timestamp: new Date(row.timestamp),
+      applied: row.applied,
+    }, content);
+  }
+
   /**
    * Maps database row to CollaborationFile
    */
@@ -523,37 +612,83 @@ export class CollaborationSyncService {
   }
 
   /**
-   * Saves queued changes to localStorage
+   * Saves queued changes to the offline store
    */
-  private saveQueuedChanges(): void {
+  private async saveQueuedChanges(changes: QueuedChange[]): Promise<void> {
     try {
-      localStorage.setItem('collaboration_queued_changes', JSON.stringify(this.changeQueue));
+      await this.store.put(changes);
     } catch (error) {
       console.error('Error saving queued changes:', error);
     }
   }
 
+  private async removeQueuedChanges(ids: string[]): Promise<void> {
+    try {
+      await this.store.remove(ids);
+    } catch (error) {
+      console.error('Error removing queued changes:', error);
+    }
+  }
+
   /**
-   * Loads queued changes from localStorage
+   * Loads queued changes from the offline store, moving over any left in localStorage
    */
-  private loadQueuedChanges(): void {
+  private async loadQueuedChanges(): Promise<void> {
     try {
-      const saved = localStorage.getItem('collaboration_queued_changes');
-      if (saved) {
-        this.changeQueue = JSON.parse(saved);
+      const legacy = this.takeLegacyQueue();
+      if (legacy.length > 0) {
+        await this.store.put(legacy);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
       }
+
+      this.changeQueue = await this.store.load();
+      this.nextSequence = Math.max(0, ...this.changeQueue.map(queued => queued.sequence)) + 1;
     } catch (error) {
       console.error('Error loading queued changes:', error);
       this.changeQueue = [];
     }
+
+    this.notifyQueueChanged();
+    if (this.changeQueue.length > 0) {
+      this.scheduleRetry();
+    }
+  }
+
+  private takeLegacyQueue(): QueuedChange[] {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return [];
+
+    const changes: Omit<QueuedChange, 'sequence' | 'nextAttemptAt'>[] = JSON.parse(saved);
+    return changes.map((queued, index) => ({ ...queued, sequence: index + 1, nextAttemptAt: 0 }));
   }
 
   /**
    * Clears all queued changes
    */
-  clearQueue(): void {
+  async clearQueue(): Promise<void> {
     this.changeQueue = [];
-    this.saveQueuedChanges();
+    this.notifyQueueChanged();
+    try {
+      await this.store.clear();
+    } catch (error) {
+      console.error('Error clearing queued changes:', error);
+    }
+  }
+
+  /**
+   * Subscribes to the number of changes waiting to sync
+   * @returns a function that unsubscribes
+   */
+  onQueueChanged(listener: (pending: number) => void): () => void {
+    this.queueListeners.add(listener);
+    listener(this.changeQueue.length);
+    return () => {
+      this.queueListeners.delete(listener);
+    };
+  }
+
+  private notifyQueueChanged(): void {
+    this.queueListeners.forEach(listener => listener(this.changeQueue.length));
   }
 
   /**
@@ -572,14 +707,26 @@ export class CollaborationSyncService {
    */
   async forcSync(): Promise<void> {
     if (this.isOnline) {
-      await this.processPendingChanges();
+      await this.retryNow();
     }
   }
 
+  // Being back online, or asked to sync, is reason enough to skip any backoff
+  private async retryNow(): Promise<void> {
+    this.changeQueue.forEach(queued => {
+      queued.nextAttemptAt = 0;
+    });
+    await this.processPendingChanges();
+  }
+
   /**
    * Cleanup method to unsubscribe from all channels
    */
   async cleanup(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
     for (const [groupId] of this.channels) {
       await this.unsubscribeFromGroup(groupId);
     }
@@ -0,0 +1,116 @@
+import { EditorChange } from '@/types/collaboration';
+import { Operation, OperationalTransform } from './operational-transform';
+
+/**
+ * Undo and redo for one user's edits to a shared document
+ *
+ * Each stack entry is the inverse of one of the user's own changes. When
+ * someone else edits the document the entries are transformed past that
+ * edit, so undoing reverts only this user's change, wherever it has moved to,
+ * and leaves everyone else's work in place.
+ */
+export class CollaborativeUndoManager {
+  // The top entry applies to the current document; each entry below applies once the ones above it are undone
+  private undoStack: Operation[][] = [];
+  private redoStack: Operation[][] = [];
+
+  constructor(
+    private readonly userId: string,
+    private readonly maxEntries: number = 100
+  ) {}
+
+  /**
+   * Record one of this user's own changes, made to `content`
+   */
+  recordLocal(change: EditorChange, content: string): void {
+    if (!this.appliesTo(content)) this.clear();
+    const operations = OperationalTransform.toOperations(content, change);
+    this.undoStack.push(OperationalTransform.invertOperations(operations, content));
+    if (this.undoStack.length > this.maxEntries) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Move both stacks past another user's change, made to `content`
+   */
+  transformRemote(change: EditorChange, content: string): void {
+    if (!this.appliesTo(content)) {
+      this.clear();
+      return;
+    }
+    const operations = OperationalTransform.toOperations(content, change);
+    this.undoStack = this.transformStack(this.undoStack, operations);
+    this.redoStack = this.transformStack(this.redoStack, operations);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * The change that reverts this user's latest edit to `content`, or null if there is nothing to undo
+   */
+  undo(content: string, version: number): EditorChange | null {
+    return this.takeFrom(this.undoStack, this.redoStack, content, version);
+  }
+
+  /**
+   * The change that reapplies this user's latest undone edit to `content`, or null if there is nothing to redo
+   */
+  redo(content: string, version: number): EditorChange | null {
+    return this.takeFrom(this.redoStack, this.undoStack, content, version);
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  // History recorded against another version of the document cannot be carried forward
+  private appliesTo(content: string): boolean {
+    return [this.undoStack, this.redoStack].every(stack =>
+      stack.length === 0 || OperationalTransform.baseLength(stack[stack.length - 1]) === content.length
+    );
+  }
+
+  private takeFrom(stack: Operation[][], opposite: Operation[][], content: string, version: number): EditorChange | null {
+    if (!this.appliesTo(content)) {
+      this.clear();
+      return null;
+    }
+    let operations = stack.pop();
+    // Skip edits that others have since removed entirely
+    while (operations && OperationalTransform.isNoop(operations)) {
+      operations = stack.pop();
+    }
+    if (!operations) return null;
+
+    opposite.push(OperationalTransform.invertOperations(operations, content));
+    return OperationalTransform.toEditorChange(content, operations, {
+      range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 1 },
+      text: '',
+      rangeLength: 0,
+      userId: this.userId,
+      timestamp: Date.now(),
+      version
+    });
+  }
+
+  // Walk down from the top, handing the remote change past each entry in turn
+  private transformStack(stack: Operation[][], remote: Operation[]): Operation[][] {
+    const transformed: Operation[][] = new Array(stack.length);
+    let current = remote;
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const [entry, remotePrime] = OperationalTransform.transformOperations(stack[i], current);
+      transformed[i] = entry;
+      current = remotePrime;
+    }
+    return transformed;
+  }
+}
@@ -1,4 +1,5 @@
-import { OperationalTransform, OperationConflict } from './operational-transform';
+import { OperationalTransform, OperationConflict, offsetToPosition } from './operational-transform';
+import { CollaborativeUndoManager } from './collaborative-undo';
 import { EditorChange } from '@/types/collaboration';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -22,6 +23,7 @@ interface FileChangeRow {
 export class ConflictResolutionService {
   private pendingChanges: Map<string, EditorChange[]> = new Map();
   private conflictQueue: OperationConflict[] = [];
+  private undoManagers: Map<string, Map<string, CollaborativeUndoManager>> = new Map(); // fileId -> userId -> manager
 
   /**
    * Process an incoming editor change and resolve conflicts
@@ -43,7 +45,7 @@ export class ConflictResolutionService {
     let resolvedChange = change;
     
     for (const pendingChange of pending) {
-      const transformResult = OperationalTransform.transform(resolvedChange, pendingChange);
+      const transformResult = OperationalTransform.transform(resolvedChange, pendingChange, currentContent);
       
       if (transformResult.conflicts.length > 0) {
         conflicts.push(...transformResult.conflicts);
@@ -51,7 +53,7 @@ export class ConflictResolutionService {
         // Try to auto-resolve simple conflicts
         for (const conflict of transformResult.conflicts) {
           if (OperationalTransform.canAutoResolve(conflict)) {
-            const autoResolved = OperationalTransform.autoResolve(conflict);
+            const autoResolved = OperationalTransform.autoResolve(conflict, currentContent);
             resolvedChange = autoResolved.operation1Prime;
             
             // Update the pending change
@@ -78,6 +80,8 @@ export class ConflictResolutionService {
     
     // Apply the resolved change to get final content
     const finalContent = OperationalTransform.apply(currentContent, resolvedChange);
+    this.getUndoManager(fileId, resolvedChange.userId).recordLocal(resolvedChange, currentContent);
+    this.transformUndoStacks(fileId, resolvedChange, currentContent);
     
     // Add this change to pending changes
     pending.push(resolvedChange);
@@ -93,6 +97,71 @@ export class ConflictResolutionService {
     };
   }
 
+  /**
+   * Revert the user's latest change to the file, leaving everyone else's edits in place
+   * @returns null when the user has nothing to undo
+   */
+  undo(fileId: string, userId: string, currentContent: string, version: number): {
+    change: EditorChange;
+    finalContent: string;
+  } | null {
+    const change = this.getUndoManager(fileId, userId).undo(currentContent, version);
+    return change ? this.applyHistoryChange(fileId, change, currentContent) : null;
+  }
+
+  /**
+   * Reapply the user's latest undone change to the file
+   * @returns null when the user has nothing to redo
+   */
+  redo(fileId: string, userId: string, currentContent: string, version: number): {
+    change: EditorChange;
+    finalContent: string;
+  } | null {
+    const change = this.getUndoManager(fileId, userId).redo(currentContent, version);
+    return change ? this.applyHistoryChange(fileId, change, currentContent) : null;
+  }
+
+  canUndo(fileId: string, userId: string): boolean {
+    return this.undoManagers.get(fileId)?.get(userId)?.canUndo() ?? false;
+  }
+
+  canRedo(fileId: string, userId: string): boolean {
+    return this.undoManagers.get(fileId)?.get(userId)?.canRedo() ?? false;
+  }
+
+  // An undo or redo is an edit like any other to everyone but its author
+  private applyHistoryChange(fileId: string, change: EditorChange, currentContent: string): {
+    change: EditorChange;
+    finalContent: string;
+  } {
+    this.transformUndoStacks(fileId, change, currentContent);
+    const pending = this.pendingChanges.get(fileId) || [];
+    pending.push(change);
+    this.pendingChanges.set(fileId, pending);
+    return { change, finalContent: OperationalTransform.apply(currentContent, change) };
+  }
+
+  private getUndoManager(fileId: string, userId: string): CollaborativeUndoManager {
+    let managers = this.undoManagers.get(fileId);
+    if (!managers) {
+      managers = new Map();
+      this.undoManagers.set(fileId, managers);
+    }
+    let manager = managers.get(userId);
+    if (!manager) {
+      manager = new CollaborativeUndoManager(userId);
+      managers.set(userId, manager);
+    }
+    return manager;
+  }
+
+  // Move every other user's undo history past a change
+  private transformUndoStacks(fileId: string, change: EditorChange, content: string): void {
+    this.undoManagers.get(fileId)?.forEach((manager, userId) => {
+      if (userId !== change.userId) manager.transformRemote(change, content);
+    });
+  }
+
   /**
    * Get pending conflicts that need manual resolution
    */
@@ -102,11 +171,14 @@ export class ConflictResolutionService {
 
   /**
    * Resolve a conflict manually
+   * `mergedContent` is the text for the conflicting range, or the whole merged document when
+   * `baseContent`, the common ancestor both changes were made to, is given
    */
   async resolveConflictManually(
     conflict: OperationConflict,
     resolution: 'accept-local' | 'accept-remote' | 'merge',
-    mergedContent?: string
+    mergedContent?: string,
+    baseContent?: string
   ): Promise<EditorChange> {
     // Remove from conflict queue
     const index = this.conflictQueue.indexOf(conflict);
@@ -125,27 +197,20 @@ export class ConflictResolutionService {
         if (!mergedContent) {
           throw new Error('Merged content is required for merge resolution');
         }
-        
+
+        // A whole merged document replaces whatever differs from the common ancestor
+        if (baseContent !== undefined) {
+          return {
+            ...OperationalTransform.diff(baseContent, mergedContent),
+            userId: conflict.operation1.userId,
+            timestamp: Date.now(),
+            version: Math.max(conflict.operation1.version, conflict.operation2.version) + 1
+          };
+        }
+
         // Create a new change that represents the merged result
         return {
-          range: {
-            startLineNumber: Math.min(
-              conflict.operation1.range.startLineNumber,
-              conflict.operation2.range.startLineNumber
-            ),
-            startColumn: Math.min(
-              conflict.operation1.range.startColumn,
-              conflict.operation2.range.startColumn
-            ),
-            endLineNumber: Math.max(
-              conflict.operation1.range.endLineNumber,
-              conflict.operation2.range.endLineNumber
-            ),
-            endColumn: Math.max(
-              conflict.operation1.range.endColumn,
-              conflict.operation2.range.endColumn
-            )
-          },
+          range: OperationalTransform.coveringRange(conflict.operation1, conflict.operation2),
           text: mergedContent,
           rangeLength: Math.max(conflict.operation1.rangeLength, conflict.operation2.rangeLength),
           userId: conflict.operation1.userId, // Use local user's ID
@@ -160,11 +225,13 @@ export class ConflictResolutionService {
 
   /**
    * Apply operational transformation to synchronize with server state
+   * Local changes are made against `baseContent`, the file at `serverVersion`
    */
   async synchronizeWithServer(
     fileId: string,
     localChanges: EditorChange[],
-    serverVersion: number
+    serverVersion: number,
+    baseContent: string
   ): Promise<{
     transformedChanges: EditorChange[];
     conflicts: OperationConflict[];
@@ -187,14 +254,18 @@ export class ConflictResolutionService {
     // Transform each local change against server changes
     for (const localChange of localChanges) {
       let transformedChange = localChange;
+      // Server changes store character offsets into the file as it was when each was made
+      let content = baseContent;
       
       for (const serverChange of (serverChanges as unknown as FileChangeRow[] || [])) {
+        const start = offsetToPosition(content, serverChange.position_start);
+        const end = offsetToPosition(content, serverChange.position_end ?? serverChange.position_start);
         const serverEditorChange: EditorChange = {
           range: {
-            startLineNumber: 1, // Simplified - would need proper conversion
-            startColumn: serverChange.position_start + 1,
-            endLineNumber: 1,
-            endColumn: (serverChange.position_end || serverChange.position_start) + 1
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column
           },
           text: serverChange.content || '',
           rangeLength: (serverChange.position_end || serverChange.position_start) - serverChange.position_start,
@@ -203,8 +274,9 @@ export class ConflictResolutionService {
           version: serverChange.version
         };
         
-        const transformResult = OperationalTransform.transform(transformedChange, serverEditorChange);
+        const transformResult = OperationalTransform.transform(transformedChange, serverEditorChange, content);
         transformedChange = transformResult.operation1Prime;
+        content = OperationalTransform.apply(content, serverEditorChange);
         
         if (transformResult.conflicts.length > 0) {
           conflicts.push(...transformResult.conflicts);
@@ -245,6 +317,7 @@ export class ConflictResolutionService {
    */
   clearPendingChanges(fileId: string): void {
     this.pendingChanges.delete(fileId);
+    this.undoManagers.delete(fileId);
   }
 
   /**
@@ -0,0 +1,134 @@
+import { EditorChange } from '@/types/collaboration';
+
+/**
+ * A change waiting to be written to the server
+ */
+export interface QueuedChange {
+  id: string;
+  fileId: string;
+  /** Queue position; changes to one file are sent in this order */
+  sequence: number;
+  change: EditorChange;
+  /** The document the change was made to, when known; needed to compact later changes into it */
+  baseContent?: string;
+  timestamp: number;
+  retryCount: number;
+  /** Milliseconds since the epoch before which the change is not retried */
+  nextAttemptAt: number;
+  /** Set while the change conflicts with the server's copy of the file; it waits for resolveParkedChange */
+  parked?: { serverContent: string; serverVersion: number };
+}
+
+/**
+ * Durable storage for the offline edit queue
+ */
+export interface OfflineChangeStore {
+  /** Every stored change, in queue order */
+  load(): Promise<QueuedChange[]>;
+  /** Insert or overwrite changes in one transaction */
+  put(changes: QueuedChange[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'collaboration';
+const DB_VERSION = 1;
+const STORE_NAME = 'queued_changes';
+
+// Where queued changes were kept before they moved to IndexedDB
+export const LEGACY_STORAGE_KEY = 'collaboration_queued_changes';
+
+const bySequence = (a: QueuedChange, b: QueuedChange) => a.sequence - b.sequence;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Queue storage in IndexedDB, indexed by file
+ */
+export class IndexedDBChangeStore implements OfflineChangeStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  async load(): Promise<QueuedChange[]> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const changes = await requestResult(store.getAll() as IDBRequest<QueuedChange[]>);
+    return changes.sort(bySequence);
+  }
+
+  async put(changes: QueuedChange[]): Promise<void> {
+    await this.write(store => changes.forEach(change => store.put(change)));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.write(store => ids.forEach(id => store.delete(id)));
+  }
+
+  async clear(): Promise<void> {
+    await this.write(store => store.clear());
+  }
+
+  private async write(operations: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    operations(transaction.objectStore(STORE_NAME));
+    await transactionComplete(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('fileId', 'fileId');
+      };
+      this.database = requestResult(request);
+      // Let a later call try again rather than keep a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Queue storage for environments without IndexedDB; lost when the page closes
+ */
+export class MemoryChangeStore implements OfflineChangeStore {
+  private changes: Map<string, QueuedChange> = new Map();
+
+  async load(): Promise<QueuedChange[]> {
+    return [...this.changes.values()].sort(bySequence);
+  }
+
+  async put(changes: QueuedChange[]): Promise<void> {
+    changes.forEach(change => this.changes.set(change.id, { ...change }));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach(id => this.changes.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    this.changes.clear();
+  }
+}
+
+export function createOfflineChangeStore(): OfflineChangeStore {
+  return typeof indexedDB === 'undefined' ? new MemoryChangeStore() : new IndexedDBChangeStore();
+}
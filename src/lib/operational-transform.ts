@@ -29,85 +29,274 @@ export interface TransformResult {
   conflicts: OperationConflict[];
 }
 
+/**
+ * Character offset of a 1-based line/column position in `content`.
+ * Positions past the end of a line or of the document are clamped, as Monaco does.
+ */
+export function positionToOffset(content: string, lineNumber: number, column: number): number {
+  let offset = 0;
+  for (let line = 1; line < lineNumber; line++) {
+    const lineEnd = content.indexOf('\n', offset);
+    if (lineEnd === -1) return content.length;
+    offset = lineEnd + 1;
+  }
+
+  const lineEnd = content.indexOf('\n', offset);
+  const lineLength = (lineEnd === -1 ? content.length : lineEnd) - offset;
+  return offset + Math.min(Math.max(column - 1, 0), lineLength);
+}
+
+/**
+ * 1-based line/column position of a character offset in `content`
+ */
+export function offsetToPosition(content: string, offset: number): { lineNumber: number; column: number } {
+  const clamped = Math.min(Math.max(offset, 0), content.length);
+  let lineNumber = 1;
+  let lineStart = 0;
+  let lineEnd = content.indexOf('\n');
+  while (lineEnd !== -1 && lineEnd < clamped) {
+    lineNumber++;
+    lineStart = lineEnd + 1;
+    lineEnd = content.indexOf('\n', lineStart);
+  }
+  return { lineNumber, column: clamped - lineStart + 1 };
+}
+
+const componentLength = (op: Operation): number =>
+  op.type === 'insert' ? (op.text ?? '').length : (op.length ?? 0);
+
 /**
  * OperationalTransform utility class for handling concurrent text operations
  * Implements operational transformation algorithms for conflict resolution
+ *
+ * Changes are transformed as retain/insert/delete sequences that span the
+ * whole document, so every position is a true character offset. An
+ * `EditorChange` converts to such a sequence given the content it applies to.
  */
 export class OperationalTransform {
   /**
    * Transform two concurrent operations against each other
    * This is the core of operational transformation
+   *
+   * Both changes apply to `content`. `operation1Prime` applies after op2 and
+   * `operation2Prime` after op1, and both orders give the same document.
    */
-  static transform(op1: EditorChange, op2: EditorChange): TransformResult {
+  static transform(op1: EditorChange, op2: EditorChange, content: string): TransformResult {
     const conflicts: OperationConflict[] = [];
     
     // Convert EditorChange to normalized operations
-    const ops1 = this.editorChangeToOperations(op1);
-    const ops2 = this.editorChangeToOperations(op2);
+    const ops1 = this.toOperations(content, op1);
+    const ops2 = this.toOperations(content, op2);
     
     // Detect conflicts
-    const conflict = this.detectConflict(op1, op2);
+    const conflict = this.detectConflict(op1, op2, content);
     if (conflict) {
       conflicts.push(conflict);
     }
     
-    // Transform operations based on their relationship
-    const { op1Prime, op2Prime } = this.transformOperations(op1, op2);
+    const [ops1Prime, ops2Prime] = this.transformOperations(ops1, ops2);
     
     return {
-      operation1Prime: op1Prime,
-      operation2Prime: op2Prime,
+      operation1Prime: this.toEditorChange(this.applyOperations(content, ops2), ops1Prime, op1),
+      operation2Prime: this.toEditorChange(this.applyOperations(content, ops1), ops2Prime, op2),
       conflicts
     };
   }
 
   /**
-   * Transform operation1 against operation2
-   * Returns the transformed version of operation1
+   * Transform two operation sequences that apply to the same document.
+   * Returns [a', b'] such that applying b then a' equals applying a then b'.
+   * When both insert at the same position, a's text comes first.
    */
-  private static transformOperations(op1: EditorChange, op2: EditorChange): {
-    op1Prime: EditorChange;
-    op2Prime: EditorChange;
-  } {
-    const op1Start = this.getAbsolutePosition(op1.range.startLineNumber, op1.range.startColumn);
-    const op1End = this.getAbsolutePosition(op1.range.endLineNumber, op1.range.endColumn);
-    const op2Start = this.getAbsolutePosition(op2.range.startLineNumber, op2.range.startColumn);
-    const op2End = this.getAbsolutePosition(op2.range.endLineNumber, op2.range.endColumn);
-    
-    let op1Prime = { ...op1 };
-    let op2Prime = { ...op2 };
-    
-    // Case 1: op2 is completely before op1
-    if (op2End <= op1Start) {
-      const offset = this.calculateOffset(op2);
-      op1Prime = this.offsetOperation(op1, offset);
+  static transformOperations(a: Operation[], b: Operation[]): [Operation[], Operation[]] {
+    if (this.baseLength(a) !== this.baseLength(b)) {
+      throw new Error('Cannot transform operations on documents of different lengths');
     }
-    // Case 2: op1 is completely before op2
-    else if (op1End <= op2Start) {
-      const offset = this.calculateOffset(op1);
-      op2Prime = this.offsetOperation(op2, offset);
+
+    const aPrime: Operation[] = [];
+    const bPrime: Operation[] = [];
+    let i = 0;
+    let j = 0;
+    let opA: Operation | undefined = a[i++];
+    let opB: Operation | undefined = b[j++];
+
+    while (opA || opB) {
+      if (opA?.type === 'insert') {
+        this.push(aPrime, opA);
+        this.push(bPrime, { type: 'retain', length: componentLength(opA) });
+        opA = a[i++];
+        continue;
+      }
+      if (opB?.type === 'insert') {
+        this.push(aPrime, { type: 'retain', length: componentLength(opB) });
+        this.push(bPrime, opB);
+        opB = b[j++];
+        continue;
+      }
+      if (!opA || !opB) {
+        throw new Error('Cannot transform operations on documents of different lengths');
+      }
+
+      const length = Math.min(componentLength(opA), componentLength(opB));
+      if (opA.type === 'retain' && opB.type === 'retain') {
+        this.push(aPrime, { type: 'retain', length });
+        this.push(bPrime, { type: 'retain', length });
+      } else if (opA.type === 'delete' && opB.type === 'retain') {
+        this.push(aPrime, { type: 'delete', length });
+      } else if (opA.type === 'retain' && opB.type === 'delete') {
+        this.push(bPrime, { type: 'delete', length });
+      }
+      // Text both sides deleted is already gone on either path
+
+      opA = this.consume(opA, length) ?? a[i++];
+      opB = this.consume(opB, length) ?? b[j++];
     }
-    // Case 3: Operations overlap - need conflict resolution
-    else {
-      const resolved = this.resolveOverlappingOperations(op1, op2);
-      op1Prime = resolved.op1;
-      op2Prime = resolved.op2;
+
+    return [aPrime, bPrime];
+  }
+
+  /**
+   * Convert an EditorChange to an operation sequence over `content`
+   */
+  static toOperations(content: string, change: EditorChange): Operation[] {
+    const start = positionToOffset(content, change.range.startLineNumber, change.range.startColumn);
+    const end = Math.max(start, positionToOffset(content, change.range.endLineNumber, change.range.endColumn));
+    const operations: Operation[] = [];
+
+    this.push(operations, { type: 'retain', length: start });
+    this.push(operations, { type: 'delete', length: end - start });
+    this.push(operations, { type: 'insert', text: change.text });
+    this.push(operations, { type: 'retain', length: content.length - end });
+    return operations;
+  }
+
+  /**
+   * Convert an operation sequence over `content` back to a single EditorChange.
+   * Text the sequence retains between its edits is written back unchanged,
+   * so the change replaces one range and gives the same result.
+   */
+  static toEditorChange(content: string, operations: Operation[], base: EditorChange): EditorChange {
+    let offset = 0;
+    let start = -1;
+    let end = 0;
+    let text = '';
+    let pendingRetain = '';
+
+    for (const op of operations) {
+      if (op.type === 'retain') {
+        const length = componentLength(op);
+        if (start !== -1) pendingRetain += content.slice(offset, offset + length);
+        offset += length;
+        continue;
+      }
+
+      if (start === -1) start = offset;
+      text += pendingRetain;
+      pendingRetain = '';
+      if (op.type === 'insert') {
+        text += op.text ?? '';
+      } else {
+        offset += componentLength(op);
+      }
+      end = offset;
     }
-    
-    return { op1Prime, op2Prime };
+
+    // A sequence that only retains becomes an empty change at the start
+    if (start === -1) start = end = 0;
+    const startPosition = offsetToPosition(content, start);
+    const endPosition = offsetToPosition(content, end);
+
+    return {
+      ...base,
+      range: {
+        startLineNumber: startPosition.lineNumber,
+        startColumn: startPosition.column,
+        endLineNumber: endPosition.lineNumber,
+        endColumn: endPosition.column
+      },
+      text,
+      rangeLength: end - start
+    };
+  }
+
+  /**
+   * Apply an operation sequence to text content
+   */
+  static applyOperations(content: string, operations: Operation[]): string {
+    if (this.baseLength(operations) !== content.length) {
+      throw new Error('Operation length does not match the document');
+    }
+
+    let offset = 0;
+    let result = '';
+    for (const op of operations) {
+      if (op.type === 'retain') {
+        result += content.slice(offset, offset + componentLength(op));
+        offset += componentLength(op);
+      } else if (op.type === 'insert') {
+        result += op.text ?? '';
+      } else {
+        offset += componentLength(op);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Length of the document an operation sequence applies to
+   */
+  static baseLength(operations: Operation[]): number {
+    return operations.reduce((sum, op) => (op.type === 'insert' ? sum : sum + componentLength(op)), 0);
+  }
+
+  /**
+   * Length of the document an operation sequence produces
+   */
+  static targetLength(operations: Operation[]): number {
+    return operations.reduce((sum, op) => (op.type === 'delete' ? sum : sum + componentLength(op)), 0);
+  }
+
+  /**
+   * Append a component, merging it with the last one of the same type.
+   * An insert goes before a delete at the same position so sequences stay canonical.
+   */
+  private static push(operations: Operation[], op: Operation): void {
+    if (componentLength(op) === 0) return;
+
+    const last = operations[operations.length - 1];
+    if (op.type === 'insert' && last?.type === 'delete') {
+      operations.pop();
+      this.push(operations, op);
+      operations.push(last);
+      return;
+    }
+
+    if (last?.type === op.type) {
+      operations[operations.length - 1] = op.type === 'insert'
+        ? { ...last, text: (last.text ?? '') + (op.text ?? '') }
+        : { ...last, length: componentLength(last) + componentLength(op) };
+      return;
+    }
+    operations.push({ ...op });
+  }
+
+  /**
+   * What is left of a retain or delete after `length` characters, if anything
+   */
+  private static consume(op: Operation, length: number): Operation | undefined {
+    const remaining = componentLength(op) - length;
+    return remaining > 0 ? { ...op, length: remaining } : undefined;
   }
 
   /**
    * Detect conflicts between two operations
    */
-  private static detectConflict(op1: EditorChange, op2: EditorChange): OperationConflict | null {
-    const op1Start = this.getAbsolutePosition(op1.range.startLineNumber, op1.range.startColumn);
-    const op1End = this.getAbsolutePosition(op1.range.endLineNumber, op1.range.endColumn);
-    const op2Start = this.getAbsolutePosition(op2.range.startLineNumber, op2.range.startColumn);
-    const op2End = this.getAbsolutePosition(op2.range.endLineNumber, op2.range.endColumn);
+  private static detectConflict(op1: EditorChange, op2: EditorChange, content: string): OperationConflict | null {
+    const { start: op1Start, end: op1End } = this.getOffsets(op1, content);
+    const { start: op2Start, end: op2End } = this.getOffsets(op2, content);
     
     // Check for overlap or adjacency
-    const hasOverlap = !(op1End <= op2Start || op2End <= op1Start);
+    const hasOverlap = this.overlaps(op1, op2, content);
     const isAdjacent = Math.abs(op1End - op2Start) <= 1 || Math.abs(op2End - op1Start) <= 1;
     
     if (hasOverlap || isAdjacent) {
@@ -139,281 +328,163 @@ export class OperationalTransform {
     return null;
   }
 
-  /**
-   * Resolve overlapping operations using operational transformation rules
-   */
-  private static resolveOverlappingOperations(op1: EditorChange, op2: EditorChange): {
-    op1: EditorChange;
-    op2: EditorChange;
-  } {
-    const op1Start = this.getAbsolutePosition(op1.range.startLineNumber, op1.range.startColumn);
-    const op1End = this.getAbsolutePosition(op1.range.endLineNumber, op1.range.endColumn);
-    const op2Start = this.getAbsolutePosition(op2.range.startLineNumber, op2.range.startColumn);
-    const op2End = this.getAbsolutePosition(op2.range.endLineNumber, op2.range.endColumn);
-    
-    // For overlapping operations, we need to split and transform them
-    // This is a simplified approach - in practice, this would be more complex
-    
-    let transformedOp1 = { ...op1 };
-    let transformedOp2 = { ...op2 };
-    
-    // If op1 starts before op2, adjust op2's start position
-    if (op1Start < op2Start) {
-      const insertLength = op1.text.length;
-      const deleteLength = op1.rangeLength;
-      const offset = insertLength - deleteLength;
-      
-      transformedOp2 = this.offsetOperation(op2, offset);
-    }
-    // If op2 starts before op1, adjust op1's start position
-    else if (op2Start < op1Start) {
-      const insertLength = op2.text.length;
-      const deleteLength = op2.rangeLength;
-      const offset = insertLength - deleteLength;
-      
-      transformedOp1 = this.offsetOperation(op1, offset);
-    }
-    
-    return {
-      op1: transformedOp1,
-      op2: transformedOp2
-    };
-  }
-
   /**
    * Compose multiple operations into a single operation
+   * The changes are consecutive edits to `content`, each made to the result of the one
+   * before, and compose exactly into one replace.
    */
-  static compose(changes: EditorChange[]): EditorChange {
+  static compose(changes: EditorChange[], content: string): EditorChange {
     if (changes.length === 0) {
       throw new Error('Cannot compose empty array of changes');
     }
-    
+
     if (changes.length === 1) {
       return changes[0];
     }
-    
-    // Sort changes by position to ensure correct composition
-    const sortedChanges = [...changes].sort((a, b) => {
-      const posA = this.getAbsolutePosition(a.range.startLineNumber, a.range.startColumn);
-      const posB = this.getAbsolutePosition(b.range.startLineNumber, b.range.startColumn);
-      return posA - posB;
-    });
-    
-    let composed = sortedChanges[0];
-    
-    for (let i = 1; i < sortedChanges.length; i++) {
-      composed = this.composeTwo(composed, sortedChanges[i]);
-    }
-    
-    return composed;
-  }
 
-  /**
-   * Compose two operations into one
-   */
-  private static composeTwo(op1: EditorChange, op2: EditorChange): EditorChange {
-    // This is a simplified composition - in practice, this would handle
-    // more complex cases like overlapping ranges, etc.
-    
-    const op1Start = this.getAbsolutePosition(op1.range.startLineNumber, op1.range.startColumn);
-    const op1End = this.getAbsolutePosition(op1.range.endLineNumber, op1.range.endColumn);
-    const op2Start = this.getAbsolutePosition(op2.range.startLineNumber, op2.range.startColumn);
-    
-    // If operations are adjacent, merge them
-    if (Math.abs(op2Start - op1End) <= 1) {
-      const combinedText = op1.text + op2.text;
-      const combinedRangeLength = op1.rangeLength + op2.rangeLength;
-      
-      return {
-        ...op1,
-        text: combinedText,
-        rangeLength: combinedRangeLength,
-        range: {
-          startLineNumber: Math.min(op1.range.startLineNumber, op2.range.startLineNumber),
-          startColumn: Math.min(op1.range.startColumn, op2.range.startColumn),
-          endLineNumber: Math.max(op1.range.endLineNumber, op2.range.endLineNumber),
-          endColumn: Math.max(op1.range.endColumn, op2.range.endColumn)
-        },
-        timestamp: Math.max(op1.timestamp, op2.timestamp),
-        version: Math.max(op1.version, op2.version)
-      };
-    }
-    
-    // If operations are separate, create a composite operation that includes both
-    // For simplicity, we'll return a combined text operation
+    const result = changes.reduce((text, change) => this.apply(text, change), content);
     return {
-      range: {
-        startLineNumber: Math.min(op1.range.startLineNumber, op2.range.startLineNumber),
-        startColumn: Math.min(op1.range.startColumn, op2.range.startColumn),
-        endLineNumber: Math.max(op1.range.endLineNumber, op2.range.endLineNumber),
-        endColumn: Math.max(op1.range.endColumn, op2.range.endColumn)
-      },
-      text: op1.text + op2.text,
-      rangeLength: op1.rangeLength + op2.rangeLength,
-      userId: op1.userId, // Use first user's ID
-      timestamp: Math.max(op1.timestamp, op2.timestamp),
-      version: Math.max(op1.version, op2.version)
+      ...changes[0],
+      ...this.diff(content, result),
+      timestamp: Math.max(...changes.map(change => change.timestamp)),
+      version: Math.max(...changes.map(change => change.version))
     };
   }
 
   /**
    * Invert an operation (create the opposite operation)
+   * The inverse applies to the document the change produced and restores `originalContent`.
    */
   static invert(change: EditorChange, originalContent: string): EditorChange {
-    // Get the text that was replaced by this change
-    const lines = originalContent.split('\n');
-    const startLine = change.range.startLineNumber - 1;
-    const endLine = change.range.endLineNumber - 1;
-    const startCol = change.range.startColumn - 1;
-    const endCol = change.range.endColumn - 1;
-    
-    let originalText = '';
-    
-    if (startLine === endLine) {
-      // Single line change
-      originalText = lines[startLine]?.substring(startCol, endCol) || '';
-    } else {
-      // Multi-line change
-      for (let i = startLine; i <= endLine; i++) {
-        if (i === startLine) {
-          originalText += lines[i]?.substring(startCol) || '';
-        } else if (i === endLine) {
-          originalText += '\n' + (lines[i]?.substring(0, endCol) || '');
-        } else {
-          originalText += '\n' + (lines[i] || '');
-        }
+    const operations = this.toOperations(originalContent, change);
+    return this.toEditorChange(
+      this.applyOperations(originalContent, operations),
+      this.invertOperations(operations, originalContent),
+      { ...change, timestamp: Date.now(), version: change.version + 1 }
+    );
+  }
+
+  /**
+   * Invert an operation sequence over `content`: deletes become inserts of the deleted text and vice versa
+   */
+  static invertOperations(operations: Operation[], content: string): Operation[] {
+    const inverse: Operation[] = [];
+    let offset = 0;
+    for (const op of operations) {
+      if (op.type === 'retain') {
+        this.push(inverse, op);
+        offset += componentLength(op);
+      } else if (op.type === 'insert') {
+        this.push(inverse, { type: 'delete', length: componentLength(op) });
+      } else {
+        this.push(inverse, { type: 'insert', text: content.slice(offset, offset + componentLength(op)) });
+        offset += componentLength(op);
       }
     }
-    
-    // Create the inverse operation
-    return {
-      range: change.range,
-      text: originalText,
-      rangeLength: change.text.length,
-      userId: change.userId,
-      timestamp: Date.now(),
-      version: change.version + 1
-    };
+    return inverse;
+  }
+
+  /**
+   * Whether an operation sequence leaves the document unchanged
+   */
+  static isNoop(operations: Operation[]): boolean {
+    return operations.every(op => op.type === 'retain');
   }
 
   /**
    * Apply an operation to text content
    */
   static apply(content: string, change: EditorChange): string {
-    const lines = content.split('\n');
-    const startLine = change.range.startLineNumber - 1;
-    const endLine = change.range.endLineNumber - 1;
-    const startCol = change.range.startColumn - 1;
-    const endCol = change.range.endColumn - 1;
-    
-    // Handle single line changes
-    if (startLine === endLine) {
-      const line = lines[startLine] || '';
-      const before = line.substring(0, startCol);
-      const after = line.substring(endCol);
-      lines[startLine] = before + change.text + after;
-    } else {
-      // Handle multi-line changes
-      const firstLine = lines[startLine] || '';
-      const lastLine = lines[endLine] || '';
-      const before = firstLine.substring(0, startCol);
-      const after = lastLine.substring(endCol);
-      
-      const newText = change.text;
-      const newLines = newText.split('\n');
-      
-      // Replace the affected lines
-      const replacement = [before + newLines[0]];
-      for (let i = 1; i < newLines.length - 1; i++) {
-        replacement.push(newLines[i]);
-      }
-      if (newLines.length > 1) {
-        replacement.push(newLines[newLines.length - 1] + after);
-      } else {
-        replacement[0] += after;
-      }
-      
-      lines.splice(startLine, endLine - startLine + 1, ...replacement);
-    }
-    
-    return lines.join('\n');
+    return this.applyOperations(content, this.toOperations(content, change));
   }
 
   /**
-   * Convert EditorChange to a sequence of operations
+   * Whether two changes to `content` replace any of the same text
    */
-  private static editorChangeToOperations(change: EditorChange): Operation[] {
-    const operations: Operation[] = [];
-    
-    // Add retain operation for content before the change
-    const startPos = this.getAbsolutePosition(change.range.startLineNumber, change.range.startColumn);
-    if (startPos > 0) {
-      operations.push({ type: 'retain', length: startPos });
-    }
-    
-    // Add delete operation if there's content to delete
-    if (change.rangeLength > 0) {
-      operations.push({ type: 'delete', length: change.rangeLength });
-    }
-    
-    // Add insert operation if there's content to insert
-    if (change.text.length > 0) {
-      operations.push({ type: 'insert', text: change.text });
-    }
-    
-    return operations;
+  static overlaps(op1: EditorChange, op2: EditorChange, content: string): boolean {
+    const { start: op1Start, end: op1End } = this.getOffsets(op1, content);
+    const { start: op2Start, end: op2End } = this.getOffsets(op2, content);
+    return !(op1End <= op2Start || op2End <= op1Start);
   }
 
   /**
-   * Calculate the offset caused by an operation
+   * One change that makes two concurrent changes to `content`: op1, then op2 transformed past it.
+   * Its range covers both original ranges, so it can stand in for either in a conflict.
    */
-  private static calculateOffset(change: EditorChange): number {
-    return change.text.length - change.rangeLength;
+  static merge(op1: EditorChange, op2: EditorChange, content: string): EditorChange {
+    const { operation2Prime } = this.transform(op1, op2, content);
+    const merged = this.apply(this.apply(content, op1), operation2Prime);
+    const range = this.coveringRange(op1, op2);
+    const { start, end } = this.getOffsets({ ...op1, range }, content);
+
+    return {
+      ...op1,
+      range,
+      // Text outside both ranges is untouched, so the merged region sits between the same prefix and suffix
+      text: merged.slice(start, merged.length - (content.length - end)),
+      rangeLength: end - start,
+      timestamp: Math.max(op1.timestamp, op2.timestamp),
+      version: Math.max(op1.version, op2.version)
+    };
   }
 
   /**
-   * Offset an operation by a given amount
+   * The smallest range that contains both changes' ranges
    */
-  private static offsetOperation(change: EditorChange, offset: number): EditorChange {
-    if (offset === 0) return change;
-    
-    const { line: startLine, column: startCol } = this.getLineColumnFromAbsolute(
-      this.getAbsolutePosition(change.range.startLineNumber, change.range.startColumn) + offset
-    );
-    
-    const { line: endLine, column: endCol } = this.getLineColumnFromAbsolute(
-      this.getAbsolutePosition(change.range.endLineNumber, change.range.endColumn) + offset
-    );
-    
+  static coveringRange(op1: EditorChange, op2: EditorChange): EditorChange['range'] {
+    const isBefore = (line1: number, column1: number, line2: number, column2: number) =>
+      line1 < line2 || (line1 === line2 && column1 <= column2);
+    const startsFirst = isBefore(
+      op1.range.startLineNumber, op1.range.startColumn,
+      op2.range.startLineNumber, op2.range.startColumn
+    ) ? op1 : op2;
+    const endsLast = isBefore(
+      op1.range.endLineNumber, op1.range.endColumn,
+      op2.range.endLineNumber, op2.range.endColumn
+    ) ? op2 : op1;
+
     return {
-      ...change,
-      range: {
-        startLineNumber: startLine,
-        startColumn: startCol,
-        endLineNumber: endLine,
-        endColumn: endCol
-      }
+      startLineNumber: startsFirst.range.startLineNumber,
+      startColumn: startsFirst.range.startColumn,
+      endLineNumber: endsLast.range.endLineNumber,
+      endColumn: endsLast.range.endColumn
     };
   }
 
   /**
-   * Convert line/column position to absolute position
-   * This is a simplified version - in practice, you'd need the actual document
+   * The single replace that turns `content` into `target`, trimmed to the text that differs
    */
-  private static getAbsolutePosition(line: number, column: number): number {
-    // Simplified calculation assuming average line length of 80 characters
-    // In practice, this would need the actual document content
-    return (line - 1) * 80 + (column - 1);
+  static diff(content: string, target: string): Pick<EditorChange, 'range' | 'text' | 'rangeLength'> {
+    let prefix = 0;
+    const shorter = Math.min(content.length, target.length);
+    while (prefix < shorter && content[prefix] === target[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < shorter - prefix &&
+      content[content.length - 1 - suffix] === target[target.length - 1 - suffix]
+    ) suffix++;
+
+    const start = offsetToPosition(content, prefix);
+    const end = offsetToPosition(content, content.length - suffix);
+    return {
+      range: {
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column
+      },
+      text: target.slice(prefix, target.length - suffix),
+      rangeLength: content.length - suffix - prefix
+    };
   }
 
   /**
-   * Convert absolute position back to line/column
+   * Start and end offsets of a change's range in `content`
    */
-  private static getLineColumnFromAbsolute(position: number): { line: number; column: number } {
-    // Simplified calculation - in practice, this would need the actual document
-    const line = Math.floor(position / 80) + 1;
-    const column = (position % 80) + 1;
-    return { line, column };
+  private static getOffsets(change: EditorChange, content: string): { start: number; end: number } {
+    const start = positionToOffset(content, change.range.startLineNumber, change.range.startColumn);
+    const end = positionToOffset(content, change.range.endLineNumber, change.range.endColumn);
+    return { start, end: Math.max(start, end) };
   }
 
   /**
@@ -426,42 +497,15 @@ export class OperationalTransform {
   /**
    * Automatically resolve simple conflicts
    */
-  static autoResolve(conflict: OperationConflict): TransformResult {
+  static autoResolve(conflict: OperationConflict, content: string): TransformResult {
     if (!this.canAutoResolve(conflict)) {
       throw new Error('Conflict cannot be automatically resolved');
     }
     
-    // For adjacent conflicts, simply apply both operations in order
-    if (conflict.conflictType === 'adjacent') {
-      const op1Start = this.getAbsolutePosition(
-        conflict.operation1.range.startLineNumber,
-        conflict.operation1.range.startColumn
-      );
-      const op2Start = this.getAbsolutePosition(
-        conflict.operation2.range.startLineNumber,
-        conflict.operation2.range.startColumn
-      );
-      
-      if (op1Start <= op2Start) {
-        // op1 comes first, adjust op2
-        const offset = this.calculateOffset(conflict.operation1);
-        return {
-          operation1Prime: conflict.operation1,
-          operation2Prime: this.offsetOperation(conflict.operation2, offset),
-          conflicts: []
-        };
-      } else {
-        // op2 comes first, adjust op1
-        const offset = this.calculateOffset(conflict.operation2);
-        return {
-          operation1Prime: this.offsetOperation(conflict.operation1, offset),
-          operation2Prime: conflict.operation2,
-          conflicts: []
-        };
-      }
-    }
-    
-    // For other auto-resolvable conflicts, use the transform method
-    return this.transform(conflict.operation1, conflict.operation2);
+    // Adjacent edits do not touch the same text, so transforming them settles the conflict
+    return {
+      ...this.transform(conflict.operation1, conflict.operation2, content),
+      conflicts: []
+    };
   }
-}
\ No newline at end of file
+}
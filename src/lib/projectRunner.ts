@@ -0,0 +1,180 @@
+/**
+ * Runs a multi-file project in the browser sandbox.
+ *
+ * Every file reachable from the entry point is compiled to a CommonJS-style
+ * module with a source map, relative imports are resolved against the other
+ * project files up front, and the sandbox's module loader evaluates the graph.
+ * Stack traces of uncaught errors are mapped back to the original files.
+ */
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import { RunOptions, runModulesInBrowserSandbox, SandboxModule, SandboxResult } from '@/lib/browserSandbox';
+import { formatDiagnostic, ModuleTranspileResult, transpileProjectModule } from '@/lib/typescriptWorker';
+
+export interface ProjectSource {
+  path: string;
+  content: string;
+}
+
+export interface ModuleGraph {
+  modules: Record<string, SandboxModule>;
+  /** Source maps of the compiled modules, by path */
+  sourceMaps: Record<string, string>;
+}
+
+type Transpile = (path: string, code: string) => Promise<ModuleTranspileResult> | ModuleTranspileResult;
+
+/** Extensions of the files a project can run from */
+export const RUNNABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs'];
+
+const RESOLVED_EXTENSIONS = ['', ...RUNNABLE_EXTENSIONS, '.json'];
+
+/** Collapse `.` and `..` segments of an absolute path */
+export const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  return `/${segments.join('/')}`;
+};
+
+const isRelative = (specifier: string) =>
+  specifier.startsWith('./') || specifier.startsWith('../') || specifier.startsWith('/');
+
+/**
+ * Resolve an import the way bundlers do: the exact file, then with each known
+ * extension, then as a directory's index file. A `.js` import also finds the
+ * `.ts` file it compiles from. Returns null for bare or unresolvable specifiers.
+ */
+export const resolveImport = (from: string, specifier: string, paths: Set<string>): string | null => {
+  if (!isRelative(specifier)) return null;
+
+  const directory = from.slice(0, from.lastIndexOf('/'));
+  const base = normalizePath(specifier.startsWith('/') ? specifier : `${directory}/${specifier}`);
+  const candidates = [
+    ...RESOLVED_EXTENSIONS.map(extension => base + extension),
+    ...RESOLVED_EXTENSIONS.slice(1).map(extension => `${base}/index${extension}`),
+  ];
+  const compiledFrom = base.match(/^(.*)\.(m?js|jsx)$/);
+  if (compiledFrom) candidates.push(`${compiledFrom[1]}.ts`, `${compiledFrom[1]}.tsx`);
+
+  return candidates.find(candidate => paths.has(candidate)) ?? null;
+};
+
+/** Compile the entry point and everything it imports; throws with a readable message if that fails */
+export const buildModuleGraph = async (
+  files: ProjectSource[],
+  entry: string,
+  transpile: Transpile = transpileProjectModule
+): Promise<ModuleGraph> => {
+  const sources = new Map(files.map(file => [normalizePath(file.path), file.content]));
+  const paths = new Set(sources.keys());
+  const graph: ModuleGraph = { modules: {}, sourceMaps: {} };
+
+  const visit = async (path: string): Promise<void> => {
+    if (path in graph.modules) return;
+    const content = sources.get(path) ?? '';
+
+    if (path.endsWith('.json')) {
+      try {
+        JSON.parse(content);
+      } catch (err) {
+        throw new Error(`${path}: ${err instanceof Error ? err.message : 'Invalid JSON'}`);
+      }
+      graph.modules[path] = { json: content };
+      return;
+    }
+
+    const { js, sourceMap, imports, syntaxErrors } = await transpile(path, content);
+    if (syntaxErrors.length > 0) {
+      throw new Error(syntaxErrors.map(diagnostic => `${path}: ${formatDiagnostic(diagnostic)}`).join('\n'));
+    }
+
+    const dependencies: Record<string, string> = {};
+    graph.modules[path] = { code: js, dependencies };
+    graph.sourceMaps[path] = sourceMap;
+
+    for (const { specifier, line } of imports) {
+      const resolved = resolveImport(path, specifier, paths);
+      if (!resolved) {
+        throw new Error(`Cannot find module '${specifier}' imported from ${path}:${line}`);
+      }
+      dependencies[specifier] = resolved;
+      await visit(resolved);
+    }
+  };
+
+  const entryPath = normalizePath(entry);
+  if (!sources.has(entryPath)) throw new Error(`Cannot find entry point ${entryPath}`);
+  await visit(entryPath);
+  return graph;
+};
+
+// The sandbox wraps each module in an AsyncFunction, which puts its first line on line 3
+const WRAPPER_LINES = 2;
+
+const FRAME_LOCATION = /(\/[^\s():@]+):(\d+):(\d+)/;
+const FRAME_NAME = /^\s*(?:at (\S+) \(|([^@\s]+)@)/;
+const ANONYMOUS_FRAMES = new Set(['eval', 'anonymous', 'Object.<anonymous>']);
+
+/**
+ * Rewrite an error's stack trace to point at the original project files.
+ * Frames outside the project (the sandbox's own loader) are dropped.
+ */
+export const mapStack = (error: string, stack: string, sourceMaps: Record<string, string>): string => {
+  const traceMaps = new Map<string, TraceMap>();
+  const traceMapFor = (path: string) => {
+    let traceMap = traceMaps.get(path);
+    if (!traceMap) {
+      traceMap = new TraceMap(sourceMaps[path]);
+      traceMaps.set(path, traceMap);
+    }
+    return traceMap;
+  };
+
+  const frames = stack.split('\n').flatMap(frame => {
+    const location = frame.match(FRAME_LOCATION);
+    if (!location || !(location[1] in sourceMaps)) return [];
+
+    const [, path, line, column] = location;
+    const original = originalPositionFor(traceMapFor(path), {
+      line: Number(line) - WRAPPER_LINES,
+      column: Number(column) - 1,
+    });
+    const mapped = original.line === null
+      ? `${path}:${Number(line) - WRAPPER_LINES}:${column}`
+      : `${path}:${original.line}:${original.column + 1}`;
+
+    // Chrome writes "at name (location)", Firefox and Safari "name@location"
+    const name = frame.match(FRAME_NAME)?.slice(1).find(Boolean);
+    return [name && !ANONYMOUS_FRAMES.has(name) ? `    at ${name} (${mapped})` : `    at ${mapped}`];
+  });
+
+  return [error, ...frames].join('\n');
+};
+
+/** Run `entry` with the project's other files available to import */
+export const runProject = async (
+  files: ProjectSource[],
+  entry: string,
+  input?: string,
+  options: RunOptions = {}
+): Promise<SandboxResult> => {
+  const startTime = Date.now();
+  let graph: ModuleGraph;
+  try {
+    graph = await buildModuleGraph(files, entry);
+  } catch (err) {
+    return {
+      success: false,
+      output: '',
+      error: err instanceof Error ? err.message : 'Failed to compile project',
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  const { stack, ...result } = await runModulesInBrowserSandbox(graph.modules, normalizePath(entry), input, options);
+  if (result.success || !result.error || !stack) return result;
+  return { ...result, error: mapStack(result.error, stack, graph.sourceMaps) };
+};
@@ -0,0 +1,146 @@
+/**
+ * Runs untrusted Python with Pyodide (CPython compiled to WebAssembly).
+ *
+ * The interpreter lives in a dedicated Web Worker: it has no DOM, no
+ * localStorage and so no access to the user's Supabase session, and Python's
+ * `js` module does not expose the worker's globals. Runs are queued on one warm
+ * interpreter; a run that exceeds the sandbox timeout or is stopped terminates
+ * the worker, which also stops infinite loops, and the next run starts a fresh
+ * one. Output is streamed back line by line as the program writes it, and
+ * `input()` can ask the user through `onInput` (see `sharedInput.ts`).
+ *
+ * Pyodide is bundled with the app (see `vite.config.ts`), so only the standard
+ * library is available.
+ */
+import {
+  createRunTimer,
+  EXECUTION_STOPPED,
+  OutputStream,
+  RunOptions,
+  SANDBOX_TIMEOUT_MS,
+  SandboxResult,
+  truncateOutput,
+} from '@/lib/browserSandbox';
+import { canShareMemory, createInputBuffer, writeInput } from '@/lib/sharedInput';
+import type { PythonRunRequest, PythonWorkerMessage } from '@/lib/pythonSandbox.worker';
+
+// Downloading and compiling the interpreter is not counted against the run timeout
+const LOAD_TIMEOUT_MS = 60_000;
+
+let worker: Worker | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./pythonSandbox.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+const discardWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+const execute = (
+  code: string,
+  input: string | undefined,
+  { onOutput, signal, onInput }: RunOptions
+): Promise<SandboxResult> => {
+  const startTime = Date.now();
+  let runStartTime = startTime;
+
+  return new Promise<SandboxResult>((resolve) => {
+    if (signal?.aborted) {
+      resolve({ success: false, output: '', error: EXECUTION_STOPPED, executionTime: 0 });
+      return;
+    }
+
+    const id = `run-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const activeWorker = getWorker();
+    const stdinBuffer = onInput && canShareMemory() ? createInputBuffer() : undefined;
+
+    // Output received so far, which a timed-out or stopped run still returns
+    const streamed: Record<OutputStream, string[]> = { stdout: [], stderr: [] };
+
+    let settled = false;
+    const finish = (result: SandboxResult) => {
+      if (settled) return;
+      settled = true;
+      timer.clear();
+      activeWorker.removeEventListener('message', onMessage);
+      activeWorker.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+      resolve({
+        ...result,
+        output: truncateOutput(result.output),
+        stderr: result.stderr && truncateOutput(result.stderr),
+      });
+    };
+
+    const fail = (error: string) => {
+      discardWorker();
+      finish({
+        success: false,
+        output: streamed.stdout.join('\n'),
+        stderr: streamed.stderr.join('\n') || undefined,
+        error,
+        executionTime: Date.now() - runStartTime,
+      });
+    };
+
+    const onAbort = () => fail(EXECUTION_STOPPED);
+
+    let timer = createRunTimer(() => fail('Python failed to load in time'), LOAD_TIMEOUT_MS);
+
+    // The worker is blocked until it gets an answer; the clock is stopped meanwhile
+    const answerInputRequest = async (buffer: SharedArrayBuffer) => {
+      timer.pause();
+      const value = onInput ? await onInput().catch(() => null) : null;
+      if (settled) return;
+      timer.resume();
+      writeInput(buffer, value);
+    };
+
+    const onMessage = (event: MessageEvent<PythonWorkerMessage>) => {
+      const data = event.data;
+      if (data.id !== id) return;
+      if (data.type === 'started') {
+        runStartTime = Date.now();
+        timer.clear();
+        timer = createRunTimer(() => fail(`Execution timeout (${SANDBOX_TIMEOUT_MS / 1000} seconds)`), SANDBOX_TIMEOUT_MS);
+        return;
+      }
+      if (data.type === 'input-request') {
+        if (stdinBuffer) answerInputRequest(stdinBuffer);
+        return;
+      }
+      if (data.type === 'output') {
+        streamed[data.stream].push(data.text);
+        onOutput?.(data.text, data.stream);
+        return;
+      }
+      finish({
+        success: data.success,
+        output: data.success ? (data.stdout || '(No output)') : data.stdout,
+        stderr: data.stderr || undefined,
+        error: data.error,
+        executionTime: Date.now() - runStartTime,
+      });
+    };
+
+    const onError = (event: ErrorEvent) => fail(event.message || 'Python worker error');
+
+    activeWorker.addEventListener('message', onMessage);
+    activeWorker.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+    const request: PythonRunRequest = { type: 'run', id, code, input: input || '', interactive: !!onInput, stdinBuffer };
+    activeWorker.postMessage(request);
+  });
+};
+
+export const runPythonInSandbox = (code: string, input?: string, options: RunOptions = {}): Promise<SandboxResult> => {
+  const run = queue.then(() => execute(code, input, options));
+  queue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,143 @@
+/**
+ * Web Worker hosting the Pyodide interpreter for `runPythonInSandbox`.
+ *
+ * Pyodide is loaded once from the locally served `/pyodide/` assets and kept
+ * warm; each run gets fresh module globals. Python's `js` module is an empty
+ * object rather than the worker's global scope. Once the given input runs out,
+ * `input()` blocks on shared memory until the page answers with the user's line.
+ */
+import { loadPyodide, type PyodideInterface } from 'pyodide';
+import { inputLines, MAX_OUTPUT_LENGTH, type OutputStream } from '@/lib/browserSandbox';
+import { readInput } from '@/lib/sharedInput';
+
+export interface PythonRunRequest {
+  type: 'run';
+  id: string;
+  code: string;
+  input: string;
+  /** Whether the page asks the user once `input` runs out */
+  interactive: boolean;
+  /** Where the page writes the user's answers; absent when the page cannot share memory */
+  stdinBuffer?: SharedArrayBuffer;
+}
+
+export type PythonWorkerMessage =
+  | { type: 'started'; id: string }
+  | { type: 'output'; id: string; stream: OutputStream; text: string }
+  | { type: 'input-request'; id: string }
+  | { type: 'result'; id: string; success: boolean; stdout: string; stderr: string; error?: string };
+
+const INDEX_URL = new URL(`${import.meta.env.BASE_URL}pyodide/`, self.location.origin).href;
+
+let interpreter: Promise<PyodideInterface> | null = null;
+
+const load = (): Promise<PyodideInterface> => {
+  if (!interpreter) {
+    interpreter = loadPyodide({ indexURL: INDEX_URL, jsglobals: {} });
+    interpreter.catch(() => {
+      interpreter = null;
+    });
+  }
+  return interpreter;
+};
+
+const post = (message: PythonWorkerMessage) => self.postMessage(message);
+
+// Collects one stream and forwards each line as it is written, stopping just past the
+// truncation limit so runaway output cannot exhaust memory
+const createStream = (id: string, stream: OutputStream) => {
+  const lines: string[] = [];
+  const decoder = new TextDecoder();
+  let partial = '';
+  let length = 0;
+
+  const emit = (text: string) => {
+    lines.push(text);
+    length += text.length + 1;
+    post({ type: 'output', id, stream, text });
+  };
+
+  // Sends an unfinished line, such as an `input()` prompt
+  const flush = () => {
+    if (partial) emit(partial);
+    partial = '';
+  };
+
+  return {
+    write: (buffer: Uint8Array) => {
+      if (length > MAX_OUTPUT_LENGTH) return buffer.length;
+      const parts = (partial + decoder.decode(buffer, { stream: true })).split('\n');
+      partial = parts.pop() ?? '';
+      parts.forEach(emit);
+      if (partial.length > MAX_OUTPUT_LENGTH) flush();
+      return buffer.length;
+    },
+    flush,
+    writeLine: (text: string) => {
+      flush();
+      if (length <= MAX_OUTPUT_LENGTH) emit(text);
+    },
+    text: () => {
+      flush();
+      return lines.join('\n');
+    },
+  };
+};
+
+// Drop Pyodide's own frames so a traceback starts at the user's code
+const formatTraceback = (message: string): string => {
+  const lines = message.trim().split('\n');
+  const start = lines.findIndex(line => line.startsWith('  File "<main>"'));
+  return start > 0 ? [lines[0], ...lines.slice(start)].join('\n') : lines.join('\n');
+};
+
+self.addEventListener('message', async (event: MessageEvent<PythonRunRequest>) => {
+  const { type, id, code, input, interactive, stdinBuffer } = event.data;
+  if (type !== 'run') return;
+
+  const stdout = createStream(id, 'stdout');
+  const stderr = createStream(id, 'stderr');
+
+  let py: PyodideInterface;
+  try {
+    py = await load();
+  } catch (err) {
+    post({ type: 'result', id, success: false, stdout: '', stderr: '', error: `Python failed to load: ${err instanceof Error ? err.message : String(err)}` });
+    return;
+  }
+
+  // One line of `input` per read, then one line from the user; without a way to ask, reads see end-of-file
+  const lines = inputLines(input);
+  let explained = false;
+  py.setStdin({
+    stdin: () => {
+      const line = lines.shift();
+      if (line !== undefined) return line;
+      if (stdinBuffer) {
+        stdout.flush();
+        post({ type: 'input-request', id });
+        return readInput(stdinBuffer);
+      }
+      if (interactive && !explained) {
+        explained = true;
+        stderr.writeLine('Interactive input needs a cross-origin isolated page; only the input given up front can be read here.');
+      }
+      return null;
+    },
+  });
+  // As a terminal, stdout is line-buffered and `input()` flushes its prompt before reading
+  py.setStdout({ write: stdout.write, isatty: true });
+  py.setStderr({ write: stderr.write });
+
+  const globals = py.toPy({ __name__: '__main__' });
+  post({ type: 'started', id });
+  try {
+    await py.runPythonAsync(code, { globals, filename: '<main>' });
+    post({ type: 'result', id, success: true, stdout: stdout.text(), stderr: stderr.text() });
+  } catch (err) {
+    const error = err instanceof Error ? formatTraceback(err.message) : String(err);
+    post({ type: 'result', id, success: false, stdout: stdout.text(), stderr: stderr.text(), error });
+  } finally {
+    globals.destroy();
+  }
+});
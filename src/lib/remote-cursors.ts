@@ -0,0 +1,67 @@
+import { getUserColor } from '@/lib/collab-encoding';
+
+/** The `user` field each client publishes in its Yjs awareness state */
+export interface AwarenessUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+const FALLBACK_NAME = 'Collaborator';
+
+/**
+ * The user behind an awareness state, coloured from our palette by user id.
+ * Colours are never taken from the state itself, since they end up in a stylesheet.
+ */
+export const awarenessUser = (state: unknown, clientId: number): AwarenessUser => {
+  const user = (state as { user?: Partial<AwarenessUser> } | null)?.user;
+  const id = typeof user?.id === 'string' && user.id ? user.id : String(clientId);
+  const name = typeof user?.name === 'string' && user.name.trim() ? user.name.trim() : FALLBACK_NAME;
+  return { id, name, color: getUserColor(id) };
+};
+
+// Quote text for a CSS string, so a name cannot close the declaration it is placed in
+const cssString = (value: string): string =>
+  `"${value.replace(/[\\"]/g, '\\$&').replace(/[\n\r\f]/g, ' ')}"`;
+
+// y-monaco decorates remote selections with `yRemoteSelection-<clientID>` and
+// places `yRemoteSelectionHead-<clientID>` at their heads; the base rules position them
+const BASE_RULES = `
+.yRemoteSelection { opacity: 0.35; }
+.yRemoteSelectionHead {
+  position: absolute;
+  height: 100%;
+  box-sizing: border-box;
+  border-left: 2px solid;
+}
+.yRemoteSelectionHead::after {
+  position: absolute;
+  top: -1.4em;
+  left: -2px;
+  padding: 0 4px;
+  border-radius: 3px 3px 3px 0;
+  font-size: 10px;
+  font-weight: 600;
+  line-height: 1.4em;
+  white-space: nowrap;
+  color: #1e1e1e;
+  pointer-events: none;
+  z-index: 10;
+}`;
+
+/**
+ * Stylesheet for the cursors, selections and name labels of every remote awareness client
+ */
+export const remoteCursorCss = (states: Map<number, unknown>, localClientId: number): string => {
+  const rules = [BASE_RULES];
+  states.forEach((state, clientId) => {
+    if (clientId === localClientId) return;
+    const { name, color } = awarenessUser(state, clientId);
+    rules.push(
+      `.yRemoteSelection-${clientId} { background-color: ${color}; }`,
+      `.yRemoteSelectionHead-${clientId} { border-color: ${color}; }`,
+      `.yRemoteSelectionHead-${clientId}::after { content: ${cssString(name)}; background-color: ${color}; }`
+    );
+  });
+  return rules.join('\n');
+};
@@ -0,0 +1,77 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+/** Room analytics built from the session history the collaboration server records. */
+
+export type SessionHistoryRow = Tables<'collaboration_session_history'>;
+
+export interface FileInsight {
+  fileId: string;
+  activeSeconds: number;
+  edits: number;
+}
+
+export interface UserInsight {
+  userId: string;
+  sessions: number;
+  activeSeconds: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  /** A session without an end is still running (or its server stopped abruptly) */
+  isInSession: boolean;
+  files: FileInsight[];
+}
+
+const readFileActivity = (value: SessionHistoryRow['file_activity']): Record<string, { active_seconds?: number; edits?: number }> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return value as Record<string, { active_seconds?: number; edits?: number }>;
+};
+
+/** Per-user totals, most active first; files within a user are sorted the same way. */
+export const summarizeSessions = (rows: SessionHistoryRow[]): UserInsight[] => {
+  const byUser = new Map<string, UserInsight & { fileMap: Map<string, FileInsight> }>();
+
+  rows.forEach(row => {
+    const startedAt = new Date(row.started_at);
+    const lastSeen = new Date(row.ended_at ?? row.updated_at);
+
+    const insight = byUser.get(row.user_id) ?? {
+      userId: row.user_id,
+      sessions: 0,
+      activeSeconds: 0,
+      firstSeen: startedAt,
+      lastSeen,
+      isInSession: false,
+      files: [],
+      fileMap: new Map<string, FileInsight>(),
+    };
+    byUser.set(row.user_id, insight);
+
+    insight.sessions++;
+    insight.activeSeconds += row.active_seconds;
+    if (startedAt < insight.firstSeen) insight.firstSeen = startedAt;
+    if (lastSeen > insight.lastSeen) insight.lastSeen = lastSeen;
+    if (!row.ended_at) insight.isInSession = true;
+
+    Object.entries(readFileActivity(row.file_activity)).forEach(([fileId, activity]) => {
+      const file = insight.fileMap.get(fileId) ?? { fileId, activeSeconds: 0, edits: 0 };
+      file.activeSeconds += activity.active_seconds ?? 0;
+      file.edits += activity.edits ?? 0;
+      insight.fileMap.set(fileId, file);
+    });
+  });
+
+  return Array.from(byUser.values())
+    .map(({ fileMap, ...insight }) => ({
+      ...insight,
+      files: Array.from(fileMap.values()).sort((a, b) => b.activeSeconds - a.activeSeconds || b.edits - a.edits),
+    }))
+    .sort((a, b) => b.activeSeconds - a.activeSeconds);
+};
+
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+};
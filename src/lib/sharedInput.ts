@@ -0,0 +1,40 @@
+/**
+ * A one-line mailbox in shared memory that lets a worker block in a synchronous
+ * read, such as Python's `input()`, until the page hands it what the user typed.
+ *
+ * Layout: an Int32 state (0 empty, 1 filled), an Int32 byte length (-1 for end
+ * of input), then the UTF-8 text. SharedArrayBuffer is only available on cross-
+ * origin isolated pages (see the COOP/COEP headers in `vite.config.ts`).
+ */
+const STATE = 0;
+const LENGTH = 1;
+const HEADER_BYTES = 8;
+
+export const MAX_INPUT_LINE_BYTES = 64 * 1024;
+
+export const canShareMemory = (): boolean =>
+  typeof SharedArrayBuffer !== 'undefined' && typeof crossOriginIsolated !== 'undefined' && crossOriginIsolated;
+
+export const createInputBuffer = (): SharedArrayBuffer =>
+  new SharedArrayBuffer(HEADER_BYTES + MAX_INPUT_LINE_BYTES);
+
+/** Page side: give the waiting worker a line, or null to end its input. Long lines are cut short. */
+export const writeInput = (buffer: SharedArrayBuffer, value: string | null) => {
+  const header = new Int32Array(buffer, 0, 2);
+  const length = value === null
+    ? -1
+    : new TextEncoder().encodeInto(value, new Uint8Array(buffer, HEADER_BYTES)).written;
+  Atomics.store(header, LENGTH, length);
+  Atomics.store(header, STATE, 1);
+  Atomics.notify(header, STATE);
+};
+
+/** Worker side: block until the page writes a line */
+export const readInput = (buffer: SharedArrayBuffer): string | null => {
+  const header = new Int32Array(buffer, 0, 2);
+  Atomics.wait(header, STATE, 0);
+  const length = Atomics.load(header, LENGTH);
+  Atomics.store(header, STATE, 0);
+  // TextDecoder does not accept views of shared memory, so decode a copy
+  return length < 0 ? null : new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, length).slice());
+};
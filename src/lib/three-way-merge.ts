@@ -0,0 +1,255 @@
+/**
+ * Line-based three-way merge
+ *
+ * Both sides are diffed against their common ancestor. Changes that touch
+ * different lines are merged automatically; where both sides changed the same
+ * lines differently the hunk is a conflict, rendered with conflict markers
+ * until someone picks a side.
+ */
+
+export type MergeChoice = 'local' | 'remote' | 'both' | 'base';
+
+export interface MergeHunk {
+  id: number;
+  baseLines: string[];
+  localLines: string[];
+  remoteLines: string[];
+  conflict: boolean;
+  /** The side taken automatically when only one side changed these lines, or both changed them the same way */
+  resolution?: 'local' | 'remote';
+}
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'hunk'; hunk: MergeHunk };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  hunks: MergeHunk[];
+  conflictCount: number;
+}
+
+export const CONFLICT_MARKERS = {
+  local: '<<<<<<< yours',
+  separator: '=======',
+  remote: '>>>>>>> theirs'
+};
+
+// Lines a diff table may cover before a change is treated as one block
+const MAX_DIFF_CELLS = 4_000_000;
+
+interface LineHunk {
+  /** Base lines [baseStart, baseEnd) are replaced by `lines` */
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+interface Region {
+  start: number;
+  end: number;
+  local: LineHunk[];
+  remote: LineHunk[];
+}
+
+/**
+ * Hunks that turn `base` into `other`, from a longest common subsequence of lines
+ */
+function diffLines(base: string[], other: string[]): LineHunk[] {
+  let prefix = 0;
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) suffix++;
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = other.slice(prefix, other.length - suffix);
+  if (a.length === 0 && b.length === 0) return [];
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [{ baseStart: prefix, baseEnd: prefix + a.length, lines: b }];
+  }
+
+  // common[i * width + j] is the LCS length of a[i:] and b[j:]
+  const width = b.length + 1;
+  const common = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i * width + j] = a[i] === b[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const hunks: LineHunk[] = [];
+  let current: LineHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { baseStart: prefix + i, baseEnd: prefix + i, lines: [] };
+      hunks.push(current);
+    }
+    if (j >= b.length || (i < a.length && common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+      i++;
+      current.baseEnd = prefix + i;
+    } else {
+      current.lines.push(b[j]);
+      j++;
+    }
+  }
+  return hunks;
+}
+
+// Changes conflict when they replace shared lines or insert where the other also edits
+function touches(region: { start: number; end: number }, hunk: LineHunk): boolean {
+  if (region.start === hunk.baseStart) return true;
+  const start = Math.max(region.start, hunk.baseStart);
+  const end = Math.min(region.end, hunk.baseEnd);
+  if (start < end) return true;
+  // A pure insertion at the edge of the other change has no defined order
+  return start === end && (region.start === region.end || hunk.baseStart === hunk.baseEnd);
+}
+
+// One side's text for base lines [start, end)
+function sideLines(base: string[], start: number, end: number, hunks: LineHunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Merge two descendants of `base`
+ */
+export function threeWayMerge(base: string, local: string, remote: string): MergeResult {
+  const baseLines = base.split('\n');
+  const tagged = [
+    ...diffLines(baseLines, local.split('\n')).map(hunk => ({ hunk, side: 'local' as const })),
+    ...diffLines(baseLines, remote.split('\n')).map(hunk => ({ hunk, side: 'remote' as const }))
+  ].sort((a, b) => a.hunk.baseStart - b.hunk.baseStart || a.hunk.baseEnd - b.hunk.baseEnd);
+
+  const regions: Region[] = [];
+  for (const { hunk, side } of tagged) {
+    const last = regions[regions.length - 1];
+    if (last && touches(last, hunk)) {
+      last.end = Math.max(last.end, hunk.baseEnd);
+      last[side].push(hunk);
+    } else {
+      regions.push({ start: hunk.baseStart, end: hunk.baseEnd, local: [], remote: [], [side]: [hunk] });
+    }
+  }
+
+  const chunks: MergeChunk[] = [];
+  const hunks: MergeHunk[] = [];
+  let position = 0;
+  for (const region of regions) {
+    if (region.start > position) {
+      chunks.push({ type: 'stable', lines: baseLines.slice(position, region.start) });
+    }
+
+    const localLines = sideLines(baseLines, region.start, region.end, region.local);
+    const remoteLines = sideLines(baseLines, region.start, region.end, region.remote);
+    const conflict = region.local.length > 0 && region.remote.length > 0 && !sameLines(localLines, remoteLines);
+    const hunk: MergeHunk = {
+      id: hunks.length,
+      baseLines: baseLines.slice(region.start, region.end),
+      localLines,
+      remoteLines,
+      conflict,
+      resolution: conflict ? undefined : region.local.length > 0 ? 'local' : 'remote'
+    };
+    hunks.push(hunk);
+    chunks.push({ type: 'hunk', hunk });
+    position = region.end;
+  }
+  if (position < baseLines.length) {
+    chunks.push({ type: 'stable', lines: baseLines.slice(position) });
+  }
+
+  return { chunks, hunks, conflictCount: hunks.filter(hunk => hunk.conflict).length };
+}
+
+/**
+ * The lines a hunk contributes for a choice; conflicts without one keep their markers
+ */
+export function resolveHunk(hunk: MergeHunk, choice: MergeChoice | undefined = hunk.resolution): string[] {
+  switch (choice) {
+    case 'local':
+      return hunk.localLines;
+    case 'remote':
+      return hunk.remoteLines;
+    case 'base':
+      return hunk.baseLines;
+    case 'both':
+      return sameLines(hunk.localLines, hunk.remoteLines)
+        ? hunk.localLines
+        : [...hunk.localLines, ...hunk.remoteLines];
+    default:
+      return [
+        CONFLICT_MARKERS.local,
+        ...hunk.localLines,
+        CONFLICT_MARKERS.separator,
+        ...hunk.remoteLines,
+        CONFLICT_MARKERS.remote
+      ];
+  }
+}
+
+/**
+ * The merged document, with the given per-hunk choices applied
+ */
+export function renderMerge(result: MergeResult, choices: Partial<Record<number, MergeChoice>> = {}): string {
+  return result.chunks
+    .flatMap(chunk => (chunk.type === 'stable' ? chunk.lines : resolveHunk(chunk.hunk, choices[chunk.hunk.id])))
+    .join('\n');
+}
+
+/**
+ * Apply a change of choices to text that may have been edited by hand since it
+ * was rendered: the switch is merged into `current` rather than replacing it.
+ * Where a hand edit overlaps the switched lines the choice wins, and
+ * `overwritesEdits` reports that so callers can ask first.
+ */
+export function applyChoice(
+  result: MergeResult,
+  previous: Partial<Record<number, MergeChoice>>,
+  next: Partial<Record<number, MergeChoice>>,
+  current: string
+): { content: string; overwritesEdits: boolean } {
+  const rebased = threeWayMerge(renderMerge(result, previous), current, renderMerge(result, next));
+  const takeChoice: Partial<Record<number, MergeChoice>> = {};
+  for (const hunk of rebased.hunks) {
+    if (hunk.conflict) takeChoice[hunk.id] = 'remote';
+  }
+  return { content: renderMerge(rebased, takeChoice), overwritesEdits: rebased.conflictCount > 0 };
+}
+
+/**
+ * Whether text still contains an unresolved conflict: a full yours, separator,
+ * theirs block. A marker line on its own, such as a heading underlined with
+ * `=======`, is ordinary content.
+ */
+export function hasConflictMarkers(text: string): boolean {
+  let seen: 'none' | 'local' | 'separator' = 'none';
+  for (const line of text.split('\n')) {
+    if (line === CONFLICT_MARKERS.local) seen = 'local';
+    else if (line === CONFLICT_MARKERS.separator && seen === 'local') seen = 'separator';
+    else if (line === CONFLICT_MARKERS.remote && seen === 'separator') return true;
+  }
+  return false;
+}
@@ -0,0 +1,187 @@
+/**
+ * Transpiles and type-checks TypeScript snippets with the TypeScript compiler.
+ *
+ * This module pulls in the whole compiler, so the app only loads it inside
+ * `typescriptTranspiler.worker.ts`; use `transpileTypeScript` or
+ * `transpileProjectModule` from `typescriptWorker.ts` instead.
+ */
+import ts from 'typescript';
+
+export interface TypeDiagnostic {
+  line: number;
+  column: number;
+  code: number;
+  category: 'error' | 'warning';
+  message: string;
+}
+
+export interface TranspileResult {
+  /** JavaScript for the browser sandbox; empty when the source does not parse */
+  js: string;
+  /** Syntax errors; the code cannot run while there are any */
+  syntaxErrors: TypeDiagnostic[];
+  /** Type errors, when type checking was asked for; the code still runs */
+  typeErrors: TypeDiagnostic[];
+}
+
+/** One file of a project, compiled to a CommonJS-style module for the sandbox's module loader */
+export interface ModuleTranspileResult {
+  js: string;
+  /** Maps `js` back to the original file */
+  sourceMap: string;
+  /** Everything the file imports, re-exports or requires, with the line of each */
+  imports: Array<{ specifier: string; line: number }>;
+  syntaxErrors: TypeDiagnostic[];
+}
+
+export interface TranspileOptions {
+  tsx?: boolean;
+  /** Contents of the `lib.*.d.ts` files by file name; type checking is skipped without them */
+  libFiles?: Map<string, string>;
+}
+
+/** The standard library the sandbox provides: ES2020 in a browser window */
+export const ROOT_LIBS = ['es2020', 'dom', 'dom.iterable'];
+
+const LIB_REFERENCE = /^\/\/\/\s*<reference\s+lib="([^"]+)"\s*\/>/gm;
+
+/** Names of the libs a lib file pulls in with `/// <reference lib>` */
+export const referencedLibs = (source: string): string[] =>
+  [...source.matchAll(LIB_REFERENCE)].map(match => match[1].toLowerCase());
+
+// What the sandbox defines besides the browser globals: snippets read stdin from `input`
+// or line by line with `readline`, and TSX compiles to React.createElement calls
+const SANDBOX_GLOBALS = `
+declare const input: string;
+declare function readline(message?: string): Promise<string | null>;
+declare const React: { createElement(type: unknown, props?: unknown, ...children: unknown[]): unknown };
+declare namespace JSX {
+  interface IntrinsicElements { [name: string]: Record<string, unknown> }
+}
+`;
+
+const SANDBOX_GLOBALS_FILE = '/sandbox-globals.d.ts';
+
+const EMIT_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  jsx: ts.JsxEmit.React,
+};
+
+const MODULE_OPTIONS: ts.CompilerOptions = {
+  ...EMIT_OPTIONS,
+  module: ts.ModuleKind.CommonJS,
+  esModuleInterop: true,
+  allowJs: true,
+  sourceMap: true,
+};
+
+const CHECK_OPTIONS: ts.CompilerOptions = {
+  ...EMIT_OPTIONS,
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+  types: [],
+  // Snippets run inside a function, so their declarations never clash with browser globals like `name`
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  lib: ROOT_LIBS.map(name => `lib.${name}.d.ts`),
+};
+
+// Parsing the DOM declarations takes far longer than checking a snippet, so lib files are parsed once
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+const toDiagnostic = (diagnostic: ts.Diagnostic): TypeDiagnostic => {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: 0, character: 0 };
+  return {
+    line: position.line + 1,
+    column: position.character + 1,
+    code: diagnostic.code,
+    category: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  };
+};
+
+const checkTypes = (fileName: string, code: string, libFiles: Map<string, string>): TypeDiagnostic[] => {
+  const sources = new Map<string, string>([[fileName, code], [SANDBOX_GLOBALS_FILE, SANDBOX_GLOBALS]]);
+  libFiles.forEach((text, name) => sources.set(`/${name}`, text));
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (name, languageVersion) => {
+      const text = sources.get(name);
+      if (text === undefined) return undefined;
+      if (!libFiles.has(name.slice(1))) return ts.createSourceFile(name, text, languageVersion, true);
+
+      let sourceFile = libSourceFiles.get(name);
+      if (!sourceFile) {
+        sourceFile = ts.createSourceFile(name, text, languageVersion, true);
+        libSourceFiles.set(name, sourceFile);
+      }
+      return sourceFile;
+    },
+    getDefaultLibFileName: options => `/${ts.getDefaultLibFileName(options)}`,
+    getDefaultLibLocation: () => '/',
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: name => name,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: name => sources.has(name),
+    readFile: name => sources.get(name),
+  };
+
+  const program = ts.createProgram([fileName, SANDBOX_GLOBALS_FILE], CHECK_OPTIONS, host);
+  const sourceFile = program.getSourceFile(fileName);
+  return sourceFile ? program.getSemanticDiagnostics(sourceFile).map(toDiagnostic) : [];
+};
+
+export const transpile = (code: string, { tsx = false, libFiles }: TranspileOptions = {}): TranspileResult => {
+  const fileName = tsx ? '/main.tsx' : '/main.ts';
+  const { outputText, diagnostics = [] } = ts.transpileModule(code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: EMIT_OPTIONS,
+  });
+
+  const syntaxErrors = diagnostics
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(toDiagnostic);
+  if (syntaxErrors.length > 0) {
+    return { js: '', syntaxErrors, typeErrors: [] };
+  }
+
+  return {
+    js: outputText,
+    syntaxErrors: [],
+    typeErrors: libFiles ? checkTypes(fileName, code, libFiles) : [],
+  };
+};
+
+const SOURCE_MAP_COMMENT = /\n\/\/# sourceMappingURL=\S*\s*$/;
+
+const lineAt = (code: string, position: number): number => code.slice(0, position).split('\n').length;
+
+/**
+ * Compile one project file (TypeScript, JavaScript or JSX by its extension) to a module
+ */
+export const transpileModule = (path: string, code: string): ModuleTranspileResult => {
+  const { outputText, sourceMapText = '', diagnostics = [] } = ts.transpileModule(code, {
+    fileName: path,
+    reportDiagnostics: true,
+    compilerOptions: MODULE_OPTIONS,
+  });
+
+  const syntaxErrors = diagnostics
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(toDiagnostic);
+  const imports = ts.preProcessFile(code, true, true).importedFiles
+    .map(file => ({ specifier: file.fileName, line: lineAt(code, file.pos) }));
+
+  return {
+    js: syntaxErrors.length > 0 ? '' : outputText.replace(SOURCE_MAP_COMMENT, ''),
+    sourceMap: sourceMapText,
+    imports,
+    syntaxErrors,
+  };
+};
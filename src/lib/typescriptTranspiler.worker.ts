@@ -0,0 +1,67 @@
+/**
+ * Web Worker running the TypeScript compiler for `typescriptWorker.ts`, so the
+ * compiler and its lib declarations load only when TypeScript is first run.
+ */
+import {
+  ROOT_LIBS,
+  referencedLibs,
+  transpile,
+  transpileModule,
+  type ModuleTranspileResult,
+  type TranspileResult,
+} from '@/lib/typescriptTranspiler';
+
+export type TranspileRequest =
+  | { type: 'transpile'; id: string; code: string; tsx: boolean; checkTypes: boolean }
+  | { type: 'transpile-module'; id: string; path: string; code: string };
+
+export type TranspilerWorkerMessage =
+  | { type: 'done'; id: string; result: TranspileResult | ModuleTranspileResult }
+  | { type: 'failed'; id: string; error: string };
+
+// Bundled with the worker and fetched on demand
+const LIB_SOURCES = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default',
+});
+
+const libFiles = new Map<string, string>();
+const libLoads = new Map<string, Promise<void>>();
+
+// Loads a lib file and everything it references
+const loadLib = (name: string): Promise<void> => {
+  let load = libLoads.get(name);
+  if (!load) {
+    const fileName = `lib.${name}.d.ts`;
+    const source = LIB_SOURCES[`/node_modules/typescript/lib/${fileName}`];
+    load = source
+      ? source().then(text => {
+          libFiles.set(fileName, text);
+          return Promise.all(referencedLibs(text).map(loadLib)).then(() => undefined);
+        })
+      : Promise.resolve();
+    libLoads.set(name, load);
+    // Let a later run try again rather than keep a failed load
+    load.catch(() => libLoads.delete(name));
+  }
+  return load;
+};
+
+const handle = async (request: TranspileRequest): Promise<TranspileResult | ModuleTranspileResult> => {
+  if (request.type === 'transpile-module') {
+    return transpileModule(request.path, request.code);
+  }
+  if (request.checkTypes) await Promise.all(ROOT_LIBS.map(loadLib));
+  return transpile(request.code, { tsx: request.tsx, libFiles: request.checkTypes ? libFiles : undefined });
+};
+
+const post = (message: TranspilerWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<TranspileRequest>) => {
+  const request = event.data;
+  try {
+    post({ type: 'done', id: request.id, result: await handle(request) });
+  } catch (err) {
+    post({ type: 'failed', id: request.id, error: err instanceof Error ? err.message : String(err) });
+  }
+});
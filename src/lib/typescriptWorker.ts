@@ -0,0 +1,77 @@
+/**
+ * Transpiles TypeScript and TSX for the browser sandbox with the real
+ * TypeScript compiler, running in a Web Worker so the compiler stays out of
+ * the main bundle and off the UI thread.
+ */
+import type { ModuleTranspileResult, TranspileResult, TypeDiagnostic } from '@/lib/typescriptTranspiler';
+import type { TranspileRequest, TranspilerWorkerMessage } from '@/lib/typescriptTranspiler.worker';
+
+export type { ModuleTranspileResult, TranspileResult, TypeDiagnostic };
+
+// Generous, since the first run downloads the compiler
+const TRANSPILE_TIMEOUT_MS = 30_000;
+
+let worker: Worker | null = null;
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./typescriptTranspiler.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+const discardWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+type WithoutId<T> = T extends { id: string } ? Omit<T, 'id'> : never;
+
+const send = <T>(message: WithoutId<TranspileRequest>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const id = `transpile-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const activeWorker = getWorker();
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      activeWorker.removeEventListener('message', onMessage);
+      activeWorker.removeEventListener('error', onError);
+    };
+
+    const fail = (error: string) => {
+      cleanup();
+      discardWorker();
+      reject(new Error(error));
+    };
+
+    const timer = setTimeout(() => fail('TypeScript compiler timed out'), TRANSPILE_TIMEOUT_MS);
+
+    const onMessage = (event: MessageEvent<TranspilerWorkerMessage>) => {
+      const data = event.data;
+      if (data.id !== id) return;
+      cleanup();
+      if (data.type === 'failed') {
+        reject(new Error(data.error));
+        return;
+      }
+      resolve(data.result as T);
+    };
+
+    const onError = (event: ErrorEvent) => fail(event.message || 'TypeScript compiler failed to load');
+
+    activeWorker.addEventListener('message', onMessage);
+    activeWorker.addEventListener('error', onError);
+    activeWorker.postMessage({ ...message, id } as TranspileRequest);
+  });
+
+export const formatDiagnostic = ({ line, column, category, code, message }: TypeDiagnostic): string =>
+  `Line ${line}:${column} - ${category} TS${code}: ${message}`;
+
+export const transpileTypeScript = (
+  code: string,
+  { tsx = false, checkTypes = false }: { tsx?: boolean; checkTypes?: boolean } = {}
+): Promise<TranspileResult> => send<TranspileResult>({ type: 'transpile', code, tsx, checkTypes });
+
+/** Compile one project file to a module for `runModulesInBrowserSandbox` */
+export const transpileProjectModule = (path: string, code: string): Promise<ModuleTranspileResult> =>
+  send<ModuleTranspileResult>({ type: 'transpile-module', path, code });
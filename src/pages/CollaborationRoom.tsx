@@ -4,8 +4,25 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useYjsCollaboration } from '@/hooks/useYjsCollaboration';
+import { useFollowMode } from '@/hooks/useFollowMode';
+import { socketService } from '@/services/socket-service';
+import type {
+  CollaborationRole,
+  DocumentConflictEvent,
+  FileVersionConflict,
+  FollowStoppedEvent,
+  PermissionDeniedEvent,
+  PresenceSettings,
+  RateLimitedEvent,
+  ServerErrorEvent,
+} from '@/types/collaboration';
+import { presenceSettingsEventSchema } from '@/lib/collaboration-schemas';
 import { executeCode } from '@/lib/codeExecution';
+import { OperationalTransform } from '@/lib/operational-transform';
 import { RoomChat } from '@/components/RoomChat';
+import { RoomInsights } from '@/components/collaboration/RoomInsights';
+import { FileHistory, type FileRevision } from '@/components/collaboration/FileHistory';
+import { ConflictResolutionModal } from '@/components/collaboration/ConflictResolutionModal';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -36,7 +53,8 @@ import {
   Trash2, Search, Terminal, Circle, FileJson, FileText,
   File as FileIcon, MessageSquare, UserCog, Copy, Check,
   Share2, Loader2, PanelLeftClose, PanelLeft, Download,
-  RefreshCw, Wifi, WifiOff, Eye, Clock
+  RefreshCw, Wifi, WifiOff, Eye, EyeOff, Clock, Presentation, BarChart3,
+  Undo2, Redo2, History
 } from 'lucide-react';
 
 // ─── Types ─────────────────────────────────────────────
@@ -70,6 +88,8 @@ interface Room {
   is_private: boolean;
   created_by: string;
   max_participants: number;
+  idle_timeout_seconds?: number | null;
+  offline_timeout_seconds?: number | null;
 }
 
 // ─── Constants ─────────────────────────────────────────
@@ -81,8 +101,10 @@ const languageMap: Record<string, string> = {
   sh: 'shell', bash: 'shell', rb: 'ruby', php: 'php',
 };
 
+// Defaults for rooms that don't set their own thresholds
 const IDLE_TIMEOUT = 3 * 60 * 1000;   // 3 min → away
 const AWAY_TIMEOUT = 10 * 60 * 1000;  // 10 min → offline
+const SAVE_TIMEOUT = 15 * 1000;       // stop waiting for the server to confirm a save
 
 const getFileIcon = (fileName: string, isFolder: boolean) => {
   if (isFolder) return <FolderOpen className="h-4 w-4 text-yellow-500" />;
@@ -139,6 +161,8 @@ const CollaborationRoom = () => {
   const [openFiles, setOpenFiles] = useState<RoomFile[]>([]);
   const [activeFile, setActiveFile] = useState<RoomFile | null>(null);
   const [isParticipant, setIsParticipant] = useState(false);
+  const [roomRole, setRoomRole] = useState<CollaborationRole | null>(null);
+  const [allowFollowing, setAllowFollowing] = useState(true);
 
   // UI state
   const [showNewFileDialog, setShowNewFileDialog] = useState(false);
@@ -155,6 +179,10 @@ const CollaborationRoom = () => {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showInsights, setShowInsights] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [fileConflict, setFileConflict] = useState<FileVersionConflict | null>(null);
+  const [presenceForm, setPresenceForm] = useState({ idleMinutes: '', offlineMinutes: '' });
   const [showParticipantsPanel, setShowParticipantsPanel] = useState(false);
   const [inviteCode, setInviteCode] = useState('');
   const [generatingCode, setGeneratingCode] = useState(false);
@@ -176,14 +204,17 @@ const CollaborationRoom = () => {
   const idleTimerRef = useRef<NodeJS.Timeout | null>(null);
   const awayTimerRef = useRef<NodeJS.Timeout | null>(null);
   const lastActivityRef = useRef<number>(Date.now());
+  const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   const userName = user?.user_metadata?.display_name || user?.email?.split('@')[0] || 'Anonymous';
 
   // Conflict-free collaborative editing + live cursors for the active file
-  const { status: syncStatus, peers: collaborators } = useYjsCollaboration({
+  // Undo/redo revert only this user's edits, never a collaborator's
+  const {
+    status: syncStatus, peers: collaborators, undo, redo, canUndo, canRedo,
+  } = useYjsCollaboration({
     roomId,
     fileId: activeFile?.id,
-    initialContent: activeFile?.content ?? '',
     editor: editorInstance,
     userId: user?.id,
     userName,
@@ -192,6 +223,13 @@ const CollaborationRoom = () => {
   const activeFileIdRef = useRef<string | undefined>(undefined);
   useEffect(() => { activeFileIdRef.current = activeFile?.id; }, [activeFile?.id]);
 
+  // Tell the collaboration server which file we're on (presence and follow mode);
+  // the socket service sends it again whenever the room is (re)joined
+  useEffect(() => {
+    if (!roomId || !user || !activeFile?.id) return;
+    socketService.switchFile(roomId, activeFile.id, user.id);
+  }, [roomId, user, activeFile?.id]);
+
   // ─── Presence Management ────────────────────────────
   const broadcastPresenceStatus = useCallback(async (status: string) => {
     if (!presenceChannelRef.current || !user) return;
@@ -206,6 +244,12 @@ const CollaborationRoom = () => {
     });
   }, [user, userName, activeFile?.name]);
 
+  const idleTimeout = room?.idle_timeout_seconds ? room.idle_timeout_seconds * 1000 : IDLE_TIMEOUT;
+  const offlineTimeout = Math.max(
+    room?.offline_timeout_seconds ? room.offline_timeout_seconds * 1000 : AWAY_TIMEOUT,
+    idleTimeout
+  );
+
   const resetIdleTimers = useCallback(() => {
     lastActivityRef.current = Date.now();
 
@@ -215,16 +259,16 @@ const CollaborationRoom = () => {
     // Broadcast online status
     broadcastPresenceStatus('online');
 
-    // Set idle → away after IDLE_TIMEOUT
+    // Set idle → away after the room's idle timeout
     idleTimerRef.current = setTimeout(() => {
       broadcastPresenceStatus('away');
 
-      // Set away → offline after AWAY_TIMEOUT
+      // Set away → offline after the room's offline timeout
       awayTimerRef.current = setTimeout(() => {
         broadcastPresenceStatus('offline');
-      }, AWAY_TIMEOUT - IDLE_TIMEOUT);
-    }, IDLE_TIMEOUT);
-  }, [broadcastPresenceStatus]);
+      }, offlineTimeout - idleTimeout);
+    }, idleTimeout);
+  }, [broadcastPresenceStatus, idleTimeout, offlineTimeout]);
 
   // Activity tracking listeners
   useEffect(() => {
@@ -253,7 +297,7 @@ const CollaborationRoom = () => {
   }, [resetIdleTimers, broadcastPresenceStatus]);
 
   // ─── Editor Mount ───────────────────────────────────
-  // Remote cursors/selections are rendered by the Yjs Monaco binding (awareness).
+  // Remote cursors/selections are rendered from Yjs awareness by useYjsCollaboration.
   const handleEditorMount: OnMount = useCallback((editor, monaco) => {
     editorRef.current = editor;
     monacoRef.current = monaco;
@@ -369,6 +413,71 @@ const CollaborationRoom = () => {
     fetchRoom();
   }, [roomId, user, toast]);
 
+  // ─── Collaboration Server Membership ────────────────
+  // Documents sync through the socket server, which only serves joined rooms.
+  useEffect(() => {
+    if (!roomId || !user) return;
+
+    let joinRequested = false;
+    const handleConnectionStatus = (status: string) => {
+      if (status === 'connected' && !joinRequested) {
+        joinRequested = true;
+        socketService.joinCollaboration(roomId);
+      } else if (status !== 'connected') {
+        joinRequested = false;
+      }
+    };
+
+    const handleJoined = (data: { groupId: string; role: CollaborationRole }) => {
+      if (data.groupId !== roomId) return;
+      setRoomRole(data.role);
+    };
+    const handlePermissionDenied = (data: PermissionDeniedEvent) => {
+      if (data.groupId !== roomId) return;
+      toast({ title: "Not allowed", description: data.message, variant: "destructive" });
+    };
+    const handleServerError = (data: ServerErrorEvent) => {
+      toast({ title: "Server error", description: data.message, variant: "destructive" });
+    };
+    const handlePresenceSettingsChanged = (data: { groupId: string } & PresenceSettings) => {
+      if (data.groupId !== roomId) return;
+      setRoom(prev => prev && {
+        ...prev,
+        idle_timeout_seconds: data.idleTimeoutSeconds,
+        offline_timeout_seconds: data.offlineTimeoutSeconds,
+      });
+    };
+    const handleFollowStopped = (data: FollowStoppedEvent) => {
+      if (data.groupId !== roomId || data.reason === 'unfollowed') return;
+      toast({
+        title: "Stopped following",
+        description: data.reason === 'not-allowed' ? "This participant doesn't allow following" : "This participant left the room",
+      });
+    };
+
+    socketService.on('connection-status-changed', handleConnectionStatus);
+    socketService.on('collaboration-joined', handleJoined);
+    socketService.on('permission-denied', handlePermissionDenied);
+    socketService.on('server-error', handleServerError);
+    socketService.on('follow-stopped', handleFollowStopped);
+    socketService.on('presence-settings-changed', handlePresenceSettingsChanged);
+    if (socketService.isConnected()) {
+      handleConnectionStatus('connected');
+    } else {
+      void socketService.connect();
+    }
+
+    return () => {
+      socketService.off('connection-status-changed', handleConnectionStatus);
+      socketService.off('collaboration-joined', handleJoined);
+      socketService.off('permission-denied', handlePermissionDenied);
+      socketService.off('server-error', handleServerError);
+      socketService.off('follow-stopped', handleFollowStopped);
+      socketService.off('presence-settings-changed', handlePresenceSettingsChanged);
+      socketService.leaveCollaboration(roomId, user.id);
+    };
+  }, [roomId, user, toast]);
+
   // ─── Real-time Subscriptions ────────────────────────
   useEffect(() => {
     if (!roomId || !user) return;
@@ -506,6 +615,34 @@ const CollaborationRoom = () => {
     setActiveFile(file);
   }, [openFiles]);
 
+  // ─── Follow / Presenter Mode ───────────────────────
+  const handleFollowFile = useCallback((fileId: string) => {
+    const file = files.find(f => f.id === fileId && !f.isFolder);
+    if (file) handleFileSelect(file);
+  }, [files, handleFileSelect]);
+
+  const {
+    followedUserId, presenterId, isPresenting, leaderId,
+    follow, unfollow, startPresenting, stopPresenting,
+  } = useFollowMode({
+    roomId,
+    fileId: activeFile?.id,
+    editor: editorInstance,
+    userId: user?.id,
+    allowFollowing,
+    onFollowFile: handleFollowFile,
+  });
+
+  const getParticipantName = useCallback((userId: string) => {
+    const p = participants.find(p => p.user_id === userId);
+    return p?.profile?.display_name || p?.profile?.username || 'User';
+  }, [participants]);
+
+  const fileNames = useMemo(
+    () => Object.fromEntries(files.map(f => [f.id, f.path || f.name])),
+    [files]
+  );
+
   const handleFileClose = useCallback((fileId: string, e?: React.MouseEvent) => {
     e?.stopPropagation();
     setOpenFiles(prev => prev.filter(f => f.id !== fileId));
@@ -533,21 +670,150 @@ const CollaborationRoom = () => {
     debounceRef.current = setTimeout(() => broadcastTyping(false), 1200);
   }, [activeFile, broadcastTyping, resetIdleTimers]);
 
-  const handleSaveFile = useCallback(async () => {
-    if (!activeFile || !roomId) return;
+  // A save is confirmed by doc-persisted or rejected by an error event; if neither arrives,
+  // e.g. because the connection dropped, the save button is given back after a while
+  const startSaving = useCallback(() => {
     setIsSaving(true);
-    try {
-      await supabase.from('collaboration_files')
-        .update({ content: editorRef.current?.getValue() ?? activeFile.content, updated_at: new Date().toISOString() })
-        .eq('id', activeFile.id);
-      const clear = (f: RoomFile) => f.id === activeFile.id ? { ...f, isDirty: false } : f;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      setIsSaving(false);
+      toast({ title: "Not saved", description: "The server did not confirm the save. Please try again.", variant: "destructive" });
+    }, SAVE_TIMEOUT);
+  }, [toast]);
+
+  const finishSaving = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    setIsSaving(false);
+  }, []);
+
+  useEffect(() => () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+  }, []);
+
+  // The collaboration server owns persistence; saving asks it to write now.
+  const handleSaveFile = useCallback(() => {
+    if (!activeFile || !roomId) return;
+    if (!socketService.isConnected()) {
+      toast({ title: "Offline", description: "Changes will be saved once you reconnect", variant: "destructive" });
+      return;
+    }
+    startSaving();
+    socketService.saveDocument(roomId, activeFile.id);
+  }, [activeFile, roomId, toast, startSaving]);
+
+  // A restore is an ordinary edit of the shared document, so collaborators see it and it can be undone
+  const handleRestoreRevision = useCallback((revision: FileRevision) => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model || !activeFile || !roomId || revision.file_id !== activeFile.id) return;
+    if (!socketService.isConnected()) {
+      toast({ title: "Offline", description: "Reconnect to restore an earlier version", variant: "destructive" });
+      return;
+    }
+
+    const { range, text } = OperationalTransform.diff(model.getValue(), revision.content);
+    editor.pushUndoStop();
+    editor.executeEdits('restore', [{ range, text, forceMoveMarkers: true }]);
+    editor.pushUndoStop();
+
+    startSaving();
+    socketService.saveDocument(roomId, activeFile.id, { restoredFrom: revision.id });
+    setShowHistory(false);
+    toast({ title: "Version restored", description: `${activeFile.name} is back to ${new Date(revision.created_at).toLocaleString()}` });
+  }, [activeFile, roomId, toast, startSaving]);
+
+  // The merged text goes into the shared document as an ordinary edit; the save then tells
+  // the server which outside save it contains so it can write again
+  const handleResolveFileConflict = useCallback((conflict: FileVersionConflict, content: string) => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model || !roomId || activeFileIdRef.current !== conflict.fileId) return;
+    if (!socketService.isConnected()) {
+      toast({ title: "Offline", description: "Reconnect and save again to merge the changes", variant: "destructive" });
+      return;
+    }
+
+    const { range, text } = OperationalTransform.diff(model.getValue(), content);
+    editor.pushUndoStop();
+    editor.executeEdits('merge', [{ range, text, forceMoveMarkers: true }]);
+    editor.pushUndoStop();
+
+    startSaving();
+    socketService.saveDocument(roomId, conflict.fileId, { mergedVersion: conflict.serverFile.version });
+  }, [roomId, toast, startSaving]);
+
+  useEffect(() => {
+    const handleConflict = async (data: DocumentConflictEvent) => {
+      finishSaving();
+      if (roomRole === 'viewer' || activeFileIdRef.current !== data.fileId) return;
+
+      const { data: file, error } = await supabase.from('collaboration_files').select('*').eq('id', data.fileId).single();
+      if (error || !file) {
+        toast({ title: "Not saved", description: "This file was changed outside the room and could not be loaded", variant: "destructive" });
+        return;
+      }
+      setFileConflict({
+        fileId: file.id,
+        fileName: file.name,
+        baseVersion: data.baseVersion,
+        baseContent: data.baseContent,
+        localContent: editorRef.current?.getValue() ?? '',
+        serverFile: {
+          id: file.id, groupId: file.room_id, name: file.name, path: file.path,
+          content: file.content || '', language: file.language || getLanguageFromFileName(file.name),
+          createdBy: file.created_by, createdAt: new Date(file.created_at), updatedAt: new Date(file.updated_at),
+          version: file.version,
+        },
+      });
+    };
+
+    socketService.on('doc-conflict', handleConflict);
+    return () => socketService.off('doc-conflict', handleConflict);
+  }, [roomRole, toast, finishSaving]);
+
+  useEffect(() => {
+    const handlePersisted = (data: { fileId: string }) => {
+      const clear = (f: RoomFile) => f.id === data.fileId ? { ...f, isDirty: false } : f;
       setFiles(prev => prev.map(clear));
       setOpenFiles(prev => prev.map(clear));
-      setActiveFile(prev => prev ? { ...prev, isDirty: false } : null);
-      toast({ title: "Saved", description: `${activeFile.name} saved` });
-    } catch { toast({ title: "Error", description: "Save failed", variant: "destructive" }); }
-    finally { setIsSaving(false); }
-  }, [activeFile, roomId, toast]);
+      setActiveFile(prev => prev?.id === data.fileId ? { ...prev, isDirty: false } : prev);
+      finishSaving();
+    };
+    const handleDocError = (data: { message: string }) => {
+      finishSaving();
+      toast({ title: "Error", description: data.message, variant: "destructive" });
+    };
+    // Rejected saves get no doc-error; permission and server errors are toasted by the room's own handlers
+    const handleSaveRateLimited = (data: RateLimitedEvent) => {
+      if (data.event !== 'doc-save') return;
+      finishSaving();
+      toast({
+        title: "Not saved",
+        description: `Saving too often. Try again in ${Math.ceil(data.retryAfterMs / 1000)}s.`,
+        variant: "destructive"
+      });
+    };
+    const handleSaveRejected = (data: PermissionDeniedEvent | ServerErrorEvent) => {
+      if (data.event === 'doc-save') finishSaving();
+    };
+
+    socketService.on('doc-persisted', handlePersisted);
+    socketService.on('doc-error', handleDocError);
+    socketService.on('rate-limited', handleSaveRateLimited);
+    socketService.on('permission-denied', handleSaveRejected);
+    socketService.on('server-error', handleSaveRejected);
+    return () => {
+      socketService.off('doc-persisted', handlePersisted);
+      socketService.off('doc-error', handleDocError);
+      socketService.off('rate-limited', handleSaveRateLimited);
+      socketService.off('permission-denied', handleSaveRejected);
+      socketService.off('server-error', handleSaveRejected);
+    };
+  }, [toast, finishSaving]);
 
   const handleCreateFile = useCallback(async () => {
     if (!newFileName.trim() || !roomId || !user) return;
@@ -586,8 +852,8 @@ const CollaborationRoom = () => {
       setTerminalOutput(prev => [
         ...prev,
         result.success
-          ? `✓ Done (${result.executionTime}ms)\n${result.output}`
-          : `✗ Error (${result.executionTime}ms)\n${result.error}`,
+          ? [`✓ Done (${result.executionTime}ms)`, result.output, result.stderr].filter(Boolean).join('\n')
+          : [`✗ Error (${result.executionTime}ms)`, result.output, result.stderr, result.error].filter(Boolean).join('\n'),
         '',
       ]);
     } catch (err) {
@@ -636,6 +902,35 @@ const CollaborationRoom = () => {
     setTimeout(() => setCopiedRoomId(false), 2000);
   }, [roomId]);
 
+  // Fill the presence threshold inputs from the room each time Room Info opens
+  useEffect(() => {
+    if (!showSettingsDialog) return;
+    setPresenceForm({
+      idleMinutes: room?.idle_timeout_seconds ? String(room.idle_timeout_seconds / 60) : '',
+      offlineMinutes: room?.offline_timeout_seconds ? String(room.offline_timeout_seconds / 60) : '',
+    });
+  }, [showSettingsDialog, room?.idle_timeout_seconds, room?.offline_timeout_seconds]);
+
+  // Empty inputs fall back to the server defaults
+  const handleSavePresenceSettings = useCallback(() => {
+    if (!roomId) return;
+    const toSeconds = (minutes: string) => {
+      const value = parseFloat(minutes);
+      return value > 0 ? Math.round(value * 60) : null;
+    };
+    const settings = {
+      idleTimeoutSeconds: toSeconds(presenceForm.idleMinutes),
+      offlineTimeoutSeconds: toSeconds(presenceForm.offlineMinutes),
+    };
+    // Same check the server applies, so out-of-range values are caught before sending
+    if (!presenceSettingsEventSchema.safeParse({ groupId: roomId, ...settings }).success) {
+      toast({ title: "Invalid presence settings", description: "Timeouts must be at most 24 hours", variant: "destructive" });
+      return;
+    }
+    socketService.updatePresenceSettings(roomId, settings);
+    toast({ title: "Presence settings saved" });
+  }, [roomId, presenceForm, toast]);
+
   const handleDeleteRoom = useCallback(async () => {
     if (!roomId) return;
     try {
@@ -793,6 +1088,15 @@ const CollaborationRoom = () => {
               </Button>
             </TooltipTrigger><TooltipContent className="bg-[#252526] border-[#555]">Share Room</TooltipContent></Tooltip>
 
+            {roomRole === 'owner' && (
+              <Tooltip><TooltipTrigger asChild>
+                <Button variant="ghost" size="sm" onClick={() => setShowInsights(true)}
+                  className="text-gray-300 hover:text-white hover:bg-[#464647] h-8 w-8 p-0">
+                  <BarChart3 className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger><TooltipContent className="bg-[#252526] border-[#555]">Room Insights</TooltipContent></Tooltip>
+            )}
+
             <Tooltip><TooltipTrigger asChild>
               <Button variant="ghost" size="sm" onClick={() => setShowChat(p => !p)}
                 className={cn("text-gray-300 hover:text-white hover:bg-[#464647] h-8 w-8 p-0", showChat && "bg-[#464647]")}>
@@ -807,6 +1111,27 @@ const CollaborationRoom = () => {
               </Button>
             </TooltipTrigger><TooltipContent className="bg-[#252526] border-[#555]">Quick Open (⌘P)</TooltipContent></Tooltip>
 
+            <Tooltip><TooltipTrigger asChild>
+              <Button variant="ghost" size="sm" onClick={undo} disabled={!canUndo || roomRole === 'viewer'}
+                className="text-gray-300 hover:text-white hover:bg-[#464647] h-8 w-8 p-0">
+                <Undo2 className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger><TooltipContent className="bg-[#252526] border-[#555]">Undo my edit (⌘Z)</TooltipContent></Tooltip>
+
+            <Tooltip><TooltipTrigger asChild>
+              <Button variant="ghost" size="sm" onClick={redo} disabled={!canRedo || roomRole === 'viewer'}
+                className="text-gray-300 hover:text-white hover:bg-[#464647] h-8 w-8 p-0">
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger><TooltipContent className="bg-[#252526] border-[#555]">Redo my edit (⇧⌘Z)</TooltipContent></Tooltip>
+
+            <Tooltip><TooltipTrigger asChild>
+              <Button variant="ghost" size="sm" onClick={() => setShowHistory(true)} disabled={!activeFile}
+                className="text-gray-300 hover:text-white hover:bg-[#464647] h-8 w-8 p-0">
+                <History className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger><TooltipContent className="bg-[#252526] border-[#555]">File history</TooltipContent></Tooltip>
+
             <Tooltip><TooltipTrigger asChild>
               <Button variant="ghost" size="sm" onClick={handleSaveFile} disabled={!activeFile?.isDirty || isSaving}
                 className="text-gray-300 hover:text-white hover:bg-[#464647] h-8 w-8 p-0">
@@ -928,6 +1253,29 @@ const CollaborationRoom = () => {
                     <div className="border-t border-[#3c3c3c]">
                       <div className="h-8 flex items-center px-3 border-b border-[#3c3c3c]">
                         <span className="text-[11px] uppercase tracking-wider text-gray-500 font-semibold">Participants</span>
+                        <div className="ml-auto flex items-center gap-0.5">
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-5 w-5 text-gray-400 hover:text-white hover:bg-[#3c3c3c]"
+                                onClick={() => setAllowFollowing(prev => !prev)}>
+                                {allowFollowing ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>{allowFollowing ? 'Others can follow you' : 'Following you is off'}</TooltipContent>
+                          </Tooltip>
+                          {roomRole === 'owner' && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button variant="ghost" size="icon"
+                                  className={cn("h-5 w-5 text-gray-400 hover:text-white hover:bg-[#3c3c3c]", isPresenting && "text-blue-400")}
+                                  onClick={isPresenting ? stopPresenting : startPresenting}>
+                                  <Presentation className="h-3 w-3" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>{isPresenting ? 'Stop presenting' : 'Present: everyone follows you'}</TooltipContent>
+                            </Tooltip>
+                          )}
+                        </div>
                       </div>
                       <ScrollArea className="max-h-[200px]">
                         <div className="py-1">
@@ -959,8 +1307,17 @@ const CollaborationRoom = () => {
                                       status === 'away' ? 'text-amber-400' : 'text-gray-500'
                                     )}>{statusLabels[status]}</span>
                                     <span className="text-[10px] text-gray-600">• {p.role}</span>
+                                    {presenterId === p.user_id && <span className="text-[10px] text-blue-400">• presenting</span>}
                                   </div>
                                 </div>
+                                {!isMe && status !== 'offline' && (
+                                  <Button variant="ghost" size="icon"
+                                    className={cn("h-5 w-5 text-gray-500 hover:text-white hover:bg-[#3c3c3c]", followedUserId === p.user_id && "text-blue-400")}
+                                    onClick={() => followedUserId === p.user_id ? unfollow() : follow(p.user_id)}
+                                    title={followedUserId === p.user_id ? 'Stop following' : 'Follow'}>
+                                    <Eye className="h-3 w-3" />
+                                  </Button>
+                                )}
                               </div>
                             );
                           })}
@@ -1004,6 +1361,19 @@ const CollaborationRoom = () => {
                     </div>
                   )}
 
+                  {/* Follow mode banner */}
+                  {leaderId && (
+                    <div className="h-6 flex items-center gap-2 px-3 bg-[#094771] text-[11px] text-white">
+                      <Eye className="h-3 w-3" />
+                      <span>
+                        {leaderId === presenterId ? `${getParticipantName(leaderId)} is presenting` : `Following ${getParticipantName(leaderId)}`}
+                      </span>
+                      {leaderId === followedUserId && leaderId !== presenterId && (
+                        <button className="ml-auto hover:underline" onClick={unfollow}>Stop following</button>
+                      )}
+                    </div>
+                  )}
+
                   {/* Monaco Editor */}
                   <div className="flex-1 overflow-hidden">
                     {activeFile ? (
@@ -1016,6 +1386,7 @@ const CollaborationRoom = () => {
                         onMount={handleEditorMount}
                         theme="vs-dark"
                         options={{
+                          readOnly: roomRole === 'viewer',
                           fontSize: 14,
                           fontFamily: "'JetBrains Mono', 'Fira Code', 'Cascadia Code', monospace",
                           fontLigatures: true,
@@ -1188,6 +1559,24 @@ const CollaborationRoom = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Room Insights */}
+      {roomId && roomRole === 'owner' && (
+        <RoomInsights open={showInsights} onOpenChange={setShowInsights} roomId={roomId}
+          getUserName={getParticipantName} fileNames={fileNames} />
+      )}
+
+      {/* File History */}
+      {activeFile && (
+        <FileHistory open={showHistory} onOpenChange={setShowHistory} fileId={activeFile.id}
+          fileName={activeFile.name} language={activeFile.language} currentContent={activeFile.content}
+          getUserName={getParticipantName}
+          onRestore={roomRole === 'viewer' ? undefined : handleRestoreRevision} />
+      )}
+
+      {/* Save Conflict */}
+      <ConflictResolutionModal isOpen={!!fileConflict} onClose={() => setFileConflict(null)}
+        fileConflict={fileConflict ?? undefined} onResolveFile={handleResolveFileConflict} />
+
       {/* Quick Open */}
       <Dialog open={showSearch} onOpenChange={setShowSearch}>
         <DialogContent className="bg-[#252526] border-[#555] max-w-md">
@@ -1261,6 +1650,28 @@ const CollaborationRoom = () => {
           {room?.description && (
             <div><Label className="text-gray-500 text-[11px]">Description</Label><p className="text-white text-sm">{room.description}</p></div>
           )}
+          {roomRole === 'owner' && (
+            <div className="space-y-2 border-t border-[#3c3c3c] pt-3">
+              <Label className="text-gray-500 text-[11px]">Presence (minutes of inactivity, empty for default)</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="idle-minutes" className="text-gray-400 text-xs">Away after</Label>
+                  <Input id="idle-minutes" type="number" min={1} value={presenceForm.idleMinutes} placeholder={String(IDLE_TIMEOUT / 60000)}
+                    onChange={e => setPresenceForm(prev => ({ ...prev, idleMinutes: e.target.value }))}
+                    className="bg-[#3c3c3c] border-[#555] text-white h-8" />
+                </div>
+                <div>
+                  <Label htmlFor="offline-minutes" className="text-gray-400 text-xs">Offline after</Label>
+                  <Input id="offline-minutes" type="number" min={1} value={presenceForm.offlineMinutes} placeholder={String(AWAY_TIMEOUT / 60000)}
+                    onChange={e => setPresenceForm(prev => ({ ...prev, offlineMinutes: e.target.value }))}
+                    className="bg-[#3c3c3c] border-[#555] text-white h-8" />
+                </div>
+              </div>
+              <Button size="sm" variant="outline" onClick={handleSavePresenceSettings} className="border-[#555] text-gray-300">
+                Save presence settings
+              </Button>
+            </div>
+          )}
           <DialogFooter><Button onClick={() => setShowSettingsDialog(false)}>Close</Button></DialogFooter>
         </DialogContent>
       </Dialog>
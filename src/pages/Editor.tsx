@@ -10,7 +10,9 @@ import { EditorTerminal } from '@/components/editor/EditorTerminal';
 import { EditorToolbar } from '@/components/editor/EditorToolbar';
 import { Button } from '@/components/ui/button';
 import { Loader2 } from 'lucide-react';
+import { EXECUTION_STOPPED, RunOptions } from '@/lib/browserSandbox';
 import { executeCode } from '@/lib/codeExecution';
+import { runProject, RUNNABLE_EXTENSIONS } from '@/lib/projectRunner';
 import ConfirmationDialog from '@/components/ConfirmationDialog';
 
 export interface ProjectFile {
@@ -52,9 +54,14 @@ const Editor = () => {
   const [filePendingDelete, setFilePendingDelete] = useState<{ id: string; name: string } | null>(null);
   const [sidebarWidth, setSidebarWidth] = useState(250);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [awaitingInput, setAwaitingInput] = useState(false);
   
   // Auto-save ref
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Stops the running program
+  const runControllerRef = useRef<AbortController | null>(null);
+  // Hands the line typed in the terminal to the program waiting for it
+  const inputResolverRef = useRef<((line: string | null) => void) | null>(null);
 
   // Fetch project and files
   useEffect(() => {
@@ -331,31 +338,64 @@ const Editor = () => {
     }
   }, [files, activeFile, toast]);
 
-  // Run code execution
-  const runCode = useCallback(async () => {
-    if (!activeFile) {
-      setTerminalOutput(prev => [...prev, '> No file selected to run']);
+  // Run code execution; JavaScript and TypeScript files run as a project entry point.
+  // Output is appended to the terminal as the program writes it.
+  const runCode = useCallback(async (fileName?: string) => {
+    if (runControllerRef.current) {
+      setTerminalOutput(prev => [...prev, '> A program is already running; stop it first']);
       return;
     }
 
+    const target = fileName
+      ? files.find(f => f.name === fileName || f.path === fileName || f.path === `/${fileName}`)
+      : activeFile;
+    if (!target) {
+      setTerminalOutput(prev => [...prev, fileName ? `> File not found: ${fileName}` : '> No file selected to run']);
+      return;
+    }
+
+    const controller = new AbortController();
+    runControllerRef.current = controller;
     setIsExecuting(true);
     setShowTerminal(true);
-    setTerminalOutput(prev => [...prev, `$ run ${activeFile.name}`, `> Executing ${activeFile.language} code...`]);
+    setTerminalOutput(prev => [...prev, `$ run ${target.name}`, `> Executing ${target.language} code...`]);
+
+    // Results repeat what was streamed, so only runtimes that did not stream have their output printed at the end
+    let streamed = false;
+    const options: RunOptions = {
+      signal: controller.signal,
+      onOutput: (text) => {
+        streamed = true;
+        setTerminalOutput(prev => [...prev, text]);
+      },
+      onInput: () => new Promise<string | null>(resolve => {
+        inputResolverRef.current = resolve;
+        setAwaitingInput(true);
+      }),
+    };
 
     try {
-      const result = await executeCode(activeFile.content, activeFile.language);
+      const result = RUNNABLE_EXTENSIONS.some(extension => target.path.endsWith(extension))
+        ? await runProject(files, target.path, undefined, options)
+        : await executeCode(target.content, target.language, undefined, options);
+      const output = streamed ? [] : [
+        ...(result.output ? [result.output] : []),
+        ...(result.stderr ? [result.stderr] : []),
+      ];
       
       if (result.success) {
         setTerminalOutput(prev => [
           ...prev,
+          ...output,
           `> Execution completed in ${result.executionTime}ms`,
-          '',
-          result.output,
           ''
         ]);
+      } else if (result.error === EXECUTION_STOPPED) {
+        setTerminalOutput(prev => [...prev, ...output, `> Execution stopped (${result.executionTime}ms)`, '']);
       } else {
         setTerminalOutput(prev => [
           ...prev,
+          ...output,
           `> Execution failed (${result.executionTime}ms)`,
           `> Error: ${result.error}`,
           ''
@@ -368,9 +408,24 @@ const Editor = () => {
         ''
       ]);
     } finally {
+      inputResolverRef.current?.(null);
+      inputResolverRef.current = null;
+      runControllerRef.current = null;
+      setAwaitingInput(false);
       setIsExecuting(false);
     }
-  }, [activeFile]);
+  }, [files, activeFile]);
+
+  const stopRun = useCallback(() => runControllerRef.current?.abort(), []);
+
+  const submitInput = useCallback((line: string | null) => {
+    const resolve = inputResolverRef.current;
+    if (!resolve) return;
+    inputResolverRef.current = null;
+    setAwaitingInput(false);
+    if (line !== null) setTerminalOutput(prev => [...prev, line]);
+    resolve(line);
+  }, []);
 
   // Terminal command handler
   const handleTerminalCommand = useCallback(async (command: string) => {
@@ -387,6 +442,7 @@ const Editor = () => {
           '  files    - List all files',
           '  run      - Run the active file',
           '  run <filename> - Run a specific file',
+          '  stop     - Stop the running program (or Ctrl+C)',
           '  save     - Save all files',
           '  node <code> - Execute JavaScript directly',
           '  python <code> - Execute Python directly'
@@ -399,9 +455,16 @@ const Editor = () => {
         output = ['> Files:', ...files.map(f => `  ${f.path}`)];
         break;
       case 'run':
-        setTerminalOutput(prev => [...prev, `$ ${command}`]);
-        await runCode();
+        await runCode(parts.slice(1).join(' ') || undefined);
         return;
+      case 'stop':
+        if (runControllerRef.current) {
+          stopRun();
+          output = ['> Stopping...'];
+        } else {
+          output = ['> No program is running'];
+        }
+        break;
       case 'save':
         if (activeFile) {
           saveFile(activeFile);
@@ -435,7 +498,7 @@ const Editor = () => {
     }
 
     setTerminalOutput(prev => [...prev, `$ ${command}`, ...output]);
-  }, [files, activeFile, saveFile, runCode]);
+  }, [files, activeFile, saveFile, runCode, stopRun]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -483,7 +546,8 @@ const Editor = () => {
         saving={saving}
         isExecuting={isExecuting}
         onSave={() => activeFile && saveFile(activeFile)}
-        onRun={runCode}
+        onRun={() => runCode()}
+        onStop={stopRun}
         onToggleTerminal={() => setShowTerminal(prev => !prev)}
         showTerminal={showTerminal}
       />
@@ -526,6 +590,10 @@ const Editor = () => {
               output={terminalOutput}
               onCommand={handleTerminalCommand}
               onClose={() => setShowTerminal(false)}
+              isExecuting={isExecuting}
+              onStop={stopRun}
+              awaitingInput={awaitingInput}
+              onInput={submitInput}
             />
           )}
         </div>
@@ -96,12 +96,14 @@ const SharedSnippet: React.FC = () => {
       
       if (result.success) {
         setOutput(result.output);
+        if (result.stderr) setErrors(result.stderr);
         toast({
           title: "Code executed successfully",
           description: `Completed in ${result.executionTime}ms`
         });
       } else {
-        setErrors(result.error || 'Execution failed');
+        setOutput(result.output);
+        setErrors([result.stderr, result.error || 'Execution failed'].filter(Boolean).join('\n'));
       }
     } catch (error) {
       setErrors((error as Error).message);
@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { CollaborationFile, CreateFileRequest, UpdateFileRequest } from '@/types/collaboration';
+import { VersionConflictError } from '@/lib/collaboration-errors';
 
 // Define the row type manually since the table was just created
 interface CollaborationFileRow {
@@ -90,6 +91,7 @@ export class CollaborationFileService {
 
   /**
    * Update file content
+   * Only lands if the file is still at `request.version`; otherwise throws a VersionConflictError
    */
   async updateFile(fileId: string, request: UpdateFileRequest): Promise<CollaborationFile> {
     const updateData: Record<string, any> = {
@@ -103,13 +105,22 @@ export class CollaborationFileService {
       .from('collaboration_files' as any)
       .update(updateData)
       .eq('id', fileId)
+      .eq('version', request.version)
       .select()
-      .single();
+      .maybeSingle();
 
     if (error) {
       throw new Error(`Failed to update file: ${error.message}`);
     }
 
+    if (!data) {
+      const serverFile = await this.getFile(fileId);
+      if (!serverFile) {
+        throw new Error('File not found');
+      }
+      throw new VersionConflictError(request.version, serverFile);
+    }
+
     return this.mapRowToFile(data as unknown as CollaborationFileRow);
   }
 
@@ -1,24 +1,30 @@
 import { io, Socket } from 'socket.io-client';
 import { supabase } from '@/integrations/supabase/client';
 import { 
+  CollaborationRole,
   CollaborationUser, 
   CursorPosition, 
-  TextSelection
+  DocumentConflictEvent,
+  FollowStartedEvent,
+  FollowStoppedEvent,
+  FollowViewport,
+  ManualStatus,
+  PermissionDeniedEvent,
+  PresenceChangedEvent,
+  PresenceSettings,
+  PresenterChangedEvent,
+  RateLimitedEvent,
+  RoomStateEvent,
+  ServerErrorEvent,
+  ServerRestartingEvent,
+  SessionResumedEvent,
+  TextSelection,
+  ViewportUpdatedEvent
 } from '@/types/collaboration';
+import type { ClientToServerEvents, ValidationErrorEvent } from '@/lib/collaboration-schemas';
 
 type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'auth_error';
 
-interface ClientToServerEvents {
-  'join-collaboration': (data: { groupId: string }) => void;
-  'leave-collaboration': (data: { groupId: string }) => void;
-  'cursor-update': (data: { groupId: string; fileId: string; cursor: Omit<CursorPosition, 'userId'> }) => void;
-  'selection-update': (data: { groupId: string; fileId: string; selection: Omit<TextSelection, 'userId'> }) => void;
-  'typing-start': (data: { groupId: string; fileId: string }) => void;
-  'typing-stop': (data: { groupId: string; fileId: string }) => void;
-  'file-switch': (data: { groupId: string; fileId: string }) => void;
-  'user-activity': (data: { groupId: string }) => void;
-}
-
 interface ServerToClientEvents {
   'user-joined': (user: CollaborationUser) => void;
   'user-left': (userId: string) => void;
@@ -27,13 +33,51 @@ interface ServerToClientEvents {
   'user-typing': (data: { fileId: string; userId: string; isTyping: boolean }) => void;
   'file-switched': (data: { fileId: string; userId: string }) => void;
   'connection-status': (status: 'connected' | 'disconnected') => void;
-  'user-activity-updated': (data: { userId: string; lastActivity: Date }) => void;
+  'presence-changed': (data: PresenceChangedEvent) => void;
+  'presence-settings-changed': (data: { groupId: string } & PresenceSettings) => void;
   'auth-error': (message: string) => void;
-  'rate-limited': (message: string) => void;
+  'rate-limited': (data: RateLimitedEvent) => void;
+  'collaboration-joined': (data: { groupId: string; role: CollaborationRole }) => void;
+  'permission-denied': (data: PermissionDeniedEvent) => void;
+  'validation-error': (data: ValidationErrorEvent) => void;
+  'server-error': (data: ServerErrorEvent) => void;
+  'server-restarting': (data: ServerRestartingEvent) => void;
+  'session-resumed': (data: SessionResumedEvent) => void;
+  'session-resume-failed': (data: { message: string }) => void;
+  'room-state': (state: RoomStateEvent) => void;
+  'follow-started': (data: FollowStartedEvent) => void;
+  'follow-stopped': (data: FollowStoppedEvent) => void;
+  'viewport-updated': (data: ViewportUpdatedEvent) => void;
+  'presenter-changed': (data: PresenterChangedEvent) => void;
+  'doc-sync': (data: { fileId: string; update: string; stateVector: string }) => void;
+  'doc-update': (data: { fileId: string; update: string }) => void;
+  'awareness-update': (data: { fileId: string; update: string }) => void;
+  'doc-persisted': (data: { fileId: string; updatedAt: string }) => void;
+  'doc-error': (data: { fileId: string; message: string }) => void;
+  'doc-conflict': (data: DocumentConflictEvent) => void;
 }
 
 type CollaborationSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
+// Where the user was in a room, sent again whenever the room is rejoined
+interface RoomContext {
+  fileId?: string;
+  cursor?: { fileId: string; cursor: Omit<CursorPosition, 'userId'> };
+  selection?: { fileId: string; selection: Omit<TextSelection, 'userId'> };
+}
+
+// How long to wait for the server to restore our rooms before joining them ourselves
+const RESUME_TIMEOUT_MS = 10000;
+
+// Events superseded by the next one of their kind, so skipping them while rate limited loses nothing
+const DROPPABLE_EVENTS = new Set<keyof ClientToServerEvents>([
+  'cursor-update',
+  'selection-update',
+  'user-activity',
+  'awareness-update',
+  'viewport-update'
+]);
+
 export class SocketService {
   private socket: CollaborationSocket | null = null;
   private connectionStatus: ConnectionStatus = 'disconnected';
@@ -41,6 +85,13 @@ export class SocketService {
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
   private currentUserId: string | null = null;
+  private joinedRooms: Map<string, CollaborationRole> = new Map(); // groupId -> role
+  private backoffUntil: Map<string, number> = new Map(); // event -> when it may be sent again
+  private roomContexts: Map<string, RoomContext> = new Map(); // groupId -> context to restore
+  private resumingRooms: Set<string> = new Set(); // rooms the server rejoins from the session token
+  private accessToken: string | null = null;
+  private sessionToken: string | null = null;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
 
   // Event listeners
   private eventListeners: Map<string, Set<Function>> = new Map();
@@ -61,6 +112,7 @@ export class SocketService {
     }
 
     this.currentUserId = session.user.id;
+    this.accessToken = session.access_token;
 
     const serverUrl = process.env.NODE_ENV === 'production' 
       ? process.env.VITE_SOCKET_URL || 'ws://localhost:3001'
@@ -74,15 +126,25 @@ export class SocketService {
       reconnectionDelay: this.reconnectDelay,
       reconnectionDelayMax: 5000,
       timeout: 20000,
-      auth: {
-        token: session.access_token
-      }
+      auth: this.getAuth()
     });
 
     this.setupEventHandlers();
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
     return true;
   }
 
+  // Tell every joined room when this tab is hidden or shown again
+  private handleVisibilityChange = (): void => {
+    if (!this.socket?.connected) return;
+    const visible = !document.hidden;
+    this.joinedRooms.forEach((_role, groupId) => {
+      this.socket?.emit('visibility-change', { groupId, visible });
+    });
+  };
+
   private setupEventHandlers(): void {
     if (!this.socket) return;
 
@@ -92,10 +154,21 @@ export class SocketService {
       this.connectionStatus = 'connected';
       this.reconnectAttempts = 0;
       this.emit('connection-status-changed', 'connected');
+
+      // The server answers a session token with session-resumed or session-resume-failed
+      if (this.sessionToken && this.resumingRooms.size > 0) {
+        if (this.resumeTimer) clearTimeout(this.resumeTimer);
+        this.resumeTimer = setTimeout(() => {
+          console.warn('Socket session was not resumed in time; joining rooms again');
+          this.finishResume([]);
+        }, RESUME_TIMEOUT_MS);
+      }
     });
 
     this.socket.on('disconnect', (reason) => {
       console.log('Socket.IO disconnected:', reason);
+      // Server-side room membership does not survive the connection
+      this.joinedRooms.clear();
       this.connectionStatus = 'disconnected';
       this.emit('connection-status-changed', 'disconnected');
     });
@@ -103,6 +176,9 @@ export class SocketService {
     this.socket.on('connect_error', async (error) => {
       console.error('Socket.IO connection error:', error.message);
       
+      // The server says when a rate-limited connection may retry
+      const retryAfterMs = (error as Error & { data?: { retryAfterMs?: number } }).data?.retryAfterMs;
+
       // Check if it's an auth error
       if (error.message.includes('Authentication') || error.message.includes('Invalid')) {
         this.connectionStatus = 'auth_error';
@@ -111,12 +187,13 @@ export class SocketService {
         // Try to refresh the token and reconnect
         const { data: { session } } = await supabase.auth.getSession();
         if (session?.access_token && this.socket) {
-          this.socket.auth = { token: session.access_token };
+          this.accessToken = session.access_token;
+          this.socket.auth = this.getAuth();
           this.handleReconnection();
         }
       } else {
         this.connectionStatus = 'disconnected';
-        this.handleReconnection();
+        this.handleReconnection(retryAfterMs);
       }
     });
 
@@ -126,10 +203,57 @@ export class SocketService {
       this.emit('auth-error', message);
     });
 
-    // Rate limiting notification from server
-    this.socket.on('rate-limited', (message) => {
-      console.warn('Socket rate limited:', message);
-      this.emit('rate-limited', message);
+    // Rate limiting notification from server; hold back that event until it may be sent again
+    this.socket.on('rate-limited', (data) => {
+      console.warn(`Socket rate limited for ${data.event} (${data.scope}), retry in ${data.retryAfterMs}ms`);
+      this.backoffUntil.set(data.event, Date.now() + data.retryAfterMs);
+      this.emit('rate-limited', data);
+    });
+
+    // Event rejected for a room this socket has not joined or lacks the role for
+    this.socket.on('permission-denied', (data) => {
+      console.warn(`Socket permission denied for ${data.event}:`, data.message);
+      this.emit('permission-denied', data);
+    });
+
+    // Event rejected because its payload did not match the shared schema
+    this.socket.on('validation-error', (data) => {
+      console.warn(`Socket payload rejected for ${data.event}:`, data.issues);
+      this.emit('validation-error', data);
+    });
+
+    // Event the server accepted but failed to handle; sending it again may work
+    this.socket.on('server-error', (data) => {
+      console.error(`Socket server failed to handle ${data.event}:`, data.message);
+      this.emit('server-error', data);
+    });
+
+    // The server is draining: reconnect with the session token so another node restores our rooms
+    this.socket.on('server-restarting', (data) => {
+      console.warn('Socket server restarting:', data.message);
+      this.sessionToken = data.sessionToken;
+      this.resumingRooms = new Set(this.joinedRooms.keys());
+      if (this.socket) this.socket.auth = this.getAuth();
+      this.emit('server-restarting', data);
+
+      setTimeout(() => {
+        if (!this.socket) return;
+        // The draining node may already have closed the connection, which the client does not retry on its own
+        if (this.socket.connected) this.socket.disconnect();
+        this.connectionStatus = 'reconnecting';
+        this.emit('connection-status-changed', 'reconnecting');
+        this.socket.connect();
+      }, data.reconnectInMs);
+    });
+
+    this.socket.on('session-resumed', (data) => {
+      this.finishResume(data.groupIds);
+      this.emit('session-resumed', data);
+    });
+
+    this.socket.on('session-resume-failed', (data) => {
+      console.warn('Socket session could not be resumed:', data.message);
+      this.finishResume([]);
     });
 
     // Collaboration events
@@ -137,6 +261,10 @@ export class SocketService {
       this.emit('user-joined', user);
     });
 
+    this.socket.on('room-state', (state) => {
+      this.emit('room-state', state);
+    });
+
     this.socket.on('user-left', (userId) => {
       this.emit('user-left', userId);
     });
@@ -162,12 +290,69 @@ export class SocketService {
       this.emit('connection-status-changed', status);
     });
 
-    this.socket.on('user-activity-updated', (data) => {
-      this.emit('user-activity-updated', data);
+    this.socket.on('presence-changed', (data) => {
+      this.emit('presence-changed', data);
+    });
+
+    this.socket.on('presence-settings-changed', (data) => {
+      this.emit('presence-settings-changed', data);
+    });
+
+    this.socket.on('collaboration-joined', (data) => {
+      this.joinedRooms.set(data.groupId, data.role);
+      // The server assumes a joining tab is visible
+      if (typeof document !== 'undefined' && document.hidden) {
+        this.socket?.emit('visibility-change', { groupId: data.groupId, visible: false });
+      }
+      this.restoreContext(data.groupId);
+      this.emit('collaboration-joined', data);
+    });
+
+    // Follow and presenter mode events
+    this.socket.on('follow-started', (data) => {
+      this.emit('follow-started', data);
+    });
+
+    this.socket.on('follow-stopped', (data) => {
+      this.emit('follow-stopped', data);
+    });
+
+    this.socket.on('viewport-updated', (data) => {
+      this.emit('viewport-updated', data);
+    });
+
+    this.socket.on('presenter-changed', (data) => {
+      this.emit('presenter-changed', data);
+    });
+
+    // Document sync events
+    this.socket.on('doc-sync', (data) => {
+      this.emit('doc-sync', data);
+    });
+
+    this.socket.on('doc-update', (data) => {
+      this.emit('doc-update', data);
+    });
+
+    this.socket.on('awareness-update', (data) => {
+      this.emit('awareness-update', data);
+    });
+
+    this.socket.on('doc-persisted', (data) => {
+      this.emit('doc-persisted', data);
+    });
+
+    this.socket.on('doc-error', (data) => {
+      console.error('Document sync error:', data.message);
+      this.emit('doc-error', data);
+    });
+
+    this.socket.on('doc-conflict', (data) => {
+      this.emit('doc-conflict', data);
     });
   }
 
-  private handleReconnection(): void {
+  private handleReconnection(minDelayMs = 0): void {
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
       this.connectionStatus = 'reconnecting';
@@ -177,8 +362,61 @@ export class SocketService {
         if (this.socket && !this.socket.connected) {
           this.socket.connect();
         }
-      }, this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1));
+      }, Math.max(minDelayMs, this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1)));
+    }
+  }
+
+  // Stop resuming; rooms the server did not restore are joined the usual way
+  private finishResume(restoredGroupIds: string[]): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    this.sessionToken = null;
+    if (this.socket) this.socket.auth = this.getAuth();
+
+    const missed = Array.from(this.resumingRooms).filter(groupId => !restoredGroupIds.includes(groupId));
+    this.resumingRooms.clear();
+    missed.forEach(groupId => this.joinCollaboration(groupId));
+  }
+
+  private getAuth(): { token: string | null; sessionToken?: string } {
+    return this.sessionToken ? { token: this.accessToken, sessionToken: this.sessionToken } : { token: this.accessToken };
+  }
+
+  /**
+   * Send the file, cursor and selection we had in a room, so rejoining it is seamless
+   */
+  private restoreContext(groupId: string): void {
+    const context = this.roomContexts.get(groupId);
+    if (!context || !this.socket) return;
+
+    if (context.fileId) {
+      this.socket.emit('file-switch', { groupId, fileId: context.fileId });
+    }
+    if (context.cursor && context.cursor.fileId === context.fileId) {
+      this.socket.emit('cursor-update', { groupId, ...context.cursor });
     }
+    if (context.selection && context.selection.fileId === context.fileId) {
+      this.socket.emit('selection-update', { groupId, ...context.selection });
+    }
+  }
+
+  private updateContext(groupId: string, update: Partial<RoomContext>): void {
+    const context = this.roomContexts.get(groupId);
+    if (context) this.roomContexts.set(groupId, { ...context, ...update });
+  }
+
+  /**
+   * Whether a droppable event should be skipped because the server rate limited it
+   */
+  private isBackingOff(event: keyof ClientToServerEvents): boolean {
+    if (!DROPPABLE_EVENTS.has(event)) return false;
+    const until = this.backoffUntil.get(event);
+    if (until === undefined) return false;
+    if (Date.now() < until) return true;
+    this.backoffUntil.delete(event);
+    return false;
   }
 
   // Public methods
@@ -204,7 +442,10 @@ export class SocketService {
     }
   }
 
-  public joinCollaboration(groupId: string, user: CollaborationUser): void {
+  public joinCollaboration(groupId: string, user?: CollaborationUser): void {
+    if (!this.roomContexts.has(groupId)) this.roomContexts.set(groupId, {});
+    // The server rejoins this room itself from the session token
+    if (this.resumingRooms.has(groupId)) return;
     if (this.socket && this.socket.connected) {
       // Only send groupId - server will use authenticated userId
       this.socket.emit('join-collaboration', { groupId });
@@ -212,6 +453,9 @@ export class SocketService {
   }
 
   public leaveCollaboration(groupId: string, userId: string): void {
+    this.joinedRooms.delete(groupId);
+    this.roomContexts.delete(groupId);
+    this.resumingRooms.delete(groupId);
     if (this.socket && this.socket.connected) {
       // Only send groupId - server will use authenticated userId
       this.socket.emit('leave-collaboration', { groupId });
@@ -219,17 +463,19 @@ export class SocketService {
   }
 
   public updateCursor(groupId: string, fileId: string, cursor: CursorPosition): void {
-    if (this.socket && this.socket.connected) {
-      // Don't send userId - server will use authenticated userId
-      const { userId, ...cursorWithoutUserId } = cursor;
+    // Don't send userId - server will use authenticated userId
+    const { userId, ...cursorWithoutUserId } = cursor;
+    this.updateContext(groupId, { cursor: { fileId, cursor: cursorWithoutUserId } });
+    if (this.socket && this.socket.connected && !this.isBackingOff('cursor-update')) {
       this.socket.emit('cursor-update', { groupId, fileId, cursor: cursorWithoutUserId });
     }
   }
 
   public updateSelection(groupId: string, fileId: string, selection: TextSelection): void {
-    if (this.socket && this.socket.connected) {
-      // Don't send userId - server will use authenticated userId
-      const { userId, ...selectionWithoutUserId } = selection;
+    // Don't send userId - server will use authenticated userId
+    const { userId, ...selectionWithoutUserId } = selection;
+    this.updateContext(groupId, { selection: { fileId, selection: selectionWithoutUserId } });
+    if (this.socket && this.socket.connected && !this.isBackingOff('selection-update')) {
       this.socket.emit('selection-update', { groupId, fileId, selection: selectionWithoutUserId });
     }
   }
@@ -249,19 +495,118 @@ export class SocketService {
   }
 
   public switchFile(groupId: string, fileId: string, userId: string): void {
-    if (this.socket && this.socket.connected) {
+    this.updateContext(groupId, { fileId });
+    // Before the join completes the file is sent by restoreContext
+    if (this.socket && this.socket.connected && this.joinedRooms.has(groupId)) {
       // Don't send userId - server will use authenticated userId
       this.socket.emit('file-switch', { groupId, fileId });
     }
   }
 
   public updateActivity(groupId: string, userId: string): void {
-    if (this.socket && this.socket.connected) {
+    if (this.socket && this.socket.connected && !this.isBackingOff('user-activity')) {
       // Don't send userId - server will use authenticated userId
       this.socket.emit('user-activity', { groupId });
     }
   }
 
+  public subscribeDocument(groupId: string, fileId: string, stateVector: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('doc-subscribe', { groupId, fileId, stateVector });
+    }
+  }
+
+  public unsubscribeDocument(groupId: string, fileId: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('doc-unsubscribe', { groupId, fileId });
+    }
+  }
+
+  public sendDocumentUpdate(groupId: string, fileId: string, update: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('doc-update', { groupId, fileId, update });
+    }
+  }
+
+  /**
+   * Ask the server to write a document now
+   * `mergedVersion` reports that an outside save announced by doc-conflict has been merged in
+   */
+  public saveDocument(
+    groupId: string,
+    fileId: string,
+    options: { restoredFrom?: string; mergedVersion?: number } = {}
+  ): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('doc-save', { groupId, fileId, ...options });
+    }
+  }
+
+  public sendAwarenessUpdate(groupId: string, fileId: string, update: string): void {
+    if (this.socket && this.socket.connected && !this.isBackingOff('awareness-update')) {
+      this.socket.emit('awareness-update', { groupId, fileId, update });
+    }
+  }
+
+  public followUser(groupId: string, targetUserId: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('follow-user', { groupId, targetUserId });
+    }
+  }
+
+  public unfollowUser(groupId: string, targetUserId: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('unfollow-user', { groupId, targetUserId });
+    }
+  }
+
+  public setFollowPreference(groupId: string, allowFollowing: boolean): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('follow-preference', { groupId, allowFollowing });
+    }
+  }
+
+  public updateViewport(groupId: string, viewport: FollowViewport): void {
+    if (this.socket && this.socket.connected && !this.isBackingOff('viewport-update')) {
+      this.socket.emit('viewport-update', { groupId, ...viewport });
+    }
+  }
+
+  public startPresenting(groupId: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('presenter-start', { groupId });
+    }
+  }
+
+  public stopPresenting(groupId: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('presenter-stop', { groupId });
+    }
+  }
+
+  /**
+   * Set (or with null, clear) a status shown instead of online/away
+   */
+  public setStatus(groupId: string, status: ManualStatus | null): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('set-status', { groupId, status });
+    }
+  }
+
+  public updatePresenceSettings(groupId: string, settings: PresenceSettings): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('presence-settings', { groupId, ...settings });
+    }
+  }
+
+  public isInRoom(groupId: string): boolean {
+    return this.joinedRooms.has(groupId);
+  }
+
+  public getRoomRole(groupId: string): CollaborationRole | null {
+    return this.joinedRooms.get(groupId) ?? null;
+  }
+
   // Event listener management
   public on(event: string, callback: Function): void {
     if (!this.eventListeners.has(event)) {
@@ -76,16 +76,74 @@ export interface ProjectStructure {
   createdAt: Date;
 }
 
+// Presence statuses; 'dnd' ("Do not disturb") and a manual 'away' are set by the user
+export type ManualStatus = 'away' | 'dnd';
+export type PresenceStatus = 'online' | 'away' | 'offline' | 'dnd';
+
 // CollaborationUser interface for real-time presence
 export interface CollaborationUser {
   id: string;
   name: string;
   email?: string;
   avatar?: string;
-  status: 'online' | 'away' | 'offline';
+  status: PresenceStatus;
+  manualStatus?: ManualStatus;
   currentFile?: string;
   lastActivity: Date;
   cursorColor: string;
+  allowFollowing?: boolean;
+}
+
+// Roles enforced by the collaboration socket server
+export type CollaborationRole = 'owner' | 'editor' | 'viewer';
+
+// Sent by the socket server when an event is rejected for a room
+export interface PermissionDeniedEvent {
+  event: string;
+  groupId: string;
+  fileId?: string;
+  reason: 'not-joined' | 'insufficient-role' | 'following-disabled';
+  message: string;
+}
+
+// Sent to a file's subscribers when it was saved outside the collaborative session after `baseVersion`;
+// the server writes nothing more until a save reports the outside save merged
+export interface DocumentConflictEvent {
+  fileId: string;
+  baseVersion: number;
+  baseContent: string;
+}
+
+// Sent by the socket server when handling an event failed on its side, e.g. a store was unreachable
+export interface ServerErrorEvent {
+  event: string;
+  message: string;
+}
+
+// Sent by the socket server when an event is dropped for exceeding a rate limit
+export interface RateLimitedEvent {
+  event: string;
+  /** Whether the user's own limit or the room's shared limit was hit */
+  scope: 'user' | 'room';
+  groupId?: string;
+  fileId?: string;
+  /** How long to wait before sending this event again */
+  retryAfterMs: number;
+  message: string;
+}
+
+// Sent to clients of a socket server node that is shutting down
+export interface ServerRestartingEvent {
+  /** When to reconnect; the server spreads its clients over a few seconds */
+  reconnectInMs: number;
+  /** Presented on reconnect so another node puts the client back in its rooms */
+  sessionToken: string;
+  message: string;
+}
+
+// Rooms the server rejoined from a session token after reconnecting
+export interface SessionResumedEvent {
+  groupIds: string[];
 }
 
 // EditorChange interface for operational transformation
@@ -123,6 +181,63 @@ export interface TextSelection {
   color: string;
 }
 
+// Snapshot sent by the socket server when joining a room
+export interface RoomStateEvent {
+  groupId: string;
+  users: CollaborationUser[];
+  cursors: Array<{ fileId: string; position: CursorPosition }>;
+  selections: Array<{ fileId: string; position: TextSelection }>;
+  typing: Array<{ fileId: string; userId: string }>;
+  presenterId: string | null;
+  presenceSettings: PresenceSettings;
+}
+
+// Per-room idle and offline thresholds; null uses the server default
+export interface PresenceSettings {
+  idleTimeoutSeconds: number | null;
+  offlineTimeoutSeconds: number | null;
+}
+
+export interface PresenceChangedEvent {
+  groupId: string;
+  userId: string;
+  status: PresenceStatus;
+  manualStatus: ManualStatus | null;
+  lastActivity: Date;
+}
+
+// Follow mode and presenter mode
+export interface FollowStartedEvent {
+  groupId: string;
+  userId: string;
+  fileId?: string;
+  cursor?: CursorPosition;
+}
+
+export interface FollowStoppedEvent {
+  groupId: string;
+  userId: string;
+  reason: 'unfollowed' | 'not-allowed' | 'left';
+}
+
+export interface FollowViewport {
+  fileId: string;
+  scrollTop: number;
+  scrollLeft: number;
+  line: number;
+  column: number;
+}
+
+export interface ViewportUpdatedEvent extends FollowViewport {
+  userId: string;
+}
+
+export interface PresenterChangedEvent {
+  groupId: string;
+  presenterId: string | null;
+  fileId?: string;
+}
+
 // File change tracking for operational transformation
 export interface FileChange {
   id: string;
@@ -207,4 +322,15 @@ export interface CollaborationError {
   message: string;
   code?: string;
   details?: any;
+}
+
+// A save made against an older version of a file than the server has
+export interface FileVersionConflict {
+  fileId: string;
+  fileName: string;
+  /** The version the save was based on, the common ancestor for merging */
+  baseVersion: number;
+  baseContent: string;
+  localContent: string;
+  serverFile: CollaborationFile;
 }
\ No newline at end of file
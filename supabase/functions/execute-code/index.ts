@@ -10,6 +10,8 @@ interface ExecuteRequest {
   code: string;
   language: string;
   input?: string;
+  /** Respond with server-sent events: each output line as it is produced, then the result */
+  stream?: boolean;
 }
 
 interface ExecuteResponse {
@@ -19,6 +21,11 @@ interface ExecuteResponse {
   executionTime: number;
 }
 
+interface ExecuteOptions {
+  onOutput?: (line: string) => void;
+  signal?: AbortSignal;
+}
+
 const JS_TIMEOUT_MS = 5000;
 
 /**
@@ -26,10 +33,11 @@ const JS_TIMEOUT_MS = 5000;
  *
  * The worker is created with `permissions: "none"`, so user code has no access
  * to the network, environment variables, or the file system, and it runs in a
- * separate isolate that we can hard-terminate on timeout.
+ * separate isolate that we can hard-terminate on timeout. Each console line is
+ * posted as it is logged.
  */
 const WORKER_SOURCE = `
-const outputs = [];
+let lineCount = 0;
 const format = (v) => {
   if (v === null) return 'null';
   if (v === undefined) return 'undefined';
@@ -38,7 +46,9 @@ const format = (v) => {
   return String(v);
 };
 const push = (prefix, args) => {
-  if (outputs.length < 1000) outputs.push(prefix + args.map(format).join(' '));
+  if (lineCount >= 1000) return;
+  lineCount++;
+  self.postMessage({ type: 'output', line: prefix + args.map(format).join(' ') });
 };
 const sandboxConsole = {
   log: (...a) => push('', a),
@@ -54,16 +64,20 @@ self.onmessage = (event) => {
     const fn = new Function('console', 'input', '"use strict";' + code);
     const result = fn(sandboxConsole, input || '');
     Promise.resolve(result)
-      .then(() => self.postMessage({ success: true, outputs }))
-      .catch((err) => self.postMessage({ success: false, outputs, error: String(err && err.message || err) }));
+      .then(() => self.postMessage({ type: 'result', success: true }))
+      .catch((err) => self.postMessage({ type: 'result', success: false, error: String(err && err.message || err) }));
   } catch (err) {
-    self.postMessage({ success: false, outputs, error: String(err && err.message || err) });
+    self.postMessage({ type: 'result', success: false, error: String(err && err.message || err) });
   }
 };
 `;
 
 // Sandboxed JavaScript execution (isolated worker, no permissions, hard timeout)
-async function executeJavaScript(code: string, input?: string): Promise<ExecuteResponse> {
+async function executeJavaScript(
+  code: string,
+  input?: string,
+  { onOutput, signal }: ExecuteOptions = {},
+): Promise<ExecuteResponse> {
   const startTime = Date.now();
   let worker: Worker | undefined;
   let blobUrl: string | undefined;
@@ -86,15 +100,29 @@ async function executeJavaScript(code: string, input?: string): Promise<ExecuteR
   }
 
   const activeWorker = worker;
+  // Kept so a timed-out or stopped run still returns what it printed
+  const outputs: string[] = [];
+  let onAbort: (() => void) | undefined;
 
   try {
-    const result = await new Promise<{ success: boolean; outputs: string[]; error?: string }>(
+    const result = await new Promise<{ success: boolean; error?: string }>(
       (resolve, reject) => {
         const timer = setTimeout(
           () => reject(new Error(`Execution timeout (${JS_TIMEOUT_MS / 1000} seconds)`)),
           JS_TIMEOUT_MS,
         );
+        onAbort = () => {
+          clearTimeout(timer);
+          reject(new Error('Execution stopped'));
+        };
+        if (signal?.aborted) onAbort();
+        signal?.addEventListener('abort', onAbort);
         activeWorker.onmessage = (event: MessageEvent) => {
+          if (event.data.type === 'output') {
+            outputs.push(event.data.line);
+            onOutput?.(event.data.line);
+            return;
+          }
           clearTimeout(timer);
           resolve(event.data);
         };
@@ -106,7 +134,7 @@ async function executeJavaScript(code: string, input?: string): Promise<ExecuteR
       },
     );
 
-    const output = result.outputs.join('\n');
+    const output = outputs.join('\n');
     return {
       success: result.success,
       output: result.success ? (output || '(No output)') : output,
@@ -116,11 +144,12 @@ async function executeJavaScript(code: string, input?: string): Promise<ExecuteR
   } catch (error) {
     return {
       success: false,
-      output: '',
+      output: outputs.join('\n'),
       error: error instanceof Error ? error.message : 'Unknown error',
       executionTime: Date.now() - startTime,
     };
   } finally {
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
     activeWorker.terminate();
     if (blobUrl) URL.revokeObjectURL(blobUrl);
   }
@@ -133,312 +162,8 @@ function formatOutput(value: unknown): string {
   return String(value);
 }
 
-// Python interpreter simulation
-function executePython(code: string, input?: string): ExecuteResponse {
-  const startTime = Date.now();
-  const outputs: string[] = [];
-  const variables: Record<string, unknown> = { 
-    input: input || '',
-    True: true,
-    False: false,
-    None: null,
-  };
-  
-  try {
-    const lines = code.split('\n');
-    let i = 0;
-    
-    while (i < lines.length) {
-      const line = lines[i];
-      const trimmed = line.trim();
-      const indent = line.search(/\S|$/);
-      
-      if (!trimmed || trimmed.startsWith('#')) {
-        i++;
-        continue;
-      }
-
-      // Handle print statements
-      const printMatch = trimmed.match(/^print\s*\((.*)\)\s*$/);
-      if (printMatch) {
-        const content = printMatch[1];
-        const result = evaluatePythonExpression(content, variables);
-        outputs.push(formatPythonOutput(result));
-        i++;
-        continue;
-      }
-
-      // Handle len() function
-      const lenMatch = trimmed.match(/^(\w+)\s*=\s*len\((.+)\)\s*$/);
-      if (lenMatch) {
-        const [, varName, expr] = lenMatch;
-        const value = evaluatePythonExpression(expr, variables);
-        if (typeof value === 'string' || Array.isArray(value)) {
-          variables[varName] = value.length;
-        }
-        i++;
-        continue;
-      }
-
-      // Handle input() function
-      const inputMatch = trimmed.match(/^(\w+)\s*=\s*input\(.*\)\s*$/);
-      if (inputMatch) {
-        variables[inputMatch[1]] = input || '';
-        i++;
-        continue;
-      }
-
-      // Handle list append
-      const appendMatch = trimmed.match(/^(\w+)\.append\((.+)\)\s*$/);
-      if (appendMatch) {
-        const [, listName, expr] = appendMatch;
-        const list = variables[listName];
-        if (Array.isArray(list)) {
-          list.push(evaluatePythonExpression(expr, variables));
-        }
-        i++;
-        continue;
-      }
-
-      // Handle for loops
-      const forRangeMatch = trimmed.match(/^for\s+(\w+)\s+in\s+range\((.+)\):\s*$/);
-      if (forRangeMatch) {
-        const [, varName, rangeExpr] = forRangeMatch;
-        const rangeArgs = rangeExpr.split(',').map(s => Number(evaluatePythonExpression(s.trim(), variables)));
-        let start = 0, end = 0, step = 1;
-        if (rangeArgs.length === 1) { end = rangeArgs[0]; }
-        else if (rangeArgs.length === 2) { start = rangeArgs[0]; end = rangeArgs[1]; }
-        else if (rangeArgs.length === 3) { start = rangeArgs[0]; end = rangeArgs[1]; step = rangeArgs[2]; }
-        
-        // Find loop body
-        const bodyLines: string[] = [];
-        let j = i + 1;
-        while (j < lines.length && (lines[j].search(/\S|$/) > indent || lines[j].trim() === '')) {
-          if (lines[j].trim()) bodyLines.push(lines[j].trim());
-          j++;
-        }
-        
-        for (let val = start; step > 0 ? val < end : val > end; val += step) {
-          variables[varName] = val;
-          for (const bodyLine of bodyLines) {
-            executePythonLine(bodyLine, variables, outputs);
-          }
-        }
-        i = j;
-        continue;
-      }
-
-      // Handle for-in loop over list
-      const forInMatch = trimmed.match(/^for\s+(\w+)\s+in\s+(\w+):\s*$/);
-      if (forInMatch) {
-        const [, varName, listName] = forInMatch;
-        const list = variables[listName];
-        
-        const bodyLines: string[] = [];
-        let j = i + 1;
-        while (j < lines.length && (lines[j].search(/\S|$/) > indent || lines[j].trim() === '')) {
-          if (lines[j].trim()) bodyLines.push(lines[j].trim());
-          j++;
-        }
-        
-        if (Array.isArray(list)) {
-          for (const item of list) {
-            variables[varName] = item;
-            for (const bodyLine of bodyLines) {
-              executePythonLine(bodyLine, variables, outputs);
-            }
-          }
-        }
-        i = j;
-        continue;
-      }
-
-      // Handle if statements (basic)
-      const ifMatch = trimmed.match(/^if\s+(.+):\s*$/);
-      if (ifMatch) {
-        const condition = evaluatePythonExpression(ifMatch[1], variables);
-        const bodyLines: string[] = [];
-        let j = i + 1;
-        while (j < lines.length && (lines[j].search(/\S|$/) > indent || lines[j].trim() === '')) {
-          if (lines[j].trim()) bodyLines.push(lines[j].trim());
-          j++;
-        }
-        
-        if (condition) {
-          for (const bodyLine of bodyLines) {
-            executePythonLine(bodyLine, variables, outputs);
-          }
-        }
-        i = j;
-        continue;
-      }
-
-      // Handle variable assignments
-      const assignMatch = trimmed.match(/^(\w+)\s*=\s*(.+)$/);
-      if (assignMatch) {
-        const [, varName, expr] = assignMatch;
-        variables[varName] = evaluatePythonExpression(expr, variables);
-        i++;
-        continue;
-      }
-
-      // Handle def functions (skip for now)
-      if (trimmed.startsWith('def ')) {
-        let j = i + 1;
-        while (j < lines.length && (lines[j].search(/\S|$/) > indent || lines[j].trim() === '')) {
-          j++;
-        }
-        i = j;
-        continue;
-      }
-
-      i++;
-    }
-
-    return {
-      success: true,
-      output: outputs.join('\n') || '(No output)',
-      executionTime: Date.now() - startTime,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      output: outputs.join('\n'),
-      error: error instanceof Error ? error.message : 'Syntax error',
-      executionTime: Date.now() - startTime,
-    };
-  }
-}
-
-function executePythonLine(line: string, variables: Record<string, unknown>, outputs: string[]) {
-  const trimmed = line.trim();
-  
-  const printMatch = trimmed.match(/^print\s*\((.*)\)\s*$/);
-  if (printMatch) {
-    const result = evaluatePythonExpression(printMatch[1], variables);
-    outputs.push(formatPythonOutput(result));
-    return;
-  }
-  
-  const assignMatch = trimmed.match(/^(\w+)\s*=\s*(.+)$/);
-  if (assignMatch) {
-    variables[assignMatch[1]] = evaluatePythonExpression(assignMatch[2], variables);
-  }
-}
-
-function formatPythonOutput(value: unknown): string {
-  if (value === null) return 'None';
-  if (value === true) return 'True';
-  if (value === false) return 'False';
-  if (typeof value === 'string') return value;
-  if (Array.isArray(value)) return '[' + value.map(v => formatPythonOutput(v)).join(', ') + ']';
-  if (typeof value === 'object') return JSON.stringify(value);
-  return String(value);
-}
-
-function evaluatePythonExpression(expr: string, variables: Record<string, unknown>): unknown {
-  expr = expr.trim();
-  
-  // Handle f-strings
-  if (expr.startsWith('f"') || expr.startsWith("f'")) {
-    const quote = expr[1];
-    let content = expr.slice(2, expr.lastIndexOf(quote));
-    content = content.replace(/\{([^}]+)\}/g, (_, inner) => {
-      return String(evaluatePythonExpression(inner.trim(), variables) ?? '');
-    });
-    return content;
-  }
-  
-  // String literals
-  if ((expr.startsWith('"') && expr.endsWith('"')) || (expr.startsWith("'") && expr.endsWith("'"))) {
-    return expr.slice(1, -1);
-  }
-  
-  // Triple-quoted strings
-  if (expr.startsWith('"""') || expr.startsWith("'''")) {
-    return expr.slice(3, -3);
-  }
-  
-  // List literals
-  if (expr.startsWith('[') && expr.endsWith(']')) {
-    const inner = expr.slice(1, -1);
-    if (!inner.trim()) return [];
-    return inner.split(',').map(item => evaluatePythonExpression(item.trim(), variables));
-  }
-  
-  // Numbers
-  if (/^-?\d+(\.\d+)?$/.test(expr)) return parseFloat(expr);
-  
-  // Booleans and None
-  if (expr === 'True') return true;
-  if (expr === 'False') return false;
-  if (expr === 'None') return null;
-  
-  // Comparison operators
-  const compOps = ['==', '!=', '>=', '<=', '>', '<'];
-  for (const op of compOps) {
-    const idx = expr.indexOf(op);
-    if (idx > 0) {
-      const left = evaluatePythonExpression(expr.slice(0, idx), variables);
-      const right = evaluatePythonExpression(expr.slice(idx + op.length), variables);
-      switch (op) {
-        case '==': return left === right;
-        case '!=': return left !== right;
-        case '>=': return Number(left) >= Number(right);
-        case '<=': return Number(left) <= Number(right);
-        case '>': return Number(left) > Number(right);
-        case '<': return Number(left) < Number(right);
-      }
-    }
-  }
-  
-  // Variable lookup
-  if (Object.prototype.hasOwnProperty.call(variables, expr)) {
-    return variables[expr];
-  }
-  
-  // Basic arithmetic
-  const addIdx = expr.lastIndexOf('+');
-  if (addIdx > 0) {
-    const left = evaluatePythonExpression(expr.slice(0, addIdx), variables);
-    const right = evaluatePythonExpression(expr.slice(addIdx + 1), variables);
-    if (typeof left === 'number' && typeof right === 'number') return left + right;
-    return String(left) + String(right);
-  }
-  
-  const subIdx = expr.lastIndexOf('-');
-  if (subIdx > 0 && expr[subIdx - 1] !== ' ') {
-    const left = evaluatePythonExpression(expr.slice(0, subIdx), variables);
-    const right = evaluatePythonExpression(expr.slice(subIdx + 1), variables);
-    return Number(left) - Number(right);
-  }
-  
-  const mulIdx = expr.indexOf('*');
-  if (mulIdx > 0) {
-    const left = evaluatePythonExpression(expr.slice(0, mulIdx), variables);
-    const right = evaluatePythonExpression(expr.slice(mulIdx + 1), variables);
-    return Number(left) * Number(right);
-  }
-  
-  const divIdx = expr.indexOf('/');
-  if (divIdx > 0) {
-    const left = evaluatePythonExpression(expr.slice(0, divIdx), variables);
-    const right = evaluatePythonExpression(expr.slice(divIdx + 1), variables);
-    return Number(left) / Number(right);
-  }
-  
-  const modIdx = expr.indexOf('%');
-  if (modIdx > 0) {
-    const left = evaluatePythonExpression(expr.slice(0, modIdx), variables);
-    const right = evaluatePythonExpression(expr.slice(modIdx + 1), variables);
-    return Number(left) % Number(right);
-  }
-  
-  return expr;
-}
-
 // TypeScript execution
-async function executeTypeScript(code: string, input?: string): Promise<ExecuteResponse> {
+async function executeTypeScript(code: string, input?: string, options?: ExecuteOptions): Promise<ExecuteResponse> {
   const jsCode = code
     .replace(/:\s*\w+(\[\])?(\s*[=,\)\{])/g, '$2')
     .replace(/interface\s+\w+\s*\{[^}]*\}/gs, '')
@@ -447,7 +172,7 @@ async function executeTypeScript(code: string, input?: string): Promise<ExecuteR
     .replace(/as\s+\w+/g, '')
     .replace(/:\s*(string|number|boolean|any|void|object|unknown|never)(\[\])?\s*([=,\)\{;])/g, '$3');
   
-  return executeJavaScript(jsCode, input);
+  return executeJavaScript(jsCode, input, options);
 }
 
 // HTML rendering simulation
@@ -698,6 +423,101 @@ const MAX_CODE_LENGTH = 100_000;
 const MAX_INPUT_LENGTH = 10_000;
 const MAX_OUTPUT_LENGTH = 50_000;
 
+// Runs code in the sandbox for its language; `options` only applies to JavaScript and TypeScript
+async function execute(
+  language: string,
+  code: string,
+  input?: string,
+  options?: ExecuteOptions,
+): Promise<ExecuteResponse> {
+  switch (language.toLowerCase()) {
+    case 'javascript':
+    case 'jsx':
+      return executeJavaScript(code, input, options);
+    case 'typescript':
+    case 'tsx':
+      return executeTypeScript(code, input, options);
+    case 'python':
+      // Python runs client-side in Pyodide (src/lib/pythonSandbox.ts)
+      return {
+        success: false,
+        output: '',
+        error: 'Python runs in the browser; this endpoint does not execute it.',
+        executionTime: 0,
+      };
+    case 'html':
+      return executeHTML(code);
+    case 'css':
+    case 'scss':
+      return executeCSS(code);
+    case 'json':
+      return executeJSON(code);
+    case 'sql':
+      return executeSQL(code);
+    case 'markdown':
+      return executeMarkdown(code);
+    case 'shell':
+    case 'bash':
+      return executeShell(code);
+    case 'go':
+    case 'rust':
+    case 'java':
+    case 'c':
+    case 'cpp':
+      return executeCompiledLanguage(code, language);
+    default:
+      return {
+        success: true,
+        output: `Code analysis for ${language}:\n\nLines: ${code.split('\n').length}\nCharacters: ${code.length}\n\nNote: Full execution for ${language} requires a dedicated runtime.`,
+        executionTime: 0,
+      };
+  }
+}
+
+function truncateResult(result: ExecuteResponse): ExecuteResponse {
+  return result.output.length > MAX_OUTPUT_LENGTH
+    ? { ...result, output: result.output.slice(0, MAX_OUTPUT_LENGTH) + '\n… output truncated' }
+    : result;
+}
+
+/**
+ * Streams a run as server-sent events: `{ type: 'output', line }` for each line
+ * as it is produced, then `{ type: 'result', ...ExecuteResponse }`. The run is
+ * stopped if the client disconnects.
+ */
+function streamExecution(language: string, code: string, input?: string): Response {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: Record<string, unknown>) => {
+        if (!controller.signal.aborted) stream.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+      let streamed = 0;
+      const result = await execute(language, code, input, {
+        signal: controller.signal,
+        onOutput: (line) => {
+          // The result carries the output again, truncated, so the stream stops at the same limit
+          if (streamed > MAX_OUTPUT_LENGTH) return;
+          streamed += line.length + 1;
+          send({ type: 'output', line });
+        },
+      });
+      console.log(`Execution completed: ${result.success ? 'success' : 'failed'} in ${result.executionTime}ms`);
+      send({ type: 'result', ...truncateResult(result) });
+      if (!controller.signal.aborted) stream.close();
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -747,63 +567,14 @@ serve(async (req) => {
 
     console.log(`Executing ${language} code (${code.length} chars)`);
 
-
-    let result: ExecuteResponse;
-
-    switch (language.toLowerCase()) {
-      case 'javascript':
-      case 'jsx':
-        result = await executeJavaScript(code, input);
-        break;
-      case 'typescript':
-      case 'tsx':
-        result = await executeTypeScript(code, input);
-        break;
-      case 'python':
-        result = executePython(code, input);
-        break;
-      case 'html':
-        result = executeHTML(code);
-        break;
-      case 'css':
-      case 'scss':
-        result = executeCSS(code);
-        break;
-      case 'json':
-        result = executeJSON(code);
-        break;
-      case 'sql':
-        result = executeSQL(code);
-        break;
-      case 'markdown':
-        result = executeMarkdown(code);
-        break;
-      case 'shell':
-      case 'bash':
-        result = executeShell(code);
-        break;
-      case 'go':
-      case 'rust':
-      case 'java':
-      case 'c':
-      case 'cpp':
-        result = executeCompiledLanguage(code, language);
-        break;
-      default:
-        result = {
-          success: true,
-          output: `Code analysis for ${language}:\n\nLines: ${code.split('\n').length}\nCharacters: ${code.length}\n\nNote: Full execution for ${language} requires a dedicated runtime.`,
-          executionTime: 0,
-        };
+    if (body?.stream) {
+      return streamExecution(language, code, input);
     }
 
+    const result = await execute(language, code, input);
     console.log(`Execution completed: ${result.success ? 'success' : 'failed'} in ${result.executionTime}ms`);
 
-    if (result.output.length > MAX_OUTPUT_LENGTH) {
-      result.output = result.output.slice(0, MAX_OUTPUT_LENGTH) + '\n… output truncated';
-    }
-
-    return json(result);
+    return json(truncateResult(result));
   } catch (error) {
     console.error('Execute code error:', error);
     return json(
@@ -0,0 +1,10 @@
+-- Server-authoritative collaborative editing
+-- The Socket.IO server keeps the Yjs document for each open file and stores its
+-- encoded state next to the plain-text content, so a server restart reloads the
+-- same CRDT history that connected clients already share.
+
+ALTER TABLE public.collaboration_files
+  ADD COLUMN IF NOT EXISTS yjs_state TEXT;
+
+COMMENT ON COLUMN public.collaboration_files.yjs_state IS
+  'Base64-encoded Yjs document state written by the collaboration server';
@@ -0,0 +1,11 @@
+-- Collaboration roles
+-- The collaboration server enforces owner/editor/viewer capabilities. Existing
+-- admin and member participants keep their access (owner and editor
+-- respectively); editor and viewer can now be stored directly.
+
+ALTER TABLE public.room_participants
+  DROP CONSTRAINT IF EXISTS room_participants_role_check;
+
+ALTER TABLE public.room_participants
+  ADD CONSTRAINT room_participants_role_check
+  CHECK (role IN ('owner', 'admin', 'member', 'editor', 'viewer'));
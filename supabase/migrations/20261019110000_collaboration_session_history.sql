@@ -0,0 +1,43 @@
+-- Collaboration session history
+-- The collaboration server records one row per user per room visit: when it
+-- started and ended, how long the user was active, and per-file activity as
+-- { "<file id>": { "active_seconds": n, "edits": n } }. Room owners read it
+-- from the room's Insights view.
+
+CREATE TABLE public.collaboration_session_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  room_id UUID NOT NULL REFERENCES public.collaboration_rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  active_seconds INTEGER NOT NULL DEFAULT 0,
+  file_activity JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_collaboration_session_history_room_started
+  ON public.collaboration_session_history (room_id, started_at DESC);
+
+CREATE INDEX idx_collaboration_session_history_open
+  ON public.collaboration_session_history (updated_at)
+  WHERE ended_at IS NULL;
+
+ALTER TABLE public.collaboration_session_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the collaboration server (service role); readable by room owners
+CREATE POLICY "Room owners can view session history"
+ON public.collaboration_session_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.collaboration_rooms
+    WHERE id = collaboration_session_history.room_id
+    AND created_by = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.room_participants
+    WHERE room_id = collaboration_session_history.room_id
+    AND user_id = auth.uid()
+    AND role IN ('owner', 'admin')
+  )
+);
@@ -0,0 +1,9 @@
+-- Presence thresholds per collaboration room
+-- How long a participant may be inactive before the collaboration server shows
+-- them as away, and then offline. NULL keeps the server-wide default.
+
+ALTER TABLE public.collaboration_rooms
+  ADD COLUMN IF NOT EXISTS idle_timeout_seconds INTEGER
+    CHECK (idle_timeout_seconds IS NULL OR idle_timeout_seconds > 0),
+  ADD COLUMN IF NOT EXISTS offline_timeout_seconds INTEGER
+    CHECK (offline_timeout_seconds IS NULL OR offline_timeout_seconds > 0);
@@ -0,0 +1,40 @@
+-- Collaboration file revisions
+-- The collaboration server keeps point-in-time copies of each file: when a
+-- document is opened with content its history does not end with, at most once
+-- per interval while it is edited, on every explicit save, and when it is
+-- closed. A restore is recorded as a revision pointing at the one it restored.
+-- Room members read the history from the file's History view.
+
+CREATE TABLE public.collaboration_file_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.collaboration_files(id) ON DELETE CASCADE,
+  room_id UUID NOT NULL REFERENCES public.collaboration_rooms(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL DEFAULT 'snapshot'
+    CHECK (reason IN ('snapshot', 'save', 'restore')),
+  restored_from UUID REFERENCES public.collaboration_file_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_collaboration_file_revisions_file_created
+  ON public.collaboration_file_revisions (file_id, created_at DESC);
+
+ALTER TABLE public.collaboration_file_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the collaboration server (service role); readable by room members
+CREATE POLICY "Room members can view file revisions"
+ON public.collaboration_file_revisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.collaboration_rooms
+    WHERE id = collaboration_file_revisions.room_id
+    AND created_by = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.room_participants
+    WHERE room_id = collaboration_file_revisions.room_id
+    AND user_id = auth.uid()
+  )
+);
@@ -0,0 +1,10 @@
+-- Version-checked saves
+-- Every write to a file's content, from the collaboration server or a client,
+-- only lands if the row is still at the version the writer read and moves it
+-- on by one. A NULL version never matches, so rows without one start at 1.
+
+UPDATE public.collaboration_files SET version = 1 WHERE version IS NULL;
+
+ALTER TABLE public.collaboration_files
+  ALTER COLUMN version SET DEFAULT 1,
+  ALTER COLUMN version SET NOT NULL;
@@ -1,15 +1,59 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createReadStream } from "fs";
+import { readFile } from "fs/promises";
+
+// Pyodide's runtime files, served from /pyodide/ so Python runs without a CDN
+const PYODIDE_DIR = path.resolve(__dirname, "node_modules/pyodide");
+const PYODIDE_FILES: Record<string, string> = {
+  "pyodide.asm.mjs": "text/javascript",
+  "pyodide.asm.wasm": "application/wasm",
+  "python_stdlib.zip": "application/zip",
+  "pyodide-lock.json": "application/json",
+};
+
+const pyodideAssets = (): Plugin => ({
+  name: "pyodide-assets",
+  configureServer(server) {
+    server.middlewares.use("/pyodide", (req, res, next) => {
+      const file = (req.url ?? "").split("?")[0].replace(/^\//, "");
+      if (!(file in PYODIDE_FILES)) return next();
+      res.setHeader("Content-Type", PYODIDE_FILES[file]);
+      createReadStream(path.join(PYODIDE_DIR, file)).pipe(res);
+    });
+  },
+  async generateBundle() {
+    for (const file of Object.keys(PYODIDE_FILES)) {
+      this.emitFile({
+        type: "asset",
+        fileName: `pyodide/${file}`,
+        source: await readFile(path.join(PYODIDE_DIR, file)),
+      });
+    }
+  },
+});
+
+// Cross-origin isolation makes SharedArrayBuffer available, which Python's input() needs
+// to wait for the user (src/lib/sharedInput.ts). Deployed builds get them from public/_headers.
+const CROSS_ORIGIN_ISOLATION = {
+  "Cross-Origin-Opener-Policy": "same-origin",
+  "Cross-Origin-Embedder-Policy": "credentialless",
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    headers: CROSS_ORIGIN_ISOLATION,
+  },
+  preview: {
+    headers: CROSS_ORIGIN_ISOLATION,
   },
   plugins: [
     react(),
+    pyodideAssets(),
   ],
   resolve: {
     alias: {
@@ -23,5 +67,9 @@ export default defineConfig(({ mode }) => ({
   },
   optimizeDeps: {
     include: ["dompurify"],
+    exclude: ["pyodide"],
+  },
+  worker: {
+    format: "es",
   },
 }));
\ No newline at end of file